@@ -3,6 +3,7 @@
 import { revalidatePath } from "next/cache";
 
 import { requireUser } from "@/lib/auth";
+import { auditPhotoChange } from "@/lib/data/audit-log";
 import {
   createSupabaseServerClient,
   createSupabaseServiceRoleClient,
@@ -12,18 +13,37 @@ export async function setPhotoVisibilityAction(photoId: string, isVisible: boole
   const user = await requireUser();
   const supabase = createSupabaseServiceRoleClient();
 
-  const { error } = await supabase
-    .from("photos")
-    .update({
-      is_visible: isVisible,
-      updated_by: user.id,
-    })
-    .eq("id", photoId);
-
-  if (error) {
-    throw error;
+  if (isVisible) {
+    // Same constraint as the detail form; scheduled photos wait for their publish time
+    const { data: photo, error: fetchError } = await supabase
+      .from("photos")
+      .select("status")
+      .eq("id", photoId)
+      .single();
+
+    if (fetchError || !photo) {
+      throw new Error("Photo not found");
+    }
+
+    if (photo.status !== "published") {
+      throw new Error("Only published photos can be made visible");
+    }
   }
 
+  await auditPhotoChange({ actor: user, action: "photo.visibility", photoId }, async () => {
+    const { error } = await supabase
+      .from("photos")
+      .update({
+        is_visible: isVisible,
+        updated_by: user.id,
+      })
+      .eq("id", photoId);
+
+    if (error) {
+      throw error;
+    }
+  });
+
   revalidatePath("/admin");
 
   return { success: true };
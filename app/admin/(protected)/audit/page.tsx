@@ -0,0 +1,104 @@
+import Link from "next/link";
+import { ArrowLeft, ChevronRight } from "lucide-react";
+
+import { AuditLogFilters } from "@/components/admin/audit-log-filters";
+import { AuditLogTable } from "@/components/admin/audit-log-table";
+import { Button } from "@/components/ui/button";
+import { isAuditAction, isAuditTargetType } from "@/lib/audit-actions";
+import { fetchAuditLog, type AuditLogFilters as Filters } from "@/lib/data/audit-log";
+import { fetchAllTags } from "@/lib/data/photos";
+
+type SearchParams = {
+  action?: string;
+  type?: string;
+  actor?: string;
+  target?: string;
+  before?: string;
+};
+
+export const dynamic = "force-dynamic";
+
+export default async function AuditLogPage({
+  searchParams,
+}: {
+  searchParams: Promise<SearchParams>;
+}) {
+  const params = await searchParams;
+  const filters = parseAuditLogSearchParams(params);
+
+  const [{ entries, nextCursor }, tags] = await Promise.all([
+    fetchAuditLog(filters),
+    fetchAllTags(),
+  ]);
+
+  const tagNames = Object.fromEntries(tags.map((tag) => [tag.id, tag.name]));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Audit log</h1>
+          <p className="text-sm text-muted-foreground">
+            Every change made from the admin and by scheduled jobs, newest first. Entries cannot be
+            edited or deleted.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to dashboard
+          </Link>
+        </Button>
+      </div>
+
+      <AuditLogFilters
+        action={filters.action}
+        targetType={filters.targetType}
+        actor={filters.actor}
+        targetId={filters.targetId}
+      />
+
+      <AuditLogTable entries={entries} tagNames={tagNames} showTarget />
+
+      {(filters.before || nextCursor) && (
+        <div className="flex items-center justify-end gap-2">
+          {filters.before && (
+            <Button variant="outline" asChild>
+              <Link href={toAuditLogHref(params, null)}>Newest</Link>
+            </Button>
+          )}
+          {nextCursor && (
+            <Button variant="outline" asChild>
+              <Link href={toAuditLogHref(params, nextCursor)}>
+                Older <ChevronRight className="ml-1 h-4 w-4" />
+              </Link>
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Unknown or malformed values are dropped, so stale links still load */
+function parseAuditLogSearchParams(params: SearchParams): Filters {
+  const before = Number.parseInt(params.before ?? "", 10);
+
+  return {
+    action: isAuditAction(params.action) ? params.action : undefined,
+    targetType: isAuditTargetType(params.type) ? params.type : undefined,
+    actor: params.actor?.trim() || undefined,
+    targetId: params.target?.trim() || undefined,
+    before: Number.isFinite(before) && before > 0 ? before : undefined,
+  };
+}
+
+/** The current filters with another page cursor */
+function toAuditLogHref(params: SearchParams, before: number | null) {
+  const query = new URLSearchParams(
+    Object.entries({ ...params, before: before?.toString() }).filter(
+      (entry): entry is [string, string] => typeof entry[1] === "string" && entry[1] !== "",
+    ),
+  ).toString();
+
+  return query ? `/admin/audit?${query}` : "/admin/audit";
+}
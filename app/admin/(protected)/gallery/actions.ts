@@ -0,0 +1,336 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { requireUser } from "@/lib/auth";
+import { auditPhotoChange, type AuditActor } from "@/lib/data/audit-log";
+import { runBulkPhotoOperation } from "@/lib/data/bulk-photo-operation";
+import { archivePhoto, unarchivePhoto } from "@/lib/data/photo-archive";
+import { trashPhoto } from "@/lib/data/photo-deletion";
+import { parsePhotoListSearchParams } from "@/lib/data/photo-list-params";
+import { withPhotoRevision } from "@/lib/data/photo-revisions";
+import {
+  MAX_PHOTO_SELECTION,
+  fetchMatchingPhotoIds,
+  invalidatePhotoYearCache,
+} from "@/lib/data/photos";
+import { enqueuePhotoJob } from "@/lib/jobs/queue";
+import { kickPhotoJobWorker } from "@/lib/jobs/worker";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type { AuditAction } from "@/types/audit";
+import type { BulkPhotoActionResult, Photo } from "@/types/photos";
+
+type SupabaseClient = ReturnType<typeof createSupabaseServiceRoleClient>;
+
+const photoIdsSchema = z.array(z.string().uuid()).min(1).max(MAX_PHOTO_SELECTION);
+
+/**
+ * IDs of every photo matching the gallery URL query (`?q=...&camera=...`),
+ * for "select all matching filter".
+ */
+export async function selectMatchingPhotosAction(query: string) {
+  await requireUser();
+  const { filters, sortBy } = parsePhotoListSearchParams(
+    Object.fromEntries(new URLSearchParams(z.string().max(4000).parse(query))),
+  );
+
+  return fetchMatchingPhotoIds({ ...filters, sortBy });
+}
+
+const bulkVisibilitySchema = z.object({
+  photoIds: photoIdsSchema,
+  isVisible: z.boolean(),
+});
+
+export type BulkVisibilityInput = z.infer<typeof bulkVisibilitySchema>;
+
+export async function bulkSetVisibilityAction(input: BulkVisibilityInput) {
+  const payload = bulkVisibilitySchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  return runBulk(payload.photoIds, { actor: user, action: "photo.visibility" }, async (photoId) => {
+    if (payload.isVisible) {
+      // Same constraint as the detail form: unfinished photos stay hidden
+      const photo = await fetchPhotoFields(supabase, photoId, "status");
+      if (photo.status !== "published") {
+        throw new Error("Only published photos can be made visible");
+      }
+    }
+
+    await updatePhoto(supabase, photoId, { is_visible: payload.isVisible, updated_by: user.id });
+  });
+}
+
+const bulkTagsSchema = z.object({
+  photoIds: photoIdsSchema,
+  tagIds: z.array(z.string().uuid()).min(1).max(50),
+});
+
+export type BulkTagsInput = z.infer<typeof bulkTagsSchema>;
+
+export async function bulkAddTagsAction(input: BulkTagsInput) {
+  const payload = bulkTagsSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const audit = { actor: user, action: "photo.tags", metadata: { added: payload.tagIds } } as const;
+
+  return runBulk(payload.photoIds, audit, async (photoId) => {
+    const rows = payload.tagIds.map((tagId) => ({
+      photo_id: photoId,
+      tag_id: tagId,
+      created_by: user.id,
+      updated_by: user.id,
+    }));
+
+    const { error } = await supabase
+      .from("photo_tag")
+      .upsert(rows, { onConflict: "photo_id,tag_id", ignoreDuplicates: true });
+
+    if (error) {
+      throw error;
+    }
+  });
+}
+
+export async function bulkRemoveTagsAction(input: BulkTagsInput) {
+  const payload = bulkTagsSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+  const audit = { actor: user, action: "photo.tags", metadata: { removed: payload.tagIds } } as const;
+
+  return runBulk(payload.photoIds, audit, async (photoId) => {
+    const { error } = await supabase
+      .from("photo_tag")
+      .delete()
+      .eq("photo_id", photoId)
+      .in("tag_id", payload.tagIds);
+
+    if (error) {
+      throw error;
+    }
+  });
+}
+
+const locationFieldSchema = z
+  .string()
+  .trim()
+  .max(255)
+  .nullable()
+  .optional()
+  .transform((value) => (value === "" ? null : value));
+
+const bulkLocationSchema = z.object({
+  photoIds: photoIdsSchema,
+  // Omitted fields are left alone; null or "" clears them
+  location: z
+    .object({
+      placeName: locationFieldSchema,
+      city: locationFieldSchema,
+      region: locationFieldSchema,
+      country: locationFieldSchema,
+    })
+    .refine((location) => Object.values(location).some((value) => value !== undefined), {
+      message: "Set at least one location field",
+    }),
+});
+
+export type BulkLocationInput = z.input<typeof bulkLocationSchema>;
+
+export async function bulkSetLocationAction(input: BulkLocationInput) {
+  const payload = bulkLocationSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+  const { placeName, city, region, country } = payload.location;
+
+  const values = Object.fromEntries(
+    Object.entries({ place_name: placeName, city, region, country }).filter(
+      ([, value]) => value !== undefined,
+    ),
+  );
+
+  return runBulk(payload.photoIds, { actor: user, action: "photo.location" }, (photoId) =>
+    withPhotoRevision({ photoId, userId: user.id, source: "bulk" }, () =>
+      updatePhoto(supabase, photoId, { ...values, updated_by: user.id }),
+    ),
+  );
+}
+
+/** Ten years either way covers a camera clock set to the wrong year */
+const MAX_CAPTURED_AT_OFFSET_MINUTES = 10 * 366 * 24 * 60;
+
+const bulkShiftCapturedAtSchema = z.object({
+  photoIds: photoIdsSchema,
+  offsetMinutes: z
+    .number()
+    .int()
+    .min(-MAX_CAPTURED_AT_OFFSET_MINUTES)
+    .max(MAX_CAPTURED_AT_OFFSET_MINUTES)
+    .refine((value) => value !== 0, { message: "Offset must not be zero" }),
+});
+
+export type BulkShiftCapturedAtInput = z.infer<typeof bulkShiftCapturedAtSchema>;
+
+/**
+ * Moves each capture date by the same offset, e.g. to fix a camera clock left
+ * on another time zone. Photos without a capture date fail.
+ */
+export async function bulkShiftCapturedAtAction(input: BulkShiftCapturedAtInput) {
+  const payload = bulkShiftCapturedAtSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const audit = {
+    actor: user,
+    action: "photo.captured_at",
+    metadata: { offsetMinutes: payload.offsetMinutes },
+  } as const;
+
+  const result = await runBulk(payload.photoIds, audit, async (photoId) => {
+    const photo = await fetchPhotoFields(supabase, photoId, "captured_at");
+    if (!photo.captured_at) {
+      throw new Error("Photo has no capture date");
+    }
+
+    const shifted = new Date(new Date(photo.captured_at).getTime() + payload.offsetMinutes * 60_000);
+    await withPhotoRevision({ photoId, userId: user.id, source: "bulk" }, () =>
+      updatePhoto(supabase, photoId, { captured_at: shifted.toISOString(), updated_by: user.id }),
+    );
+  });
+  await invalidatePhotoYearCache();
+
+  return result;
+}
+
+const bulkPhotoIdsSchema = z.object({
+  photoIds: photoIdsSchema,
+});
+
+export type BulkPhotoIdsInput = z.infer<typeof bulkPhotoIdsSchema>;
+
+/**
+ * Queues a reprocess job per photo; photos that already have one queued or
+ * running reuse it.
+ */
+export async function bulkReprocessAction(input: BulkPhotoIdsInput) {
+  const payload = bulkPhotoIdsSchema.parse(input);
+  const user = await requireUser();
+
+  const audit = { actor: user, action: "photo.reprocess" } as const;
+
+  const result = await runBulk(payload.photoIds, audit, async (photoId) => {
+    await enqueuePhotoJob("reprocess_photo", { photoId }, { userId: user.id, photoId, dedupe: true });
+  });
+
+  if (result.succeeded > 0) {
+    kickPhotoJobWorker();
+  }
+
+  return result;
+}
+
+const bulkArchiveSchema = bulkPhotoIdsSchema.extend({
+  // Move the originals to cheaper Infrequent Access storage
+  coldStorage: z.boolean().default(false),
+});
+
+export type BulkArchiveInput = z.input<typeof bulkArchiveSchema>;
+
+/** Archived photos are hidden as well, so nothing archived stays public */
+export async function bulkArchiveAction(input: BulkArchiveInput) {
+  const payload = bulkArchiveSchema.parse(input);
+  const user = await requireUser();
+
+  const audit = {
+    actor: user,
+    action: "photo.archive",
+    metadata: { coldStorage: payload.coldStorage },
+  } as const;
+
+  return runBulk(payload.photoIds, audit, (photoId) =>
+    archivePhoto(photoId, user.id, { coldStorage: payload.coldStorage }),
+  );
+}
+
+/** Unarchived photos are published again but stay hidden */
+export async function bulkUnarchiveAction(input: BulkPhotoIdsInput) {
+  const payload = bulkPhotoIdsSchema.parse(input);
+  const user = await requireUser();
+
+  return runBulk(payload.photoIds, { actor: user, action: "photo.unarchive" }, (photoId) =>
+    unarchivePhoto(photoId, user.id),
+  );
+}
+
+/** Moves the photos to the trash; see /admin/gallery/trash */
+export async function bulkTrashAction(input: BulkPhotoIdsInput) {
+  const payload = bulkPhotoIdsSchema.parse(input);
+  const user = await requireUser();
+
+  const result = await runBulk(payload.photoIds, { actor: user, action: "photo.trash" }, (photoId) =>
+    trashPhoto(photoId, user.id),
+  );
+  await invalidatePhotoYearCache();
+
+  return result;
+}
+
+/** Each photo's change is audited separately, marked as part of a bulk action */
+async function runBulk(
+  photoIds: string[],
+  audit: { actor: AuditActor; action: AuditAction; metadata?: Record<string, unknown> },
+  operation: (photoId: string) => Promise<void>,
+): Promise<BulkPhotoActionResult> {
+  const result = await runBulkPhotoOperation(photoIds, (photoId) =>
+    auditPhotoChange(
+      { ...audit, photoId, metadata: { ...audit.metadata, bulk: true } },
+      () => operation(photoId),
+    ),
+  );
+  revalidatePath("/admin/gallery");
+  return result;
+}
+
+async function fetchPhotoFields<K extends keyof Photo & string>(
+  supabase: SupabaseClient,
+  photoId: string,
+  columns: K,
+): Promise<Pick<Photo, K>> {
+  const { data, error } = await supabase
+    .from("photos")
+    .select(columns)
+    .eq("id", photoId)
+    .maybeSingle<Pick<Photo, K>>();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error("Photo not found");
+  }
+
+  return data;
+}
+
+async function updatePhoto(
+  supabase: SupabaseClient,
+  photoId: string,
+  values: Partial<Photo>,
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("photos")
+    .update(values)
+    .eq("id", photoId)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error("Photo not found");
+  }
+}
@@ -0,0 +1,101 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+
+import { AlbumPhotos } from "@/components/admin/album/album-photos";
+import { AlbumSettings } from "@/components/admin/album/album-settings";
+import {
+  SmartAlbumRulesEditor,
+  type SmartAlbumRuleOptions,
+} from "@/components/admin/album/smart-album-rules-editor";
+import { Button } from "@/components/ui/button";
+import { fetchAlbum, SMART_ALBUM_SORT } from "@/lib/data/albums";
+import { toPhotoListSearchParams } from "@/lib/data/photo-list-params";
+import {
+  fetchAllTags,
+  fetchExifFilterOptions,
+  fetchPhotoFacets,
+  fetchPhotoYears,
+} from "@/lib/data/photos";
+
+interface AlbumPageProps {
+  params: Promise<{
+    "album-id": string;
+  }>;
+}
+
+export const dynamic = "force-dynamic";
+
+export default async function AlbumPage({ params }: AlbumPageProps) {
+  const resolvedParams = await params;
+  const album = await fetchAlbum(resolvedParams["album-id"]);
+
+  if (!album) {
+    notFound();
+  }
+
+  const { photos, smart, ...details } = album;
+  const photoCount = smart?.photoCount ?? photos.length;
+  const ruleOptions = smart ? await fetchRuleOptions() : null;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">{album.title}</h1>
+          <p className="text-sm text-muted-foreground">
+            {smart ? "Smart album · " : ""}
+            {photoCount} {photoCount === 1 ? "photo" : "photos"}
+            {album.is_visible ? "" : " · Hidden"}
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/gallery/albums">
+            <ArrowLeft className="mr-2 h-4 w-4" /> All albums
+          </Link>
+        </Button>
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+        <AlbumPhotos
+          albumId={album.id}
+          coverPhotoId={album.cover_photo_id}
+          photos={photos}
+          smart={
+            smart
+              ? {
+                  photoCount: smart.photoCount,
+                  galleryHref: `/admin/gallery?${new URLSearchParams(
+                    toPhotoListSearchParams(smart.rules, SMART_ALBUM_SORT),
+                  )}`,
+                }
+              : undefined
+          }
+        />
+        <div className="space-y-6">
+          {smart && ruleOptions && (
+            // Remounts after a save so the editor starts from the saved rules
+            <SmartAlbumRulesEditor
+              key={JSON.stringify(smart.rules)}
+              albumId={album.id}
+              rules={smart.rules}
+              options={ruleOptions}
+            />
+          )}
+          <AlbumSettings album={details} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+async function fetchRuleOptions(): Promise<SmartAlbumRuleOptions> {
+  const [tags, facets, exif, years] = await Promise.all([
+    fetchAllTags(),
+    fetchPhotoFacets({}),
+    fetchExifFilterOptions(),
+    fetchPhotoYears(),
+  ]);
+
+  return { tags, cameras: facets.camera, lenses: facets.lens, countries: facets.country, years, exif };
+}
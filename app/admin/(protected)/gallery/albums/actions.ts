@@ -0,0 +1,646 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { requireUser } from "@/lib/auth";
+import { type AuditActor, recordAudit } from "@/lib/data/audit-log";
+import { runBulkPhotoOperation } from "@/lib/data/bulk-photo-operation";
+import { isPhotoMatchingFilters, MAX_PHOTO_SELECTION } from "@/lib/data/photos";
+import { SLUG_PATTERN, slugify } from "@/lib/slugs";
+import { parseSmartAlbumRules, smartAlbumRulesSchema } from "@/lib/smart-album-rules";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type { AuditAction } from "@/types/audit";
+import type { Album, AlbumPhoto } from "@/types/photos";
+
+type SupabaseClient = ReturnType<typeof createSupabaseServiceRoleClient>;
+
+/** Album fields recorded in the audit log when it is created, edited or deleted */
+const ALBUM_AUDIT_COLUMNS = "title, slug, description, is_visible, rules";
+
+/** What adding or removing photos changes: the photo count and, possibly, the cover */
+type AlbumMembership = {
+  photo_count: number;
+  cover_photo_id: string | null;
+};
+
+const albumFieldsSchema = z.object({
+  title: z.string().trim().min(1, "Enter a title").max(120),
+  // Left empty, the slug is derived from the title
+  slug: z
+    .string()
+    .trim()
+    .max(64)
+    .refine((slug) => slug === "" || SLUG_PATTERN.test(slug), {
+      message: "Use lowercase letters, numbers and dashes",
+    })
+    .nullable()
+    .optional(),
+  description: z
+    .string()
+    .trim()
+    .max(2000)
+    .nullable()
+    .optional()
+    .transform((value) => value || null),
+  isVisible: z.boolean(),
+});
+
+const createAlbumSchema = albumFieldsSchema.extend({
+  // Set for a smart album, whose photos are the ones matching the rules
+  rules: smartAlbumRulesSchema.nullable().optional(),
+});
+
+export type CreateAlbumInput = z.input<typeof createAlbumSchema>;
+
+export async function createAlbumAction(input: CreateAlbumInput) {
+  const payload = createAlbumSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const slug = resolveSlug(payload.title, payload.slug);
+
+  // New albums go last
+  const { data: last, error: lastError } = await supabase
+    .from("albums")
+    .select("position")
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastError) {
+    throw lastError;
+  }
+
+  const { data, error } = await supabase
+    .from("albums")
+    .insert({
+      title: payload.title,
+      slug,
+      description: payload.description,
+      is_visible: payload.isVisible,
+      rules: payload.rules ?? null,
+      position: (last?.position ?? -1) + 1,
+      created_by: user.id,
+      updated_by: user.id,
+    })
+    .select("id, title, slug, description, is_visible, rules")
+    .single();
+
+  if (error) {
+    throw toAlbumError(error, slug);
+  }
+
+  const { id: albumId, ...created } = data;
+
+  await recordAudit({
+    actor: user,
+    action: "album.create",
+    targetType: "album",
+    targetId: albumId as string,
+    before: null,
+    after: created,
+  });
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true, albumId: albumId as string };
+}
+
+const updateAlbumSchema = albumFieldsSchema.extend({
+  albumId: z.string().uuid(),
+});
+
+export type UpdateAlbumInput = z.input<typeof updateAlbumSchema>;
+
+export async function updateAlbumAction(input: UpdateAlbumInput) {
+  const payload = updateAlbumSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const slug = resolveSlug(payload.title, payload.slug);
+
+  const { data: before, error: beforeError } = await supabase
+    .from("albums")
+    .select(ALBUM_AUDIT_COLUMNS)
+    .eq("id", payload.albumId)
+    .maybeSingle();
+
+  if (beforeError) {
+    throw beforeError;
+  }
+
+  if (!before) {
+    throw new Error("Album not found");
+  }
+
+  const { data: after, error } = await supabase
+    .from("albums")
+    .update({
+      title: payload.title,
+      slug,
+      description: payload.description,
+      is_visible: payload.isVisible,
+      updated_by: user.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", payload.albumId)
+    .select(ALBUM_AUDIT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw toAlbumError(error, slug);
+  }
+
+  if (!after) {
+    throw new Error("Album not found");
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "album.update",
+    targetType: "album",
+    targetId: payload.albumId,
+    before,
+    after,
+  });
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true };
+}
+
+const smartAlbumRulesInputSchema = z.object({
+  albumId: z.string().uuid(),
+  rules: smartAlbumRulesSchema,
+});
+
+export type SmartAlbumRulesInput = z.input<typeof smartAlbumRulesInputSchema>;
+
+/** Replaces a smart album's rules; its photos follow at once */
+export async function updateSmartAlbumRulesAction(input: SmartAlbumRulesInput) {
+  const payload = smartAlbumRulesInputSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const album = await fetchAlbumFields(supabase, payload.albumId);
+  if (!album.rules) {
+    throw new Error("Rules can only be set on smart albums");
+  }
+
+  const { error } = await supabase
+    .from("albums")
+    .update({
+      rules: payload.rules,
+      updated_by: user.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", payload.albumId);
+
+  if (error) {
+    throw error;
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "album.rules",
+    targetType: "album",
+    targetId: payload.albumId,
+    before: { rules: album.rules },
+    after: { rules: payload.rules },
+  });
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true };
+}
+
+const albumIdSchema = z.object({
+  albumId: z.string().uuid(),
+});
+
+export type AlbumIdInput = z.infer<typeof albumIdSchema>;
+
+/** Deletes the album; its photos stay in the gallery */
+export async function deleteAlbumAction(input: AlbumIdInput) {
+  const payload = albumIdSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const { count, error: entriesError } = await supabase
+    .from("album_photo")
+    .delete({ count: "exact" })
+    .eq("album_id", payload.albumId);
+
+  if (entriesError) {
+    throw entriesError;
+  }
+
+  const { data: album, error } = await supabase
+    .from("albums")
+    .delete()
+    .eq("id", payload.albumId)
+    .select(ALBUM_AUDIT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (album) {
+    await recordAudit({
+      actor: user,
+      action: "album.delete",
+      targetType: "album",
+      targetId: payload.albumId,
+      before: album,
+      after: null,
+      metadata: { photoCount: count ?? 0 },
+    });
+  }
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true };
+}
+
+const reorderAlbumsSchema = z.object({
+  albumIds: z.array(z.string().uuid()).min(1).max(1000),
+});
+
+export type ReorderAlbumsInput = z.infer<typeof reorderAlbumsSchema>;
+
+/** Saves the albums page order; `albumIds` must list every album */
+export async function reorderAlbumsAction(input: ReorderAlbumsInput) {
+  const payload = reorderAlbumsSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const { data: albums, error } = await supabase
+    .from("albums")
+    .select("id")
+    .order("position", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const listed = new Set(payload.albumIds);
+  if (
+    listed.size !== payload.albumIds.length ||
+    (albums ?? []).length !== listed.size ||
+    (albums ?? []).some((album) => !listed.has(album.id as string))
+  ) {
+    throw new Error("Albums were added or deleted meanwhile; reload and try again");
+  }
+
+  const now = new Date().toISOString();
+  // An upsert of positions alone would fail the NOT NULL checks on title and slug
+  const results = await Promise.all(
+    payload.albumIds.map((albumId, position) =>
+      supabase
+        .from("albums")
+        .update({ position, updated_by: user.id, updated_at: now })
+        .eq("id", albumId),
+    ),
+  );
+
+  const failed = results.find((result) => result.error);
+  if (failed?.error) {
+    throw failed.error;
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "album.reorder",
+    targetType: "album",
+    targetId: null,
+    before: { album_ids: (albums ?? []).map((album) => album.id as string) },
+    after: { album_ids: payload.albumIds },
+  });
+
+  revalidatePath("/admin/gallery/albums");
+
+  return { success: true };
+}
+
+const albumPhotosSchema = z.object({
+  albumId: z.string().uuid(),
+  photoIds: z.array(z.string().uuid()).min(1).max(MAX_PHOTO_SELECTION),
+});
+
+export type AlbumPhotosInput = z.infer<typeof albumPhotosSchema>;
+
+/**
+ * Appends photos to the end of an album, in the given order. Photos already
+ * in the album keep their place. An album without a cover gets the first
+ * added photo.
+ */
+export async function addPhotosToAlbumAction(input: AlbumPhotosInput) {
+  const payload = albumPhotosSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const album = await fetchAlbumFields(supabase, payload.albumId);
+  assertManualAlbum(album);
+  const before = await fetchAlbumMembership(supabase, payload.albumId);
+  const entries = await fetchAlbumEntries(supabase, payload.albumId);
+  const start = (entries.at(-1)?.position ?? -1) + 1;
+  const positions = new Map(
+    Array.from(new Set(payload.photoIds), (photoId, i) => [photoId, start + i]),
+  );
+
+  const result = await runBulkPhotoOperation(payload.photoIds, async (photoId) => {
+    const { error } = await supabase.from("album_photo").upsert(
+      {
+        album_id: payload.albumId,
+        photo_id: photoId,
+        position: positions.get(photoId),
+        created_by: user.id,
+      },
+      { onConflict: "album_id,photo_id", ignoreDuplicates: true },
+    );
+
+    if (error) {
+      // The photo was deleted meanwhile
+      if (error.code === "23503") {
+        throw new Error("Photo not found");
+      }
+      throw error;
+    }
+  });
+
+  const firstAdded = result.results.find((entry) => entry.success)?.photoId;
+  if (!album.cover_photo_id && firstAdded) {
+    await setCover(supabase, payload.albumId, firstAdded, user.id);
+  }
+
+  await recordAlbumMembershipChange({
+    actor: user,
+    action: "album.add_photos",
+    albumId: payload.albumId,
+    before,
+    photoIds: result.results.filter((entry) => entry.success).map((entry) => entry.photoId),
+  });
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return result;
+}
+
+/** Takes photos out of an album; the photos themselves are not changed */
+export async function removePhotosFromAlbumAction(input: AlbumPhotosInput) {
+  const payload = albumPhotosSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const album = await fetchAlbumFields(supabase, payload.albumId);
+  assertManualAlbum(album);
+  const before = await fetchAlbumMembership(supabase, payload.albumId);
+
+  const { count, error } = await supabase
+    .from("album_photo")
+    .delete({ count: "exact" })
+    .eq("album_id", payload.albumId)
+    .in("photo_id", payload.photoIds);
+
+  if (error) {
+    throw error;
+  }
+
+  // A removed cover is replaced by the album's new first photo
+  if (album.cover_photo_id && payload.photoIds.includes(album.cover_photo_id)) {
+    const [first] = await fetchAlbumEntries(supabase, payload.albumId);
+    await setCover(supabase, payload.albumId, first?.photo_id ?? null, user.id);
+  }
+
+  await recordAlbumMembershipChange({
+    actor: user,
+    action: "album.remove_photos",
+    albumId: payload.albumId,
+    before,
+    photoIds: payload.photoIds,
+  });
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true, removed: count ?? 0 };
+}
+
+/**
+ * Saves the order of an album's photos. Photos missing from `photoIds`,
+ * such as ones in the trash, keep their relative order after the rest.
+ */
+export async function reorderAlbumPhotosAction(input: AlbumPhotosInput) {
+  const payload = albumPhotosSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  assertManualAlbum(await fetchAlbumFields(supabase, payload.albumId));
+
+  const entries = await fetchAlbumEntries(supabase, payload.albumId);
+  const current = new Set(entries.map((entry) => entry.photo_id));
+
+  if (
+    new Set(payload.photoIds).size !== payload.photoIds.length ||
+    payload.photoIds.some((photoId) => !current.has(photoId))
+  ) {
+    throw new Error("The album changed meanwhile; reload and try again");
+  }
+
+  const listed = new Set(payload.photoIds);
+  const order = [
+    ...payload.photoIds,
+    ...entries.map((entry) => entry.photo_id).filter((photoId) => !listed.has(photoId)),
+  ];
+
+  const { error } = await supabase.from("album_photo").upsert(
+    order.map((photoId, position) => ({
+      album_id: payload.albumId,
+      photo_id: photoId,
+      position,
+    })),
+    { onConflict: "album_id,photo_id" },
+  );
+
+  if (error) {
+    throw error;
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "album.reorder_photos",
+    targetType: "album",
+    targetId: payload.albumId,
+    before: { photo_ids: entries.map((entry) => entry.photo_id) },
+    after: { photo_ids: order },
+  });
+
+  revalidatePath("/admin/gallery/albums");
+
+  return { success: true };
+}
+
+const albumCoverSchema = z.object({
+  albumId: z.string().uuid(),
+  photoId: z.string().uuid(),
+});
+
+export type AlbumCoverInput = z.infer<typeof albumCoverSchema>;
+
+export async function setAlbumCoverAction(input: AlbumCoverInput) {
+  const payload = albumCoverSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const album = await fetchAlbumFields(supabase, payload.albumId);
+  const isInAlbum = album.rules
+    ? await isPhotoMatchingFilters(payload.photoId, parseSmartAlbumRules(album.rules))
+    : (await fetchAlbumEntries(supabase, payload.albumId)).some(
+        (entry) => entry.photo_id === payload.photoId,
+      );
+
+  if (!isInAlbum) {
+    throw new Error("The cover must be a photo in the album");
+  }
+
+  await setCover(supabase, payload.albumId, payload.photoId, user.id);
+
+  await recordAudit({
+    actor: user,
+    action: "album.cover",
+    targetType: "album",
+    targetId: payload.albumId,
+    before: { cover_photo_id: album.cover_photo_id },
+    after: { cover_photo_id: payload.photoId },
+  });
+
+  revalidatePath("/admin/gallery/albums");
+
+  return { success: true };
+}
+
+function resolveSlug(title: string, slug: string | null | undefined): string {
+  const resolved = slug || slugify(title);
+  if (!resolved) {
+    throw new Error("Enter a slug; the title has no letters or digits to build one from");
+  }
+  return resolved;
+}
+
+async function fetchAlbumFields(supabase: SupabaseClient, albumId: string) {
+  const { data, error } = await supabase
+    .from("albums")
+    .select("id, cover_photo_id, rules")
+    .eq("id", albumId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error("Album not found");
+  }
+
+  return data as Pick<Album, "id" | "cover_photo_id" | "rules">;
+}
+
+/** Smart albums' photos follow their rules, so they cannot be added or moved by hand */
+function assertManualAlbum(album: Pick<Album, "rules">) {
+  if (album.rules) {
+    throw new Error("Smart album photos follow the album's rules and cannot be changed by hand");
+  }
+}
+
+async function fetchAlbumEntries(
+  supabase: SupabaseClient,
+  albumId: string,
+): Promise<Array<Pick<AlbumPhoto, "photo_id" | "position">>> {
+  const { data, error } = await supabase
+    .from("album_photo")
+    .select("photo_id, position")
+    .eq("album_id", albumId)
+    .order("position", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as Array<Pick<AlbumPhoto, "photo_id" | "position">> | null) ?? [];
+}
+
+async function fetchAlbumMembership(
+  supabase: SupabaseClient,
+  albumId: string,
+): Promise<AlbumMembership> {
+  const [{ count, error }, album] = await Promise.all([
+    supabase
+      .from("album_photo")
+      .select("photo_id", { count: "exact", head: true })
+      .eq("album_id", albumId),
+    fetchAlbumFields(supabase, albumId),
+  ]);
+
+  if (error) {
+    throw error;
+  }
+
+  return { photo_count: count ?? 0, cover_photo_id: album.cover_photo_id };
+}
+
+/** Album entries are not listed in full; the photo IDs acted on go into the metadata */
+async function recordAlbumMembershipChange({
+  actor,
+  action,
+  albumId,
+  before,
+  photoIds,
+}: {
+  actor: AuditActor;
+  action: AuditAction;
+  albumId: string;
+  before: AlbumMembership;
+  photoIds: string[];
+}): Promise<void> {
+  let after: AlbumMembership;
+  try {
+    after = await fetchAlbumMembership(createSupabaseServiceRoleClient(), albumId);
+  } catch (error) {
+    console.error("[audit-log] Failed to read album after change:", { albumId, action, error });
+    return;
+  }
+
+  await recordAudit({
+    actor,
+    action,
+    targetType: "album",
+    targetId: albumId,
+    before,
+    after,
+    metadata: { photoIds },
+  });
+}
+
+async function setCover(
+  supabase: SupabaseClient,
+  albumId: string,
+  photoId: string | null,
+  userId: string,
+): Promise<void> {
+  const { error } = await supabase
+    .from("albums")
+    .update({ cover_photo_id: photoId, updated_by: userId, updated_at: new Date().toISOString() })
+    .eq("id", albumId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+function toAlbumError(error: { code?: string; message: string }, slug: string) {
+  if (error.code === "23505") {
+    return new Error(`The slug "${slug}" is already used by another album`);
+  }
+  return error;
+}
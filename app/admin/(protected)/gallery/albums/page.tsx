@@ -0,0 +1,32 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+import { AlbumList } from "@/components/admin/album-list";
+import { Button } from "@/components/ui/button";
+import { fetchAlbums } from "@/lib/data/albums";
+
+export const dynamic = "force-dynamic";
+
+export default async function AlbumsPage() {
+  const albums = await fetchAlbums();
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Albums</h1>
+          <p className="text-sm text-muted-foreground">
+            Group photos into albums with their own order and cover.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/gallery">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to gallery
+          </Link>
+        </Button>
+      </div>
+
+      <AlbumList albums={albums} />
+    </div>
+  );
+}
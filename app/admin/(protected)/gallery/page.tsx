@@ -1,16 +1,28 @@
 import Link from "next/link";
+import { Images, Link2, Tags, Trash2 } from "lucide-react";
 
+import { PhotoBrowser } from "@/components/admin/photo-browser";
+import { PhotoExifFilters } from "@/components/admin/photo-exif-filters";
+import { PhotoFacetFilters } from "@/components/admin/photo-facet-filters";
 import { PhotoFilters } from "@/components/admin/photo-filters";
-import { PhotoPagination } from "@/components/admin/photo-pagination";
-import { PhotoTable } from "@/components/admin/photo-table";
+import { PhotoSearch } from "@/components/admin/photo-search";
+import { PhotoViewToggle } from "@/components/admin/photo-view-toggle";
 import { Button } from "@/components/ui/button";
-import { fetchPhotoList } from "@/lib/data/photos";
+import { fetchAlbumOptions } from "@/lib/data/albums";
+import {
+  parsePhotoListSearchParams,
+  type PhotoListSearchParams,
+} from "@/lib/data/photo-list-params";
+import {
+  fetchAllTags,
+  fetchExifFilterOptions,
+  fetchPhotoFacets,
+  fetchPhotoList,
+  fetchPhotoYears,
+} from "@/lib/data/photos";
 
-type SearchParams = {
-  page?: string;
-  visibility?: string;
-  year?: string;
-  sort?: string;
+type SearchParams = PhotoListSearchParams & {
+  view?: string;
 };
 
 export const dynamic = "force-dynamic";
@@ -21,28 +33,17 @@ export default async function GalleryPage({
   searchParams: SearchParams;
 }) {
   const actualSearchParams = await searchParams;
-  const page = Math.max(1, Number.parseInt(actualSearchParams.page ?? "1", 10) || 1);
-  const visibilityParam = parseVisibility(actualSearchParams.visibility);
-  const yearParam = parseYear(actualSearchParams.year);
-  const sortParam = parseSort(actualSearchParams.sort);
+  const { filters, sortBy } = parsePhotoListSearchParams(actualSearchParams);
+  const view = actualSearchParams.view === "grid" ? "grid" : "table";
 
-  let result = await fetchPhotoList({
-    page,
-    visibility: visibilityParam,
-    year: yearParam,
-    sortBy: sortParam,
-  });
-
-  if (page > result.pages && result.total > 0) {
-    result = await fetchPhotoList({
-      page: result.pages,
-      visibility: visibilityParam,
-      year: yearParam,
-      sortBy: sortParam,
-    });
-  }
-
-  const { items, total, pages, availableYears, pageSize, page: resolvedPage } = result;
+  const [result, facets, exifOptions, availableYears, tags, albums] = await Promise.all([
+    fetchPhotoList({ ...filters, sortBy }),
+    fetchPhotoFacets(filters),
+    fetchExifFilterOptions(),
+    fetchPhotoYears(),
+    fetchAllTags(),
+    fetchAlbumOptions(),
+  ]);
 
   return (
     <div className="space-y-8">
@@ -53,46 +54,80 @@ export default async function GalleryPage({
             Upload, review, and curate dogrod Studio photo library.
           </p>
         </div>
-        <Button asChild>
-          <Link href="/admin/upload">Upload photos</Link>
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin/gallery/albums">
+              <Images className="mr-2 h-4 w-4" /> Albums
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/gallery/tags">
+              <Tags className="mr-2 h-4 w-4" /> Tags
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/gallery/share-links">
+              <Link2 className="mr-2 h-4 w-4" /> Share links
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/admin/gallery/trash">
+              <Trash2 className="mr-2 h-4 w-4" /> Trash
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/admin/upload">Upload photos</Link>
+          </Button>
+        </div>
       </div>
 
-      <PhotoFilters
-        visibility={visibilityParam}
-        year={yearParam}
-        availableYears={availableYears}
-        sortBy={sortParam}
-      />
+      <div className="space-y-4">
+        <PhotoSearch query={filters.query ?? ""} />
 
-      <PhotoTable photos={items} />
+        <div className="flex flex-wrap items-center gap-4">
+          <PhotoFilters
+            visibility={filters.visibility ?? "all"}
+            year={filters.year}
+            availableYears={availableYears}
+            sortBy={sortBy}
+            archived={filters.status === "archived"}
+          />
+          <PhotoExifFilters
+            options={exifOptions}
+            values={{
+              make: filters.make,
+              focal: filters.focalLength,
+              aperture: filters.aperture,
+              iso: filters.iso,
+              shutter: filters.shutter,
+            }}
+          />
+          <div className="ml-auto">
+            <PhotoViewToggle view={view} />
+          </div>
+        </div>
+
+        <PhotoFacetFilters
+          facets={facets}
+          selected={{
+            camera: filters.camera,
+            lens: filters.lens,
+            country: filters.country,
+            tag: filters.tagId,
+            orientation: filters.orientation,
+            status: filters.status,
+          }}
+        />
+      </div>
 
-      <PhotoPagination
-        page={resolvedPage}
-        pages={pages}
-        total={total}
-        pageSize={pageSize}
+      {/* Remounts on filter or sort changes, dropping pages loaded for the old ones */}
+      <PhotoBrowser
+        key={JSON.stringify({ filters, sortBy })}
+        initial={result}
+        view={view}
+        tags={tags}
+        albums={albums}
       />
     </div>
   );
 }
-
-function parseVisibility(value: string | undefined) {
-  if (value === "visible" || value === "hidden") {
-    return value;
-  }
-  return "all" as const;
-}
-
-function parseYear(value: string | undefined) {
-  if (!value) return undefined;
-  const year = Number.parseInt(value, 10);
-  return Number.isFinite(year) ? year : undefined;
-}
-
-function parseSort(value: string | undefined): "added" | "taken" {
-  if (value === "taken") {
-    return "taken";
-  }
-  return "added";
-}
@@ -4,10 +4,22 @@ import { revalidatePath } from "next/cache";
 import { z } from "zod";
 
 import { requireUser } from "@/lib/auth";
+import { auditPhotoChange, recordAudit } from "@/lib/data/audit-log";
+import { archivePhoto, unarchivePhoto } from "@/lib/data/photo-archive";
+import { restorePhoto, trashPhoto } from "@/lib/data/photo-deletion";
+import {
+  PHOTO_REVISION_FIELDS,
+  fetchPhotoRevision,
+  withPhotoRevision,
+} from "@/lib/data/photo-revisions";
+import { invalidatePhotoYearCache } from "@/lib/data/photos";
 import { getEnv } from "@/lib/env";
+import { enqueuePhotoJob } from "@/lib/jobs/queue";
+import { kickPhotoJobWorker } from "@/lib/jobs/worker";
 import { reverseGeocode } from "@/lib/mapbox/geocoder";
+import { isProcessedStatus } from "@/lib/photo-status";
 import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
-import { reprocessPhoto } from "@/lib/uploads/photo-processor";
+import type { PhotoStatus } from "@/types/photos";
 
 const updatePhotoSchema = z.object({
   photoId: z.string().uuid(),
@@ -19,6 +31,9 @@ const updatePhotoSchema = z.object({
   region: z.string().trim().max(255).nullable(),
   country: z.string().trim().max(255).nullable(),
   isVisible: z.boolean(),
+  visibility: z.enum(["public", "unlisted", "private"]),
+  /** A future time schedules the photo; null or a past time does not */
+  publishAt: z.string().datetime().nullable(),
   tagIds: z.array(z.string().uuid()),
 });
 
@@ -40,15 +55,50 @@ export async function updatePhotoAction(input: UpdatePhotoInput) {
     throw new Error("Photo not found");
   }
 
+  // Scheduling: a future publish time holds a processed photo back as
+  // "scheduled" until publishDuePhotos publishes it. Clearing the time,
+  // or setting one in the past, publishes it right away.
+  const isScheduling = payload.publishAt !== null && new Date(payload.publishAt) > new Date();
+  let status = currentPhoto.status as PhotoStatus;
+
+  if (isScheduling) {
+    if (status === "archived") {
+      throw new Error("Unarchive the photo before scheduling it.");
+    }
+    if (!isProcessedStatus(status)) {
+      throw new Error(
+        "Cannot schedule photo while processing is incomplete. Please reprocess the photo first."
+      );
+    }
+    if (payload.isVisible) {
+      throw new Error("A scheduled photo stays hidden until its publish time.");
+    }
+    status = "scheduled";
+  } else if (status === "scheduled") {
+    status = "published";
+  }
+
   // ⚠️ VISIBILITY CONSTRAINT:
   // Photos that are not "published" cannot be made visible or have public visibility.
   // This prevents incomplete/failed uploads from being exposed.
-  if (currentPhoto.status !== "published" && payload.isVisible) {
+  if (status === "archived" && payload.isVisible) {
+    throw new Error("Archived photos stay hidden. Unarchive the photo first.");
+  }
+  if (status !== "published" && payload.isVisible) {
     throw new Error(
       "Cannot make photo visible while processing is incomplete. Please reprocess the photo first."
     );
   }
 
+  // Unfinished photos keep their audience; they can only be made private
+  const isWideningAudience =
+    payload.visibility !== "private" && payload.visibility !== currentPhoto.visibility;
+  if (!isProcessedStatus(status) && isWideningAudience) {
+    throw new Error(
+      "Cannot share photo while processing is incomplete. Please reprocess the photo first."
+    );
+  }
+
   const updatePayload = {
     title: payload.title,
     description: payload.description,
@@ -58,43 +108,52 @@ export async function updatePhotoAction(input: UpdatePhotoInput) {
     region: payload.region,
     country: payload.country,
     is_visible: payload.isVisible,
+    visibility: payload.visibility,
+    status,
+    publish_at: payload.publishAt,
     updated_by: user.id,
   };
 
-  const { error: photoError } = await supabase
-    .from("photos")
-    .update(updatePayload)
-    .eq("id", payload.photoId);
-
-  if (photoError) {
-    throw photoError;
-  }
-
-  const { error: deleteError } = await supabase
-    .from("photo_tag")
-    .delete()
-    .eq("photo_id", payload.photoId);
+  const revision = { photoId: payload.photoId, userId: user.id, source: "edit" } as const;
 
-  if (deleteError) {
-    throw deleteError;
-  }
+  await auditPhotoChange({ actor: user, action: "photo.update", photoId: payload.photoId }, async () => {
+    await withPhotoRevision(revision, async () => {
+      const { error: photoError } = await supabase
+        .from("photos")
+        .update(updatePayload)
+        .eq("id", payload.photoId);
 
-  if (payload.tagIds.length > 0) {
-    const tagRows = payload.tagIds.map((tagId) => ({
-      photo_id: payload.photoId,
-      tag_id: tagId,
-      created_by: user.id,
-      updated_by: user.id,
-    }));
+      if (photoError) {
+        throw photoError;
+      }
+    });
 
-    const { error: insertError } = await supabase
+    const { error: deleteError } = await supabase
       .from("photo_tag")
-      .insert(tagRows);
+      .delete()
+      .eq("photo_id", payload.photoId);
 
-    if (insertError) {
-      throw insertError;
+    if (deleteError) {
+      throw deleteError;
     }
-  }
+
+    if (payload.tagIds.length > 0) {
+      const tagRows = payload.tagIds.map((tagId) => ({
+        photo_id: payload.photoId,
+        tag_id: tagId,
+        created_by: user.id,
+        updated_by: user.id,
+      }));
+
+      const { error: insertError } = await supabase
+        .from("photo_tag")
+        .insert(tagRows);
+
+      if (insertError) {
+        throw insertError;
+      }
+    }
+  });
 
   revalidatePath(`/admin/gallery/photos/${payload.photoId}`);
   revalidatePath("/admin/gallery");
@@ -148,21 +207,27 @@ export async function geocodePhotoAction(input: GeocodePhotoInput) {
     throw new Error("Could not determine location from coordinates");
   }
 
-  // Update photo with location info
-  const { error: updateError } = await supabase
-    .from("photos")
-    .update({
-      place_name: location.placeName,
-      city: location.city,
-      region: location.region,
-      country: location.country,
-      updated_by: user.id,
-    })
-    .eq("id", payload.photoId);
-
-  if (updateError) {
-    throw updateError;
-  }
+  // Update photo with location info; the revision lets a bad lookup be reverted
+  const revision = { photoId: payload.photoId, userId: user.id, source: "geocode" } as const;
+
+  await auditPhotoChange({ actor: user, action: "photo.geocode", photoId: payload.photoId }, () =>
+    withPhotoRevision(revision, async () => {
+      const { error: updateError } = await supabase
+        .from("photos")
+        .update({
+          place_name: location.placeName,
+          city: location.city,
+          region: location.region,
+          country: location.country,
+          updated_by: user.id,
+        })
+        .eq("id", payload.photoId);
+
+      if (updateError) {
+        throw updateError;
+      }
+    }),
+  );
 
   revalidatePath(`/admin/gallery/photos/${payload.photoId}`);
   revalidatePath("/admin/gallery");
@@ -170,6 +235,62 @@ export async function geocodePhotoAction(input: GeocodePhotoInput) {
   return { success: true, location };
 }
 
+const revertPhotoRevisionSchema = z.object({
+  photoId: z.string().uuid(),
+  revisionId: z.number().int().positive(),
+});
+
+export type RevertPhotoRevisionInput = z.infer<typeof revertPhotoRevisionSchema>;
+
+/**
+ * Restores the descriptive fields saved in a revision. Audience, visibility
+ * and scheduling are left as they are. The revert is a revision itself, so
+ * it can be undone the same way.
+ */
+export async function revertPhotoRevisionAction(input: RevertPhotoRevisionInput) {
+  const payload = revertPhotoRevisionSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const revision = await fetchPhotoRevision(payload.photoId, payload.revisionId);
+
+  if (!revision) {
+    throw new Error("Revision not found");
+  }
+
+  const fields = Object.fromEntries(
+    PHOTO_REVISION_FIELDS.map((field) => [field, revision.fields[field] ?? null]),
+  );
+
+  await auditPhotoChange(
+    {
+      actor: user,
+      action: "photo.revert",
+      photoId: payload.photoId,
+      metadata: { revisionId: revision.id },
+    },
+    () =>
+      withPhotoRevision(
+        { photoId: payload.photoId, userId: user.id, source: "revert", revertedFrom: revision.id },
+        async () => {
+          const { error } = await supabase
+            .from("photos")
+            .update({ ...fields, updated_by: user.id })
+            .eq("id", payload.photoId);
+
+          if (error) {
+            throw error;
+          }
+        },
+      ),
+  );
+
+  revalidatePath(`/admin/gallery/photos/${payload.photoId}`);
+  revalidatePath("/admin/gallery");
+
+  return { success: true };
+}
+
 const reprocessPhotoSchema = z.object({
   photoId: z.string().uuid(),
 });
@@ -177,21 +298,113 @@ const reprocessPhotoSchema = z.object({
 export type ReprocessPhotoInput = z.infer<typeof reprocessPhotoSchema>;
 
 /**
- * Reprocess a photo that failed during initial processing.
- * This re-runs the full processing pipeline (renditions, histogram, etc.)
+ * Queue a reprocess of a photo that failed during initial processing.
+ * The job re-runs the full processing pipeline (renditions, histogram, etc.)
+ * in the background; an already queued/running reprocess job is reused.
  */
 export async function reprocessPhotoAction(input: ReprocessPhotoInput) {
   const payload = reprocessPhotoSchema.parse(input);
   const user = await requireUser();
 
-  const result = await reprocessPhoto({
-    photoId: payload.photoId,
-    userId: user.id,
+  const job = await enqueuePhotoJob(
+    "reprocess_photo",
+    { photoId: payload.photoId },
+    { userId: user.id, photoId: payload.photoId, dedupe: true },
+  );
+
+  kickPhotoJobWorker();
+
+  await recordAudit({
+    actor: user,
+    action: "photo.reprocess",
+    targetType: "photo",
+    targetId: payload.photoId,
+    metadata: { jobId: job.id },
   });
 
   revalidatePath(`/admin/gallery/photos/${payload.photoId}`);
-  revalidatePath("/admin/gallery");
 
-  return { success: true, result };
+  return { success: true, jobId: job.id };
+}
+
+const trashPhotoSchema = z.object({
+  photoId: z.string().uuid(),
+});
+
+export type TrashPhotoInput = z.infer<typeof trashPhotoSchema>;
+
+/**
+ * Moves a photo to the trash. It can be restored from the trash until it is
+ * purged.
+ */
+export async function trashPhotoAction(input: TrashPhotoInput) {
+  const payload = trashPhotoSchema.parse(input);
+  const user = await requireUser();
+
+  await auditPhotoChange({ actor: user, action: "photo.trash", photoId: payload.photoId }, () =>
+    trashPhoto(payload.photoId, user.id),
+  );
+  await invalidatePhotoYearCache();
+
+  revalidatePath(`/admin/gallery/photos/${payload.photoId}`);
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true };
 }
 
+export async function restorePhotoAction(input: TrashPhotoInput) {
+  const payload = trashPhotoSchema.parse(input);
+  const user = await requireUser();
+
+  await auditPhotoChange({ actor: user, action: "photo.restore", photoId: payload.photoId }, () =>
+    restorePhoto(payload.photoId, user.id),
+  );
+  await invalidatePhotoYearCache();
+
+  revalidatePath(`/admin/gallery/photos/${payload.photoId}`);
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true };
+}
+
+const archivePhotoSchema = z.object({
+  photoId: z.string().uuid(),
+  // Move the original to cheaper Infrequent Access storage
+  coldStorage: z.boolean().default(false),
+});
+
+export type ArchivePhotoInput = z.input<typeof archivePhotoSchema>;
+
+export async function archivePhotoAction(input: ArchivePhotoInput) {
+  const payload = archivePhotoSchema.parse(input);
+  const user = await requireUser();
+
+  await auditPhotoChange(
+    {
+      actor: user,
+      action: "photo.archive",
+      photoId: payload.photoId,
+      metadata: { coldStorage: payload.coldStorage },
+    },
+    () => archivePhoto(payload.photoId, user.id, { coldStorage: payload.coldStorage }),
+  );
+
+  revalidatePath(`/admin/gallery/photos/${payload.photoId}`);
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true };
+}
+
+export async function unarchivePhotoAction(input: TrashPhotoInput) {
+  const payload = trashPhotoSchema.parse(input);
+  const user = await requireUser();
+
+  await auditPhotoChange({ actor: user, action: "photo.unarchive", photoId: payload.photoId }, () =>
+    unarchivePhoto(payload.photoId, user.id),
+  );
+
+  revalidatePath(`/admin/gallery/photos/${payload.photoId}`);
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true };
+}
@@ -1,12 +1,25 @@
+import Link from "next/link";
 import { notFound } from "next/navigation";
 import { Calendar as CalendarIcon, Info } from "lucide-react";
 
+import { AuditLogTable } from "@/components/admin/audit-log-table";
+import { PhotoAlbumsCard } from "@/components/admin/photo/photo-albums-card";
+import { PhotoArchiveControls } from "@/components/admin/photo/photo-archive-controls";
 import { PhotoDetailForm } from "@/components/admin/photo/photo-detail-form";
+import { PhotoDetailTabs } from "@/components/admin/photo/photo-detail-tabs";
 import { PhotoPreviewCard } from "@/components/admin/photo/photo-preview-card";
 import { PhotoProcessingStatus } from "@/components/admin/photo/photo-processing-status";
+import { PhotoRevisionTimeline } from "@/components/admin/photo/photo-revision-timeline";
+import { PhotoShareLinksCard } from "@/components/admin/photo/photo-share-links-card";
+import { PhotoTrashControls } from "@/components/admin/photo/photo-trash-controls";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { fetchAlbumOptions, fetchPhotoAlbums } from "@/lib/data/albums";
+import { fetchAuditLog } from "@/lib/data/audit-log";
+import { TRASH_RETENTION_DAYS } from "@/lib/data/photo-deletion";
+import { fetchPhotoRevisions } from "@/lib/data/photo-revisions";
 import { fetchAllTags, fetchPhotoDetail } from "@/lib/data/photos";
+import { fetchActiveShareLinks } from "@/lib/data/share-links";
 
 interface PhotoPageProps {
   params: Promise<{
@@ -22,9 +35,14 @@ export default async function PhotoDetailPage({ params }: PhotoPageProps) {
     notFound();
   }
 
-  const [photo, allTags] = await Promise.all([
+  const [photo, allTags, albums, allAlbums, shareLinks, revisions, audit] = await Promise.all([
     fetchPhotoDetail(id),
     fetchAllTags(),
+    fetchPhotoAlbums(id),
+    fetchAlbumOptions(),
+    fetchActiveShareLinks(id),
+    fetchPhotoRevisions(id),
+    fetchAuditLog({ targetType: "photo", targetId: id }),
   ]);
 
   if (!photo) {
@@ -38,6 +56,18 @@ export default async function PhotoDetailPage({ params }: PhotoPageProps) {
   return (
     <div className="grid gap-8 lg:grid-cols-[minmax(0,3fr)_minmax(0,4fr)]">
       <div className="space-y-6">
+        {photo.deleted_at && (
+          <PhotoTrashControls
+            photoId={photo.id}
+            deletedAt={photo.deleted_at}
+            retentionDays={TRASH_RETENTION_DAYS}
+          />
+        )}
+
+        {!photo.deleted_at && photo.status === "archived" && (
+          <PhotoArchiveControls photoId={photo.id} isArchived />
+        )}
+
         {/* Processing Status Alert */}
         <PhotoProcessingStatus
           photoId={photo.id}
@@ -128,16 +158,73 @@ export default async function PhotoDetailPage({ params }: PhotoPageProps) {
             )}
           </CardContent>
         </Card>
+
+        {!photo.deleted_at && (
+          <PhotoAlbumsCard photoId={photo.id} albums={albums} allAlbums={allAlbums} />
+        )}
+
+        {!photo.deleted_at && (
+          <PhotoShareLinksCard
+            photoId={photo.id}
+            visibility={photo.visibility}
+            links={shareLinks}
+          />
+        )}
+
+        {!photo.deleted_at && (photo.status === "published" || photo.status === "scheduled") && (
+          <PhotoArchiveControls photoId={photo.id} isArchived={false} />
+        )}
+
+        {!photo.deleted_at && (
+          <PhotoTrashControls
+            photoId={photo.id}
+            deletedAt={null}
+            retentionDays={TRASH_RETENTION_DAYS}
+          />
+        )}
       </div>
 
-      <PhotoDetailForm photo={photo} allTags={allTags} />
+      <PhotoDetailTabs
+        details={<PhotoDetailForm photo={photo} allTags={allTags} />}
+        history={
+          <PhotoRevisionTimeline
+            photoId={photo.id}
+            revisions={revisions}
+            current={{
+              title: photo.title,
+              description: photo.description,
+              captured_at: photo.captured_at,
+              place_name: photo.place_name,
+              city: photo.city,
+              region: photo.region,
+              country: photo.country,
+            }}
+          />
+        }
+        audit={
+          <div className="space-y-4">
+            <AuditLogTable
+              entries={audit.entries}
+              tagNames={Object.fromEntries(allTags.map((tag) => [tag.id, tag.name]))}
+            />
+            {audit.nextCursor && (
+              <Link
+                href={`/admin/audit?type=photo&target=${photo.id}&before=${audit.nextCursor}`}
+                className="block text-right text-sm text-muted-foreground hover:underline"
+              >
+                Older entries in the audit log
+              </Link>
+            )}
+          </div>
+        }
+      />
     </div>
   );
 }
 
 function selectPreview(photo: Awaited<ReturnType<typeof fetchPhotoDetail>>) {
   if (!photo) return null;
-  const lookup = new Map(photo.renditions.map((r) => [r.variant_name, r]));
+  const lookup = new Map(photo.variants.map((v) => [v.variant_name, v.formats.jpeg]));
   return lookup.get("detail") ?? lookup.get("list") ?? lookup.get("thumb") ?? null;
 }
 
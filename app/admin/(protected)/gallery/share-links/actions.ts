@@ -0,0 +1,127 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { requireUser } from "@/lib/auth";
+import { recordAudit } from "@/lib/data/audit-log";
+import { toShareLinkPath } from "@/lib/data/share-links";
+import { isProcessedStatus } from "@/lib/photo-status";
+import { isShareLinkSigningConfigured } from "@/lib/share-tokens";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type { PhotoShareLink } from "@/types/photos";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const createShareLinkSchema = z.object({
+  photoId: z.string().uuid(),
+  // Null for a link that never expires
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+});
+
+export type CreateShareLinkInput = z.infer<typeof createShareLinkSchema>;
+
+export async function createShareLinkAction(input: CreateShareLinkInput) {
+  const payload = createShareLinkSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  if (!isShareLinkSigningConfigured()) {
+    throw new Error("Share links are not configured. Set SHARE_LINK_SECRET.");
+  }
+
+  const { data: photo, error: photoError } = await supabase
+    .from("photos")
+    .select("status, visibility, deleted_at")
+    .eq("id", payload.photoId)
+    .maybeSingle();
+
+  if (photoError) {
+    throw photoError;
+  }
+
+  if (!photo || photo.deleted_at) {
+    throw new Error("Photo not found");
+  }
+
+  if (photo.visibility !== "unlisted") {
+    throw new Error("Only unlisted photos can be shared by link");
+  }
+
+  if (!isProcessedStatus(photo.status)) {
+    throw new Error("Cannot share photo while processing is incomplete");
+  }
+
+  // Whole seconds, the precision of the expiry in the token
+  const expiresAt =
+    payload.expiresInDays === null
+      ? null
+      : new Date(Math.floor((Date.now() + payload.expiresInDays * DAY_MS) / 1000) * 1000);
+
+  const { data, error } = await supabase
+    .from("photo_share_link")
+    .insert({
+      photo_id: payload.photoId,
+      expires_at: expiresAt?.toISOString() ?? null,
+      created_by: user.id,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const link = data as PhotoShareLink;
+
+  await recordAudit({
+    actor: user,
+    action: "photo.share_link_create",
+    targetType: "photo",
+    targetId: payload.photoId,
+    metadata: { linkId: link.id, expiresAt: link.expires_at },
+  });
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return { link: { ...link, path: toShareLinkPath(link) } };
+}
+
+const revokeShareLinkSchema = z.object({
+  linkId: z.string().uuid(),
+});
+
+export type RevokeShareLinkInput = z.infer<typeof revokeShareLinkSchema>;
+
+export async function revokeShareLinkAction(input: RevokeShareLinkInput) {
+  const payload = revokeShareLinkSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from("photo_share_link")
+    .update({ revoked_at: new Date().toISOString(), revoked_by: user.id })
+    .eq("id", payload.linkId)
+    .is("revoked_at", null)
+    .select("id, photo_id");
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error("Share link not found or already revoked");
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "photo.share_link_revoke",
+    targetType: "photo",
+    targetId: data[0].photo_id as string,
+    metadata: { linkId: payload.linkId },
+  });
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true };
+}
@@ -0,0 +1,33 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+import { ShareLinkTable } from "@/components/admin/share-link-table";
+import { Button } from "@/components/ui/button";
+import { fetchActiveShareLinks } from "@/lib/data/share-links";
+
+export const dynamic = "force-dynamic";
+
+export default async function ShareLinksPage() {
+  const links = await fetchActiveShareLinks();
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Share links</h1>
+          <p className="text-sm text-muted-foreground">
+            Links that open unlisted photos without signing in. Create them from a photo&apos;s
+            page; revoked and expired links are not listed.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/gallery">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to gallery
+          </Link>
+        </Button>
+      </div>
+
+      <ShareLinkTable links={links} showPhoto />
+    </div>
+  );
+}
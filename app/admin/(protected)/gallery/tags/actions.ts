@@ -0,0 +1,386 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { requireUser } from "@/lib/auth";
+import { recordAudit } from "@/lib/data/audit-log";
+import { fetchTag } from "@/lib/data/tags";
+import { SLUG_PATTERN, slugify } from "@/lib/slugs";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import { TAG_COLOR_PATTERN, collectTagSubtreeIds } from "@/lib/tags";
+import type { Tag } from "@/types/photos";
+
+type SupabaseClient = ReturnType<typeof createSupabaseServiceRoleClient>;
+
+type TagAuditFields = Pick<Tag, "parent_id" | "name" | "slug" | "description" | "color">;
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .nullable()
+    .optional()
+    .transform((value) => value || null);
+
+const tagFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Enter a name").max(64),
+  parentId: z.string().uuid().nullable().optional(),
+  // The tag's own slug segment; left empty, it is derived from the name
+  slug: z
+    .string()
+    .trim()
+    .max(64)
+    .refine((slug) => slug === "" || SLUG_PATTERN.test(slug), {
+      message: "Use lowercase letters, numbers and dashes",
+    })
+    .nullable()
+    .optional(),
+  description: optionalText(500),
+  color: z
+    .string()
+    .regex(TAG_COLOR_PATTERN, "Use a hex color, e.g. #3b82f6")
+    .nullable()
+    .optional()
+    .transform((color) => color?.toLowerCase() ?? null),
+});
+
+export type CreateTagInput = z.input<typeof tagFieldsSchema>;
+
+/**
+ * Creates a tag. Also used by the photo form's tag picker, which only sends
+ * a name.
+ */
+export async function createTagAction(input: CreateTagInput) {
+  const payload = tagFieldsSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const parent = payload.parentId ? await fetchParentTag(payload.parentId) : null;
+  const slug = resolveSlug(payload.name, payload.slug, parent);
+  await assertTagIsUnique(supabase, payload.name, slug, parent?.id ?? null);
+
+  const { data, error } = await supabase
+    .from("tags")
+    .insert({
+      parent_id: parent?.id ?? null,
+      name: payload.name,
+      slug,
+      description: payload.description,
+      color: payload.color,
+      created_by: user.id,
+      updated_by: user.id,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw toTagError(error);
+  }
+
+  const tag = data as Tag;
+
+  await recordAudit({
+    actor: user,
+    action: "tag.create",
+    targetType: "tag",
+    targetId: tag.id,
+    before: null,
+    after: toTagAuditFields(tag),
+  });
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true, tag };
+}
+
+const updateTagSchema = tagFieldsSchema.extend({
+  tagId: z.string().uuid(),
+});
+
+export type UpdateTagInput = z.input<typeof updateTagSchema>;
+
+/**
+ * Updates a tag. Moving it or changing its slug also rewrites the path-style
+ * slugs of every tag nested under it. Both happen in one transaction
+ * (`update_tag`), which first checks every rewritten slug for collisions, so
+ * a failure leaves the whole subtree as it was.
+ */
+export async function updateTagAction(input: UpdateTagInput) {
+  const payload = updateTagSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const tags = await fetchTagTree(supabase);
+  const tag = tags.find((entry) => entry.id === payload.tagId);
+  if (!tag) {
+    throw new Error("Tag not found");
+  }
+
+  const parentId = payload.parentId ?? null;
+  if (parentId && collectTagSubtreeIds(tags, tag.id).includes(parentId)) {
+    throw new Error("A tag cannot be moved under itself or one of its children");
+  }
+
+  const parent = parentId ? await fetchParentTag(parentId) : null;
+  const slug = resolveSlug(payload.name, payload.slug, parent);
+  await assertTagIsUnique(supabase, payload.name, slug, parentId, tag.id);
+
+  const fields: TagAuditFields = {
+    parent_id: parentId,
+    name: payload.name,
+    slug,
+    description: payload.description,
+    color: payload.color,
+  };
+
+  const { data, error } = await supabase.rpc("update_tag", {
+    p_tag_id: tag.id,
+    p_parent_id: fields.parent_id,
+    p_name: fields.name,
+    p_slug: fields.slug,
+    p_description: fields.description,
+    p_color: fields.color,
+    p_user_id: user.id,
+  });
+
+  if (error) {
+    throw toTagError(error);
+  }
+
+  const renamedDescendants = Number(data ?? 0);
+
+  await recordAudit({
+    actor: user,
+    action: "tag.update",
+    targetType: "tag",
+    targetId: tag.id,
+    before: toTagAuditFields(tag),
+    after: fields,
+    metadata: renamedDescendants > 0 ? { renamedDescendants } : undefined,
+  });
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true };
+}
+
+const tagIdSchema = z.object({
+  tagId: z.string().uuid(),
+});
+
+export type TagIdInput = z.infer<typeof tagIdSchema>;
+
+/** Deletes a tag and removes it from every photo */
+export async function deleteTagAction(input: TagIdInput) {
+  const payload = tagIdSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  await assertTagHasNoChildren(supabase, payload.tagId);
+
+  const { count, error: untagError } = await supabase
+    .from("photo_tag")
+    .delete({ count: "exact" })
+    .eq("tag_id", payload.tagId);
+
+  if (untagError) {
+    throw untagError;
+  }
+
+  const { data: tag, error } = await supabase
+    .from("tags")
+    .delete()
+    .eq("id", payload.tagId)
+    .select("name, slug")
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (tag) {
+    await recordAudit({
+      actor: user,
+      action: "tag.delete",
+      targetType: "tag",
+      targetId: payload.tagId,
+      before: tag,
+      after: null,
+      metadata: { untagged: count ?? 0 },
+    });
+  }
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true, untagged: count ?? 0 };
+}
+
+const mergeTagsSchema = z
+  .object({
+    sourceTagId: z.string().uuid(),
+    targetTagId: z.string().uuid(),
+  })
+  .refine((value) => value.sourceTagId !== value.targetTagId, {
+    path: ["targetTagId"],
+    message: "Pick a different tag to merge into",
+  });
+
+export type MergeTagsInput = z.infer<typeof mergeTagsSchema>;
+
+/**
+ * Moves every photo from the source tag to the target tag, then deletes the
+ * source. Photos that already have both keep a single target row. Runs in
+ * one transaction (`merge_tags`), so a failure leaves both tags untouched.
+ * Tags with children cannot be merged; move the children first.
+ */
+export async function mergeTagsAction(input: MergeTagsInput) {
+  const payload = mergeTagsSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const [source, target] = await Promise.all([
+    fetchTag(payload.sourceTagId),
+    fetchTag(payload.targetTagId),
+  ]);
+
+  if (!source || !target) {
+    throw new Error("Tag not found");
+  }
+
+  await assertTagHasNoChildren(supabase, source.id);
+
+  const { data, error } = await supabase.rpc("merge_tags", {
+    p_source_id: source.id,
+    p_target_id: target.id,
+    p_user_id: user.id,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "tag.merge",
+    targetType: "tag",
+    targetId: source.id,
+    before: { name: source.name, slug: source.slug },
+    after: null,
+    metadata: { targetTagId: target.id, targetName: target.name, moved: Number(data ?? 0) },
+  });
+
+  revalidatePath("/admin/gallery", "layout");
+
+  return { success: true, moved: Number(data ?? 0) };
+}
+
+function resolveSlug(name: string, segment: string | null | undefined, parent: Tag | null): string {
+  const resolved = segment || slugify(name);
+  if (!resolved) {
+    throw new Error("Enter a slug; the name has no letters or digits to build one from");
+  }
+  return parent ? `${parent.slug}/${resolved}` : resolved;
+}
+
+async function fetchParentTag(parentId: string): Promise<Tag> {
+  const parent = await fetchTag(parentId);
+  if (!parent) {
+    throw new Error("Parent tag not found");
+  }
+  // Tags created before slugs were required have none to build the path from
+  if (!parent.slug) {
+    throw new Error(`Give "${parent.name}" a slug before nesting tags under it`);
+  }
+  return parent;
+}
+
+async function fetchTagTree(supabase: SupabaseClient) {
+  const { data, error } = await supabase
+    .from("tags")
+    .select("id, parent_id, name, slug, description, color");
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as Array<Pick<Tag, "id"> & TagAuditFields> | null) ?? [];
+}
+
+function toTagAuditFields({ parent_id, name, slug, description, color }: TagAuditFields): TagAuditFields {
+  return { parent_id, name, slug, description, color };
+}
+
+async function assertTagHasNoChildren(supabase: SupabaseClient, tagId: string): Promise<void> {
+  const { count, error } = await supabase
+    .from("tags")
+    .select("id", { count: "exact", head: true })
+    .eq("parent_id", tagId);
+
+  if (error) {
+    throw error;
+  }
+
+  if (count) {
+    throw new Error(`This tag has ${count} child ${count === 1 ? "tag" : "tags"}; move or delete them first`);
+  }
+}
+
+/**
+ * Names are unique among siblings regardless of case, slugs (full paths)
+ * everywhere. Friendlier than the unique index errors, which name neither
+ * the field nor the tag.
+ */
+async function assertTagIsUnique(
+  supabase: SupabaseClient,
+  name: string,
+  slug: string,
+  parentId: string | null,
+  excludeTagId?: string,
+): Promise<void> {
+  const findExisting = async (column: "name" | "slug") => {
+    let query = supabase.from("tags").select("name, slug").limit(1);
+    if (column === "name") {
+      // Escape LIKE wildcards so they match literally
+      query = query.ilike("name", name.replace(/[\\%_]/g, "\\$&"));
+      query = parentId ? query.eq("parent_id", parentId) : query.is("parent_id", null);
+    } else {
+      query = query.eq("slug", slug);
+    }
+
+    if (excludeTagId) {
+      query = query.neq("id", excludeTagId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return (data?.[0] as Pick<Tag, "name" | "slug"> | undefined) ?? null;
+  };
+
+  const sameName = await findExisting("name");
+  if (sameName) {
+    throw new Error(`A tag named "${sameName.name}" already exists here`);
+  }
+
+  const sameSlug = await findExisting("slug");
+  if (sameSlug) {
+    throw new Error(`The slug "${slug}" is already used by "${sameSlug.name}"`);
+  }
+}
+
+function toTagError(error: { code?: string; message: string }) {
+  // Unique indexes still catch a concurrent create with the same name or slug
+  if (error.code === "23505") {
+    return new Error("A tag with this name or slug already exists");
+  }
+  // Raised by update_tag with a message meant for the user
+  if (error.code === "P0001") {
+    return new Error(error.message);
+  }
+  return error;
+}
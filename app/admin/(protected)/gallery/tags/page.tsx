@@ -0,0 +1,32 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+import { TagManager } from "@/components/admin/tag-manager";
+import { Button } from "@/components/ui/button";
+import { fetchTagsWithUsage } from "@/lib/data/tags";
+
+export const dynamic = "force-dynamic";
+
+export default async function TagsPage() {
+  const tags = await fetchTagsWithUsage();
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Tags</h1>
+          <p className="text-sm text-muted-foreground">
+            Create, rename and recolor tags, or merge duplicates into one.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/gallery">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to gallery
+          </Link>
+        </Button>
+      </div>
+
+      <TagManager tags={tags} />
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { requireUser } from "@/lib/auth";
+import { auditPhotoChange } from "@/lib/data/audit-log";
+import { runBulkPhotoOperation } from "@/lib/data/bulk-photo-operation";
+import { purgePhoto, restorePhoto } from "@/lib/data/photo-deletion";
+import { MAX_PHOTO_SELECTION, invalidatePhotoYearCache } from "@/lib/data/photos";
+
+const trashPhotosSchema = z.object({
+  photoIds: z.array(z.string().uuid()).min(1).max(MAX_PHOTO_SELECTION),
+});
+
+export type TrashPhotosInput = z.infer<typeof trashPhotosSchema>;
+
+export async function restorePhotosAction(input: TrashPhotosInput) {
+  const payload = trashPhotosSchema.parse(input);
+  const user = await requireUser();
+
+  const result = await runBulkPhotoOperation(payload.photoIds, (photoId) =>
+    auditPhotoChange(
+      { actor: user, action: "photo.restore", photoId, metadata: { bulk: true } },
+      () => restorePhoto(photoId, user.id),
+    ),
+  );
+
+  await invalidatePhotoYearCache();
+  revalidatePath("/admin/gallery", "layout");
+
+  return result;
+}
+
+/** Deletes trashed photos now instead of after the retention period */
+export async function purgePhotosAction(input: TrashPhotosInput) {
+  const payload = trashPhotosSchema.parse(input);
+  const user = await requireUser();
+
+  const result = await runBulkPhotoOperation(payload.photoIds, (photoId) =>
+    auditPhotoChange(
+      { actor: user, action: "photo.purge", photoId, metadata: { bulk: true } },
+      () => purgePhoto(photoId),
+    ),
+  );
+
+  revalidatePath("/admin/gallery/trash");
+
+  return result;
+}
@@ -0,0 +1,34 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+
+import { PhotoTrash } from "@/components/admin/photo-trash";
+import { Button } from "@/components/ui/button";
+import { TRASH_RETENTION_DAYS } from "@/lib/data/photo-deletion";
+import { fetchTrashedPhotos } from "@/lib/data/photos";
+
+export const dynamic = "force-dynamic";
+
+export default async function TrashPage() {
+  const photos = await fetchTrashedPhotos();
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-tight">Trash</h1>
+          <p className="text-sm text-muted-foreground">
+            Deleted photos stay here for {TRASH_RETENTION_DAYS} days, then they and their files are
+            deleted permanently.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/gallery">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Back to gallery
+          </Link>
+        </Button>
+      </div>
+
+      <PhotoTrash photos={photos} retentionDays={TRASH_RETENTION_DAYS} />
+    </div>
+  );
+}
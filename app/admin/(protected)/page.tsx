@@ -19,6 +19,9 @@ export default function AdminPage() {
             href="/admin/gallery"
             externalLinks={[{ label: "Visit", url: "https://dogrod.com/gallery" }]}
           />
+          <AppCard title="Rendition Settings" icon="settings" href="/admin/settings/renditions" />
+          <AppCard title="Storage Cleanup" icon="settings" href="/admin/settings/storage" />
+          <AppCard title="Audit Log" icon="file-text" href="/admin/audit" />
         </div>
       </section>
     </div>
@@ -0,0 +1,344 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { requireUser } from "@/lib/auth";
+import { recordAudit } from "@/lib/data/audit-log";
+import { fetchRenditionProfile, isCoreRenditionProfile } from "@/lib/data/rendition-profiles";
+import { enqueuePhotoJobs } from "@/lib/jobs/queue";
+import { kickPhotoJobWorker } from "@/lib/jobs/worker";
+import { deleteR2Objects, getR2KeyFromUrl } from "@/lib/r2";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type { RenditionProfile } from "@/types/photos";
+
+const SETTINGS_PATH = "/admin/settings/renditions";
+
+type RenditionProfileAuditFields = Pick<
+  RenditionProfile,
+  "name" | "max_edge" | "fit" | "quality" | "formats" | "crop_aspect"
+>;
+
+/** PostgREST caps responses at 1000 rows */
+const PAGE_SIZE = 1000;
+
+const profileFieldsSchema = z.object({
+  maxEdge: z.number().int().min(16).max(8192),
+  fit: z.enum(["inside", "cover", "contain"]),
+  quality: z.number().int().min(1).max(100),
+  formats: z
+    .array(z.enum(["jpeg", "webp", "avif"]))
+    .min(1, "Select at least one format")
+    .transform((formats) => Array.from(new Set(formats))),
+  cropAspect: z
+    .string()
+    .trim()
+    .regex(/^\d+(\.\d+)?:\d+(\.\d+)?$/, "Use W:H, e.g. 1:1 or 16:9")
+    .nullable(),
+});
+
+/** A crop aspect only means something for cover/contain, and those need one */
+function refineFit(
+  value: { fit: string; cropAspect: string | null },
+  ctx: z.RefinementCtx,
+) {
+  if (value.fit !== "inside" && !value.cropAspect) {
+    ctx.addIssue({
+      code: "custom",
+      path: ["cropAspect"],
+      message: "Cover and contain need a crop aspect",
+    });
+  }
+}
+
+const createProfileSchema = profileFieldsSchema
+  .extend({
+    name: z
+      .string()
+      .trim()
+      .regex(/^[a-z0-9][a-z0-9-]{0,31}$/, "Use lowercase letters, numbers and dashes")
+      .refine((name) => name !== "original", "This name is reserved"),
+    backfill: z.boolean(),
+  })
+  .superRefine(refineFit);
+
+export type CreateRenditionProfileInput = z.input<typeof createProfileSchema>;
+
+export async function createRenditionProfileAction(input: CreateRenditionProfileInput) {
+  const payload = createProfileSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const fields: RenditionProfileAuditFields = {
+    name: payload.name,
+    max_edge: payload.maxEdge,
+    fit: payload.fit,
+    quality: payload.quality,
+    formats: payload.formats,
+    crop_aspect: payload.fit === "inside" ? null : payload.cropAspect,
+  };
+
+  const { data, error } = await supabase
+    .from("rendition_profile")
+    .insert({
+      ...fields,
+      created_by: user.id,
+      updated_by: user.id,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    if (error.code === "23505") {
+      throw new Error(`A profile named "${payload.name}" already exists`);
+    }
+    throw error;
+  }
+
+  const queued = payload.backfill ? await enqueueProfileBackfill(data.id, user.id) : 0;
+
+  await recordAudit({
+    actor: user,
+    action: "rendition_profile.create",
+    targetType: "rendition_profile",
+    targetId: data.id as string,
+    before: null,
+    after: fields,
+    metadata: { queued },
+  });
+
+  revalidatePath(SETTINGS_PATH);
+
+  return { success: true, profileId: data.id as string, queued };
+}
+
+const updateProfileSchema = profileFieldsSchema
+  .extend({
+    profileId: z.string().uuid(),
+  })
+  .superRefine(refineFit);
+
+export type UpdateRenditionProfileInput = z.input<typeof updateProfileSchema>;
+
+/**
+ * Updates a profile's settings. Names are fixed because they are baked into
+ * rendition rows and R2 keys. Changes apply to new uploads and reprocessed
+ * photos; existing renditions of this profile are left as they are.
+ */
+export async function updateRenditionProfileAction(input: UpdateRenditionProfileInput) {
+  const payload = updateProfileSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const profile = await fetchRenditionProfile(payload.profileId);
+  if (!profile) {
+    throw new Error("Rendition profile not found");
+  }
+
+  // Admin views and the photo's canonical URL use the JPEG renditions
+  if (isCoreRenditionProfile(profile.name) && !payload.formats.includes("jpeg")) {
+    throw new Error(`The ${profile.name} profile must include JPEG`);
+  }
+
+  const fields: RenditionProfileAuditFields = {
+    name: profile.name,
+    max_edge: payload.maxEdge,
+    fit: payload.fit,
+    quality: payload.quality,
+    formats: payload.formats,
+    crop_aspect: payload.fit === "inside" ? null : payload.cropAspect,
+  };
+
+  const { error } = await supabase
+    .from("rendition_profile")
+    .update({
+      max_edge: fields.max_edge,
+      fit: fields.fit,
+      quality: fields.quality,
+      formats: fields.formats,
+      crop_aspect: fields.crop_aspect,
+      updated_by: user.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", payload.profileId);
+
+  if (error) {
+    throw error;
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "rendition_profile.update",
+    targetType: "rendition_profile",
+    targetId: profile.id,
+    before: toProfileAuditFields(profile),
+    after: fields,
+  });
+
+  revalidatePath(SETTINGS_PATH);
+
+  return { success: true };
+}
+
+const profileIdSchema = z.object({
+  profileId: z.string().uuid(),
+});
+
+export type RenditionProfileIdInput = z.infer<typeof profileIdSchema>;
+
+/**
+ * Deletes a profile together with its renditions (rows and R2 objects).
+ */
+export async function deleteRenditionProfileAction(input: RenditionProfileIdInput) {
+  const payload = profileIdSchema.parse(input);
+  const user = await requireUser();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const profile = await fetchRenditionProfile(payload.profileId);
+  if (!profile) {
+    throw new Error("Rendition profile not found");
+  }
+
+  if (isCoreRenditionProfile(profile.name)) {
+    throw new Error(`The ${profile.name} profile is required and cannot be deleted`);
+  }
+
+  const keys: string[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: renditions, error: renditionsError } = await supabase
+      .from("photo_rendition")
+      .select("url")
+      .eq("variant_name", profile.name)
+      .order("url")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (renditionsError) {
+      throw renditionsError;
+    }
+
+    for (const rendition of renditions ?? []) {
+      const key = getR2KeyFromUrl(rendition.url as string);
+      if (key) keys.push(key);
+    }
+
+    if (!renditions || renditions.length < PAGE_SIZE) break;
+  }
+
+  const failedKeys = await deleteR2Objects(keys);
+  if (failedKeys.length > 0) {
+    console.warn("[rendition-profiles] Failed to delete some R2 objects", {
+      profile: profile.name,
+      failed: failedKeys.length,
+    });
+  }
+
+  const { error: deleteRenditionsError } = await supabase
+    .from("photo_rendition")
+    .delete()
+    .eq("variant_name", profile.name);
+
+  if (deleteRenditionsError) {
+    throw deleteRenditionsError;
+  }
+
+  const { error } = await supabase
+    .from("rendition_profile")
+    .delete()
+    .eq("id", payload.profileId);
+
+  if (error) {
+    throw error;
+  }
+
+  await recordAudit({
+    actor: user,
+    action: "rendition_profile.delete",
+    targetType: "rendition_profile",
+    targetId: profile.id,
+    before: toProfileAuditFields(profile),
+    after: null,
+    metadata: { deletedRenditions: keys.length },
+  });
+
+  revalidatePath(SETTINGS_PATH);
+
+  return { success: true, deletedRenditions: keys.length };
+}
+
+/**
+ * Queues generation of a profile's missing renditions for every processed
+ * photo. Photos that already have them are skipped by the job.
+ */
+export async function backfillRenditionProfileAction(input: RenditionProfileIdInput) {
+  const payload = profileIdSchema.parse(input);
+  const user = await requireUser();
+
+  const profile = await fetchRenditionProfile(payload.profileId);
+  if (!profile) {
+    throw new Error("Rendition profile not found");
+  }
+
+  const queued = await enqueueProfileBackfill(profile.id, user.id);
+
+  await recordAudit({
+    actor: user,
+    action: "rendition_profile.backfill",
+    targetType: "rendition_profile",
+    targetId: profile.id,
+    metadata: { name: profile.name, queued },
+  });
+
+  return { success: true, queued };
+}
+
+function toProfileAuditFields({
+  name,
+  max_edge,
+  fit,
+  quality,
+  formats,
+  crop_aspect,
+}: RenditionProfileAuditFields): RenditionProfileAuditFields {
+  return { name, max_edge, fit, quality, formats, crop_aspect };
+}
+
+async function enqueueProfileBackfill(profileId: string, userId: string): Promise<number> {
+  const supabase = createSupabaseServiceRoleClient();
+
+  const photoIds: string[] = [];
+
+  // Published, scheduled and archived photos are processed (see isProcessedStatus)
+  // and never reprocessed on their own; drafts get every profile when they are
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: photos, error } = await supabase
+      .from("photos")
+      .select("id")
+      .in("status", ["published", "scheduled", "archived"])
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    photoIds.push(...(photos ?? []).map((photo) => photo.id as string));
+
+    if (!photos || photos.length < PAGE_SIZE) break;
+  }
+
+  const queued = await enqueuePhotoJobs(
+    "generate_renditions",
+    photoIds.map((photoId) => ({
+      photoId,
+      payload: { photoId, profileIds: [profileId] },
+    })),
+    { userId },
+  );
+
+  if (queued > 0) {
+    kickPhotoJobWorker();
+  }
+
+  return queued;
+}
@@ -0,0 +1,27 @@
+import { RenditionProfileManager } from "@/components/admin/settings/rendition-profile-manager";
+import { fetchRenditionProfiles, isCoreRenditionProfile } from "@/lib/data/rendition-profiles";
+
+export const dynamic = "force-dynamic";
+
+export default async function RenditionSettingsPage() {
+  const profiles = await fetchRenditionProfiles();
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight">Rendition profiles</h1>
+        <p className="text-sm text-muted-foreground">
+          Sizes and formats generated for every photo. Changes apply to new uploads and reprocessed
+          photos; backfill generates a profile for photos that are missing it.
+        </p>
+      </div>
+
+      <RenditionProfileManager
+        profiles={profiles.map((profile) => ({
+          ...profile,
+          isCore: isCoreRenditionProfile(profile.name),
+        }))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use server';
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+
+import { requireUser } from "@/lib/auth";
+import { recordAudit } from "@/lib/data/audit-log";
+import { scanStorage, sweepStorage } from "@/lib/uploads/storage-sweeper";
+
+/**
+ * Dry run: lists orphaned R2 prefixes and stale drafts without deleting.
+ */
+export async function scanStorageAction() {
+  await requireUser();
+
+  return scanStorage();
+}
+
+const sweepSchema = z.object({
+  storageIds: z.array(z.string().uuid()),
+  photoIds: z.array(z.string().uuid()),
+});
+
+export type SweepStorageInput = z.infer<typeof sweepSchema>;
+
+/**
+ * Deletes the confirmed orphans and moves the confirmed drafts to the trash.
+ * Each one is checked again first, so anything claimed since the scan is left
+ * alone.
+ */
+export async function sweepStorageAction(input: SweepStorageInput) {
+  const payload = sweepSchema.parse(input);
+  const user = await requireUser();
+
+  const { report, result } = await sweepStorage(user, payload);
+
+  await recordAudit({
+    actor: user,
+    action: "storage.sweep",
+    targetType: "storage",
+    targetId: null,
+    metadata: { ...payload, ...result },
+  });
+
+  if (result.trashedDrafts > 0) {
+    revalidatePath("/admin/gallery");
+  }
+
+  return { report, result };
+}
@@ -0,0 +1,19 @@
+import { StorageSweeper } from "@/components/admin/settings/storage-sweeper";
+
+export const dynamic = "force-dynamic";
+
+export default function StorageSettingsPage() {
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold tracking-tight">Storage cleanup</h1>
+        <p className="text-sm text-muted-foreground">
+          Finds uploads that never reached the gallery and drafts whose processing failed more than
+          a week ago. Scanning is a dry run; nothing is deleted until you confirm.
+        </p>
+      </div>
+
+      <StorageSweeper />
+    </div>
+  );
+}
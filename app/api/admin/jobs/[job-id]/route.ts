@@ -0,0 +1,61 @@
+/**
+ * Job Status API - Report where a background photo job is in the pipeline
+ *
+ * Polled by the upload manager and the reprocess banner. Returns the job
+ * status, the current processing phase (read, metadata, db, renditions,
+ * upload, derived, finalize), a percent estimate and the last error, if any.
+ */
+import { NextResponse } from "next/server";
+
+import { fetchPhotoJob, toPhotoJobStatusResponse } from "@/lib/jobs/queue";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    "job-id": string;
+  }>;
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  const resolvedParams = await params;
+  const jobId = resolvedParams["job-id"];
+
+  try {
+    // Authenticate user
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!jobId || !/^[0-9a-f-]{36}$/i.test(jobId)) {
+      return NextResponse.json(
+        { error: "Missing or invalid job ID" },
+        { status: 400 }
+      );
+    }
+
+    const job = await fetchPhotoJob(jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toPhotoJobStatusResponse(job), {
+      status: 200,
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("[job-status] Failed to fetch job:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch job status";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
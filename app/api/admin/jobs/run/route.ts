@@ -0,0 +1,47 @@
+/**
+ * Job Worker API - Drain the photo job queue
+ *
+ * Jobs are normally picked up right after they are enqueued. This endpoint is
+ * the safety net: point a scheduler at it (Vercel Cron, or any external cron
+ * sending `Authorization: Bearer <CRON_SECRET>`) so that jobs left behind by
+ * timed-out or crashed runs are retried. Signed-in admins may call it as well.
+ *
+ * ⚠️ EXECUTION TIME:
+ * - maxDuration set to 60s to fit the Hobby plan; the worker stops claiming
+ *   new jobs after its time budget and leaves the rest for the next run
+ */
+import { NextResponse } from "next/server";
+
+import { isCronRequest } from "@/lib/auth";
+import { runPhotoJobWorker } from "@/lib/jobs/worker";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+async function handle(request: Request) {
+  try {
+    if (!isCronRequest(request)) {
+      const supabase = await createSupabaseServerClient();
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+    }
+
+    const summary = await runPhotoJobWorker();
+
+    return NextResponse.json(summary, { status: 200 });
+  } catch (error) {
+    console.error("[jobs-run] Worker run failed:", error);
+    const message = error instanceof Error ? error.message : "Worker run failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
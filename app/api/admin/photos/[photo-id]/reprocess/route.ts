@@ -1,15 +1,8 @@
 /**
- * Reprocess API - Re-run photo processing for failed uploads
+ * Reprocess API - Queue a re-run of photo processing for failed uploads
  *
- * ⚠️ KNOWN LIMITATIONS & BOTTLENECKS:
- *
- * 1. MEMORY USAGE (Risk: Medium)
- *    - Same as initial processing: ~300-500MB for 50MB images
- *    - Vercel limit: 1024MB (Hobby) / 3008MB (Pro)
- *
- * 2. EXECUTION TIME (Risk: Medium)
- *    - maxDuration set to 120s, but Hobby plan caps at 60s
- *    - Typical reprocessing: 10-25s (skips EXIF extraction)
+ * Enqueues a `reprocess_photo` job (or returns the one already queued/running
+ * for this photo) and kicks the job worker after the response is sent.
  *
  * Use Case:
  * When photo upload succeeds but processing fails (status != "published"),
@@ -17,10 +10,14 @@
  */
 import { NextResponse } from "next/server";
 
+import { recordAudit } from "@/lib/data/audit-log";
+import { enqueuePhotoJob } from "@/lib/jobs/queue";
+import { kickPhotoJobWorker } from "@/lib/jobs/worker";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
-import { reprocessPhoto } from "@/lib/uploads/photo-processor";
 
 export const runtime = "nodejs";
+
+/** Covers the worker run scheduled with `after()` (capped at 60s on Hobby) */
 export const maxDuration = 120;
 
 interface RouteParams {
@@ -59,16 +56,27 @@ export async function POST(request: Request, { params }: RouteParams) {
 
     console.log(`[${requestId}] User authenticated:`, user.id);
 
-    // Reprocess the photo
-    const result = await reprocessPhoto({
-      photoId,
-      userId: user.id,
+    // Queue the reprocess job
+    const job = await enqueuePhotoJob(
+      "reprocess_photo",
+      { photoId },
+      { userId: user.id, photoId, dedupe: true },
+    );
+
+    kickPhotoJobWorker();
+
+    await recordAudit({
+      actor: user,
+      action: "photo.reprocess",
+      targetType: "photo",
+      targetId: photoId,
+      metadata: { jobId: job.id },
     });
 
-    console.log(`[${requestId}] Reprocess complete:`, result);
+    console.log(`[${requestId}] Reprocess queued:`, { jobId: job.id, status: job.status });
     console.log(`[${requestId}] ========== Reprocess API End (Success) ==========`);
 
-    return NextResponse.json(result, { status: 200 });
+    return NextResponse.json({ jobId: job.id, photoId }, { status: 202 });
   } catch (error) {
     console.error(`[${requestId}] ========== Reprocess API Error ==========`);
     console.error(`[${requestId}] Error type:`, error?.constructor?.name);
@@ -82,7 +90,7 @@ export async function POST(request: Request, { params }: RouteParams) {
     );
 
     const message =
-      error instanceof Error ? error.message : "Reprocessing failed";
+      error instanceof Error ? error.message : "Failed to queue reprocessing";
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
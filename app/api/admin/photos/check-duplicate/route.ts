@@ -66,7 +66,7 @@ export async function POST(request: Request) {
         photos!inner(
           id,
           title,
-          photo_rendition(variant_name, url)
+          photo_rendition(variant_name, format, url)
         )
       `)
       .eq("checksum", checksum.toLowerCase())
@@ -92,12 +92,12 @@ export async function POST(request: Request) {
     const photos = asset.photos as Array<{
       id: string;
       title: string | null;
-      photo_rendition: Array<{ variant_name: string; url: string }> | null;
+      photo_rendition: Array<{ variant_name: string; format: string; url: string }> | null;
     }>;
 
     const photo = photos[0];
     const thumbRendition = photo?.photo_rendition?.find(
-      (r) => r.variant_name === "thumb"
+      (r) => r.variant_name === "thumb" && r.format === "jpeg"
     );
 
     const response: CheckDuplicateResponse = {
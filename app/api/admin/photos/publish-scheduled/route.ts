@@ -0,0 +1,45 @@
+/**
+ * Scheduled Publishing API - Publish photos whose publish time has passed
+ *
+ * Point a scheduler at it (Vercel Cron, or any external cron sending
+ * `Authorization: Bearer <CRON_SECRET>`); signed-in admins may call it too.
+ * Photos go live on the first run after their `publish_at`, so the schedule
+ * sets how late they can be: every 5 minutes keeps them within 5 minutes.
+ */
+import { NextResponse } from "next/server";
+
+import { isCronRequest } from "@/lib/auth";
+import { publishDuePhotos } from "@/lib/data/photo-publishing";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+async function handle(request: Request) {
+  try {
+    if (!isCronRequest(request)) {
+      const supabase = await createSupabaseServerClient();
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+    }
+
+    const result = await publishDuePhotos();
+
+    console.log("[publish-scheduled] Run finished", { published: result.published });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("[publish-scheduled] Run failed:", error);
+    const message = error instanceof Error ? error.message : "Publishing failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,54 @@
+/**
+ * Photo List API - Pages of the gallery for infinite scrolling
+ *
+ * Takes the gallery URL params (filters and sort) plus `cursor`, the
+ * `nextCursor` of the page before. Without a cursor it returns the first
+ * page, which the list reloads after bulk actions.
+ */
+import { NextResponse } from "next/server";
+
+import { parsePhotoListSearchParams } from "@/lib/data/photo-list-params";
+import { decodePhotoListCursor, fetchPhotoList } from "@/lib/data/photos";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    // Authenticate user
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const searchParams = new URL(request.url).searchParams;
+    const { filters, sortBy } = parsePhotoListSearchParams(Object.fromEntries(searchParams));
+    const cursorParam = searchParams.get("cursor");
+    const cursor = cursorParam ? decodePhotoListCursor(cursorParam) : undefined;
+
+    if (cursor === null || (cursor && cursor.sortBy !== sortBy)) {
+      return NextResponse.json(
+        { error: "Invalid cursor" },
+        { status: 400 }
+      );
+    }
+
+    const result = await fetchPhotoList({ ...filters, sortBy, cursor });
+
+    return NextResponse.json(result, {
+      status: 200,
+      headers: { "Cache-Control": "no-store" },
+    });
+  } catch (error) {
+    console.error("[photo-list] Failed to fetch photos:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to fetch photos";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
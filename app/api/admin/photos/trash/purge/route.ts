@@ -0,0 +1,48 @@
+/**
+ * Trash Purge API - Permanently delete photos trashed over 30 days ago
+ *
+ * Point a scheduler at it (Vercel Cron, or any external cron sending
+ * `Authorization: Bearer <CRON_SECRET>`); signed-in admins may call it too.
+ * Each run purges up to 100 photos, oldest first, and leaves the rest for
+ * the next run.
+ */
+import { NextResponse } from "next/server";
+
+import { isCronRequest } from "@/lib/auth";
+import { purgeExpiredTrash } from "@/lib/data/photo-deletion";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+async function handle(request: Request) {
+  try {
+    if (!isCronRequest(request)) {
+      const supabase = await createSupabaseServerClient();
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+    }
+
+    const result = await purgeExpiredTrash();
+
+    console.log("[trash-purge] Purge finished", {
+      purged: result.purged,
+      errors: result.errors.length,
+    });
+
+    return NextResponse.json(result, { status: 200 });
+  } catch (error) {
+    console.error("[trash-purge] Purge failed:", error);
+    const message = error instanceof Error ? error.message : "Purge failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,128 @@
+/**
+ * Cancel API - Clean up the R2 original of an upload cancelled in the browser
+ *
+ * Aborting the XHR does not guarantee nothing was stored: a single PUT may
+ * have finished just before the abort, and a multipart upload keeps its
+ * parts until aborted. This endpoint deletes the object and, when `uploadId`
+ * is given, aborts the multipart upload. Both are no-ops when nothing exists.
+ *
+ * Keys already handed to /complete, or referenced by an asset or rendition
+ * (photos uploaded before the job queue, or whose job was cleaned up), belong
+ * to a photo and are refused (409).
+ */
+import { AbortMultipartUploadCommand } from "@aws-sdk/client-s3";
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/data/audit-log";
+import { deleteR2Objects, getR2Bucket, getR2Client } from "@/lib/r2";
+import { createSupabaseServerClient, createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import { getUploadStorageId, isUploadKey } from "@/lib/uploads/upload-target";
+
+export const runtime = "nodejs";
+
+interface CancelRequest {
+  key: string;
+  uploadId?: string;
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as CancelRequest;
+    const { key, uploadId } = body;
+
+    if (!isUploadKey(key)) {
+      return NextResponse.json({ error: "Missing or invalid key" }, { status: 400 });
+    }
+
+    if (uploadId !== undefined && (!uploadId || typeof uploadId !== "string")) {
+      return NextResponse.json({ error: "Invalid uploadId" }, { status: 400 });
+    }
+
+    const serviceClient = createSupabaseServiceRoleClient();
+    const { data: job, error: jobError } = await serviceClient
+      .from("photo_job")
+      .select("id")
+      .eq("type", "process_upload")
+      .eq("payload->>originalKey", key)
+      .limit(1)
+      .maybeSingle();
+
+    if (jobError) {
+      throw jobError;
+    }
+
+    if (job) {
+      return NextResponse.json(
+        { error: "Upload was already queued for processing" },
+        { status: 409 }
+      );
+    }
+
+    const storageId = getUploadStorageId(key);
+    for (const table of ["assets", "photo_rendition"] as const) {
+      const { data: reference, error: referenceError } = await serviceClient
+        .from(table)
+        .select("url")
+        .like("url", `%/photos/${storageId}/%`)
+        .limit(1)
+        .maybeSingle();
+
+      if (referenceError) {
+        throw referenceError;
+      }
+
+      if (reference) {
+        return NextResponse.json(
+          { error: "Upload already belongs to a photo" },
+          { status: 409 }
+        );
+      }
+    }
+
+    if (uploadId) {
+      try {
+        await getR2Client().send(
+          new AbortMultipartUploadCommand({
+            Bucket: getR2Bucket(),
+            Key: key,
+            UploadId: uploadId,
+          })
+        );
+      } catch (error) {
+        if (!(error instanceof Error && error.name === "NoSuchUpload")) {
+          throw error;
+        }
+      }
+    }
+
+    const failed = await deleteR2Objects([key]);
+    if (failed.length > 0) {
+      throw new Error(`Failed to delete ${key}`);
+    }
+
+    await recordAudit({
+      actor: user,
+      action: "upload.cancel",
+      targetType: "upload",
+      targetId: storageId,
+      metadata: { key, multipart: Boolean(uploadId) },
+    });
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("[upload-cancel] Failed to clean up cancelled upload:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to cancel upload";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -1,45 +1,34 @@
 /**
- * Complete API - Process uploaded photo after direct R2 upload
+ * Complete API - Queue processing for a photo after direct R2 upload
  *
- * ⚠️ KNOWN LIMITATIONS & BOTTLENECKS:
- *
- * 1. MEMORY USAGE (Risk: Medium)
- *    - Loads entire original file into memory for processing
- *    - 50MB image -> ~300-500MB peak memory usage
- *    - Vercel limit: 1024MB (Hobby) / 3008MB (Pro)
- *    - If OOM: check logs for memory spike, reduce file size limit
- *
- * 2. EXECUTION TIME (Risk: Medium)
- *    - maxDuration set to 120s, but Hobby plan caps at 60s
- *    - Typical processing: 15-30s for large images
- *    - If timeout: upgrade plan or implement async queue processing
- *
- * 3. R2 OPERATIONS (Risk: Low)
- *    - Read original + upload 3 renditions
- *    - Retry mechanism handles transient failures (max 3 attempts each)
+ * Processing no longer runs inline: this endpoint only records a
+ * `process_upload` job and returns its ID. The job worker is kicked after the
+ * response is sent, and the cron-driven /api/admin/jobs/run endpoint retries
+ * anything left behind, so the browser tab does not need to stay open.
  *
  * Flow:
  * 1. Validate request and authenticate user
- * 2. Call processPhotoFromR2 which handles all processing
- * 3. Return photo ID and detail URL
+ * 2. Reserve a photo ID and enqueue a `process_upload` job
+ * 3. Return job ID and photo ID
+ * 4. Worker runs processPhotoFromR2 (Phase 1-7) in the background
  */
+import { randomUUID } from "node:crypto";
+
 import { NextResponse } from "next/server";
 
+import { recordAudit } from "@/lib/data/audit-log";
+import { enqueuePhotoJob } from "@/lib/jobs/queue";
+import { kickPhotoJobWorker } from "@/lib/jobs/worker";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
-import {
-  processPhotoFromR2,
-  type ProcessFromR2Context,
-} from "@/lib/uploads/photo-processor";
+import { getUploadStorageId, isUploadKey } from "@/lib/uploads/upload-target";
 
 export const runtime = "nodejs";
 
 /**
  * ⚠️ EXECUTION TIME LIMIT:
- * - Hobby plan: max 60s (this setting will be capped)
- * - Pro plan: max 300s
- * If processing consistently times out, consider:
- * 1. Upgrading to Pro plan
- * 2. Implementing async processing with a job queue
+ * The response returns as soon as the job is queued; this limit covers the
+ * worker run scheduled with `after()`. Hobby caps it at 60s - a job that does
+ * not finish in time is retried by the next worker run.
  */
 export const maxDuration = 120;
 
@@ -51,8 +40,8 @@ interface CompleteRequest {
 }
 
 interface CompleteResponse {
+  jobId: string;
   photoId: string;
-  detailUrl: string;
 }
 
 export async function POST(request: Request) {
@@ -86,7 +75,9 @@ export async function POST(request: Request) {
       );
     }
 
-    if (!key || typeof key !== "string") {
+    // The worker deletes this key once the job runs out of attempts, so it
+    // must be the original of this upload and nothing else in the bucket
+    if (!isUploadKey(key) || getUploadStorageId(key) !== storageId) {
       return NextResponse.json(
         { error: "Missing or invalid key" },
         { status: 400 }
@@ -107,33 +98,46 @@ export async function POST(request: Request) {
       );
     }
 
-    console.log(`[${requestId}] Processing request:`, {
+    console.log(`[${requestId}] Queueing request:`, {
       storageId,
       key,
       filename,
       contentType,
     });
 
-    // Process the uploaded photo
-    const context: ProcessFromR2Context = {
-      storageId,
-      originalKey: key,
-      originalFilename: filename,
-      contentType,
-      userId: user.id,
-    };
+    // Reserve the photo ID now so the job can be linked to it before the row exists
+    const photoId = randomUUID();
+    const job = await enqueuePhotoJob(
+      "process_upload",
+      {
+        photoId,
+        storageId,
+        originalKey: key,
+        originalFilename: filename,
+        contentType,
+      },
+      { userId: user.id, photoId },
+    );
 
-    const result = await processPhotoFromR2(context);
+    kickPhotoJobWorker();
+
+    await recordAudit({
+      actor: user,
+      action: "photo.upload",
+      targetType: "photo",
+      targetId: photoId,
+      metadata: { jobId: job.id, storageId, filename, contentType },
+    });
 
-    console.log(`[${requestId}] Processing complete:`, result);
+    console.log(`[${requestId}] Job queued:`, { jobId: job.id, photoId });
     console.log(`[${requestId}] ========== Complete API End (Success) ==========`);
 
     const response: CompleteResponse = {
-      photoId: result.photoId,
-      detailUrl: result.detailUrl,
+      jobId: job.id,
+      photoId,
     };
 
-    return NextResponse.json(response, { status: 200 });
+    return NextResponse.json(response, { status: 202 });
   } catch (error) {
     console.error(`[${requestId}] ========== Complete API Error ==========`);
     console.error(`[${requestId}] Error type:`, error?.constructor?.name);
@@ -147,7 +151,7 @@ export async function POST(request: Request) {
     );
 
     const message =
-      error instanceof Error ? error.message : "Processing failed";
+      error instanceof Error ? error.message : "Failed to queue processing";
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
@@ -0,0 +1,74 @@
+/**
+ * Multipart Abort API - Discard a multipart upload and its parts
+ *
+ * Called when the user discards an interrupted upload. Aborting an upload
+ * that no longer exists is not an error.
+ */
+import { AbortMultipartUploadCommand } from "@aws-sdk/client-s3";
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/data/audit-log";
+import { getR2Bucket, getR2Client } from "@/lib/r2";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getUploadStorageId, isUploadKey } from "@/lib/uploads/upload-target";
+
+export const runtime = "nodejs";
+
+interface AbortRequest {
+  key: string;
+  uploadId: string;
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as AbortRequest;
+    const { key, uploadId } = body;
+
+    if (!isUploadKey(key)) {
+      return NextResponse.json({ error: "Missing or invalid key" }, { status: 400 });
+    }
+
+    if (!uploadId || typeof uploadId !== "string") {
+      return NextResponse.json({ error: "Missing or invalid uploadId" }, { status: 400 });
+    }
+
+    try {
+      await getR2Client().send(
+        new AbortMultipartUploadCommand({
+          Bucket: getR2Bucket(),
+          Key: key,
+          UploadId: uploadId,
+        })
+      );
+    } catch (error) {
+      if (!(error instanceof Error && error.name === "NoSuchUpload")) {
+        throw error;
+      }
+    }
+
+    await recordAudit({
+      actor: user,
+      action: "upload.multipart_abort",
+      targetType: "upload",
+      targetId: getUploadStorageId(key),
+      metadata: { key },
+    });
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error("[multipart-abort] Failed to abort multipart upload:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to abort upload";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Multipart Cleanup API - Abort stale multipart uploads
+ *
+ * Uploads the browser never completed or aborted (tab closed for good, file
+ * no longer available) keep their parts in R2 until aborted. Point a
+ * scheduler at this endpoint (Vercel Cron, or any external cron sending
+ * `Authorization: Bearer <CRON_SECRET>`); signed-in admins may call it too.
+ *
+ * Only uploads older than MULTIPART_STALE_AFTER_MS are aborted, so uploads
+ * that are still in progress or waiting to be resumed are left alone.
+ */
+import { NextResponse } from "next/server";
+
+import { isCronRequest } from "@/lib/auth";
+import { type AuditActor, recordAudit } from "@/lib/data/audit-log";
+import { abortStaleMultipartUploads } from "@/lib/r2";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { MULTIPART_STALE_AFTER_MS } from "@/lib/uploads/multipart";
+import type { MultipartCleanupResponse } from "@/types/uploads";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+async function handle(request: Request) {
+  try {
+    // Cron runs are recorded as "System"
+    let actor: AuditActor = null;
+
+    if (!isCronRequest(request)) {
+      const supabase = await createSupabaseServerClient();
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      actor = user;
+    }
+
+    const aborted = await abortStaleMultipartUploads(
+      "photos/",
+      new Date(Date.now() - MULTIPART_STALE_AFTER_MS)
+    );
+
+    console.log("[multipart-cleanup] Aborted stale uploads", { aborted });
+
+    if (aborted > 0) {
+      await recordAudit({
+        actor,
+        action: "upload.multipart_cleanup",
+        targetType: "upload",
+        targetId: null,
+        metadata: { aborted },
+      });
+    }
+
+    const response: MultipartCleanupResponse = { aborted };
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error("[multipart-cleanup] Cleanup failed:", error);
+    const message = error instanceof Error ? error.message : "Cleanup failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
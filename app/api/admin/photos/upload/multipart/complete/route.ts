@@ -0,0 +1,87 @@
+/**
+ * Multipart Complete API - Assemble uploaded parts into the original
+ *
+ * Only assembles the object in R2. The client then calls /complete, exactly
+ * as after a single PUT, to queue processing.
+ */
+import { CompleteMultipartUploadCommand } from "@aws-sdk/client-s3";
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/data/audit-log";
+import { getR2Bucket, getR2Client } from "@/lib/r2";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getUploadStorageId, isUploadKey } from "@/lib/uploads/upload-target";
+import type { MultipartUploadedPart } from "@/types/uploads";
+
+export const runtime = "nodejs";
+
+interface CompleteMultipartRequest {
+  key: string;
+  uploadId: string;
+  parts: MultipartUploadedPart[];
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as CompleteMultipartRequest;
+    const { key, uploadId, parts } = body;
+
+    if (!isUploadKey(key)) {
+      return NextResponse.json({ error: "Missing or invalid key" }, { status: 400 });
+    }
+
+    if (!uploadId || typeof uploadId !== "string") {
+      return NextResponse.json({ error: "Missing or invalid uploadId" }, { status: 400 });
+    }
+
+    if (
+      !Array.isArray(parts) ||
+      parts.length === 0 ||
+      !parts.every((part) => Number.isInteger(part?.partNumber) && typeof part?.etag === "string")
+    ) {
+      return NextResponse.json({ error: "Missing or invalid parts" }, { status: 400 });
+    }
+
+    await getR2Client().send(
+      new CompleteMultipartUploadCommand({
+        Bucket: getR2Bucket(),
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: [...parts]
+            .sort((a, b) => a.partNumber - b.partNumber)
+            .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+        },
+      })
+    );
+
+    await recordAudit({
+      actor: user,
+      action: "upload.multipart_complete",
+      targetType: "upload",
+      targetId: getUploadStorageId(key),
+      metadata: { key, partCount: parts.length },
+    });
+
+    return NextResponse.json({ key }, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.name === "NoSuchUpload") {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    console.error("[multipart-complete] Failed to complete multipart upload:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to complete upload";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
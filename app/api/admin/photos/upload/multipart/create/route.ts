@@ -0,0 +1,92 @@
+/**
+ * Multipart Create API - Start a resumable multipart upload to R2
+ *
+ * Used instead of /presign for large files: a single presigned PUT restarts
+ * from zero whenever the connection drops, while parts can be retried and
+ * resumed individually (even after a page reload).
+ *
+ * Flow:
+ * 1. Client calls this endpoint with filename, content type and size
+ * 2. Client requests part URLs (/multipart/parts) and PUTs parts in parallel
+ * 3. Client calls /multipart/complete with the part ETags to assemble the object
+ * 4. Client calls /complete as for single uploads to queue processing
+ *
+ * Abandoned uploads are aborted by /multipart/abort, or by /multipart/cleanup
+ * once they go stale.
+ */
+import { CreateMultipartUploadCommand } from "@aws-sdk/client-s3";
+import { NextResponse } from "next/server";
+
+import { recordAudit } from "@/lib/data/audit-log";
+import { getR2Bucket, getR2Client } from "@/lib/r2";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getMultipartPartCount, MULTIPART_PART_SIZE } from "@/lib/uploads/multipart";
+import { resolveUploadTarget } from "@/lib/uploads/upload-target";
+import type { MultipartCreateResponse } from "@/types/uploads";
+
+export const runtime = "nodejs";
+
+interface CreateRequest {
+  filename: string;
+  contentType: string;
+  fileSize: number;
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as CreateRequest;
+    const resolved = resolveUploadTarget(body);
+
+    if (!resolved.ok) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 });
+    }
+
+    const { storageId, key, format, fileSize } = resolved.target;
+
+    const upload = await getR2Client().send(
+      new CreateMultipartUploadCommand({
+        Bucket: getR2Bucket(),
+        Key: key,
+        ContentType: format.mimeType,
+      })
+    );
+
+    if (!upload.UploadId) {
+      throw new Error("R2 did not return an upload ID");
+    }
+
+    await recordAudit({
+      actor: user,
+      action: "upload.multipart_create",
+      targetType: "upload",
+      targetId: storageId,
+      metadata: { key, filename: body.filename, contentType: format.mimeType, fileSize },
+    });
+
+    const response: MultipartCreateResponse = {
+      uploadId: upload.UploadId,
+      storageId,
+      key,
+      contentType: format.mimeType,
+      partSize: MULTIPART_PART_SIZE,
+      partCount: getMultipartPartCount(fileSize),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error("[multipart-create] Failed to create multipart upload:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to start upload";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Multipart Parts API - Presign part URLs for a multipart upload
+ *
+ * Returns one presigned PUT URL per requested part number. When resuming,
+ * the client also asks for the parts R2 already holds (`includeUploaded`), so
+ * it only re-sends what is missing; a 404 means the upload was aborted and
+ * has to start over.
+ *
+ * ⚠️ The bucket CORS policy must expose the `ETag` header: the browser reads
+ * it from each part response and sends it back on /multipart/complete.
+ */
+import { ListPartsCommand, UploadPartCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { NextResponse } from "next/server";
+
+import { getR2Bucket, getR2Client } from "@/lib/r2";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { isUploadKey } from "@/lib/uploads/upload-target";
+import type { MultipartPartsResponse } from "@/types/uploads";
+
+export const runtime = "nodejs";
+
+/** Part URL validity in seconds (1 hour); expired parts are simply re-signed */
+const PART_URL_EXPIRES_SECONDS = 3600;
+
+/** S3 part numbers run from 1 to 10000 */
+const MAX_PART_NUMBER = 10_000;
+
+interface PartsRequest {
+  key: string;
+  uploadId: string;
+  partNumbers: number[];
+  includeUploaded?: boolean;
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createSupabaseServerClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await request.json()) as PartsRequest;
+    const { key, uploadId, partNumbers, includeUploaded } = body;
+
+    if (!isUploadKey(key)) {
+      return NextResponse.json({ error: "Missing or invalid key" }, { status: 400 });
+    }
+
+    if (!uploadId || typeof uploadId !== "string") {
+      return NextResponse.json({ error: "Missing or invalid uploadId" }, { status: 400 });
+    }
+
+    if (
+      !Array.isArray(partNumbers) ||
+      !partNumbers.every((n) => Number.isInteger(n) && n >= 1 && n <= MAX_PART_NUMBER)
+    ) {
+      return NextResponse.json({ error: "Missing or invalid partNumbers" }, { status: 400 });
+    }
+
+    const client = getR2Client();
+    const bucket = getR2Bucket();
+
+    let uploaded: MultipartPartsResponse["uploaded"];
+
+    if (includeUploaded) {
+      uploaded = [];
+      let marker: string | undefined;
+
+      do {
+        const page = await client.send(
+          new ListPartsCommand({
+            Bucket: bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: marker,
+          })
+        );
+
+        for (const part of page.Parts ?? []) {
+          if (part.PartNumber && part.ETag) {
+            uploaded.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size ?? 0 });
+          }
+        }
+
+        marker = page.IsTruncated ? page.NextPartNumberMarker : undefined;
+      } while (marker);
+    }
+
+    const urls = await Promise.all(
+      partNumbers.map(async (partNumber) => ({
+        partNumber,
+        url: await getSignedUrl(
+          client,
+          new UploadPartCommand({
+            Bucket: bucket,
+            Key: key,
+            UploadId: uploadId,
+            PartNumber: partNumber,
+          }),
+          { expiresIn: PART_URL_EXPIRES_SECONDS }
+        ),
+      }))
+    );
+
+    const response: MultipartPartsResponse = {
+      urls,
+      uploaded,
+      expiresAt: new Date(Date.now() + PART_URL_EXPIRES_SECONDS * 1000).toISOString(),
+    };
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    if (error instanceof Error && error.name === "NoSuchUpload") {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+
+    console.error("[multipart-parts] Failed to sign part URLs:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to generate part URLs";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
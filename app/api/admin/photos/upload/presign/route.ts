@@ -6,32 +6,28 @@
  * - Client must complete upload within this window
  * - Each presign request creates a unique storage path to avoid collisions
  *
+ * - Large files use the resumable multipart endpoints (./multipart) instead
+ *
  * Flow:
  * 1. Client requests presigned URL with filename and content type
  * 2. Server generates a unique storage ID and presigned PUT URL
  * 3. Client uploads directly to R2 using the presigned URL
  * 4. Client calls /complete API with the storage ID to trigger processing
  */
-import { randomUUID } from "node:crypto";
-import path from "node:path";
-
 import { PutObjectCommand } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { NextResponse } from "next/server";
 
+import { recordAudit } from "@/lib/data/audit-log";
 import { getR2Bucket, getR2Client, getR2PublicBaseUrl } from "@/lib/r2";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { resolveUploadTarget } from "@/lib/uploads/upload-target";
 
 export const runtime = "nodejs";
 
 /** Presigned URL validity in seconds (10 minutes) */
 const PRESIGN_EXPIRES_SECONDS = 600;
 
-const ACCEPTED_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
-
-/** Maximum file size in bytes (50MB) - matches frontend validation */
-const MAX_FILE_SIZE = 50 * 1024 * 1024;
-
 interface PresignRequest {
   filename: string;
   contentType: string;
@@ -42,6 +38,8 @@ interface PresignResponse {
   uploadUrl: string;
   storageId: string;
   key: string;
+  /** Canonical content type the upload must be sent with (part of the signature) */
+  contentType: string;
   publicBaseUrl: string;
   expiresAt: string;
 }
@@ -61,40 +59,13 @@ export async function POST(request: Request) {
 
     // Parse and validate request body
     const body = (await request.json()) as PresignRequest;
-    const { filename, contentType, fileSize } = body;
-
-    if (!filename || typeof filename !== "string") {
-      return NextResponse.json(
-        { error: "Missing or invalid filename" },
-        { status: 400 }
-      );
-    }
-
-    if (!contentType || !ACCEPTED_TYPES.has(contentType)) {
-      return NextResponse.json(
-        { error: "Unsupported content type. Allowed: JPEG, PNG, WebP" },
-        { status: 400 }
-      );
-    }
+    const resolved = resolveUploadTarget(body);
 
-    if (typeof fileSize !== "number" || fileSize <= 0) {
-      return NextResponse.json(
-        { error: "Missing or invalid file size" },
-        { status: 400 }
-      );
+    if (!resolved.ok) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 });
     }
 
-    if (fileSize > MAX_FILE_SIZE) {
-      return NextResponse.json(
-        { error: `File size exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit` },
-        { status: 400 }
-      );
-    }
-
-    // Generate unique storage path
-    const storageId = randomUUID();
-    const extension = inferExtension(filename, contentType);
-    const key = `photos/${storageId}/original${extension}`;
+    const { storageId, key, format } = resolved.target;
 
     // Generate presigned URL
     const client = getR2Client();
@@ -103,7 +74,7 @@ export async function POST(request: Request) {
     const command = new PutObjectCommand({
       Bucket: bucket,
       Key: key,
-      ContentType: contentType,
+      ContentType: format.mimeType,
     });
 
     const uploadUrl = await getSignedUrl(client, command, {
@@ -114,10 +85,19 @@ export async function POST(request: Request) {
       Date.now() + PRESIGN_EXPIRES_SECONDS * 1000
     ).toISOString();
 
+    await recordAudit({
+      actor: user,
+      action: "upload.presign",
+      targetType: "upload",
+      targetId: storageId,
+      metadata: { key, filename: body.filename, contentType: format.mimeType, fileSize: body.fileSize },
+    });
+
     const response: PresignResponse = {
       uploadUrl,
       storageId,
       key,
+      contentType: format.mimeType,
       publicBaseUrl: getR2PublicBaseUrl(),
       expiresAt,
     };
@@ -130,21 +110,3 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: message }, { status: 500 });
   }
 }
-
-function inferExtension(filename: string, contentType: string): string {
-  const extFromName = path.extname(filename)?.toLowerCase();
-  if (extFromName) {
-    return extFromName;
-  }
-
-  switch (contentType) {
-    case "image/jpeg":
-      return ".jpg";
-    case "image/png":
-      return ".png";
-    case "image/webp":
-      return ".webp";
-    default:
-      return ".bin";
-  }
-}
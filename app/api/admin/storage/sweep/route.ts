@@ -0,0 +1,75 @@
+/**
+ * Storage Sweep API - Report or clean up orphaned R2 prefixes and stale drafts
+ *
+ * Dry run by default: returns what would be swept. Pass `?confirm=true` to
+ * delete every orphan and trash every stale draft the scan finds. Point a scheduler at the confirmed URL
+ * (Vercel Cron, or any external cron sending `Authorization: Bearer
+ * <CRON_SECRET>`); signed-in admins may call it too, and can review and
+ * delete selectively from /admin/settings/storage.
+ *
+ * See lib/uploads/storage-sweeper.ts for what counts as orphaned or stale.
+ */
+import { NextResponse } from "next/server";
+
+import { isCronRequest } from "@/lib/auth";
+import { type AuditActor, recordAudit } from "@/lib/data/audit-log";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { scanStorage, sweepStorage } from "@/lib/uploads/storage-sweeper";
+import type { StorageSweepResponse } from "@/types/uploads";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+async function handle(request: Request) {
+  try {
+    // Cron runs are recorded as "System"
+    let actor: AuditActor = null;
+
+    if (!isCronRequest(request)) {
+      const supabase = await createSupabaseServerClient();
+      const {
+        data: { user },
+        error: authError,
+      } = await supabase.auth.getUser();
+
+      if (authError || !user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      actor = user;
+    }
+
+    const confirmed = new URL(request.url).searchParams.get("confirm") === "true";
+
+    let response: StorageSweepResponse;
+    if (confirmed) {
+      const { report, result } = await sweepStorage(actor);
+      await recordAudit({
+        actor,
+        action: "storage.sweep",
+        targetType: "storage",
+        targetId: null,
+        metadata: { ...result },
+      });
+      response = { dryRun: false, report, result };
+    } else {
+      response = { dryRun: true, report: await scanStorage() };
+    }
+
+    console.log("[storage-sweep] Sweep finished", {
+      dryRun: response.dryRun,
+      orphans: response.report.orphans.length,
+      staleDrafts: response.report.staleDrafts.length,
+      deletedObjects: response.result?.deletedObjects ?? 0,
+    });
+
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error("[storage-sweep] Sweep failed:", error);
+    const message = error instanceof Error ? error.message : "Sweep failed";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export const GET = handle;
+export const POST = handle;
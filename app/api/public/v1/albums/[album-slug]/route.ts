@@ -0,0 +1,44 @@
+/**
+ * Public Album API - One visible album with a page of its public photos
+ *
+ * Photos come in album order, or newest capture first for smart albums.
+ * Pass `photos.nextCursor` as `cursor` for the following page.
+ */
+import { decodePublicAlbumCursor, fetchPublicAlbum } from "@/lib/data/public-gallery";
+import { publicError, publicJson, publicOptions } from "@/lib/public-api";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    "album-slug": string;
+  }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const resolvedParams = await params;
+  const slug = resolvedParams["album-slug"];
+
+  try {
+    const cursorParam = new URL(request.url).searchParams.get("cursor");
+    const cursor = cursorParam ? decodePublicAlbumCursor(cursorParam) : undefined;
+
+    if (cursor === null) {
+      return publicError("Invalid cursor", 400);
+    }
+
+    const result = await fetchPublicAlbum(slug, cursor);
+
+    if (!result.ok) {
+      return publicError(result.error, result.status);
+    }
+
+    return publicJson(request, result.album);
+  } catch (error) {
+    console.error("[public-album] Failed to fetch album:", error);
+    return publicError("Failed to fetch album", 500);
+  }
+}
+
+export const OPTIONS = publicOptions;
@@ -0,0 +1,23 @@
+/**
+ * Public Album List API - Visible albums in page order
+ *
+ * Covers and photo counts only take public photos into account.
+ */
+import { fetchPublicAlbums } from "@/lib/data/public-gallery";
+import { publicError, publicJson, publicOptions } from "@/lib/public-api";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const albums = await fetchPublicAlbums();
+
+    return publicJson(request, { items: albums });
+  } catch (error) {
+    console.error("[public-albums] Failed to fetch albums:", error);
+    return publicError("Failed to fetch albums", 500);
+  }
+}
+
+export const OPTIONS = publicOptions;
@@ -0,0 +1,37 @@
+/**
+ * Public Photo API - One published photo with its tags
+ *
+ * Photos that are not public answer 404, the same as missing ones, so the
+ * API does not reveal that they exist.
+ */
+import { fetchPublicPhoto } from "@/lib/data/public-gallery";
+import { publicError, publicJson, publicOptions } from "@/lib/public-api";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+interface RouteParams {
+  params: Promise<{
+    "photo-id": string;
+  }>;
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  const resolvedParams = await params;
+  const photoId = resolvedParams["photo-id"];
+
+  try {
+    const photo = /^[0-9a-f-]{36}$/i.test(photoId) ? await fetchPublicPhoto(photoId) : null;
+
+    if (!photo) {
+      return publicError("Photo not found", 404);
+    }
+
+    return publicJson(request, photo);
+  } catch (error) {
+    console.error("[public-photo] Failed to fetch photo:", error);
+    return publicError("Failed to fetch photo", 500);
+  }
+}
+
+export const OPTIONS = publicOptions;
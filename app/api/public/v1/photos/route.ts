@@ -0,0 +1,47 @@
+/**
+ * Public Photo List API - Published photos for the dogrod.com gallery
+ *
+ * Unauthenticated and read-only. Only photos that are published, shared
+ * publicly and visible are returned, newest capture first.
+ *
+ * Query params:
+ * - `tag`: path-style tag slug, e.g. `travel/japan`; includes descendants
+ * - `sort`: `taken` (default) or `added`
+ * - `cursor`: `nextCursor` of the page before
+ */
+import { decodePhotoListCursor, type PhotoListSortBy } from "@/lib/data/photos";
+import { fetchPublicPhotos } from "@/lib/data/public-gallery";
+import { publicError, publicJson, publicOptions } from "@/lib/public-api";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const searchParams = new URL(request.url).searchParams;
+    const sortBy: PhotoListSortBy = searchParams.get("sort") === "added" ? "added" : "taken";
+    const cursorParam = searchParams.get("cursor");
+    const cursor = cursorParam ? decodePhotoListCursor(cursorParam) : undefined;
+
+    if (cursor === null || (cursor && cursor.sortBy !== sortBy)) {
+      return publicError("Invalid cursor", 400);
+    }
+
+    const page = await fetchPublicPhotos({
+      tagSlug: searchParams.get("tag") ?? undefined,
+      sortBy,
+      cursor,
+    });
+
+    if (!page) {
+      return publicError("Tag not found", 404);
+    }
+
+    return publicJson(request, page);
+  } catch (error) {
+    console.error("[public-photos] Failed to fetch photos:", error);
+    return publicError("Failed to fetch photos", 500);
+  }
+}
+
+export const OPTIONS = publicOptions;
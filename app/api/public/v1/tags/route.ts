@@ -0,0 +1,24 @@
+/**
+ * Public Tag API - Tags of published photos
+ *
+ * Lists tags with public photos in their subtree, with `parent_slug` to
+ * rebuild the tree. Use a tag's slug as `tag` on the photo list.
+ */
+import { fetchPublicTags } from "@/lib/data/public-gallery";
+import { publicError, publicJson, publicOptions } from "@/lib/public-api";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const tags = await fetchPublicTags();
+
+    return publicJson(request, { items: tags });
+  } catch (error) {
+    console.error("[public-tags] Failed to fetch tags:", error);
+    return publicError("Failed to fetch tags", 500);
+  }
+}
+
+export const OPTIONS = publicOptions;
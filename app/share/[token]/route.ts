@@ -0,0 +1,63 @@
+/**
+ * Share Link API - Serve the detail rendition of an unlisted photo
+ *
+ * Anyone holding a valid share token may view the photo, without signing in.
+ * The image is streamed from R2 rather than redirected to, so the viewer is
+ * never handed the object URL, and revoking or expiring a link takes effect
+ * once browser caches lapse (at most SHARE_CACHE_SECONDS).
+ *
+ * ⚠️ This does not make the rendition private. It is stored under the public
+ * bucket URL like every other rendition, so anyone who already has that URL
+ * (e.g. copied from the admin, or saved from an earlier public listing) can
+ * still load it after the link is revoked.
+ */
+import { NextResponse } from "next/server";
+
+import { resolveShareLink } from "@/lib/data/share-links";
+import { publicError } from "@/lib/public-api";
+import { getR2Object } from "@/lib/r2";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const SHARE_CACHE_SECONDS = 300;
+
+interface RouteParams {
+  params: Promise<{
+    token: string;
+  }>;
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  const resolvedParams = await params;
+  const token = resolvedParams.token;
+
+  try {
+    // Invalid, revoked and expired links all answer 404 so none can be told apart
+    const link = token.length <= 512 ? await resolveShareLink(token) : null;
+    const object = link ? await getR2Object(link.key) : null;
+
+    if (!link || !object) {
+      return publicError("Link not found", 404);
+    }
+
+    const secondsLeft = link.expiresAt
+      ? Math.floor((link.expiresAt.getTime() - Date.now()) / 1000)
+      : SHARE_CACHE_SECONDS;
+
+    const headers: Record<string, string> = {
+      "Content-Type": object.contentType ?? "image/jpeg",
+      "Cache-Control": `private, max-age=${Math.max(0, Math.min(secondsLeft, SHARE_CACHE_SECONDS))}`,
+      "Referrer-Policy": "no-referrer",
+      "X-Robots-Tag": "noindex, nofollow",
+    };
+    if (object.contentLength !== null) {
+      headers["Content-Length"] = String(object.contentLength);
+    }
+
+    return new NextResponse(object.body, { status: 200, headers });
+  } catch (error) {
+    console.error("[share-link] Failed to resolve link:", error);
+    return publicError("Failed to resolve link", 500);
+  }
+}
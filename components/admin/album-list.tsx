@@ -0,0 +1,150 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMemo, useState } from "react";
+import { EyeOff, Images, Loader2, Plus, Sparkles } from "lucide-react";
+
+import { reorderAlbumsAction } from "@/app/admin/(protected)/gallery/albums/actions";
+import { AlbumForm } from "@/components/admin/album/album-form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useSortableIds } from "@/hooks/use-sortable-ids";
+import { toast } from "@/hooks/use-toast";
+import type { AlbumListItem } from "@/lib/data/albums";
+import { cn } from "@/lib/utils";
+
+interface AlbumListProps {
+  albums: AlbumListItem[];
+}
+
+/** Album cards in page order; drag a card to move it */
+export function AlbumList({ albums }: AlbumListProps) {
+  const router = useRouter();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const albumIds = useMemo(() => albums.map((album) => album.id), [albums]);
+  const albumsById = useMemo(() => new Map(albums.map((album) => [album.id, album])), [albums]);
+
+  const { order, draggingId, isSaving, getItemProps } = useSortableIds(albumIds, async (next) => {
+    try {
+      await reorderAlbumsAction({ albumIds: next });
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Unable to reorder albums",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+      });
+      throw error;
+    }
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm text-muted-foreground">
+          {albums.length > 1 ? "Drag albums to reorder them." : `${albums.length} albums`}
+          {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+        </span>
+        <Button onClick={() => setIsCreateOpen(true)} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New album
+        </Button>
+      </div>
+
+      {albums.length === 0 ? (
+        <div className="rounded-lg border border-dashed bg-muted/20 p-10 text-center text-sm text-muted-foreground">
+          No albums yet.
+        </div>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {order.map((albumId) => {
+            const album = albumsById.get(albumId);
+            if (!album) return null;
+            const cover = pickCoverRendition(album);
+
+            return (
+              <Link
+                key={album.id}
+                href={`/admin/gallery/albums/${album.id}`}
+                {...getItemProps(album.id)}
+                className={cn(
+                  "group overflow-hidden rounded-lg border bg-card transition-opacity",
+                  draggingId === album.id && "opacity-40",
+                )}
+              >
+                <div
+                  className="relative aspect-[4/3] bg-muted"
+                  style={{ backgroundColor: album.cover?.dominant_color ?? undefined }}
+                >
+                  {cover ? (
+                    <Image
+                      src={cover.url}
+                      alt={album.title}
+                      fill
+                      draggable={false}
+                      sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+                      className="object-cover"
+                    />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-muted-foreground">
+                      <Images className="h-8 w-8" />
+                    </div>
+                  )}
+                  <div className="absolute left-2 top-2 flex gap-1">
+                    {album.rules && (
+                      <Badge variant="secondary" className="gap-1">
+                        <Sparkles className="h-3 w-3" /> Smart
+                      </Badge>
+                    )}
+                    {!album.is_visible && (
+                      <Badge variant="secondary" className="gap-1">
+                        <EyeOff className="h-3 w-3" /> Hidden
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="space-y-1 p-4">
+                  <p className="font-medium group-hover:underline">{album.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {album.photo_count} {album.photo_count === 1 ? "photo" : "photos"} · /{album.slug}
+                  </p>
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New album</DialogTitle>
+            <DialogDescription>
+              Add photos from the gallery afterwards, or from a photo&apos;s page.
+            </DialogDescription>
+          </DialogHeader>
+          <AlbumForm
+            onCancel={() => setIsCreateOpen(false)}
+            onSaved={(albumId) => router.push(`/admin/gallery/albums/${albumId}`)}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function pickCoverRendition(album: AlbumListItem) {
+  if (!album.cover) return null;
+  const lookup = new Map(album.cover.variants.map((v) => [v.variant_name, v.formats.jpeg]));
+  return lookup.get("list") ?? lookup.get("detail") ?? lookup.get("thumb") ?? null;
+}
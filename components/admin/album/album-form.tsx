@@ -0,0 +1,210 @@
+"use client";
+
+import { useEffect, useTransition } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import { createAlbumAction, updateAlbumAction } from "@/app/admin/(protected)/gallery/albums/actions";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { SLUG_PATTERN, slugify } from "@/lib/slugs";
+import type { Album } from "@/types/photos";
+
+const formSchema = z.object({
+  title: z.string().trim().min(1, "Enter a title").max(120),
+  slug: z
+    .string()
+    .trim()
+    .max(64)
+    .refine((slug) => slug === "" || SLUG_PATTERN.test(slug), {
+      message: "Use lowercase letters, numbers and dashes",
+    }),
+  description: z.string().max(2000),
+  isVisible: z.boolean(),
+  isSmart: z.boolean(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface AlbumFormProps {
+  /** Omit to create a new album */
+  album?: Album;
+  onSaved: (albumId: string) => void;
+  onCancel?: () => void;
+}
+
+export function AlbumForm({ album, onSaved, onCancel }: AlbumFormProps) {
+  const [isPending, startTransition] = useTransition();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(album),
+  });
+
+  useEffect(() => {
+    form.reset(toFormValues(album));
+  }, [album, form]);
+
+  const onSubmit = (values: FormValues) => {
+    const fields = {
+      title: values.title,
+      slug: values.slug || null,
+      description: values.description.trim() || null,
+      isVisible: values.isVisible,
+    };
+
+    startTransition(async () => {
+      try {
+        if (album) {
+          await updateAlbumAction({ albumId: album.id, ...fields });
+          toast({ title: "Album updated", description: "Changes saved successfully." });
+          onSaved(album.id);
+        } else {
+          // Smart albums start without rules; they are added on the album page
+          const { albumId } = await createAlbumAction({ ...fields, rules: values.isSmart ? {} : null });
+          toast({ title: "Album created", description: `"${values.title}" is ready for photos.` });
+          onSaved(albumId);
+        }
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to save album",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <fieldset className="space-y-4" disabled={isPending}>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g. Kyoto in Autumn"
+                      {...field}
+                      onChange={(event) => {
+                        // New albums' slugs follow the title until edited by hand
+                        const slug = form.getValues("slug");
+                        if (!album && (slug === "" || slug === slugify(field.value))) {
+                          form.setValue("slug", slugify(event.target.value));
+                        }
+                        field.onChange(event);
+                      }}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="slug"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Slug</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. kyoto-in-autumn" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description</FormLabel>
+                <FormControl>
+                  <Textarea rows={3} placeholder="Optional" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="isVisible"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between rounded-lg border px-4 py-3">
+                <div className="space-y-0.5">
+                  <FormLabel>Visible</FormLabel>
+                  <p className="text-sm text-muted-foreground">
+                    Toggle to control whether this album appears in public listings.
+                  </p>
+                </div>
+                <FormControl>
+                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+
+          {!album && (
+            <FormField
+              control={form.control}
+              name="isSmart"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border px-4 py-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Smart album</FormLabel>
+                    <p className="text-sm text-muted-foreground">
+                      Photos are picked by rules, such as a tag, camera or year, and stay current.
+                    </p>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+          )}
+        </fieldset>
+
+        <div className="flex items-center justify-end gap-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel} disabled={isPending}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : album ? "Save changes" : "Create album"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+function toFormValues(album: Album | undefined): FormValues {
+  return {
+    title: album?.title ?? "",
+    slug: album?.slug ?? "",
+    description: album?.description ?? "",
+    isVisible: album?.is_visible ?? false,
+    isSmart: album ? album.rules !== null : false,
+  };
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMemo, useTransition } from "react";
+import { ExternalLink, ImageIcon, Loader2, Star, X } from "lucide-react";
+
+import {
+  removePhotosFromAlbumAction,
+  reorderAlbumPhotosAction,
+  setAlbumCoverAction,
+} from "@/app/admin/(protected)/gallery/albums/actions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useSortableIds } from "@/hooks/use-sortable-ids";
+import { toast } from "@/hooks/use-toast";
+import type { PhotoListItem } from "@/lib/data/photos";
+import { cn } from "@/lib/utils";
+
+interface AlbumPhotosProps {
+  albumId: string;
+  coverPhotoId: string | null;
+  photos: PhotoListItem[];
+  /** Set for smart albums, whose photos follow their rules and cannot be moved */
+  smart?: {
+    photoCount: number;
+    /** The gallery filtered by the album's rules */
+    galleryHref: string;
+  };
+}
+
+/** The album's photos in order; drag a photo to move it */
+export function AlbumPhotos({ albumId, coverPhotoId, photos, smart }: AlbumPhotosProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const photoIds = useMemo(() => photos.map((photo) => photo.id), [photos]);
+  const photosById = useMemo(() => new Map(photos.map((photo) => [photo.id, photo])), [photos]);
+
+  const run = (label: string, action: () => Promise<unknown>) => {
+    startTransition(async () => {
+      try {
+        await action();
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: `Unable to ${label}`,
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  const { order, draggingId, isSaving, getItemProps } = useSortableIds(photoIds, async (next) => {
+    try {
+      await reorderAlbumPhotosAction({ albumId, photoIds: next });
+      router.refresh();
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Unable to reorder photos",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+      });
+      throw error;
+    }
+  });
+
+  if (photos.length === 0 && smart) {
+    return (
+      <div className="rounded-lg border border-dashed bg-muted/20 p-10 text-center text-sm text-muted-foreground">
+        No photos match the rules yet.
+      </div>
+    );
+  }
+
+  if (photos.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed bg-muted/20 p-10 text-center text-sm text-muted-foreground">
+        No photos yet. Select photos in the{" "}
+        <Link href="/admin/gallery" className="underline">
+          gallery
+        </Link>{" "}
+        and use <span className="font-medium">Album</span> to add them.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+        {smart ? (
+          <>
+            {smart.photoCount > photos.length
+              ? `Newest ${photos.length} of ${smart.photoCount} matching photos.`
+              : "Newest first."}
+            <Link href={smart.galleryHref} className="underline">
+              View in gallery
+            </Link>
+          </>
+        ) : (
+          "Drag photos to reorder them."
+        )}
+        {(isPending || isSaving) && <Loader2 className="h-4 w-4 animate-spin" />}
+      </p>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+        {order.map((photoId, index) => {
+          const photo = photosById.get(photoId);
+          if (!photo) return null;
+          const rendition = pickRendition(photo);
+          const isCover = photo.id === coverPhotoId;
+
+          return (
+            <div
+              key={photo.id}
+              {...(smart ? {} : getItemProps(photo.id))}
+              className={cn(
+                "group relative aspect-square overflow-hidden rounded-md border bg-muted transition-opacity",
+                !smart && "cursor-grab",
+                draggingId === photo.id && "opacity-40",
+              )}
+              style={{ backgroundColor: photo.dominant_color ?? undefined }}
+            >
+              {rendition ? (
+                <Image
+                  src={rendition.url}
+                  alt={photo.title ?? "Photo"}
+                  fill
+                  draggable={false}
+                  sizes="(min-width: 1024px) 25vw, (min-width: 640px) 33vw, 50vw"
+                  className="object-cover"
+                />
+              ) : (
+                <div className="flex h-full items-center justify-center text-muted-foreground">
+                  <ImageIcon className="h-6 w-6" />
+                </div>
+              )}
+
+              <div className="absolute left-2 top-2 flex gap-1">
+                {!smart && <Badge variant="secondary">{index + 1}</Badge>}
+                {isCover && <Badge>Cover</Badge>}
+              </div>
+
+              <div className="absolute right-2 top-2 flex gap-1 opacity-0 transition-opacity group-hover:opacity-100 group-focus-within:opacity-100">
+                {!isCover && (
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Use as cover"
+                    disabled={isPending}
+                    onClick={() => run("set the cover", () => setAlbumCoverAction({ albumId, photoId }))}
+                  >
+                    <Star className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button variant="secondary" size="icon" className="h-7 w-7" title="Open photo" asChild>
+                  <Link href={`/admin/gallery/photos/${photo.id}`} draggable={false}>
+                    <ExternalLink className="h-4 w-4" />
+                  </Link>
+                </Button>
+                {!smart && (
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Remove from album"
+                    disabled={isPending}
+                    onClick={() =>
+                      run("remove the photo", () =>
+                        removePhotosFromAlbumAction({ albumId, photoIds: [photoId] }),
+                      )
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
+              {photo.title && (
+                <p className="absolute inset-x-0 bottom-0 truncate bg-gradient-to-t from-black/60 to-transparent px-2 pb-1.5 pt-4 text-xs text-white">
+                  {photo.title}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function pickRendition(photo: PhotoListItem) {
+  const lookup = new Map(photo.variants.map((v) => [v.variant_name, v.formats.jpeg]));
+  return lookup.get("list") ?? lookup.get("thumb") ?? lookup.get("detail") ?? null;
+}
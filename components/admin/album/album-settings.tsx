@@ -0,0 +1,93 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { Loader2, Trash2 } from "lucide-react";
+
+import { deleteAlbumAction } from "@/app/admin/(protected)/gallery/albums/actions";
+import { AlbumForm } from "@/components/admin/album/album-form";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+import type { Album } from "@/types/photos";
+
+interface AlbumSettingsProps {
+  album: Album;
+}
+
+/** Album details form and deletion */
+export function AlbumSettings({ album }: AlbumSettingsProps) {
+  const router = useRouter();
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const handleDelete = () => {
+    startTransition(async () => {
+      try {
+        await deleteAlbumAction({ albumId: album.id });
+        toast({ title: "Album deleted", description: `"${album.title}" was deleted.` });
+        router.push("/admin/gallery/albums");
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to delete album",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Details</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <AlbumForm album={album} onSaved={() => router.refresh()} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Delete album</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">The photos stay in the gallery.</p>
+          <Button variant="destructive" size="sm" onClick={() => setIsConfirmOpen(true)} disabled={isPending}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete album
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isConfirmOpen} onOpenChange={(open) => !isPending && setIsConfirmOpen(open)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete &quot;{album.title}&quot;?</DialogTitle>
+            <DialogDescription>
+              The album and its order are deleted. The photos themselves are not changed.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete album
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,370 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { Loader2, X } from "lucide-react";
+
+import { updateSmartAlbumRulesAction } from "@/app/admin/(protected)/gallery/albums/actions";
+import { formatShutter } from "@/components/admin/photo-exif-filters";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import type { NumericRange, PhotoExifFilterOptions, PhotoFacetValue } from "@/lib/data/photos";
+import {
+  smartAlbumRulesSchema,
+  type SmartAlbumRuleKey,
+  type SmartAlbumRules,
+} from "@/lib/smart-album-rules";
+import { sortTagTree } from "@/lib/tags";
+import type { Tag } from "@/types/photos";
+
+const ANY_VALUE = "__any__";
+
+/** Values offered by the rule pickers */
+export interface SmartAlbumRuleOptions {
+  tags: Tag[];
+  cameras: PhotoFacetValue[];
+  lenses: PhotoFacetValue[];
+  countries: PhotoFacetValue[];
+  years: number[];
+  exif: PhotoExifFilterOptions;
+}
+
+type RangeKey = "focalLength" | "aperture" | "iso" | "shutter";
+
+type RuleField =
+  | { key: Exclude<SmartAlbumRuleKey, RangeKey | "query">; label: string; kind: "select" }
+  | { key: "query"; label: string; kind: "text" }
+  | {
+      key: RangeKey;
+      label: string;
+      kind: "range";
+      options: keyof Omit<PhotoExifFilterOptions, "makes">;
+      format: (value: number) => string;
+    };
+
+/** Rules in the order they are offered and shown */
+const RULE_FIELDS: RuleField[] = [
+  { key: "tagId", label: "Tag", kind: "select" },
+  { key: "camera", label: "Camera", kind: "select" },
+  { key: "lens", label: "Lens", kind: "select" },
+  { key: "make", label: "Camera make", kind: "select" },
+  { key: "country", label: "Country", kind: "select" },
+  { key: "year", label: "Captured in", kind: "select" },
+  { key: "orientation", label: "Orientation", kind: "select" },
+  { key: "status", label: "Status", kind: "select" },
+  { key: "visibility", label: "Visibility", kind: "select" },
+  {
+    key: "focalLength",
+    label: "Focal length",
+    kind: "range",
+    options: "focalLengths",
+    format: (value) => `${value}mm`,
+  },
+  { key: "aperture", label: "Aperture", kind: "range", options: "apertures", format: (value) => `f/${value}` },
+  { key: "iso", label: "ISO", kind: "range", options: "isos", format: (value) => `ISO ${value}` },
+  {
+    key: "shutter",
+    label: "Shutter speed",
+    kind: "range",
+    options: "shutterSpeeds",
+    format: formatShutter,
+  },
+  { key: "query", label: "Text", kind: "text" },
+];
+
+/** Rules being edited; a rule is shown while its key is present, even when empty */
+type RuleDraft = Partial<Record<SmartAlbumRuleKey, string | NumericRange>>;
+
+interface SmartAlbumRulesEditorProps {
+  albumId: string;
+  rules: SmartAlbumRules;
+  options: SmartAlbumRuleOptions;
+}
+
+/**
+ * Builds a smart album's rules from pickers. Every rule must match, e.g.
+ * tag "Japan" and camera "Leica Q2".
+ */
+export function SmartAlbumRulesEditor({ albumId, rules, options }: SmartAlbumRulesEditorProps) {
+  const router = useRouter();
+  const [draft, setDraft] = useState<RuleDraft>(() => toDraft(rules));
+  const [isDirty, setIsDirty] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const fields = RULE_FIELDS.filter(({ key }) => key in draft);
+  const unused = RULE_FIELDS.filter(({ key }) => !(key in draft));
+
+  const update = (key: SmartAlbumRuleKey, value: string | NumericRange | undefined) => {
+    setDraft((previous) => {
+      const next = { ...previous };
+      if (value === undefined) {
+        delete next[key];
+      } else {
+        next[key] = value;
+      }
+      return next;
+    });
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    const result = toRules(draft);
+    if ("error" in result) {
+      toast({ title: "Unable to save rules", description: result.error });
+      return;
+    }
+
+    startTransition(async () => {
+      try {
+        await updateSmartAlbumRulesAction({ albumId, rules: result.rules });
+        toast({ title: "Rules saved", description: "The album now shows the matching photos." });
+        setIsDirty(false);
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to save rules",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Rules</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {fields.length === 0
+            ? "No rules yet, so every photo matches."
+            : "Photos matching all of these rules are in the album."}
+        </p>
+
+        {fields.map((field) => (
+          <div key={field.key} className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">{field.label}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Remove rule"
+                disabled={isPending}
+                onClick={() => update(field.key, undefined)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <RuleInput
+              field={field}
+              value={draft[field.key]}
+              options={options}
+              disabled={isPending}
+              onChange={(value) => update(field.key, value)}
+            />
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2">
+          {unused.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(key) => update(key as SmartAlbumRuleKey, isRangeKey(key) ? {} : "")}
+              disabled={isPending}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Add rule" />
+              </SelectTrigger>
+              <SelectContent>
+                {unused.map(({ key, label }) => (
+                  <SelectItem key={key} value={key}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button onClick={handleSave} disabled={isPending || !isDirty} className="ml-auto">
+            {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save rules
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface RuleInputProps {
+  field: RuleField;
+  value: string | NumericRange | undefined;
+  options: SmartAlbumRuleOptions;
+  disabled: boolean;
+  onChange: (value: string | NumericRange) => void;
+}
+
+function RuleInput({ field, value, options, disabled, onChange }: RuleInputProps) {
+  if (field.kind === "text") {
+    return (
+      <Input
+        value={typeof value === "string" ? value : ""}
+        placeholder="Words in the title, description, place or tags"
+        disabled={disabled}
+        onChange={(event) => onChange(event.target.value)}
+      />
+    );
+  }
+
+  if (field.kind === "range") {
+    const range = typeof value === "object" ? value : {};
+    const available = options.exif[field.options];
+
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        {(["min", "max"] as const).map((bound) => (
+          <Select
+            key={bound}
+            value={range[bound] != null ? String(range[bound]) : ANY_VALUE}
+            onValueChange={(next) =>
+              onChange({ ...range, [bound]: next === ANY_VALUE ? undefined : Number(next) })
+            }
+            disabled={disabled || available.length === 0}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_VALUE}>{bound === "min" ? "From any" : "To any"}</SelectItem>
+              {available.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {field.format(option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ))}
+      </div>
+    );
+  }
+
+  const current = typeof value === "string" ? value : "";
+  const choices = selectChoices(field.key, options);
+  // Keep a saved value selectable after its last photo is gone
+  if (current && !choices.some((choice) => choice.value === current)) {
+    choices.unshift({ value: current, label: current });
+  }
+
+  return (
+    <Select value={current} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger>
+        <SelectValue placeholder={`Choose ${field.label.toLowerCase()}`} />
+      </SelectTrigger>
+      <SelectContent>
+        {choices.map((choice) => (
+          <SelectItem key={choice.value} value={choice.value}>
+            <span style={{ marginLeft: `${choice.depth ?? 0}rem` }}>{choice.label}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function selectChoices(
+  key: SmartAlbumRuleKey,
+  options: SmartAlbumRuleOptions,
+): Array<{ value: string; label: string; depth?: number }> {
+  const fromFacet = (values: PhotoFacetValue[]) =>
+    values.map(({ value, label }) => ({ value, label }));
+
+  switch (key) {
+    case "tagId":
+      return sortTagTree(options.tags).map(({ tag, depth }) => ({
+        value: tag.id,
+        label: tag.name,
+        depth,
+      }));
+    case "camera":
+      return fromFacet(options.cameras);
+    case "lens":
+      return fromFacet(options.lenses);
+    case "country":
+      return fromFacet(options.countries);
+    case "make":
+      return options.exif.makes.map((make) => ({ value: make, label: make }));
+    case "year":
+      return options.years.map((year) => ({ value: String(year), label: String(year) }));
+    case "orientation":
+      return ["landscape", "portrait", "square"].map((value) => ({ value, label: capitalize(value) }));
+    case "status":
+      return ["draft", "scheduled", "published", "archived"].map((value) => ({
+        value,
+        label: capitalize(value),
+      }));
+    case "visibility":
+      return [
+        { value: "visible", label: "Visible" },
+        { value: "hidden", label: "Hidden" },
+      ];
+    default:
+      return [];
+  }
+}
+
+function isRangeKey(key: string): key is RangeKey {
+  return RULE_FIELDS.some((field) => field.key === key && field.kind === "range");
+}
+
+function toDraft(rules: SmartAlbumRules): RuleDraft {
+  return Object.fromEntries(
+    Object.entries(rules).map(([key, value]) => [key, typeof value === "number" ? String(value) : value]),
+  );
+}
+
+/** Validates the draft; every rule shown needs a value */
+function toRules(draft: RuleDraft): { rules: SmartAlbumRules } | { error: string } {
+  const rules: Record<string, unknown> = {};
+
+  for (const field of RULE_FIELDS) {
+    const value = draft[field.key];
+    if (value === undefined) continue;
+
+    if (typeof value === "string") {
+      const trimmed = value.trim();
+      if (!trimmed) {
+        return { error: `Choose a value for "${field.label}" or remove the rule.` };
+      }
+      rules[field.key] = field.key === "year" ? Number(trimmed) : trimmed;
+    } else {
+      if (value.min == null && value.max == null) {
+        return { error: `Choose a range for "${field.label}" or remove the rule.` };
+      }
+      rules[field.key] = Object.fromEntries(
+        Object.entries(value).filter(([, bound]) => bound != null),
+      );
+    }
+  }
+
+  const parsed = smartAlbumRulesSchema.safeParse(rules);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    const field = RULE_FIELDS.find(({ key }) => key === issue?.path[0]);
+    return { error: `${field?.label ?? "Rules"}: ${issue?.message ?? "Invalid value"}` };
+  }
+
+  return { rules: parsed.data };
+}
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useTransition } from "react";
+import { Loader2, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AUDIT_ACTION_LABELS, AUDIT_TARGET_TYPE_LABELS } from "@/lib/audit-actions";
+import { mergeSearchParams } from "@/lib/navigation";
+
+const ALL = "all";
+
+interface AuditLogFiltersProps {
+  action: string | undefined;
+  targetType: string | undefined;
+  actor: string | undefined;
+  targetId: string | undefined;
+}
+
+export function AuditLogFilters({ action, targetType, actor, targetId }: AuditLogFiltersProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+
+  // Any filter change starts over from the newest entries
+  const applyFilter = (updates: Record<string, string | null>) => {
+    startTransition(() => {
+      const query = mergeSearchParams(searchParams, { ...updates, before: null });
+      router.push(`${pathname}${query}`);
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const data = new FormData(event.currentTarget);
+    applyFilter({
+      actor: String(data.get("actor") ?? "").trim(),
+      target: String(data.get("target") ?? "").trim(),
+    });
+  };
+
+  const hasFilters = Boolean(action || targetType || actor || targetId);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={action ?? ALL}
+        onValueChange={(value) => applyFilter({ action: value === ALL ? null : value })}
+      >
+        <SelectTrigger className="w-[220px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All actions</SelectItem>
+          {Object.entries(AUDIT_ACTION_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={targetType ?? ALL}
+        onValueChange={(value) => applyFilter({ type: value === ALL ? null : value })}
+      >
+        <SelectTrigger className="w-[180px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All targets</SelectItem>
+          {Object.entries(AUDIT_TARGET_TYPE_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Keyed by the URL values so back/forward navigation resets the fields */}
+      <form
+        key={`${actor ?? ""}|${targetId ?? ""}`}
+        onSubmit={handleSubmit}
+        className="flex flex-wrap items-center gap-2"
+      >
+        <Input
+          name="actor"
+          defaultValue={actor ?? ""}
+          placeholder='Actor email, or "system"'
+          aria-label="Actor"
+          className="w-[220px]"
+        />
+        <Input
+          name="target"
+          defaultValue={targetId ?? ""}
+          placeholder="Target ID"
+          aria-label="Target ID"
+          className="w-[300px] font-mono text-xs"
+        />
+        <Button type="submit" variant="outline" disabled={isPending}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Apply
+        </Button>
+      </form>
+
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => applyFilter({ action: null, type: null, actor: null, target: null })}
+          disabled={isPending}
+        >
+          <X className="mr-1 h-4 w-4" /> Clear
+        </Button>
+      )}
+    </div>
+  );
+}
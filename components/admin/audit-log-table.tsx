@@ -0,0 +1,175 @@
+"use client";
+
+import Link from "next/link";
+import { format } from "date-fns";
+import { ArrowRight } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AUDIT_ACTION_LABELS, AUDIT_TARGET_TYPE_LABELS } from "@/lib/audit-actions";
+import type { AuditFieldChange, AuditLogEntry } from "@/types/audit";
+
+const FIELD_LABELS: Record<string, string> = {
+  captured_at: "Captured",
+  place_name: "Place",
+  is_visible: "Visible",
+  visibility: "Audience",
+  publish_at: "Publish at",
+  deleted_at: "Trashed",
+  tag_ids: "Tags",
+};
+
+interface AuditLogTableProps {
+  entries: AuditLogEntry[];
+  /** Tag names by ID, to show tag changes by name */
+  tagNames: Record<string, string>;
+  /** Adds a target column, for lists spanning several targets */
+  showTarget?: boolean;
+}
+
+export function AuditLogTable({ entries, tagNames, showTarget = false }: AuditLogTableProps) {
+  if (entries.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed bg-muted/20 p-6 text-center text-sm text-muted-foreground">
+        No audit entries.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-hidden rounded-lg border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-[150px]">When</TableHead>
+            <TableHead>Who</TableHead>
+            <TableHead>Action</TableHead>
+            {showTarget && <TableHead>Target</TableHead>}
+            <TableHead>Changes</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {entries.map((entry) => (
+            <TableRow key={entry.id} className="align-top">
+              <TableCell className="whitespace-nowrap text-sm text-muted-foreground">
+                {format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}
+              </TableCell>
+              <TableCell className="text-sm">
+                {entry.actor_id ? (
+                  (entry.actor_email ?? entry.actor_id)
+                ) : (
+                  <Badge variant="outline">System</Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                  {entry.metadata.bulk === true && <Badge variant="secondary">Bulk</Badge>}
+                </div>
+              </TableCell>
+              {showTarget && (
+                <TableCell className="text-sm">
+                  <AuditTarget entry={entry} />
+                </TableCell>
+              )}
+              <TableCell>
+                <AuditChanges changes={entry.changes} tagNames={tagNames} />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function AuditTarget({ entry }: { entry: AuditLogEntry }) {
+  const label = AUDIT_TARGET_TYPE_LABELS[entry.target_type] ?? entry.target_type;
+
+  if (!entry.target_id) {
+    return <span className="text-muted-foreground">{label}</span>;
+  }
+
+  // Purged photos have no page left to link to
+  if (entry.target_type === "photo" && entry.action !== "photo.purge") {
+    return (
+      <Link href={`/admin/gallery/photos/${entry.target_id}`} className="hover:underline">
+        {label} <span className="font-mono text-xs">{entry.target_id.slice(0, 8)}</span>
+      </Link>
+    );
+  }
+
+  return (
+    <span>
+      {label} <span className="font-mono text-xs">{entry.target_id.slice(0, 8)}</span>
+    </span>
+  );
+}
+
+const NO_TAG_NAMES: Record<string, string> = {};
+
+/** Changed fields with their old and new values; also used by the revision timeline */
+export function AuditChanges({
+  changes,
+  tagNames = NO_TAG_NAMES,
+}: {
+  changes: Record<string, AuditFieldChange>;
+  tagNames?: Record<string, string>;
+}) {
+  const fields = Object.entries(changes);
+
+  if (fields.length === 0) {
+    return <span className="text-sm text-muted-foreground">—</span>;
+  }
+
+  return (
+    <dl className="space-y-1 text-sm">
+      {fields.map(([field, change]) => (
+        <div key={field} className="flex flex-wrap items-center gap-x-2">
+          <dt className="text-muted-foreground">{formatFieldLabel(field)}</dt>
+          <dd className="flex flex-wrap items-center gap-x-2">
+            <span className="line-through decoration-muted-foreground/60">
+              {formatAuditValue(field, change.before, tagNames)}
+            </span>
+            <ArrowRight className="h-3 w-3 text-muted-foreground" />
+            <span>{formatAuditValue(field, change.after, tagNames)}</span>
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function formatFieldLabel(field: string) {
+  const label = FIELD_LABELS[field] ?? field.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function formatAuditValue(field: string, value: unknown, tagNames: Record<string, string>) {
+  if (value === undefined || value === null || value === "") {
+    return "—";
+  }
+  if (field === "tag_ids" && Array.isArray(value)) {
+    return value.length > 0
+      ? value.map((id) => tagNames[String(id)] ?? "Deleted tag").join(", ")
+      : "—";
+  }
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+  if (field.endsWith("_at") && typeof value === "string") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : format(date, "MMM d, yyyy HH:mm");
+  }
+  if (typeof value === "string") {
+    return value.length > 80 ? `${value.slice(0, 80)}...` : value;
+  }
+  return JSON.stringify(value);
+}
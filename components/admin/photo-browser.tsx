@@ -0,0 +1,132 @@
+"use client";
+
+import { useRouter, useSearchParams } from "next/navigation";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Loader2 } from "lucide-react";
+
+import { selectMatchingPhotosAction } from "@/app/admin/(protected)/gallery/actions";
+import { PhotoBulkActions } from "@/components/admin/photo-bulk-actions";
+import { PhotoGrid } from "@/components/admin/photo-grid";
+import { PhotoTable } from "@/components/admin/photo-table";
+import { Button } from "@/components/ui/button";
+import { usePhotoList } from "@/hooks/use-photo-list";
+import { usePhotoSelection } from "@/hooks/use-photo-selection";
+import { toast } from "@/hooks/use-toast";
+import type { AlbumOption } from "@/lib/data/albums";
+import type { PhotoListResponse } from "@/lib/data/photos";
+import type { Tag } from "@/types/photos";
+
+export type PhotoBrowserView = "table" | "grid";
+
+interface PhotoBrowserProps {
+  initial: PhotoListResponse;
+  view: PhotoBrowserView;
+  /** Offered by the bulk tag action */
+  tags: Tag[];
+  /** Offered by the bulk album action */
+  albums: AlbumOption[];
+}
+
+/**
+ * Gallery list in table or grid view. The grid loads the next page as its
+ * end scrolls into view; the table loads on demand and supports selecting
+ * rows for bulk actions.
+ */
+export function PhotoBrowser({ initial, view, tags, albums }: PhotoBrowserProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { items, hasMore, isLoading, error, loadMore, reload } = usePhotoList(initial);
+  const photoIds = useMemo(() => items.map((photo) => photo.id), [items]);
+  const { selectedIds, toggle, selectAll, replace } = usePhotoSelection(photoIds);
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    // Stop observing after an error so a failing request is not retried in a loop
+    if (view !== "grid" || !sentinel || !hasMore || error) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          void loadMore();
+        }
+      },
+      { rootMargin: "600px 0px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [view, hasMore, error, loadMore]);
+
+  const allLoadedSelected = photoIds.length > 0 && photoIds.every((id) => selectedIds.has(id));
+
+  const handleSelectAllMatching = async () => {
+    setIsSelectingAll(true);
+    try {
+      const { ids, truncated } = await selectMatchingPhotosAction(searchParams.toString());
+      replace(ids);
+      if (truncated) {
+        toast({
+          title: `Selected the first ${ids.length} photos`,
+          description: "Bulk actions are limited to this many photos at once.",
+        });
+      }
+    } catch (selectError) {
+      console.error(selectError);
+      toast({
+        title: "Unable to select all photos",
+        description:
+          selectError instanceof Error ? selectError.message : "An unexpected error occurred.",
+      });
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
+  const handleBulkComplete = (failedIds: string[]) => {
+    replace(failedIds);
+    void reload();
+    // Facet counts and years come from the server render
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-6">
+      {view === "table" && (
+        <PhotoBulkActions
+          selectedIds={selectedIds}
+          tags={tags}
+          albums={albums}
+          canSelectAllMatching={allLoadedSelected && hasMore}
+          isSelectingAll={isSelectingAll}
+          onSelectAllMatching={handleSelectAllMatching}
+          onClear={() => selectAll(false)}
+          onComplete={handleBulkComplete}
+        />
+      )}
+
+      {view === "grid" ? (
+        <PhotoGrid photos={items} />
+      ) : (
+        <PhotoTable
+          photos={items}
+          selection={{ selectedIds, onToggle: toggle, onToggleAll: selectAll }}
+        />
+      )}
+
+      <div ref={sentinelRef} className="flex flex-col items-center gap-2 border-t pt-4 text-sm text-muted-foreground">
+        {error && <p className="text-destructive">{error}</p>}
+        {hasMore ? (
+          (view === "table" || error || isLoading) && (
+            <Button variant="outline" size="sm" onClick={() => void loadMore()} disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {error ? "Retry" : "Load more"}
+            </Button>
+          )
+        ) : (
+          items.length > 0 && <p>All {items.length} photos loaded</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+  Archive,
+  CalendarClock,
+  Eye,
+  EyeOff,
+  Images,
+  Loader2,
+  MapPin,
+  RefreshCw,
+  Tags,
+  Trash2,
+  X,
+} from "lucide-react";
+
+import {
+  bulkAddTagsAction,
+  bulkArchiveAction,
+  bulkRemoveTagsAction,
+  bulkReprocessAction,
+  bulkSetLocationAction,
+  bulkSetVisibilityAction,
+  bulkShiftCapturedAtAction,
+  bulkTrashAction,
+  bulkUnarchiveAction,
+} from "@/app/admin/(protected)/gallery/actions";
+import { addPhotosToAlbumAction } from "@/app/admin/(protected)/gallery/albums/actions";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import type { AlbumOption } from "@/lib/data/albums";
+import { sortTagTree } from "@/lib/tags";
+import type { BulkPhotoActionResult, Tag } from "@/types/photos";
+
+type BulkDialog = "tags" | "album" | "location" | "shift" | "archive" | "delete";
+
+const LOCATION_FIELDS = [
+  { key: "placeName", label: "Place" },
+  { key: "city", label: "City" },
+  { key: "region", label: "Region" },
+  { key: "country", label: "Country" },
+] as const;
+
+type LocationKey = (typeof LOCATION_FIELDS)[number]["key"];
+
+interface PhotoBulkActionsProps {
+  selectedIds: ReadonlySet<string>;
+  tags: Tag[];
+  albums: AlbumOption[];
+  /** Offered when the selection covers every loaded photo but more match */
+  canSelectAllMatching: boolean;
+  isSelectingAll: boolean;
+  onSelectAllMatching: () => void;
+  onClear: () => void;
+  /** Called with the IDs that failed, which stay selected */
+  onComplete: (failedIds: string[]) => void;
+}
+
+export function PhotoBulkActions({
+  selectedIds,
+  tags,
+  albums,
+  canSelectAllMatching,
+  isSelectingAll,
+  onSelectAllMatching,
+  onClear,
+  onComplete,
+}: PhotoBulkActionsProps) {
+  const [dialog, setDialog] = useState<BulkDialog | null>(null);
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [albumId, setAlbumId] = useState("");
+  // Only fields the user touched are sent; untouched ones are left as they are
+  const [location, setLocation] = useState<Partial<Record<LocationKey, string>>>({});
+  const [offsetHours, setOffsetHours] = useState("");
+  const [coldStorage, setColdStorage] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const count = selectedIds.size;
+  const photoIds = Array.from(selectedIds);
+
+  const run = (label: string, action: () => Promise<BulkPhotoActionResult>) => {
+    startTransition(async () => {
+      try {
+        const result = await action();
+        const failures = result.results.filter((entry) => !entry.success);
+
+        toast({
+          title:
+            failures.length > 0
+              ? `${label}: ${failures.length} of ${result.results.length} failed`
+              : `${label}: ${result.succeeded} ${result.succeeded === 1 ? "photo" : "photos"}`,
+          description:
+            failures.length > 0
+              ? [
+                  ...failures.slice(0, 3).map((entry) => `#${entry.photoId.slice(0, 8)}: ${entry.error}`),
+                  "Failed photos stay selected.",
+                ].join(" ")
+              : undefined,
+        });
+
+        setDialog(null);
+        onComplete(failures.map((entry) => entry.photoId));
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: `${label} failed`,
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  const openDialog = (next: BulkDialog) => {
+    setTagIds([]);
+    setAlbumId("");
+    setLocation({});
+    setOffsetHours("");
+    setColdStorage(false);
+    setDialog(next);
+  };
+
+  const offsetMinutes = Math.round(Number(offsetHours) * 60);
+  const isOffsetValid = offsetHours.trim() !== "" && Number.isFinite(offsetMinutes) && offsetMinutes !== 0;
+
+  if (count === 0) {
+    return null;
+  }
+
+  return (
+    <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 rounded-lg border bg-background/95 p-2 shadow-sm backdrop-blur">
+      <span className="px-2 text-sm font-medium">{count} selected</span>
+      {canSelectAllMatching && (
+        <Button variant="link" size="sm" onClick={onSelectAllMatching} disabled={isSelectingAll}>
+          {isSelectingAll && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Select all matching filter
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" onClick={onClear} disabled={isPending}>
+        <X className="mr-1 h-4 w-4" /> Clear
+      </Button>
+
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={() => run("Shown", () => bulkSetVisibilityAction({ photoIds, isVisible: true }))}
+        >
+          <Eye className="mr-1 h-4 w-4" /> Show
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={() => run("Hidden", () => bulkSetVisibilityAction({ photoIds, isVisible: false }))}
+        >
+          <EyeOff className="mr-1 h-4 w-4" /> Hide
+        </Button>
+        <Button variant="outline" size="sm" disabled={isPending} onClick={() => openDialog("tags")}>
+          <Tags className="mr-1 h-4 w-4" /> Tags
+        </Button>
+        <Button variant="outline" size="sm" disabled={isPending} onClick={() => openDialog("album")}>
+          <Images className="mr-1 h-4 w-4" /> Album
+        </Button>
+        <Button variant="outline" size="sm" disabled={isPending} onClick={() => openDialog("location")}>
+          <MapPin className="mr-1 h-4 w-4" /> Location
+        </Button>
+        <Button variant="outline" size="sm" disabled={isPending} onClick={() => openDialog("shift")}>
+          <CalendarClock className="mr-1 h-4 w-4" /> Shift date
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isPending}
+          onClick={() => run("Reprocessing queued", () => bulkReprocessAction({ photoIds }))}
+        >
+          <RefreshCw className="mr-1 h-4 w-4" /> Reprocess
+        </Button>
+        <Button variant="outline" size="sm" disabled={isPending} onClick={() => openDialog("archive")}>
+          <Archive className="mr-1 h-4 w-4" /> Archive
+        </Button>
+        <Button variant="destructive" size="sm" disabled={isPending} onClick={() => openDialog("delete")}>
+          <Trash2 className="mr-1 h-4 w-4" /> Delete
+        </Button>
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !isPending && !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          {dialog === "tags" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Tags</DialogTitle>
+                <DialogDescription>
+                  Add the checked tags to, or remove them from, {count} selected photos.
+                </DialogDescription>
+              </DialogHeader>
+              {tags.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No tags yet.</p>
+              ) : (
+                <ScrollArea className="max-h-64">
+                  <div className="space-y-2 pr-4">
+                    {sortTagTree(tags).map(({ tag, depth }) => (
+                      <label
+                        key={tag.id}
+                        className="flex items-center gap-2 text-sm"
+                        style={{ paddingLeft: `${depth * 1.5}rem` }}
+                      >
+                        <Checkbox
+                          checked={tagIds.includes(tag.id)}
+                          onCheckedChange={(checked) =>
+                            setTagIds((previous) =>
+                              checked === true
+                                ? [...previous, tag.id]
+                                : previous.filter((id) => id !== tag.id),
+                            )
+                          }
+                        />
+                        {tag.name}
+                      </label>
+                    ))}
+                  </div>
+                </ScrollArea>
+              )}
+              <DialogFooter className="gap-2 sm:gap-0">
+                <Button
+                  variant="outline"
+                  disabled={isPending || tagIds.length === 0}
+                  onClick={() => run("Tags removed", () => bulkRemoveTagsAction({ photoIds, tagIds }))}
+                >
+                  Remove
+                </Button>
+                <Button
+                  disabled={isPending || tagIds.length === 0}
+                  onClick={() => run("Tags added", () => bulkAddTagsAction({ photoIds, tagIds }))}
+                >
+                  Add
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog === "album" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Add to album</DialogTitle>
+                <DialogDescription>
+                  Adds {count} selected photos to the end of the album. Photos already in it keep
+                  their place.
+                </DialogDescription>
+              </DialogHeader>
+              {albums.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No albums yet.</p>
+              ) : (
+                <Select value={albumId} onValueChange={setAlbumId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose an album" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {albums.map((album) => (
+                      <SelectItem key={album.id} value={album.id}>
+                        {album.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <DialogFooter>
+                <Button
+                  disabled={isPending || !albumId}
+                  onClick={() => run("Added to album", () => addPhotosToAlbumAction({ albumId, photoIds }))}
+                >
+                  Add {count} photos
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog === "location" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Set location</DialogTitle>
+                <DialogDescription>
+                  Fields left untouched keep their current values. Clear a field to remove it.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-3">
+                {LOCATION_FIELDS.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                    <Label htmlFor={`bulk-location-${key}`}>{label}</Label>
+                    <Input
+                      id={`bulk-location-${key}`}
+                      value={location[key] ?? ""}
+                      placeholder={key in location ? "Cleared" : "Unchanged"}
+                      onChange={(event) =>
+                        setLocation((previous) => ({ ...previous, [key]: event.target.value }))
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+              <DialogFooter>
+                <Button
+                  disabled={isPending || Object.keys(location).length === 0}
+                  onClick={() => run("Location set", () => bulkSetLocationAction({ photoIds, location }))}
+                >
+                  Apply to {count} photos
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog === "shift" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Shift capture date</DialogTitle>
+                <DialogDescription>
+                  Moves each capture date by the same number of hours, e.g. -9 for a camera left
+                  on Tokyo time. Photos without a capture date are skipped as failures.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-1">
+                <Label htmlFor="bulk-shift-hours">Hours</Label>
+                <Input
+                  id="bulk-shift-hours"
+                  type="number"
+                  step="0.25"
+                  value={offsetHours}
+                  onChange={(event) => setOffsetHours(event.target.value)}
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  disabled={isPending || !isOffsetValid}
+                  onClick={() =>
+                    run("Capture dates shifted", () => bulkShiftCapturedAtAction({ photoIds, offsetMinutes }))
+                  }
+                >
+                  Shift {count} photos
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog === "archive" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Archive</DialogTitle>
+                <DialogDescription>
+                  Archived photos are hidden and left out of the gallery unless you filter for
+                  them. Unarchived photos are published again, still hidden.
+                </DialogDescription>
+              </DialogHeader>
+              <label className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  checked={coldStorage}
+                  onCheckedChange={(checked) => setColdStorage(checked === true)}
+                  className="mt-0.5"
+                />
+                <span>
+                  Move originals to Infrequent Access storage
+                  <span className="block text-muted-foreground">
+                    Cheaper to keep, but billed per read and for at least 30 days. Renditions are
+                    not moved.
+                  </span>
+                </span>
+              </label>
+              <DialogFooter className="gap-2 sm:gap-0">
+                <Button
+                  variant="outline"
+                  disabled={isPending}
+                  onClick={() => run("Unarchived", () => bulkUnarchiveAction({ photoIds }))}
+                >
+                  Unarchive
+                </Button>
+                <Button
+                  disabled={isPending}
+                  onClick={() => run("Archived", () => bulkArchiveAction({ photoIds, coldStorage }))}
+                >
+                  Archive {count} photos
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog === "delete" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Move {count} photos to the trash?</DialogTitle>
+                <DialogDescription>
+                  They are hidden and removed from the gallery. You can restore them from the trash
+                  until they are permanently deleted.
+                </DialogDescription>
+              </DialogHeader>
+              <DialogFooter className="gap-2 sm:gap-0">
+                <Button variant="outline" onClick={() => setDialog(null)} disabled={isPending}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="destructive"
+                  disabled={isPending}
+                  onClick={() => run("Moved to trash", () => bulkTrashAction({ photoIds }))}
+                >
+                  {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Move to trash
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
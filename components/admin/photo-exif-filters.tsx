@@ -0,0 +1,157 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useTransition } from "react";
+import { Aperture } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { NumericRange, PhotoExifFilterOptions } from "@/lib/data/photos";
+import { mergeSearchParams } from "@/lib/navigation";
+
+const ANY_VALUE = "__any__";
+
+type RangeKey = "focal" | "aperture" | "iso" | "shutter";
+
+/** Each range maps to `${key}Min` / `${key}Max` URL params */
+const RANGES: Array<{
+  key: RangeKey;
+  label: string;
+  options: keyof Omit<PhotoExifFilterOptions, "makes">;
+  format: (value: number) => string;
+}> = [
+  { key: "focal", label: "Focal length", options: "focalLengths", format: (value) => `${value}mm` },
+  { key: "aperture", label: "Aperture", options: "apertures", format: (value) => `f/${value}` },
+  { key: "iso", label: "ISO", options: "isos", format: (value) => `ISO ${value}` },
+  { key: "shutter", label: "Shutter speed", options: "shutterSpeeds", format: formatShutter },
+];
+
+export interface PhotoExifFilterValues {
+  make?: string;
+  focal?: NumericRange;
+  aperture?: NumericRange;
+  iso?: NumericRange;
+  shutter?: NumericRange;
+}
+
+interface PhotoExifFiltersProps {
+  options: PhotoExifFilterOptions;
+  values: PhotoExifFilterValues;
+}
+
+export function PhotoExifFilters({ options, values }: PhotoExifFiltersProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+
+  const applyFilter = (updates: Record<string, string | number | null | undefined>) => {
+    startTransition(() => {
+      const query = mergeSearchParams(searchParams, updates);
+      router.push(`${pathname}${query}`);
+    });
+  };
+
+  const activeCount =
+    (values.make ? 1 : 0) +
+    RANGES.filter(({ key }) => values[key]?.min != null || values[key]?.max != null).length;
+
+  const clearFilters = () => {
+    applyFilter({
+      make: null,
+      ...Object.fromEntries(RANGES.flatMap(({ key }) => [[`${key}Min`, null], [`${key}Max`, null]])),
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2" disabled={isPending}>
+          <Aperture className="h-4 w-4" />
+          EXIF{activeCount > 0 ? ` (${activeCount})` : ""}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-96 space-y-4">
+        <div className="space-y-1.5">
+          <Label>Camera make</Label>
+          <Select
+            value={values.make ?? ANY_VALUE}
+            onValueChange={(value) => applyFilter({ make: value === ANY_VALUE ? null : value })}
+            disabled={isPending}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_VALUE}>Any make</SelectItem>
+              {options.makes.map((make) => (
+                <SelectItem key={make} value={make}>
+                  {make}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {RANGES.map(({ key, label, options: optionsKey, format }) => {
+          const range = values[key];
+          const available = options[optionsKey];
+
+          return (
+            <div key={key} className="space-y-1.5">
+              <Label>{label}</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {(["min", "max"] as const).map((bound) => (
+                  <Select
+                    key={bound}
+                    value={range?.[bound] != null ? String(range[bound]) : ANY_VALUE}
+                    onValueChange={(value) =>
+                      applyFilter({
+                        [`${key}${bound === "min" ? "Min" : "Max"}`]: value === ANY_VALUE ? null : value,
+                      })
+                    }
+                    disabled={isPending || available.length === 0}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_VALUE}>{bound === "min" ? "From any" : "To any"}</SelectItem>
+                      {available.map((value) => (
+                        <SelectItem key={value} value={String(value)}>
+                          {format(value)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+
+        {activeCount > 0 && (
+          <Button variant="ghost" className="w-full text-sm" onClick={clearFilters} disabled={isPending}>
+            Clear EXIF filters
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/** 0.004 -> "1/250s", 2 -> "2s" */
+export function formatShutter(seconds: number) {
+  if (seconds >= 1 || seconds <= 0) {
+    return `${seconds}s`;
+  }
+  return `1/${Math.round(1 / seconds)}s`;
+}
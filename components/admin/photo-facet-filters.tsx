@@ -0,0 +1,98 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useTransition } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { PhotoFacetKey, PhotoFacets } from "@/lib/data/photos";
+import { mergeSearchParams } from "@/lib/navigation";
+
+/** URL param per facet; labels are shown as the "any" option */
+const FACETS: Array<{ key: PhotoFacetKey; label: string; capitalize?: boolean }> = [
+  { key: "camera", label: "Any camera" },
+  { key: "lens", label: "Any lens" },
+  { key: "country", label: "Any country" },
+  { key: "tag", label: "Any tag" },
+  { key: "orientation", label: "Any orientation", capitalize: true },
+  { key: "status", label: "Any status", capitalize: true },
+];
+
+const ANY_VALUE = "__any__";
+
+interface PhotoFacetFiltersProps {
+  facets: PhotoFacets;
+  selected: Partial<Record<PhotoFacetKey, string>>;
+}
+
+export function PhotoFacetFilters({ facets, selected }: PhotoFacetFiltersProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+
+  const applyFacets = (updates: Partial<Record<PhotoFacetKey, string | null>>) => {
+    startTransition(() => {
+      const query = mergeSearchParams(searchParams, updates);
+      router.push(`${pathname}${query}`);
+    });
+  };
+
+  const hasSelection = FACETS.some(({ key }) => selected[key]);
+
+  const clearFacets = () => {
+    applyFacets(Object.fromEntries(FACETS.map(({ key }) => [key, null])));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {FACETS.map(({ key, label, capitalize }) => {
+        const values = facets[key];
+        const current = selected[key];
+        // A selected value can drop out of the counts when the search excludes it
+        const options =
+          current && !values.some((option) => option.value === current)
+            ? [{ value: current, label: current, count: 0 }, ...values]
+            : values;
+
+        return (
+          <Select
+            key={key}
+            value={current ?? ANY_VALUE}
+            onValueChange={(value) => applyFacets({ [key]: value === ANY_VALUE ? null : value })}
+            disabled={isPending || options.length === 0}
+          >
+            <SelectTrigger className={capitalize ? "w-40 capitalize" : "w-44"}>
+              <SelectValue placeholder={label} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_VALUE}>{label}</SelectItem>
+              {options.map((option) => (
+                <SelectItem
+                  key={option.value}
+                  value={option.value}
+                  className={capitalize ? "capitalize" : undefined}
+                >
+                  {option.label}
+                  <span className="ml-2 text-xs text-muted-foreground">{option.count}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      })}
+
+      {hasSelection && (
+        <Button variant="ghost" className="text-sm" onClick={clearFacets} disabled={isPending}>
+          Clear facets
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useTransition } from "react";
-import { ArrowDownAZ, Check } from "lucide-react";
+import { Archive, ArrowDownAZ, Check } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -31,6 +31,8 @@ interface PhotoFiltersProps {
   year: number | null | undefined;
   availableYears: number[];
   sortBy: SortBy;
+  /** Archived photos are only listed while this is on */
+  archived: boolean;
 }
 
 const SORT_OPTIONS: { value: SortBy; label: string }[] = [
@@ -38,7 +40,7 @@ const SORT_OPTIONS: { value: SortBy; label: string }[] = [
   { value: "taken", label: "Date taken" },
 ];
 
-export function PhotoFilters({ visibility, year, availableYears, sortBy }: PhotoFiltersProps) {
+export function PhotoFilters({ visibility, year, availableYears, sortBy, archived }: PhotoFiltersProps) {
   const router = useRouter();
   const pathname = usePathname();
   const searchParams = useSearchParams();
@@ -46,7 +48,7 @@ export function PhotoFilters({ visibility, year, availableYears, sortBy }: Photo
 
   const applyFilter = (updates: Record<string, string | number | null | undefined>) => {
     startTransition(() => {
-      const query = mergeSearchParams(searchParams, updates, { resetPage: true });
+      const query = mergeSearchParams(searchParams, updates);
       router.push(`${pathname}${query}`);
     });
   };
@@ -63,10 +65,14 @@ export function PhotoFilters({ visibility, year, availableYears, sortBy }: Photo
     applyFilter({ sort: value === "added" ? null : value });
   };
 
-  const hasFilters = visibility !== "all" || year != null;
+  const handleArchivedToggle = () => {
+    applyFilter({ status: archived ? null : "archived" });
+  };
+
+  const hasFilters = visibility !== "all" || year != null || archived;
 
   const clearFilters = () => {
-    applyFilter({ visibility: null, year: null });
+    applyFilter({ visibility: null, year: null, status: null });
   };
 
   const currentSortLabel = SORT_OPTIONS.find((opt) => opt.value === sortBy)?.label ?? "Date added";
@@ -102,6 +108,17 @@ export function PhotoFilters({ visibility, year, availableYears, sortBy }: Photo
         </SelectContent>
       </Select>
 
+      <Button
+        variant={archived ? "secondary" : "outline"}
+        className="gap-2"
+        aria-pressed={archived}
+        onClick={handleArchivedToggle}
+        disabled={isPending}
+      >
+        <Archive className="h-4 w-4" />
+        Archived
+      </Button>
+
       <DropdownMenu>
         <DropdownMenuTrigger asChild disabled={isPending}>
           <Button variant="outline" className="gap-2">
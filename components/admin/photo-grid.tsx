@@ -0,0 +1,153 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import { decode } from "blurhash";
+import { EyeOff } from "lucide-react";
+
+import { PhotoStatusBadge } from "@/components/admin/photo-status-badge";
+import type { PhotoListItem } from "@/lib/data/photos";
+import { cn } from "@/lib/utils";
+
+interface PhotoGridProps {
+  photos: PhotoListItem[];
+}
+
+/** Target column width; the column count follows the container width */
+const COLUMN_WIDTH = 280;
+const BLURHASH_SIZE = 32;
+
+/**
+ * Masonry grid. Photos go to the shortest column in list order, so appending
+ * a page never moves tiles that are already placed.
+ */
+export function PhotoGrid({ photos }: PhotoGridProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [columnCount, setColumnCount] = useState(3);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setColumnCount(Math.max(1, Math.round(entry.contentRect.width / COLUMN_WIDTH)));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  if (photos.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed bg-muted/20 p-10 text-center text-sm text-muted-foreground">
+        No photos found matching your filters.
+      </div>
+    );
+  }
+
+  const columns = distributeColumns(photos, columnCount);
+
+  return (
+    <div ref={containerRef} className="flex items-start gap-4">
+      {columns.map((column, index) => (
+        <div key={index} className="flex min-w-0 flex-1 flex-col gap-4">
+          {column.map((photo) => (
+            <PhotoGridTile key={photo.id} photo={photo} />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PhotoGridTile({ photo }: { photo: PhotoListItem }) {
+  const [isLoaded, setIsLoaded] = useState(false);
+  const rendition = pickRendition(photo);
+
+  return (
+    <Link
+      href={`/admin/gallery/photos/${photo.id}`}
+      className="group relative block overflow-hidden rounded-md bg-muted transition-all hover:ring-2 hover:ring-primary/50"
+      style={{
+        aspectRatio: `${photo.width} / ${photo.height}`,
+        backgroundColor: photo.dominant_color ?? undefined,
+      }}
+    >
+      {photo.blurhash && !isLoaded && <BlurhashCanvas hash={photo.blurhash} />}
+      {rendition ? (
+        <Image
+          src={rendition.url}
+          alt={photo.title ?? "Photo thumbnail"}
+          fill
+          sizes={`${COLUMN_WIDTH}px`}
+          className={cn(
+            "object-cover transition-opacity duration-300",
+            isLoaded ? "opacity-100" : "opacity-0",
+          )}
+          onLoad={() => setIsLoaded(true)}
+        />
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground">
+          No preview
+        </div>
+      )}
+      <div className="absolute inset-x-0 bottom-0 flex items-end justify-between gap-2 bg-gradient-to-t from-black/60 to-transparent p-2 opacity-0 transition-opacity group-hover:opacity-100">
+        <span className="truncate text-sm font-medium text-white">{photo.title || "Untitled"}</span>
+        <PhotoStatusBadge photo={photo} className="shrink-0" />
+      </div>
+      {!photo.is_visible && (
+        <span className="absolute right-2 top-2 rounded-full bg-black/60 p-1 text-white" title="Hidden">
+          <EyeOff className="h-3.5 w-3.5" />
+        </span>
+      )}
+    </Link>
+  );
+}
+
+function BlurhashCanvas({ hash }: { hash: string }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+
+    try {
+      const pixels = decode(hash, BLURHASH_SIZE, BLURHASH_SIZE);
+      const imageData = context.createImageData(BLURHASH_SIZE, BLURHASH_SIZE);
+      imageData.data.set(pixels);
+      context.putImageData(imageData, 0, 0);
+    } catch (error) {
+      // The dominant color behind the canvas is placeholder enough
+      console.warn("Invalid blurhash:", error);
+    }
+  }, [hash]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={BLURHASH_SIZE}
+      height={BLURHASH_SIZE}
+      className="absolute inset-0 h-full w-full"
+      aria-hidden
+    />
+  );
+}
+
+function distributeColumns(photos: PhotoListItem[], columnCount: number) {
+  const columns: PhotoListItem[][] = Array.from({ length: columnCount }, () => []);
+  const heights = new Array<number>(columnCount).fill(0);
+
+  for (const photo of photos) {
+    const shortest = heights.indexOf(Math.min(...heights));
+    columns[shortest].push(photo);
+    // Relative height at a unit column width
+    heights[shortest] += photo.width > 0 ? photo.height / photo.width : 1;
+  }
+
+  return columns;
+}
+
+function pickRendition(photo: PhotoListItem) {
+  const lookup = new Map(photo.variants.map((v) => [v.variant_name, v.formats.jpeg]));
+  return lookup.get("list") ?? lookup.get("thumb") ?? lookup.get("detail") ?? null;
+}
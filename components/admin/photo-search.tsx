@@ -0,0 +1,65 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useTransition } from "react";
+import { Loader2, Search, X } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { mergeSearchParams } from "@/lib/navigation";
+
+interface PhotoSearchProps {
+  query: string;
+}
+
+export function PhotoSearch({ query }: PhotoSearchProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+
+  const applyQuery = (value: string) => {
+    startTransition(() => {
+      const next = mergeSearchParams(searchParams, { q: value.trim() });
+      router.push(`${pathname}${next}`);
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const value = new FormData(event.currentTarget).get("q");
+    applyQuery(typeof value === "string" ? value : "");
+  };
+
+  return (
+    // Keyed by the URL query so back/forward navigation resets the field
+    <form key={query} onSubmit={handleSubmit} role="search" className="relative max-w-xl">
+      {isPending ? (
+        <Loader2 className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+      ) : (
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      )}
+      <Input
+        name="q"
+        type="search"
+        defaultValue={query}
+        placeholder="Search title, place, tags, camera or lens"
+        aria-label="Search photos"
+        className="pl-9 pr-9"
+      />
+      {query && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="absolute right-1 top-1/2 h-7 w-7 -translate-y-1/2"
+          aria-label="Clear search"
+          onClick={() => applyQuery("")}
+          disabled={isPending}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </form>
+  );
+}
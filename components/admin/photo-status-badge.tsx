@@ -0,0 +1,35 @@
+import { format } from "date-fns";
+import { Clock } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { Photo } from "@/types/photos";
+
+interface PhotoStatusBadgeProps {
+  photo: Pick<Photo, "status" | "publish_at">;
+  className?: string;
+}
+
+/** Status of a photo; a scheduled photo also shows when it goes live */
+export function PhotoStatusBadge({ photo, className }: PhotoStatusBadgeProps) {
+  if (photo.status === "scheduled" && photo.publish_at) {
+    const publishAt = new Date(photo.publish_at);
+
+    return (
+      <Badge
+        variant="secondary"
+        className={cn("gap-1", className)}
+        title={`Publishes on ${format(publishAt, "PPpp")}`}
+      >
+        <Clock className="h-3 w-3" />
+        Scheduled {format(publishAt, "MMM d, HH:mm")}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="secondary" className={cn("capitalize", className)}>
+      {photo.status}
+    </Badge>
+  );
+}
@@ -6,6 +6,7 @@ import { useState } from "react";
 import { format } from "date-fns";
 
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Table,
   TableBody,
@@ -17,10 +18,20 @@ import {
 import type { PhotoListItem } from "@/lib/data/photos";
 import { PhotoVisibilityToggle } from "@/components/admin/photo-visibility-toggle";
 import { PhotoLightbox } from "@/components/admin/photo-lightbox";
+import { PhotoStatusBadge } from "@/components/admin/photo-status-badge";
 import { cn } from "@/lib/utils";
 
 interface PhotoTableProps {
   photos: PhotoListItem[];
+  /** Shows a checkbox column when set */
+  selection?: PhotoTableSelection;
+}
+
+export interface PhotoTableSelection {
+  selectedIds: ReadonlySet<string>;
+  /** `range` is set for shift-clicks */
+  onToggle: (photoId: string, options: { range: boolean }) => void;
+  onToggleAll: (selected: boolean) => void;
 }
 
 interface LightboxState {
@@ -29,7 +40,7 @@ interface LightboxState {
   title: string | null;
 }
 
-export function PhotoTable({ photos }: PhotoTableProps) {
+export function PhotoTable({ photos, selection }: PhotoTableProps) {
   const [lightbox, setLightbox] = useState<LightboxState>({
     open: false,
     src: null,
@@ -50,6 +61,10 @@ export function PhotoTable({ photos }: PhotoTableProps) {
   const closeLightbox = () => {
     setLightbox((prev) => ({ ...prev, open: false }));
   };
+
+  const selectedCount = selection
+    ? photos.filter((photo) => selection.selectedIds.has(photo.id)).length
+    : 0;
   if (photos.length === 0) {
     return (
       <div className="rounded-lg border border-dashed bg-muted/20 p-10 text-center text-sm text-muted-foreground">
@@ -63,6 +78,17 @@ export function PhotoTable({ photos }: PhotoTableProps) {
     <Table>
       <TableHeader>
         <TableRow>
+          {selection && (
+            <TableHead className="w-10">
+              <Checkbox
+                aria-label="Select all loaded photos"
+                checked={
+                  selectedCount === 0 ? false : selectedCount === photos.length ? true : "indeterminate"
+                }
+                onCheckedChange={(checked) => selection.onToggleAll(checked === true)}
+              />
+            </TableHead>
+          )}
           <TableHead className="w-[120px]">Preview</TableHead>
           <TableHead>Title</TableHead>
           <TableHead>Date</TableHead>
@@ -78,7 +104,23 @@ export function PhotoTable({ photos }: PhotoTableProps) {
           const location = buildLocation(photo);
 
           return (
-            <TableRow key={photo.id}>
+            <TableRow
+              key={photo.id}
+              data-state={selection?.selectedIds.has(photo.id) ? "selected" : undefined}
+            >
+              {selection && (
+                <TableCell>
+                  <Checkbox
+                    aria-label={`Select ${photo.title || "photo"}`}
+                    checked={selection.selectedIds.has(photo.id)}
+                    // Handled on click rather than onCheckedChange to see the shift key
+                    onClick={(event) => {
+                      event.preventDefault();
+                      selection.onToggle(photo.id, { range: event.shiftKey });
+                    }}
+                  />
+                </TableCell>
+              )}
               <TableCell>
                 <button
                   type="button"
@@ -135,9 +177,7 @@ export function PhotoTable({ photos }: PhotoTableProps) {
               </TableCell>
               <TableCell>
                 <div className="flex flex-wrap gap-2">
-                  <Badge variant="secondary" className="capitalize">
-                    {photo.status}
-                  </Badge>
+                  <PhotoStatusBadge photo={photo} />
                   <Badge variant="outline" className="capitalize">
                     {photo.visibility}
                   </Badge>
@@ -184,12 +224,12 @@ export function PhotoTable({ photos }: PhotoTableProps) {
 }
 
 function pickRendition(photo: PhotoListItem) {
-  const lookup = new Map(photo.renditions.map((r) => [r.variant_name, r]));
+  const lookup = new Map(photo.variants.map((v) => [v.variant_name, v.formats.jpeg]));
   return lookup.get("list") ?? lookup.get("thumb") ?? lookup.get("detail") ?? null;
 }
 
 function pickDetailRendition(photo: PhotoListItem) {
-  const lookup = new Map(photo.renditions.map((r) => [r.variant_name, r]));
+  const lookup = new Map(photo.variants.map((v) => [v.variant_name, v.formats.jpeg]));
   return lookup.get("detail") ?? lookup.get("list") ?? null;
 }
 
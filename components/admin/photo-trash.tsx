@@ -0,0 +1,232 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useMemo, useState, useTransition } from "react";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+import {
+  purgePhotosAction,
+  restorePhotosAction,
+} from "@/app/admin/(protected)/gallery/trash/actions";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePhotoSelection } from "@/hooks/use-photo-selection";
+import { toast } from "@/hooks/use-toast";
+import type { PhotoListItem } from "@/lib/data/photos";
+import type { BulkPhotoActionResult } from "@/types/photos";
+
+interface PhotoTrashProps {
+  photos: PhotoListItem[];
+  retentionDays: number;
+}
+
+export function PhotoTrash({ photos, retentionDays }: PhotoTrashProps) {
+  const router = useRouter();
+  const photoIds = useMemo(() => photos.map((photo) => photo.id), [photos]);
+  const { selectedIds, toggle, selectAll, replace } = usePhotoSelection(photoIds);
+  const [purgeIds, setPurgeIds] = useState<string[] | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const run = (label: string, action: () => Promise<BulkPhotoActionResult>) => {
+    startTransition(async () => {
+      try {
+        const result = await action();
+        const failures = result.results.filter((entry) => !entry.success);
+
+        toast({
+          title:
+            failures.length > 0
+              ? `${label}: ${failures.length} of ${result.results.length} failed`
+              : `${label}: ${result.succeeded} ${result.succeeded === 1 ? "photo" : "photos"}`,
+          description:
+            failures.length > 0
+              ? failures
+                  .slice(0, 3)
+                  .map((entry) => `#${entry.photoId.slice(0, 8)}: ${entry.error}`)
+                  .join(" ")
+              : undefined,
+        });
+
+        setPurgeIds(null);
+        replace(failures.map((entry) => entry.photoId));
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: `${label} failed`,
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  if (photos.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed bg-muted/20 p-10 text-center text-sm text-muted-foreground">
+        The trash is empty.
+      </div>
+    );
+  }
+
+  const selected = Array.from(selectedIds);
+  const selectedCount = selected.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">
+          {selectedCount > 0 ? `${selectedCount} selected` : `${photos.length} photos`}
+        </span>
+        <div className="ml-auto flex flex-wrap items-center gap-2">
+          {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isPending || selectedCount === 0}
+            onClick={() => run("Restored", () => restorePhotosAction({ photoIds: selected }))}
+          >
+            <RotateCcw className="mr-1 h-4 w-4" /> Restore
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isPending || selectedCount === 0}
+            onClick={() => setPurgeIds(selected)}
+          >
+            <Trash2 className="mr-1 h-4 w-4" /> Delete permanently
+          </Button>
+          <Button variant="destructive" size="sm" disabled={isPending} onClick={() => setPurgeIds(photoIds)}>
+            Empty trash
+          </Button>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">
+              <Checkbox
+                aria-label="Select all"
+                checked={
+                  selectedCount === 0 ? false : selectedCount === photos.length ? true : "indeterminate"
+                }
+                onCheckedChange={(checked) => selectAll(checked === true)}
+              />
+            </TableHead>
+            <TableHead className="w-[120px]">Preview</TableHead>
+            <TableHead>Title</TableHead>
+            <TableHead>Deleted</TableHead>
+            <TableHead>Permanently deleted</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {photos.map((photo) => {
+            const rendition = pickRendition(photo);
+            const deletedAt = new Date(photo.deleted_at as string);
+            const purgeDate = addDays(deletedAt, retentionDays);
+            const daysLeft = Math.max(0, differenceInCalendarDays(purgeDate, new Date()));
+
+            return (
+              <TableRow key={photo.id} data-state={selectedIds.has(photo.id) ? "selected" : undefined}>
+                <TableCell>
+                  <Checkbox
+                    aria-label={`Select ${photo.title || "photo"}`}
+                    checked={selectedIds.has(photo.id)}
+                    // Handled on click rather than onCheckedChange to see the shift key
+                    onClick={(event) => {
+                      event.preventDefault();
+                      toggle(photo.id, { range: event.shiftKey });
+                    }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="relative h-16 w-20 overflow-hidden rounded-md bg-muted">
+                    {rendition ? (
+                      <Image
+                        src={rendition.url}
+                        alt={photo.title ?? "Photo thumbnail"}
+                        fill
+                        sizes="80px"
+                        className="object-cover"
+                      />
+                    ) : (
+                      <div className="flex h-full w-full items-center justify-center text-[10px] text-muted-foreground">
+                        No preview
+                      </div>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-col">
+                    <Link
+                      href={`/admin/gallery/photos/${photo.id}`}
+                      className="font-medium text-foreground hover:underline"
+                    >
+                      {photo.title || "Untitled"}
+                    </Link>
+                    <span className="text-xs text-muted-foreground">#{photo.id.slice(0, 8)}</span>
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {format(deletedAt, "MMM d, yyyy")}
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">
+                  {format(purgeDate, "MMM d, yyyy")} ({daysLeft} {daysLeft === 1 ? "day" : "days"} left)
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <Dialog open={purgeIds !== null} onOpenChange={(open) => !isPending && !open && setPurgeIds(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete {purgeIds?.length ?? 0} photos permanently?</DialogTitle>
+            <DialogDescription>
+              This deletes the photos, their metadata and every stored file, including the
+              originals. It cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setPurgeIds(null)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={isPending || !purgeIds}
+              onClick={() => purgeIds && run("Deleted", () => purgePhotosAction({ photoIds: purgeIds }))}
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete permanently
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function pickRendition(photo: PhotoListItem) {
+  const lookup = new Map(photo.variants.map((v) => [v.variant_name, v.formats.jpeg]));
+  return lookup.get("thumb") ?? lookup.get("list") ?? lookup.get("detail") ?? null;
+}
@@ -0,0 +1,37 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { LayoutGrid, List } from "lucide-react";
+
+import type { PhotoBrowserView } from "@/components/admin/photo-browser";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { mergeSearchParams } from "@/lib/navigation";
+
+interface PhotoViewToggleProps {
+  view: PhotoBrowserView;
+}
+
+export function PhotoViewToggle({ view }: PhotoViewToggleProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const handleChange = (value: string) => {
+    const query = mergeSearchParams(searchParams, { view: value === "table" ? null : value });
+    // Switching views keeps the scroll position and the photos already loaded
+    router.replace(`${pathname}${query}`, { scroll: false });
+  };
+
+  return (
+    <Tabs value={view} onValueChange={handleChange}>
+      <TabsList>
+        <TabsTrigger value="table" aria-label="Table view">
+          <List className="h-4 w-4" />
+        </TabsTrigger>
+        <TabsTrigger value="grid" aria-label="Grid view">
+          <LayoutGrid className="h-4 w-4" />
+        </TabsTrigger>
+      </TabsList>
+    </Tabs>
+  );
+}
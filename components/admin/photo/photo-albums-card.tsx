@@ -0,0 +1,130 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { Images, Loader2, Plus, X } from "lucide-react";
+
+import {
+  addPhotosToAlbumAction,
+  removePhotosFromAlbumAction,
+} from "@/app/admin/(protected)/gallery/albums/actions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import type { AlbumOption } from "@/lib/data/albums";
+
+interface PhotoAlbumsCardProps {
+  photoId: string;
+  /** Albums the photo is in */
+  albums: AlbumOption[];
+  allAlbums: AlbumOption[];
+}
+
+export function PhotoAlbumsCard({ photoId, albums, allAlbums }: PhotoAlbumsCardProps) {
+  const router = useRouter();
+  const [albumId, setAlbumId] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const memberIds = new Set(albums.map((album) => album.id));
+  const available = allAlbums.filter((album) => !memberIds.has(album.id));
+
+  const handleAdd = () => {
+    startTransition(async () => {
+      try {
+        const result = await addPhotosToAlbumAction({ albumId, photoIds: [photoId] });
+        const failure = result.results.find((entry) => !entry.success);
+        if (failure) {
+          throw new Error(failure.error);
+        }
+
+        setAlbumId("");
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to add to album",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  const handleRemove = (album: AlbumOption) => {
+    startTransition(async () => {
+      try {
+        await removePhotosFromAlbumAction({ albumId: album.id, photoIds: [photoId] });
+        toast({ title: "Removed from album", description: `Removed from "${album.title}".` });
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to remove from album",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-2">
+        <Images className="h-4 w-4 text-muted-foreground" />
+        <CardTitle className="text-base">Albums</CardTitle>
+        {isPending && <Loader2 className="ml-auto h-4 w-4 animate-spin text-muted-foreground" />}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {albums.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Not in any album.</p>
+        ) : (
+          <ul className="space-y-1">
+            {albums.map((album) => (
+              <li key={album.id} className="flex items-center justify-between gap-2 text-sm">
+                <Link href={`/admin/gallery/albums/${album.id}`} className="truncate hover:underline">
+                  {album.title}
+                </Link>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Remove from album"
+                  disabled={isPending}
+                  onClick={() => handleRemove(album)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {available.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value={albumId} onValueChange={setAlbumId} disabled={isPending}>
+              <SelectTrigger>
+                <SelectValue placeholder="Add to album" />
+              </SelectTrigger>
+              <SelectContent>
+                {available.map((album) => (
+                  <SelectItem key={album.id} value={album.id}>
+                    {album.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleAdd} disabled={isPending || !albumId}>
+              <Plus className="mr-1 h-4 w-4" /> Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { Archive, ArchiveRestore, Loader2 } from "lucide-react";
+
+import {
+  archivePhotoAction,
+  unarchivePhotoAction,
+} from "@/app/admin/(protected)/gallery/photos/[photo-id]/actions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+
+interface PhotoArchiveControlsProps {
+  photoId: string;
+  isArchived: boolean;
+}
+
+/**
+ * Shows an unarchive banner for an archived photo, otherwise a card to
+ * archive it.
+ */
+export function PhotoArchiveControls({ photoId, isArchived }: PhotoArchiveControlsProps) {
+  const router = useRouter();
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [coldStorage, setColdStorage] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const handleArchive = () => {
+    startTransition(async () => {
+      try {
+        await archivePhotoAction({ photoId, coldStorage });
+        toast({
+          title: "Photo archived",
+          description: "It is hidden and left out of the gallery unless you filter for archived photos.",
+        });
+        setIsConfirmOpen(false);
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to archive",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  const handleUnarchive = () => {
+    startTransition(async () => {
+      try {
+        await unarchivePhotoAction({ photoId });
+        toast({
+          title: "Photo unarchived",
+          description: "The photo is back in the gallery, hidden until you make it visible.",
+        });
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to unarchive",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  if (isArchived) {
+    return (
+      <div className="rounded-lg border-2 border-amber-500 bg-amber-50 p-4 dark:bg-amber-950">
+        <div className="mb-2 flex items-center gap-2">
+          <Archive className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+          <h3 className="text-base font-semibold text-amber-800 dark:text-amber-200">Archived</h3>
+        </div>
+        <p className="mb-4 text-sm text-amber-700 dark:text-amber-300">
+          This photo is hidden and left out of the gallery and the public API. Unarchive it to
+          publish it again.
+        </p>
+        <Button variant="outline" size="sm" onClick={handleUnarchive} disabled={isPending}>
+          {isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <ArchiveRestore className="mr-2 h-4 w-4" />
+          )}
+          Unarchive
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Archive photo</CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Hides the photo and keeps it out of the gallery without deleting it.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => {
+            setColdStorage(false);
+            setIsConfirmOpen(true);
+          }}
+          disabled={isPending}
+        >
+          <Archive className="mr-2 h-4 w-4" />
+          Archive
+        </Button>
+      </CardContent>
+
+      <Dialog open={isConfirmOpen} onOpenChange={(open) => !isPending && setIsConfirmOpen(open)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Archive photo?</DialogTitle>
+            <DialogDescription>
+              The photo is hidden and left out of the gallery and the public API. Filter the gallery
+              by archived photos to find it again.
+            </DialogDescription>
+          </DialogHeader>
+          <label className="flex items-start gap-2 text-sm">
+            <Checkbox
+              checked={coldStorage}
+              onCheckedChange={(checked) => setColdStorage(checked === true)}
+              className="mt-0.5"
+            />
+            <span>
+              Move the original to Infrequent Access storage
+              <span className="block text-muted-foreground">
+                Cheaper to keep, but billed per read and for at least 30 days. Renditions are not
+                moved.
+              </span>
+            </span>
+          </label>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleArchive} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Archive
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
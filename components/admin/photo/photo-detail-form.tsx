@@ -2,12 +2,13 @@
 
 import { useEffect, useMemo, useState, useTransition } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { Calendar as CalendarIcon, MapPin } from "lucide-react";
+import { Calendar as CalendarIcon, Clock, MapPin, Plus, X } from "lucide-react";
 import { useRouter } from "next/navigation";
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
 import { z } from "zod";
 
 import { geocodePhotoAction, updatePhotoAction } from "@/app/admin/(protected)/gallery/photos/[photo-id]/actions";
+import { createTagAction } from "@/app/admin/(protected)/gallery/tags/actions";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
   Form,
@@ -21,10 +22,19 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Calendar } from "@/components/ui/calendar";
 import { Switch } from "@/components/ui/switch";
-import type { PhotoDetail, Tag } from "@/types/photos";
+import type { PhotoDetail, PhotoVisibility, Tag } from "@/types/photos";
 import { toast } from "@/hooks/use-toast";
+import { isProcessedStatus } from "@/lib/photo-status";
+import { sortTagTree } from "@/lib/tags";
 
 const formSchema = z.object({
   title: z.string().max(255).optional(),
@@ -35,9 +45,32 @@ const formSchema = z.object({
   region: z.string().max(255).optional(),
   country: z.string().max(255).optional(),
   isVisible: z.boolean(),
+  visibility: z.enum(["public", "unlisted", "private"]),
+  publishAt: z.date().nullable(),
   tagIds: z.array(z.string()),
 });
 
+const VISIBILITY_OPTIONS: Array<{ value: PhotoVisibility; label: string; description: string }> = [
+  {
+    value: "public",
+    label: "Public",
+    description: "Listed in the public gallery while visible.",
+  },
+  {
+    value: "unlisted",
+    label: "Unlisted",
+    description: "Left out of the public gallery; anyone with a share link can view it.",
+  },
+  {
+    value: "private",
+    label: "Private",
+    description: "Only visible in the admin. Share links stop working.",
+  },
+];
+
+/** Time of day a publish date starts at when picked from the calendar */
+const DEFAULT_PUBLISH_TIME = "09:00";
+
 type FormValues = z.infer<typeof formSchema>;
 
 interface PhotoDetailFormProps {
@@ -49,6 +82,16 @@ export function PhotoDetailForm({ photo, allTags }: PhotoDetailFormProps) {
   const router = useRouter();
   const [isPending, startTransition] = useTransition();
   const [isGeocoding, setIsGeocoding] = useState(false);
+  const [newTagName, setNewTagName] = useState("");
+  const [isCreatingTag, setIsCreatingTag] = useState(false);
+  // Tags created from the picker, until the refreshed page includes them
+  const [createdTags, setCreatedTags] = useState<Tag[]>([]);
+
+  const tags = useMemo(() => {
+    const known = new Set(allTags.map((tag) => tag.id));
+    return [...allTags, ...createdTags.filter((tag) => !known.has(tag.id))];
+  }, [allTags, createdTags]);
+  const tagTree = useMemo(() => sortTagTree(tags), [tags]);
 
   // Check if we can show the geocode button:
   // - Has coordinates
@@ -59,6 +102,9 @@ export function PhotoDetailForm({ photo, allTags }: PhotoDetailFormProps) {
   const canGeocode = hasCoordinates && hasNoLocationInfo;
 
   const isFormLocked = isPending || isGeocoding;
+  const isArchived = photo.status === "archived";
+  // Unfinished photos cannot be scheduled, like they cannot be made visible
+  const canSchedule = isProcessedStatus(photo.status) && !isArchived;
 
   const defaultValues: FormValues = useMemo(
     () => ({
@@ -70,6 +116,8 @@ export function PhotoDetailForm({ photo, allTags }: PhotoDetailFormProps) {
       region: photo.region ?? "",
       country: photo.country ?? "",
       isVisible: photo.is_visible,
+      visibility: photo.visibility,
+      publishAt: photo.publish_at ? new Date(photo.publish_at) : null,
       tagIds: photo.tags.map((tag) => tag.id),
     }),
     [photo],
@@ -84,6 +132,9 @@ export function PhotoDetailForm({ photo, allTags }: PhotoDetailFormProps) {
     form.reset(defaultValues);
   }, [defaultValues, form]);
 
+  const publishAt = useWatch({ control: form.control, name: "publishAt" });
+  const isScheduled = isFutureDate(publishAt);
+
   const onSubmit = (values: FormValues) => {
     startTransition(async () => {
       try {
@@ -96,7 +147,10 @@ export function PhotoDetailForm({ photo, allTags }: PhotoDetailFormProps) {
           city: normalizeField(values.city),
           region: normalizeField(values.region),
           country: normalizeField(values.country),
-          isVisible: values.isVisible,
+          // A scheduled photo stays hidden until its publish time
+          isVisible: isFutureDate(values.publishAt) ? false : values.isVisible,
+          visibility: values.visibility,
+          publishAt: values.publishAt ? values.publishAt.toISOString() : null,
           tagIds: Array.from(new Set(values.tagIds)),
         });
 
@@ -138,6 +192,45 @@ export function PhotoDetailForm({ photo, allTags }: PhotoDetailFormProps) {
     }
   };
 
+  const handleCreateTag = async () => {
+    const name = newTagName.trim();
+    if (!name) return;
+
+    const selectTag = (tagId: string) => {
+      const current = form.getValues("tagIds");
+      if (!current.includes(tagId)) {
+        form.setValue("tagIds", [...current, tagId], { shouldDirty: true });
+      }
+      setNewTagName("");
+    };
+
+    const existing = tags.find((tag) => tag.name.toLowerCase() === name.toLowerCase());
+    if (existing) {
+      selectTag(existing.id);
+      return;
+    }
+
+    setIsCreatingTag(true);
+    try {
+      const { tag } = await createTagAction({ name });
+      setCreatedTags((current) => [...current, tag]);
+      selectTag(tag.id);
+      toast({
+        title: "Tag created",
+        description: `"${tag.name}" is selected. Save changes to add it to this photo.`,
+      });
+    } catch (error) {
+      console.error(error);
+      toast({
+        title: "Unable to create tag",
+        description:
+          error instanceof Error ? error.message : "An unexpected error occurred.",
+      });
+    } finally {
+      setIsCreatingTag(false);
+    }
+  };
+
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
@@ -274,6 +367,34 @@ export function PhotoDetailForm({ photo, allTags }: PhotoDetailFormProps) {
             </Button>
           )}
 
+          <FormField
+            control={form.control}
+            name="visibility"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Audience</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {VISIBILITY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  {VISIBILITY_OPTIONS.find((option) => option.value === field.value)?.description}
+                </p>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <FormField
             control={form.control}
             name="isVisible"
@@ -282,16 +403,96 @@ export function PhotoDetailForm({ photo, allTags }: PhotoDetailFormProps) {
                 <div className="space-y-0.5">
                   <FormLabel>Visible</FormLabel>
                   <p className="text-sm text-muted-foreground">
-                    Toggle to control whether this photo appears in public listings.
+                    {isArchived
+                      ? "Archived photos stay hidden. Unarchive it to show it again."
+                      : isScheduled && publishAt
+                        ? `Hidden until it is published on ${formatDateTime(publishAt)}.`
+                        : "Toggle to control whether this photo appears in public listings."}
                   </p>
                 </div>
                 <FormControl>
-                  <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  <Switch
+                    checked={field.value && !isScheduled}
+                    onCheckedChange={field.onChange}
+                    disabled={isScheduled || isArchived}
+                  />
                 </FormControl>
               </FormItem>
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="publishAt"
+            render={({ field }) => (
+              <FormItem className="flex flex-col gap-2">
+                <FormLabel>Publish at</FormLabel>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        type="button"
+                        disabled={!canSchedule}
+                        className={`justify-start text-left font-normal ${!field.value ? "text-muted-foreground" : ""}`}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {field.value ? formatDate(field.value) : "Publish now"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value ?? undefined}
+                        onSelect={(date) => {
+                          // Keep the time already chosen when moving to another day
+                          const time = field.value ? formatTime(field.value) : DEFAULT_PUBLISH_TIME;
+                          field.onChange(date ? withTime(date, time) : null);
+                        }}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  {field.value && (
+                    <>
+                      <div className="relative">
+                        <Clock className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                        <Input
+                          type="time"
+                          className="w-32 pl-9"
+                          aria-label="Publish time"
+                          value={formatTime(field.value)}
+                          onChange={(event) => {
+                            if (field.value && event.target.value) {
+                              field.onChange(withTime(field.value, event.target.value));
+                            }
+                          }}
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        title="Clear publish time"
+                        onClick={() => field.onChange(null)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {canSchedule
+                    ? "Pick a future date to keep the photo hidden until then; it is published automatically."
+                    : isArchived
+                      ? "Unarchive the photo to schedule it."
+                      : "Available once processing is complete."}
+                </p>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <FormField
             control={form.control}
             name="tagIds"
@@ -299,13 +500,17 @@ export function PhotoDetailForm({ photo, allTags }: PhotoDetailFormProps) {
               <FormItem>
                 <FormLabel>Tags</FormLabel>
                 <div className="grid gap-2">
-                  {allTags.length === 0 && (
-                    <p className="text-sm text-muted-foreground">No tags available. Create tags in Supabase to assign them here.</p>
+                  {tags.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No tags yet. Create one below.</p>
                   )}
-                  {allTags.map((tag) => {
+                  {tagTree.map(({ tag, depth }) => {
                     const isChecked = field.value.includes(tag.id);
                     return (
-                      <label key={tag.id} className="flex items-center gap-3 text-sm">
+                      <label
+                        key={tag.id}
+                        className="flex items-center gap-3 text-sm"
+                        style={{ paddingLeft: `${depth * 1.5}rem` }}
+                      >
                         <Checkbox
                           checked={isChecked}
                           onCheckedChange={(checked) => {
@@ -315,11 +520,44 @@ export function PhotoDetailForm({ photo, allTags }: PhotoDetailFormProps) {
                             field.onChange(next);
                           }}
                         />
+                        {tag.color && (
+                          <span
+                            className="h-2.5 w-2.5 rounded-full"
+                            style={{ backgroundColor: tag.color }}
+                          />
+                        )}
                         <span>{tag.name}</span>
                       </label>
                     );
                   })}
                 </div>
+                <div className="flex items-center gap-2">
+                  <Input
+                    placeholder="New tag"
+                    value={newTagName}
+                    maxLength={64}
+                    disabled={isCreatingTag}
+                    onChange={(event) => setNewTagName(event.target.value)}
+                    onKeyDown={(event) => {
+                      // Enter would submit the photo form
+                      if (event.key === "Enter") {
+                        event.preventDefault();
+                        void handleCreateTag();
+                      }
+                    }}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    disabled={isCreatingTag || !newTagName.trim()}
+                    onClick={() => void handleCreateTag()}
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add
+                  </Button>
+                </div>
                 <FormMessage />
               </FormItem>
             )}
@@ -348,3 +586,29 @@ function formatDate(date: Date) {
     day: "numeric",
   });
 }
+
+function formatDateTime(date: Date) {
+  return date.toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/** "HH:mm" in local time, the value format of a time input */
+function formatTime(date: Date) {
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
+
+function withTime(date: Date, time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  const next = new Date(date);
+  next.setHours(hours, minutes, 0, 0);
+  return next;
+}
+
+function isFutureDate(date: Date | null) {
+  return date !== null && date.getTime() > Date.now();
+}
@@ -0,0 +1,29 @@
+"use client";
+
+import type { ReactNode } from "react";
+
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+interface PhotoDetailTabsProps {
+  details: ReactNode;
+  history: ReactNode;
+  audit: ReactNode;
+}
+
+export function PhotoDetailTabs({ details, history, audit }: PhotoDetailTabsProps) {
+  return (
+    <Tabs defaultValue="details">
+      <TabsList>
+        <TabsTrigger value="details">Details</TabsTrigger>
+        <TabsTrigger value="history">History</TabsTrigger>
+        <TabsTrigger value="audit">Audit</TabsTrigger>
+      </TabsList>
+      {/* Kept mounted, so unsaved form edits survive a look at another tab */}
+      <TabsContent value="details" forceMount className="data-[state=inactive]:hidden">
+        {details}
+      </TabsContent>
+      <TabsContent value="history">{history}</TabsContent>
+      <TabsContent value="audit">{audit}</TabsContent>
+    </Tabs>
+  );
+}
@@ -4,7 +4,12 @@ import { useState } from "react";
 import { AlertTriangle, Loader2, RefreshCw, CheckCircle2 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
+import {
+  PHOTO_JOB_PHASE_LABELS,
+  usePhotoJobStatus,
+} from "@/hooks/use-photo-job-status";
 import { toast } from "@/hooks/use-toast";
+import { isProcessedStatus } from "@/lib/photo-status";
 import { reprocessPhotoAction } from "@/app/admin/(protected)/gallery/photos/[photo-id]/actions";
 
 interface PhotoProcessingStatusProps {
@@ -19,14 +24,14 @@ interface PhotoProcessingStatusProps {
 /**
  * Determines if a photo needs reprocessing based on its state.
  * A photo needs reprocessing if:
- * - Status is not "published"
+ * - Status is "draft", i.e. processing never finished
  * - OR key derived fields are missing (blurhash, dominant_color)
  * - OR renditions/histogram are missing
  */
 function needsReprocessing(props: PhotoProcessingStatusProps): boolean {
   const { status, blurhash, dominantColor, hasHistogram, hasRenditions } = props;
   
-  if (status !== "published") {
+  if (!isProcessedStatus(status)) {
     return true;
   }
   if (!blurhash || !dominantColor) {
@@ -76,7 +81,8 @@ function getStatusInfo(props: PhotoProcessingStatusProps): {
 
 export function PhotoProcessingStatus(props: PhotoProcessingStatusProps) {
   const [isProcessing, setIsProcessing] = useState(false);
-  const [isComplete, setIsComplete] = useState(false);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const { job, error: jobError, stopped } = usePhotoJobStatus(jobId);
 
   if (!needsReprocessing(props)) {
     return null;
@@ -84,21 +90,31 @@ export function PhotoProcessingStatus(props: PhotoProcessingStatusProps) {
 
   const statusInfo = getStatusInfo(props);
 
+  if (job?.status === "failed") {
+    statusInfo.title = "Reprocessing Failed";
+    statusInfo.description = job.error?.message ?? "Reprocessing did not complete. Try again.";
+    statusInfo.variant = "warning";
+  } else if (jobId && stopped) {
+    statusInfo.title = "Reprocessing Status Unavailable";
+    statusInfo.description = jobError ?? "Unable to fetch the reprocessing job.";
+    statusInfo.variant = "warning";
+  }
+
   const handleReprocess = async () => {
     setIsProcessing(true);
-    setIsComplete(false);
+    setJobId(null);
 
     try {
-      await reprocessPhotoAction({ photoId: props.photoId });
-      setIsComplete(true);
+      const result = await reprocessPhotoAction({ photoId: props.photoId });
+      setJobId(result.jobId);
       toast({
-        title: "Processing Complete",
-        description: "Photo has been successfully reprocessed.",
+        title: "Reprocessing Queued",
+        description: "Photo will be reprocessed in the background.",
       });
     } catch (error) {
       toast({
         title: "Processing Failed",
-        description: error instanceof Error ? error.message : "An error occurred during reprocessing.",
+        description: error instanceof Error ? error.message : "An error occurred while queueing reprocessing.",
         variant: "destructive",
       });
     } finally {
@@ -106,7 +122,37 @@ export function PhotoProcessingStatus(props: PhotoProcessingStatusProps) {
     }
   };
 
-  if (isComplete) {
+  if (jobId && !stopped && job?.status !== "succeeded" && job?.status !== "failed") {
+    const percent = job?.percent ?? 0;
+    const phaseLabel =
+      job?.status === "running" && job.phase
+        ? PHOTO_JOB_PHASE_LABELS[job.phase]
+        : job?.error?.willRetry
+          ? "Waiting to retry"
+          : "Queued";
+
+    return (
+      <div className="rounded-lg border-2 border-blue-500 bg-blue-50 p-4 dark:bg-blue-950">
+        <div className="flex items-center gap-2 mb-2">
+          <Loader2 className="h-5 w-5 animate-spin text-blue-600 dark:text-blue-400" />
+          <h3 className="text-base font-semibold text-blue-800 dark:text-blue-200">
+            Reprocessing...
+          </h3>
+        </div>
+        <p className="text-sm text-blue-700 dark:text-blue-300 mb-3">
+          {phaseLabel} · {percent}%
+        </p>
+        <div className="h-1.5 w-full overflow-hidden rounded-full bg-blue-100 dark:bg-blue-900">
+          <div
+            className="h-full bg-blue-600 transition-all duration-300 dark:bg-blue-400"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if (job?.status === "succeeded") {
     return (
       <div className="rounded-lg border-2 border-emerald-500 bg-emerald-50 p-4 dark:bg-emerald-950">
         <div className="flex items-center gap-2 mb-2">
@@ -174,7 +220,7 @@ export function PhotoProcessingStatus(props: PhotoProcessingStatusProps) {
         {isProcessing ? (
           <>
             <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-            Reprocessing...
+            Queueing...
           </>
         ) : (
           <>
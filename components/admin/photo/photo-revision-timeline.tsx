@@ -0,0 +1,126 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { format } from "date-fns";
+import { Loader2, Undo2 } from "lucide-react";
+
+import { revertPhotoRevisionAction } from "@/app/admin/(protected)/gallery/photos/[photo-id]/actions";
+import { AuditChanges } from "@/components/admin/audit-log-table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import type { PhotoRevision, PhotoRevisionSource } from "@/types/photos";
+
+const SOURCE_LABELS: Record<PhotoRevisionSource, string> = {
+  initial: "Before the first edit",
+  edit: "Edited",
+  geocode: "Location looked up",
+  bulk: "Bulk edit",
+  revert: "Reverted",
+};
+
+interface PhotoRevisionTimelineProps {
+  photoId: string;
+  /** Newest first */
+  revisions: PhotoRevision[];
+  /** The photo's saved values, to tell which revisions it already matches */
+  current: PhotoRevision["fields"];
+}
+
+export function PhotoRevisionTimeline({ photoId, revisions, current }: PhotoRevisionTimelineProps) {
+  const router = useRouter();
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleRevert = (revision: PhotoRevision) => {
+    setRevertingId(revision.id);
+    startTransition(async () => {
+      try {
+        await revertPhotoRevisionAction({ photoId, revisionId: revision.id });
+        toast({
+          title: "Revision restored",
+          description: `Fields are back to ${formatRevisionDate(revision)}. Revert again to undo.`,
+        });
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to revert",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      } finally {
+        setRevertingId(null);
+      }
+    });
+  };
+
+  if (revisions.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed bg-muted/20 p-6 text-center text-sm text-muted-foreground">
+        No edits yet. Each save of the title, description, capture date or location keeps a
+        revision here.
+      </div>
+    );
+  }
+
+  const revisionsById = new Map(revisions.map((revision) => [revision.id, revision]));
+
+  return (
+    <ol className="space-y-4 border-l pl-6">
+      {revisions.map((revision) => {
+        const isCurrent = matchesFields(revision.fields, current);
+        const revertedFrom =
+          revision.reverted_from !== null ? revisionsById.get(revision.reverted_from) : undefined;
+
+        return (
+          <li key={revision.id} className="relative space-y-2">
+            <span className="absolute -left-[29px] top-1.5 h-2.5 w-2.5 rounded-full border-2 border-background bg-muted-foreground" />
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{SOURCE_LABELS[revision.source]}</span>
+                {revertedFrom && (
+                  <span className="text-muted-foreground">to {formatRevisionDate(revertedFrom)}</span>
+                )}
+                <span className="text-muted-foreground">{formatRevisionDate(revision)}</span>
+                {isCurrent && <Badge variant="secondary">Current</Badge>}
+              </div>
+              {!isCurrent && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRevert(revision)}
+                  disabled={isPending}
+                >
+                  {revertingId === revision.id ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Undo2 className="mr-2 h-4 w-4" />
+                  )}
+                  Revert to this
+                </Button>
+              )}
+            </div>
+            {revision.source === "initial" ? (
+              <p className="text-sm text-muted-foreground">
+                The values the photo had before its history was kept.
+              </p>
+            ) : (
+              <AuditChanges changes={revision.changes} />
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function formatRevisionDate(revision: PhotoRevision) {
+  return format(new Date(revision.created_at), "MMM d, yyyy HH:mm");
+}
+
+function matchesFields(fields: PhotoRevision["fields"], current: PhotoRevision["fields"]) {
+  return (Object.keys(fields) as (keyof PhotoRevision["fields"])[]).every(
+    (field) => (fields[field] ?? null) === (current[field] ?? null),
+  );
+}
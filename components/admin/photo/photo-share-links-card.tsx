@@ -0,0 +1,109 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { Link2, Loader2, Plus } from "lucide-react";
+
+import { createShareLinkAction } from "@/app/admin/(protected)/gallery/share-links/actions";
+import { ShareLinkTable } from "@/components/admin/share-link-table";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import type { ShareLinkListItem } from "@/lib/data/share-links";
+import type { PhotoVisibility } from "@/types/photos";
+
+const NEVER = "never";
+
+const EXPIRY_OPTIONS = [
+  { value: "1", label: "Expires in 1 day" },
+  { value: "7", label: "Expires in 7 days" },
+  { value: "30", label: "Expires in 30 days" },
+  { value: NEVER, label: "Never expires" },
+];
+
+interface PhotoShareLinksCardProps {
+  photoId: string;
+  /** Saved visibility; links can only be created for unlisted photos */
+  visibility: PhotoVisibility;
+  links: ShareLinkListItem[];
+}
+
+export function PhotoShareLinksCard({ photoId, visibility, links }: PhotoShareLinksCardProps) {
+  const router = useRouter();
+  const [expiry, setExpiry] = useState("7");
+  const [isPending, startTransition] = useTransition();
+
+  const canCreate = visibility === "unlisted";
+
+  const handleCreate = () => {
+    startTransition(async () => {
+      try {
+        const { link } = await createShareLinkAction({
+          photoId,
+          expiresInDays: expiry === NEVER ? null : Number(expiry),
+        });
+
+        const url = new URL(link.path, window.location.origin).toString();
+        const copied = await navigator.clipboard.writeText(url).then(
+          () => true,
+          () => false,
+        );
+        toast({
+          title: "Share link created",
+          description: copied ? "The link is copied to the clipboard." : url,
+        });
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to create link",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center gap-2">
+        <Link2 className="h-4 w-4 text-muted-foreground" />
+        <CardTitle className="text-base">Share links</CardTitle>
+        {isPending && <Loader2 className="ml-auto h-4 w-4 animate-spin text-muted-foreground" />}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canCreate ? (
+          <div className="flex items-center gap-2">
+            <Select value={expiry} onValueChange={setExpiry} disabled={isPending}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleCreate} disabled={isPending}>
+              <Plus className="mr-1 h-4 w-4" /> Create link
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Set the audience to Unlisted and save to share this photo by link.
+          </p>
+        )}
+
+        {(canCreate || links.length > 0) && <ShareLinkTable links={links} />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { addDays, format } from "date-fns";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+import {
+  restorePhotoAction,
+  trashPhotoAction,
+} from "@/app/admin/(protected)/gallery/photos/[photo-id]/actions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "@/hooks/use-toast";
+
+interface PhotoTrashControlsProps {
+  photoId: string;
+  deletedAt: string | null;
+  /** Days a photo stays in the trash before it is purged */
+  retentionDays: number;
+}
+
+/**
+ * Shows a restore banner for a photo in the trash, otherwise a card to move
+ * it there.
+ */
+export function PhotoTrashControls({ photoId, deletedAt, retentionDays }: PhotoTrashControlsProps) {
+  const router = useRouter();
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const handleTrash = () => {
+    startTransition(async () => {
+      try {
+        await trashPhotoAction({ photoId });
+        toast({
+          title: "Moved to trash",
+          description: `The photo can be restored for ${retentionDays} days.`,
+        });
+        router.push("/admin/gallery");
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to delete",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  const handleRestore = () => {
+    startTransition(async () => {
+      try {
+        await restorePhotoAction({ photoId });
+        toast({
+          title: "Photo restored",
+          description: "The photo is back in the gallery, hidden until you make it visible.",
+        });
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to restore",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  if (deletedAt) {
+    const purgeDate = addDays(new Date(deletedAt), retentionDays);
+
+    return (
+      <div className="rounded-lg border-2 border-red-500 bg-red-50 p-4 dark:bg-red-950">
+        <div className="mb-2 flex items-center gap-2">
+          <Trash2 className="h-5 w-5 text-red-600 dark:text-red-400" />
+          <h3 className="text-base font-semibold text-red-800 dark:text-red-200">In the trash</h3>
+        </div>
+        <p className="mb-4 text-sm text-red-700 dark:text-red-300">
+          Deleted {format(new Date(deletedAt), "MMM d, yyyy")}. It will be permanently deleted on{" "}
+          {format(purgeDate, "MMM d, yyyy")} unless restored.
+        </p>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleRestore} disabled={isPending}>
+            {isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RotateCcw className="mr-2 h-4 w-4" />
+            )}
+            Restore
+          </Button>
+          <Button variant="ghost" size="sm" asChild>
+            <Link href="/admin/gallery/trash">Open trash</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Delete photo</CardTitle>
+      </CardHeader>
+      <CardContent className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Moves the photo to the trash. It is permanently deleted after {retentionDays} days.
+        </p>
+        <Button variant="destructive" size="sm" onClick={() => setIsConfirmOpen(true)} disabled={isPending}>
+          <Trash2 className="mr-2 h-4 w-4" />
+          Move to trash
+        </Button>
+      </CardContent>
+
+      <Dialog open={isConfirmOpen} onOpenChange={(open) => !isPending && setIsConfirmOpen(open)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Move to trash?</DialogTitle>
+            <DialogDescription>
+              The photo is hidden and removed from the gallery. You can restore it from the trash
+              within {retentionDays} days.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleTrash} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move to trash
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
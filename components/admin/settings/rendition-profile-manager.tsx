@@ -0,0 +1,510 @@
+"use client";
+
+import { useEffect, useState, useTransition } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Pencil, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+
+import {
+  backfillRenditionProfileAction,
+  createRenditionProfileAction,
+  deleteRenditionProfileAction,
+  updateRenditionProfileAction,
+} from "@/app/admin/(protected)/settings/renditions/actions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import type { RenditionFit, RenditionFormat, RenditionProfile } from "@/types/photos";
+
+const FORMAT_OPTIONS: Array<{ value: RenditionFormat; label: string }> = [
+  { value: "jpeg", label: "JPEG" },
+  { value: "webp", label: "WebP" },
+  { value: "avif", label: "AVIF" },
+];
+
+const FIT_OPTIONS: Array<{ value: RenditionFit; label: string; description: string }> = [
+  { value: "inside", label: "Inside", description: "Keep aspect ratio, cap the longest edge" },
+  { value: "cover", label: "Cover", description: "Crop to the aspect, keeping the salient region" },
+  { value: "contain", label: "Contain", description: "Letterbox to the aspect" },
+];
+
+const formSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .regex(/^[a-z0-9][a-z0-9-]{0,31}$/, "Use lowercase letters, numbers and dashes"),
+    maxEdge: z.string().regex(/^\d+$/, "Enter a whole number of pixels"),
+    fit: z.enum(["inside", "cover", "contain"]),
+    cropAspect: z.string().trim(),
+    quality: z.string().regex(/^\d+$/, "Enter a number from 1 to 100"),
+    formats: z.array(z.enum(["jpeg", "webp", "avif"])).min(1, "Select at least one format"),
+    backfill: z.boolean(),
+  })
+  .superRefine((value, ctx) => {
+    const maxEdge = Number(value.maxEdge);
+    if (maxEdge < 16 || maxEdge > 8192) {
+      ctx.addIssue({ code: "custom", path: ["maxEdge"], message: "Between 16 and 8192 pixels" });
+    }
+    const quality = Number(value.quality);
+    if (quality < 1 || quality > 100) {
+      ctx.addIssue({ code: "custom", path: ["quality"], message: "Between 1 and 100" });
+    }
+    if (value.fit !== "inside" && !/^\d+(\.\d+)?:\d+(\.\d+)?$/.test(value.cropAspect)) {
+      ctx.addIssue({ code: "custom", path: ["cropAspect"], message: "Use W:H, e.g. 1:1 or 16:9" });
+    }
+  });
+
+type FormValues = z.infer<typeof formSchema>;
+
+export interface RenditionProfileRow extends RenditionProfile {
+  /** thumb/list/detail: cannot be renamed or deleted, must keep JPEG */
+  isCore: boolean;
+}
+
+interface RenditionProfileManagerProps {
+  profiles: RenditionProfileRow[];
+}
+
+type EditorState = { mode: "create" } | { mode: "edit"; profile: RenditionProfileRow } | null;
+
+export function RenditionProfileManager({ profiles }: RenditionProfileManagerProps) {
+  const router = useRouter();
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [pendingDelete, setPendingDelete] = useState<RenditionProfileRow | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleBackfill = (profile: RenditionProfileRow) => {
+    startTransition(async () => {
+      try {
+        const { queued } = await backfillRenditionProfileAction({ profileId: profile.id });
+        toast({
+          title: "Backfill queued",
+          description: `Generating missing "${profile.name}" renditions for ${queued} photos.`,
+        });
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to start backfill",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!pendingDelete) return;
+    const profile = pendingDelete;
+
+    startTransition(async () => {
+      try {
+        const { deletedRenditions } = await deleteRenditionProfileAction({ profileId: profile.id });
+        toast({
+          title: "Profile deleted",
+          description: `Removed "${profile.name}" and ${deletedRenditions} renditions.`,
+        });
+        setPendingDelete(null);
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to delete profile",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => setEditor({ mode: "create" })} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New profile
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Max edge</TableHead>
+            <TableHead>Fit</TableHead>
+            <TableHead>Quality</TableHead>
+            <TableHead>Formats</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {profiles.map((profile) => (
+            <TableRow key={profile.id}>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{profile.name}</span>
+                  {profile.isCore && <Badge variant="secondary">Core</Badge>}
+                </div>
+              </TableCell>
+              <TableCell>{profile.max_edge}px</TableCell>
+              <TableCell className="capitalize">
+                {profile.fit}
+                {profile.crop_aspect && (
+                  <span className="text-muted-foreground"> · {profile.crop_aspect}</span>
+                )}
+              </TableCell>
+              <TableCell>{profile.quality}</TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-1">
+                  {profile.formats.map((format) => (
+                    <Badge key={format} variant="outline" className="uppercase">
+                      {format}
+                    </Badge>
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell>
+                <div className="flex justify-end gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Edit"
+                    onClick={() => setEditor({ mode: "edit", profile })}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Backfill missing renditions"
+                    disabled={isPending}
+                    onClick={() => handleBackfill(profile)}
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                  {!profile.isCore && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Delete"
+                      disabled={isPending}
+                      onClick={() => setPendingDelete(profile)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <RenditionProfileDialog
+        editor={editor}
+        onClose={() => setEditor(null)}
+        onSaved={() => {
+          setEditor(null);
+          router.refresh();
+        }}
+      />
+
+      <Dialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete &quot;{pendingDelete?.name}&quot;?</DialogTitle>
+            <DialogDescription>
+              Every rendition generated for this profile is removed from storage. Pages that
+              reference these files will stop loading them.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setPendingDelete(null)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isPending}>
+              {isPending ? "Deleting..." : "Delete profile"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface RenditionProfileDialogProps {
+  editor: EditorState;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function RenditionProfileDialog({ editor, onClose, onSaved }: RenditionProfileDialogProps) {
+  const [isPending, startTransition] = useTransition();
+  const editing = editor?.mode === "edit" ? editor.profile : null;
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(null),
+  });
+
+  useEffect(() => {
+    if (editor) {
+      form.reset(toFormValues(editor.mode === "edit" ? editor.profile : null));
+    }
+  }, [editor, form]);
+
+  const fit = useWatch({ control: form.control, name: "fit" });
+
+  const onSubmit = (values: FormValues) => {
+    const fields = {
+      maxEdge: Number(values.maxEdge),
+      fit: values.fit,
+      quality: Number(values.quality),
+      formats: values.formats,
+      cropAspect: values.fit === "inside" ? null : values.cropAspect,
+    };
+
+    startTransition(async () => {
+      try {
+        if (editing) {
+          await updateRenditionProfileAction({ profileId: editing.id, ...fields });
+          toast({ title: "Profile updated", description: "New uploads use the new settings." });
+        } else {
+          const { queued } = await createRenditionProfileAction({
+            name: values.name,
+            backfill: values.backfill,
+            ...fields,
+          });
+          toast({
+            title: "Profile created",
+            description: values.backfill
+              ? `Generating renditions for ${queued} existing photos.`
+              : "New uploads will include this profile.",
+          });
+        }
+        onSaved();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to save profile",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={editor !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{editing ? `Edit "${editing.name}"` : "New rendition profile"}</DialogTitle>
+          <DialogDescription>
+            {editing
+              ? "Existing renditions keep their current size until the photo is reprocessed."
+              : "The name becomes part of every rendition's file name and cannot be changed later."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <fieldset className="space-y-4" disabled={isPending}>
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. square-640" {...field} disabled={Boolean(editing)} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="maxEdge"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max edge (px)</FormLabel>
+                      <FormControl>
+                        <Input type="number" inputMode="numeric" min={16} max={8192} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="quality"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Quality</FormLabel>
+                      <FormControl>
+                        <Input type="number" inputMode="numeric" min={1} max={100} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="fit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fit</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {FIT_OPTIONS.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        {FIT_OPTIONS.find((option) => option.value === field.value)?.description}
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="cropAspect"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Crop aspect</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder={fit === "inside" ? "Original" : "e.g. 1:1"}
+                          {...field}
+                          disabled={fit === "inside"}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="formats"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Formats</FormLabel>
+                    <div className="flex flex-wrap gap-4">
+                      {FORMAT_OPTIONS.map((option) => {
+                        const locked = option.value === "jpeg" && editing?.isCore;
+                        return (
+                          <label key={option.value} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(option.value)}
+                              disabled={locked}
+                              onCheckedChange={(checked) => {
+                                field.onChange(
+                                  checked
+                                    ? [...field.value, option.value]
+                                    : field.value.filter((value) => value !== option.value),
+                                );
+                              }}
+                            />
+                            <span>{option.label}</span>
+                          </label>
+                        );
+                      })}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {!editing && (
+                <FormField
+                  control={form.control}
+                  name="backfill"
+                  render={({ field }) => (
+                    <FormItem>
+                      <label className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                        />
+                        <span>Generate for existing photos</span>
+                      </label>
+                    </FormItem>
+                  )}
+                />
+              )}
+            </fieldset>
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Saving..." : editing ? "Save changes" : "Create profile"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function toFormValues(profile: RenditionProfile | null): FormValues {
+  return {
+    name: profile?.name ?? "",
+    maxEdge: String(profile?.max_edge ?? 1600),
+    fit: profile?.fit ?? "inside",
+    cropAspect: profile?.crop_aspect ?? "",
+    quality: String(profile?.quality ?? 85),
+    formats: profile?.formats ?? ["jpeg", "webp", "avif"],
+    backfill: true,
+  };
+}
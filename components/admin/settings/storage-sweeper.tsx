@@ -0,0 +1,215 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { format } from "date-fns";
+import Link from "next/link";
+import { Loader2, Search, Trash2 } from "lucide-react";
+
+import {
+  scanStorageAction,
+  sweepStorageAction,
+} from "@/app/admin/(protected)/settings/storage/actions";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import type { StorageSweepReport } from "@/types/uploads";
+
+export function StorageSweeper() {
+  const [report, setReport] = useState<StorageSweepReport | null>(null);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  const candidateCount = report ? report.orphans.length + report.staleDrafts.length : 0;
+  const candidateBytes = report
+    ? [...report.orphans, ...report.staleDrafts].reduce((total, item) => total + item.bytes, 0)
+    : 0;
+
+  const handleScan = () => {
+    startTransition(async () => {
+      try {
+        setReport(await scanStorageAction());
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to scan storage",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  const handleSweep = () => {
+    if (!report) return;
+    const scanned = report;
+
+    startTransition(async () => {
+      try {
+        const { result } = await sweepStorageAction({
+          storageIds: scanned.orphans.map((orphan) => orphan.storageId),
+          photoIds: scanned.staleDrafts.map((draft) => draft.photoId),
+        });
+
+        toast({
+          title: result.errors.length > 0 ? "Cleanup finished with errors" : "Cleanup complete",
+          description: [
+            `Removed ${result.deletedOrphans} orphaned uploads (${result.deletedObjects} objects) and moved ${result.trashedDrafts} drafts to the trash.`,
+            ...result.errors.slice(0, 3),
+          ].join(" "),
+        });
+        setIsConfirmOpen(false);
+        setReport(await scanStorageAction());
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to clean up storage",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          {report
+            ? `Scanned ${report.scannedObjects} objects at ${format(new Date(report.scannedAt), "MMM d, yyyy HH:mm")}.`
+            : "Run a scan to see what can be removed."}
+        </p>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleScan} disabled={isPending} className="gap-2">
+            {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            {report ? "Scan again" : "Scan"}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => setIsConfirmOpen(true)}
+            disabled={isPending || candidateCount === 0}
+            className="gap-2"
+          >
+            <Trash2 className="h-4 w-4" />
+            Clean up {candidateCount > 0 ? candidateCount : ""}
+          </Button>
+        </div>
+      </div>
+
+      {report && (
+        <>
+          <section className="space-y-2">
+            <h2 className="text-lg font-medium">Orphaned uploads ({report.orphans.length})</h2>
+            <p className="text-sm text-muted-foreground">
+              Files in R2 that no photo refers to, untouched for at least a day.
+            </p>
+            {report.orphans.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Prefix</TableHead>
+                    <TableHead>Objects</TableHead>
+                    <TableHead>Size</TableHead>
+                    <TableHead>Last modified</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.orphans.map((orphan) => (
+                    <TableRow key={orphan.storageId}>
+                      <TableCell className="font-mono text-xs">photos/{orphan.storageId}/</TableCell>
+                      <TableCell>{orphan.objectCount}</TableCell>
+                      <TableCell>{formatFileSize(orphan.bytes)}</TableCell>
+                      <TableCell>{format(new Date(orphan.lastModified), "MMM d, yyyy")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h2 className="text-lg font-medium">Stale drafts ({report.staleDrafts.length})</h2>
+            <p className="text-sm text-muted-foreground">
+              Photos whose processing failed more than a week ago and is no longer retried. They move
+              to the trash, so they can still be restored and reprocessed until it is purged.
+            </p>
+            {report.staleDrafts.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Photo</TableHead>
+                    <TableHead>Objects</TableHead>
+                    <TableHead>Size</TableHead>
+                    <TableHead>Uploaded</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.staleDrafts.map((draft) => (
+                    <TableRow key={draft.photoId}>
+                      <TableCell>
+                        <Link
+                          href={`/admin/gallery/photos/${draft.photoId}`}
+                          className="font-medium hover:underline"
+                        >
+                          {draft.title || "Untitled"}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{draft.objectCount}</TableCell>
+                      <TableCell>{formatFileSize(draft.bytes)}</TableCell>
+                      <TableCell>{format(new Date(draft.createdAt), "MMM d, yyyy")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </section>
+        </>
+      )}
+
+      <Dialog open={isConfirmOpen} onOpenChange={(open) => !isPending && setIsConfirmOpen(open)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Clean up leftovers?</DialogTitle>
+            <DialogDescription>
+              This permanently deletes {report?.orphans.length ?? 0} orphaned uploads and moves{" "}
+              {report?.staleDrafts.length ?? 0} drafts to the trash ({formatFileSize(candidateBytes)}).
+              Anything claimed since the scan is skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleSweep} disabled={isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Clean up
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function formatFileSize(bytes: number) {
+  const units = ["B", "KB", "MB", "GB"];
+  let size = bytes;
+  let unitIndex = 0;
+  while (size >= 1024 && unitIndex < units.length - 1) {
+    size /= 1024;
+    unitIndex += 1;
+  }
+  return `${size.toFixed(size < 10 && unitIndex > 0 ? 1 : 0)} ${units[unitIndex]}`;
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState, useTransition } from "react";
+import { format } from "date-fns";
+import { Copy, ExternalLink, Loader2, Unlink } from "lucide-react";
+
+import { revokeShareLinkAction } from "@/app/admin/(protected)/gallery/share-links/actions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import type { ShareLinkListItem } from "@/lib/data/share-links";
+
+interface ShareLinkTableProps {
+  links: ShareLinkListItem[];
+  /** Adds a photo column, for lists spanning several photos */
+  showPhoto?: boolean;
+}
+
+export function ShareLinkTable({ links, showPhoto = false }: ShareLinkTableProps) {
+  const router = useRouter();
+  const [revoking, setRevoking] = useState<ShareLinkListItem | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const handleCopy = async (link: ShareLinkListItem) => {
+    try {
+      await navigator.clipboard.writeText(new URL(link.path, window.location.origin).toString());
+      toast({ title: "Link copied", description: "Anyone with this link can view the photo." });
+    } catch (error) {
+      console.error(error);
+      toast({ title: "Unable to copy link", description: "Copy it from the address bar instead." });
+    }
+  };
+
+  const handleRevoke = (link: ShareLinkListItem) => {
+    startTransition(async () => {
+      try {
+        await revokeShareLinkAction({ linkId: link.id });
+        toast({ title: "Link revoked", description: "The link no longer opens the photo." });
+        setRevoking(null);
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to revoke link",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  if (links.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed bg-muted/20 p-6 text-center text-sm text-muted-foreground">
+        No active share links.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="overflow-hidden rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {showPhoto && <TableHead>Photo</TableHead>}
+              <TableHead>Created</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead className="w-[120px]" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {links.map((link) => {
+              const inactiveReason = describeInactive(link);
+
+              return (
+                <TableRow key={link.id}>
+                  {showPhoto && (
+                    <TableCell>
+                      <Link
+                        href={`/admin/gallery/photos/${link.photo.id}`}
+                        className="flex items-center gap-3 hover:underline"
+                      >
+                        <div className="relative h-10 w-10 shrink-0 overflow-hidden rounded bg-muted">
+                          {link.photo.thumbnailUrl && (
+                            <Image
+                              src={link.photo.thumbnailUrl}
+                              alt={link.photo.title ?? "Photo thumbnail"}
+                              fill
+                              sizes="40px"
+                              className="object-cover"
+                            />
+                          )}
+                        </div>
+                        <span className="truncate text-sm font-medium">
+                          {link.photo.title || "Untitled"}
+                        </span>
+                      </Link>
+                    </TableCell>
+                  )}
+                  <TableCell className="text-sm text-muted-foreground">
+                    {format(new Date(link.created_at), "MMM d, yyyy")}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {link.expires_at ? format(new Date(link.expires_at), "MMM d, yyyy HH:mm") : "Never"}
+                      {inactiveReason && (
+                        <Badge variant="outline" title={inactiveReason}>
+                          Inactive
+                        </Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Copy link"
+                        onClick={() => void handleCopy(link)}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Open link" asChild>
+                        <a href={link.path} target="_blank" rel="noreferrer">
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Revoke link"
+                        disabled={isPending}
+                        onClick={() => setRevoking(link)}
+                      >
+                        <Unlink className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={revoking !== null} onOpenChange={(open) => !open && setRevoking(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Revoke share link?</DialogTitle>
+            <DialogDescription>
+              People who received this link will no longer be able to open the photo. This cannot
+              be undone; create a new link to share the photo again.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevoking(null)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={isPending}
+              onClick={() => revoking && handleRevoke(revoking)}
+            >
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Revoke
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+/** Why an unrevoked link does not open the photo right now, if it does not */
+function describeInactive(link: ShareLinkListItem) {
+  if (link.photo.visibility === "private") {
+    return "The photo is private. The link works again if it is made unlisted or public.";
+  }
+  if (link.photo.status !== "published") {
+    return "The photo is not published yet.";
+  }
+  return null;
+}
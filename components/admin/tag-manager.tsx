@@ -0,0 +1,569 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState, useTransition } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Merge, Pencil, Plus, Trash2 } from "lucide-react";
+import { useForm, useWatch } from "react-hook-form";
+import { z } from "zod";
+
+import {
+  createTagAction,
+  deleteTagAction,
+  mergeTagsAction,
+  updateTagAction,
+} from "@/app/admin/(protected)/gallery/tags/actions";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import type { TagWithUsage } from "@/lib/data/tags";
+import { SLUG_PATTERN, slugify } from "@/lib/slugs";
+import {
+  TAG_COLOR_PATTERN,
+  collectTagSubtreeIds,
+  sortTagTree,
+  tagSlugSegment,
+} from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+const COLOR_SWATCHES = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+  "#64748b",
+];
+
+/** Select items cannot have an empty value */
+const NO_PARENT = "none";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, "Enter a name").max(64),
+  parentId: z.string(),
+  slug: z
+    .string()
+    .trim()
+    .max(64)
+    .refine((slug) => slug === "" || SLUG_PATTERN.test(slug), {
+      message: "Use lowercase letters, numbers and dashes",
+    }),
+  description: z.string().max(500),
+  color: z
+    .string()
+    .trim()
+    .refine((color) => color === "" || TAG_COLOR_PATTERN.test(color), {
+      message: "Use a hex color, e.g. #3b82f6",
+    }),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface TagManagerProps {
+  tags: TagWithUsage[];
+}
+
+type EditorState = { mode: "create" } | { mode: "edit"; tag: TagWithUsage } | null;
+
+export function TagManager({ tags }: TagManagerProps) {
+  const router = useRouter();
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [pendingDelete, setPendingDelete] = useState<TagWithUsage | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<TagWithUsage | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [isPending, startTransition] = useTransition();
+
+  const tree = useMemo(() => sortTagTree(tags), [tags]);
+  const childCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const tag of tags) {
+      if (tag.parent_id) counts.set(tag.parent_id, (counts.get(tag.parent_id) ?? 0) + 1);
+    }
+    return counts;
+  }, [tags]);
+
+  const handleDelete = () => {
+    if (!pendingDelete) return;
+    const tag = pendingDelete;
+
+    startTransition(async () => {
+      try {
+        const { untagged } = await deleteTagAction({ tagId: tag.id });
+        toast({
+          title: "Tag deleted",
+          description: `Removed "${tag.name}" from ${untagged} ${untagged === 1 ? "photo" : "photos"}.`,
+        });
+        setPendingDelete(null);
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to delete tag",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  const handleMerge = () => {
+    const target = tags.find((tag) => tag.id === mergeTargetId);
+    if (!pendingMerge || !target) return;
+    const source = pendingMerge;
+
+    startTransition(async () => {
+      try {
+        const { moved } = await mergeTagsAction({
+          sourceTagId: source.id,
+          targetTagId: target.id,
+        });
+        toast({
+          title: "Tags merged",
+          description: `"${source.name}" was merged into "${target.name}"; ${moved} ${moved === 1 ? "photo was" : "photos were"} retagged.`,
+        });
+        setPendingMerge(null);
+        router.refresh();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to merge tags",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-muted-foreground">
+          {tags.length} {tags.length === 1 ? "tag" : "tags"}
+        </span>
+        <Button onClick={() => setEditor({ mode: "create" })} className="gap-2">
+          <Plus className="h-4 w-4" />
+          New tag
+        </Button>
+      </div>
+
+      {tags.length === 0 ? (
+        <div className="rounded-lg border border-dashed bg-muted/20 p-10 text-center text-sm text-muted-foreground">
+          No tags yet. Create one here or from a photo&apos;s tag picker.
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Slug</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead className="text-right">Photos</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tree.map(({ tag, depth }) => {
+              const hasChildren = childCounts.has(tag.id);
+
+              return (
+                <TableRow key={tag.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                      <TagColorDot color={tag.color} />
+                      <span className="font-medium">{tag.name}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">
+                    {tag.slug ?? "—"}
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate text-sm text-muted-foreground">
+                    {tag.description ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {tag.photo_count > 0 ? (
+                      <Link href={`/admin/gallery?tag=${tag.id}`} className="hover:underline">
+                        {tag.photo_count}
+                      </Link>
+                    ) : (
+                      <span className="text-muted-foreground">0</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Edit"
+                        onClick={() => setEditor({ mode: "edit", tag })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={hasChildren ? "Move its child tags before merging" : "Merge into another tag"}
+                        disabled={isPending || tags.length < 2 || hasChildren}
+                        onClick={() => {
+                          setMergeTargetId("");
+                          setPendingMerge(tag);
+                        }}
+                      >
+                        <Merge className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={hasChildren ? "Move or delete its child tags first" : "Delete"}
+                        disabled={isPending || hasChildren}
+                        onClick={() => setPendingDelete(tag)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <TagDialog
+        editor={editor}
+        tags={tags}
+        onClose={() => setEditor(null)}
+        onSaved={() => {
+          setEditor(null);
+          router.refresh();
+        }}
+      />
+
+      <Dialog open={pendingMerge !== null} onOpenChange={(open) => !isPending && !open && setPendingMerge(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Merge &quot;{pendingMerge?.name}&quot;</DialogTitle>
+            <DialogDescription>
+              Its {pendingMerge?.photo_count ?? 0} photos get the selected tag instead, then
+              &quot;{pendingMerge?.name}&quot; is deleted.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={mergeTargetId} onValueChange={setMergeTargetId} disabled={isPending}>
+            <SelectTrigger>
+              <SelectValue placeholder="Merge into..." />
+            </SelectTrigger>
+            <SelectContent>
+              {tree
+                .filter(({ tag }) => tag.id !== pendingMerge?.id)
+                .map(({ tag, depth }) => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    <span style={{ marginLeft: `${depth}rem` }}>
+                      {tag.name} ({tag.photo_count})
+                    </span>
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setPendingMerge(null)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={isPending || !mergeTargetId}>
+              {isPending ? "Merging..." : "Merge tags"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={pendingDelete !== null} onOpenChange={(open) => !isPending && !open && setPendingDelete(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete &quot;{pendingDelete?.name}&quot;?</DialogTitle>
+            <DialogDescription>
+              The tag is removed from {pendingDelete?.photo_count ?? 0} photos. The photos
+              themselves are not changed.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setPendingDelete(null)} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isPending}>
+              {isPending ? "Deleting..." : "Delete tag"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+interface TagDialogProps {
+  editor: EditorState;
+  /** Candidates for the parent */
+  tags: TagWithUsage[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+function TagDialog({ editor, tags, onClose, onSaved }: TagDialogProps) {
+  const [isPending, startTransition] = useTransition();
+  const editing = editor?.mode === "edit" ? editor.tag : null;
+
+  // A tag cannot move under itself or its own descendants
+  const parentOptions = useMemo(() => {
+    const excluded = new Set(editing ? collectTagSubtreeIds(tags, editing.id) : []);
+    return sortTagTree(tags).filter(({ tag }) => !excluded.has(tag.id));
+  }, [tags, editing]);
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(null),
+  });
+
+  useEffect(() => {
+    if (editor) {
+      form.reset(toFormValues(editor.mode === "edit" ? editor.tag : null));
+    }
+  }, [editor, form]);
+
+  const color = useWatch({ control: form.control, name: "color" });
+  const parentId = useWatch({ control: form.control, name: "parentId" });
+  const parentSlug = tags.find((tag) => tag.id === parentId)?.slug;
+
+  const onSubmit = (values: FormValues) => {
+    const fields = {
+      name: values.name,
+      parentId: values.parentId === NO_PARENT ? null : values.parentId,
+      slug: values.slug || null,
+      description: values.description.trim() || null,
+      color: values.color || null,
+    };
+
+    startTransition(async () => {
+      try {
+        if (editing) {
+          await updateTagAction({ tagId: editing.id, ...fields });
+          toast({ title: "Tag updated", description: `Saved "${values.name}".` });
+        } else {
+          await createTagAction(fields);
+          toast({ title: "Tag created", description: `"${values.name}" can now be assigned to photos.` });
+        }
+        onSaved();
+      } catch (error) {
+        console.error(error);
+        toast({
+          title: "Unable to save tag",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      }
+    });
+  };
+
+  return (
+    <Dialog open={editor !== null} onOpenChange={(open) => !isPending && !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{editing ? `Edit "${editing.name}"` : "New tag"}</DialogTitle>
+          <DialogDescription>
+            {editing
+              ? "Changing the slug or parent also changes the slugs of nested tags and breaks links that use the old ones."
+              : "The slug is generated from the name unless you set one, and starts with the parent's."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <fieldset className="space-y-4" disabled={isPending}>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="e.g. Street"
+                          autoFocus
+                          {...field}
+                          onChange={(event) => {
+                            // New tags' slugs follow the name until edited by hand
+                            const slug = form.getValues("slug");
+                            if (!editing && (slug === "" || slug === slugify(field.value))) {
+                              form.setValue("slug", slugify(event.target.value));
+                            }
+                            field.onChange(event);
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="slug"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Slug</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. street" {...field} />
+                      </FormControl>
+                      {parentSlug && (
+                        <p className="truncate text-xs text-muted-foreground">
+                          {parentSlug}/{field.value || "…"}
+                        </p>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="parentId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Parent</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                        {parentOptions.map(({ tag, depth }) => (
+                          <SelectItem key={tag.id} value={tag.id}>
+                            <span style={{ marginLeft: `${depth}rem` }}>{tag.name}</span>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder="Optional" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Color</FormLabel>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <button
+                        type="button"
+                        title="No color"
+                        onClick={() => field.onChange("")}
+                        className={cn(
+                          "h-6 w-6 rounded-full border bg-background",
+                          !field.value && "ring-2 ring-ring ring-offset-2",
+                        )}
+                      />
+                      {COLOR_SWATCHES.map((swatch) => (
+                        <button
+                          key={swatch}
+                          type="button"
+                          title={swatch}
+                          onClick={() => field.onChange(swatch)}
+                          className={cn(
+                            "h-6 w-6 rounded-full",
+                            field.value.toLowerCase() === swatch && "ring-2 ring-ring ring-offset-2",
+                          )}
+                          style={{ backgroundColor: swatch }}
+                        />
+                      ))}
+                      <FormControl>
+                        <Input className="ml-2 w-28 font-mono" placeholder="#rrggbb" {...field} />
+                      </FormControl>
+                      {TAG_COLOR_PATTERN.test(color) && <TagColorDot color={color} />}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </fieldset>
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button type="button" variant="outline" onClick={onClose} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Saving..." : editing ? "Save changes" : "Create tag"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TagColorDot({ color }: { color: string | null }) {
+  return (
+    <span
+      className={cn("inline-block h-3 w-3 shrink-0 rounded-full", !color && "border")}
+      style={color ? { backgroundColor: color } : undefined}
+    />
+  );
+}
+
+function toFormValues(tag: TagWithUsage | null): FormValues {
+  return {
+    name: tag?.name ?? "",
+    parentId: tag?.parent_id ?? NO_PARENT,
+    slug: tagSlugSegment(tag?.slug ?? null),
+    description: tag?.description ?? "",
+    color: tag?.color ?? "",
+  };
+}
@@ -4,12 +4,24 @@
  * Upload Manager - Direct R2 Upload with Presigned URLs
  *
  * Upload Flow:
- * 1. User selects/drops files
+ * 1. User selects/drops files; they join a queue that uploads up to
+ *    `concurrency` files at a time
  * 2. (Optional) Calculate checksum and check for duplicates
  * 3. Client requests presigned URL from server (POST /api/admin/photos/upload/presign)
  * 4. Client uploads directly to R2 using presigned URL (PUT)
+ *    Files of MULTIPART_THRESHOLD and up are sent as a resumable multipart
+ *    upload instead (see lib/uploads/multipart-upload.ts); an interrupted one
+ *    continues where it stopped when the same file is added again
  * 5. Client notifies server upload is complete (POST /api/admin/photos/upload/complete)
- * 6. Server processes the image and returns photo details
+ * 6. Server queues a processing job and returns its ID; processing continues
+ *    in the background even if this tab is closed
+ * 7. Each tile polls the job (GET /api/admin/jobs/[job-id]) to show the
+ *    current pipeline phase until processing succeeds or fails
+ *
+ * Until step 5, an upload can be paused (its XHRs are aborted; multipart
+ * uploads later resume from their recorded parts, single PUTs start over) or
+ * cancelled, which also removes whatever already reached R2
+ * (POST /api/admin/photos/upload/cancel).
  *
  * This approach bypasses Vercel's 4.5MB body size limit for Hobby plan.
  */
@@ -22,7 +34,11 @@ import {
   CheckCircle2,
   ImagePlus,
   Loader2,
+  Pause,
+  Play,
+  RotateCcw,
   UploadCloud,
+  X,
   XCircle,
 } from "lucide-react";
 
@@ -35,22 +51,61 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  isPhotoJobSettled,
+  PHOTO_JOB_PHASE_LABELS,
+  usePhotoJobStatus,
+} from "@/hooks/use-photo-job-status";
 import { toast } from "@/hooks/use-toast";
+import {
+  findPhotoFormat,
+  MAX_PHOTO_FILE_SIZE,
+  PHOTO_INPUT_ACCEPT,
+  SUPPORTED_FORMATS_LABEL,
+} from "@/lib/uploads/formats";
+import { MULTIPART_THRESHOLD } from "@/lib/uploads/multipart";
+import {
+  cancelUpload,
+  discardUploadSession,
+  isUploadSessionResumable,
+  type StartedUpload,
+  uploadFileInParts,
+} from "@/lib/uploads/multipart-upload";
+import {
+  deleteUploadSession,
+  getFileFingerprint,
+  getUploadSession,
+  listUploadSessions,
+  type UploadSession,
+} from "@/lib/uploads/upload-session-store";
 import { cn } from "@/lib/utils";
-
-const ACCEPTED_TYPES = ["image/jpeg", "image/png", "image/webp"];
-const MAX_SIZE_BYTES = 50 * 1024 * 1024;
+import type { PhotoJobStatusResponse } from "@/types/jobs";
 
 type UploadStatus =
   | "idle"
   | "checking"
   | "presigning"
   | "uploading"
+  | "paused"
   | "processing"
   | "success"
   | "skipped"
   | "error";
 
+/** Passed as the abort reason so the upload knows why it was stopped */
+type StopReason = "pause" | "cancel";
+
+/** Files uploading at the same time; each multipart file adds its own parallel parts */
+const DEFAULT_UPLOAD_CONCURRENCY = 3;
+const UPLOAD_CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6];
+
 interface UploadItem {
   id: string;
   file: File;
@@ -60,6 +115,7 @@ interface UploadItem {
   progress: number;
   error?: string;
   photoId?: string;
+  jobId?: string;
   previewUrl?: string;
   detailUrl?: string;
 }
@@ -68,13 +124,20 @@ interface PresignResponse {
   uploadUrl: string;
   storageId: string;
   key: string;
+  contentType: string;
   publicBaseUrl: string;
   expiresAt: string;
 }
 
 interface CompleteResponse {
+  jobId: string;
   photoId: string;
-  detailUrl: string;
+}
+
+interface UploadedOriginal {
+  storageId: string;
+  key: string;
+  contentType: string;
 }
 
 interface ExistingPhoto {
@@ -99,6 +162,7 @@ interface DuplicateConfirmState {
 export function UploadManager() {
   const [uploads, setUploads] = useState<UploadItem[]>([]);
   const [isDragging, setIsDragging] = useState(false);
+  const [interruptedUploads, setInterruptedUploads] = useState<UploadSession[]>([]);
   const [duplicateConfirm, setDuplicateConfirm] = useState<DuplicateConfirmState>({
     isOpen: false,
     uploadItemId: null,
@@ -106,10 +170,62 @@ export function UploadManager() {
     existingPhoto: null,
     resolve: null,
   });
+  const [concurrency, setConcurrency] = useState(DEFAULT_UPLOAD_CONCURRENCY);
   const inputRef = useRef<HTMLInputElement>(null);
   const dragCounterRef = useRef(0);
+  const uploadsRef = useRef(uploads);
+  // Queue state lives in refs so scheduling never waits for a render
+  const queueRef = useRef<UploadItem[]>([]);
+  const activeRef = useRef(new Map<string, AbortController>());
+  const startedRef = useRef(new Map<string, StartedUpload>());
+  const concurrencyRef = useRef(DEFAULT_UPLOAD_CONCURRENCY);
+  // Duplicate prompts from parallel uploads are shown one at a time
+  const duplicatePromptRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  useEffect(() => {
+    uploadsRef.current = uploads;
+  }, [uploads]);
+
+  // Multipart uploads left unfinished by an earlier visit
+  useEffect(() => {
+    void listUploadSessions().then((sessions) => {
+      const resumable = sessions.filter(isUploadSessionResumable);
+      sessions
+        .filter((session) => !isUploadSessionResumable(session))
+        .forEach((session) => void deleteUploadSession(session.fingerprint));
+      setInterruptedUploads(resumable);
+    });
+  }, []);
 
   const hasUploads = uploads.length > 0;
+  const canPauseAll = uploads.some((item) => isStoppable(item.status));
+  const canResumeAll = uploads.some((item) => item.status === "paused");
+  const canCancelAll = canPauseAll || canResumeAll;
+  const failedCount = uploads.filter(isRetryable).length;
+
+  const handleDiscardInterrupted = async (session: UploadSession) => {
+    try {
+      await discardUploadSession(session);
+      setInterruptedUploads((prev) =>
+        prev.filter((existing) => existing.fingerprint !== session.fingerprint)
+      );
+    } catch (error) {
+      toast({
+        title: "Unable to discard upload",
+        description: error instanceof Error ? error.message : "Unexpected error",
+      });
+    }
+  };
+
+  const closeDuplicateConfirm = () => {
+    setDuplicateConfirm({
+      isOpen: false,
+      uploadItemId: null,
+      fileName: "",
+      existingPhoto: null,
+      resolve: null,
+    });
+  };
 
   // Handle duplicate confirmation dialog response
   const handleDuplicateConfirm = useCallback((shouldContinue: boolean) => {
@@ -125,21 +241,184 @@ export function UploadManager() {
     });
   }, [duplicateConfirm]);
 
+  const updateItem = (id: string, updates: Partial<UploadItem>) => {
+    setUploads((prev) =>
+      prev.map((existing) =>
+        existing.id === id ? { ...existing, ...updates } : existing
+      )
+    );
+  };
+
+  /**
+   * Starts queued uploads until `concurrency` are running. Called whenever
+   * items are queued, an upload settles or the limit changes.
+   */
+  const pumpQueue = () => {
+    while (activeRef.current.size < concurrencyRef.current && queueRef.current.length > 0) {
+      const item = queueRef.current.shift()!;
+      const controller = new AbortController();
+      activeRef.current.set(item.id, controller);
+
+      void uploadFile(item, controller.signal).finally(() => {
+        activeRef.current.delete(item.id);
+        pumpQueue();
+      });
+    }
+  };
+
+  /** Removes a waiting item from the queue; false if it was not queued */
+  const dequeue = (id: string) => {
+    const before = queueRef.current.length;
+    queueRef.current = queueRef.current.filter((queued) => queued.id !== id);
+    return queueRef.current.length < before;
+  };
+
+  const requeue = (items: UploadItem[], { first = false } = {}) => {
+    if (items.length === 0) return;
+
+    const ids = new Set(items.map((item) => item.id));
+    setUploads((prev) =>
+      prev.map((existing) =>
+        ids.has(existing.id)
+          ? { ...existing, status: "idle", progress: 0, error: undefined }
+          : existing
+      )
+    );
+    queueRef.current = first
+      ? [...items, ...queueRef.current]
+      : [...queueRef.current, ...items];
+    pumpQueue();
+  };
+
+  const pauseItem = (id: string) => {
+    const controller = activeRef.current.get(id);
+    if (controller) {
+      // uploadFile marks the item paused once its requests have stopped
+      controller.abort("pause" satisfies StopReason);
+      return;
+    }
+
+    if (dequeue(id)) {
+      updateItem(id, { status: "paused" });
+    }
+  };
+
+  const resumeItem = (id: string) => {
+    const item = uploadsRef.current.find((u) => u.id === id);
+    if (item?.status === "paused") {
+      requeue([item], { first: true });
+    }
+  };
+
+  const cancelItem = (id: string) => {
+    const item = uploadsRef.current.find((u) => u.id === id);
+    if (!item || !(isStoppable(item.status) || item.status === "paused")) return;
+
+    removeItem(id);
+
+    const controller = activeRef.current.get(id);
+    if (controller) {
+      // uploadFile cleans up R2 once its requests have stopped
+      controller.abort("cancel" satisfies StopReason);
+      return;
+    }
+
+    dequeue(id);
+    void discardCancelledUpload(item);
+  };
+
+  const retryItem = (id: string) => {
+    const item = uploadsRef.current.find((u) => u.id === id);
+    if (item && isRetryable(item)) {
+      requeue([item]);
+    }
+  };
+
+  // Bulk actions walk the list oldest first, the order files were added in
+  const pauseAll = () => {
+    [...uploadsRef.current]
+      .reverse()
+      .filter((item) => isStoppable(item.status))
+      .forEach((item) => pauseItem(item.id));
+  };
+
+  const resumeAll = () => {
+    requeue([...uploadsRef.current].reverse().filter((item) => item.status === "paused"));
+  };
+
+  const cancelAll = () => {
+    [...uploadsRef.current].reverse().forEach((item) => cancelItem(item.id));
+  };
+
+  const retryFailed = () => {
+    requeue([...uploadsRef.current].reverse().filter(isRetryable));
+  };
+
+  const handleConcurrencyChange = (value: string) => {
+    const next = Number(value);
+    concurrencyRef.current = next;
+    setConcurrency(next);
+    // Lowering the limit lets running uploads finish; raising it starts more now
+    pumpQueue();
+  };
+
+  /**
+   * Removes what a cancelled upload left in R2, and its resumable session.
+   * Files that never started may still have a session from an earlier visit.
+   */
+  const discardCancelledUpload = async (item: UploadItem) => {
+    let upload = startedRef.current.get(item.id);
+    startedRef.current.delete(item.id);
+
+    if (!upload) {
+      const session = await getUploadSession(getFileFingerprint(item.file));
+      upload = session ? { key: session.key, uploadId: session.uploadId } : undefined;
+    }
+
+    if (!upload) return;
+
+    try {
+      await cancelUpload(item.file, upload);
+    } catch (error) {
+      toast({
+        title: "Unable to clean up cancelled upload",
+        description: error instanceof Error ? error.message : "Unexpected error",
+      });
+    }
+  };
+
   const processFiles = (files: File[]) => {
     if (files.length === 0) return;
 
-    const items = files.map<UploadItem>((file) => ({
-      id: crypto.randomUUID(),
-      file,
-      name: file.name,
-      size: file.size,
-      status: "idle",
-      progress: 0,
-      previewUrl: URL.createObjectURL(file),
-    }));
+    const items = files.map<UploadItem>((file) => {
+      const validationMessage = validateFile(file);
+      return {
+        id: crypto.randomUUID(),
+        file,
+        name: file.name,
+        size: file.size,
+        status: validationMessage ? "error" : "idle",
+        progress: 0,
+        error: validationMessage ?? undefined,
+      // Most browsers cannot render HEIC; those tiles wait for the detail rendition
+        previewUrl: findPhotoFormat(file.type, file.name)?.previewable === false
+          ? undefined
+          : URL.createObjectURL(file),
+      };
+    });
+
+    // Re-added files resume their interrupted upload, so drop them from the notice
+    const fingerprints = new Set(files.map(getFileFingerprint));
+    setInterruptedUploads((prev) =>
+      prev.filter((session) => !fingerprints.has(session.fingerprint))
+    );
 
     setUploads((prev) => [...items, ...prev]);
-    void processQueue(items);
+    queueRef.current = [
+      ...queueRef.current,
+      ...items.filter((item) => item.status === "idle"),
+    ];
+    pumpQueue();
   };
 
   const handleSelectFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -181,38 +460,21 @@ export function UploadManager() {
     processFiles(files);
   };
 
-  const processQueue = async (items: UploadItem[]) => {
-    for (const item of items) {
-      const validationMessage = validateFile(item.file);
-      if (validationMessage) {
-        setUploads((prev) =>
-          prev.map((existing) =>
-            existing.id === item.id
-              ? { ...existing, status: "error", error: validationMessage }
-              : existing
-          )
-        );
-        continue;
-      }
-
-      await uploadFile(item);
-    }
-  };
-
-  const uploadFile = async (item: UploadItem) => {
+  const uploadFile = async (item: UploadItem, signal: AbortSignal) => {
     const updateStatus = (
-      updates: Partial<Pick<UploadItem, "status" | "progress" | "error" | "photoId" | "detailUrl">>
+      updates: Partial<Pick<UploadItem, "status" | "progress" | "error" | "photoId" | "jobId" | "detailUrl">>
     ) => {
-      setUploads((prev) =>
-        prev.map((existing) =>
-          existing.id === item.id ? { ...existing, ...updates } : existing
-        )
-      );
+      // Late progress from requests that were still settling must not
+      // overwrite the paused state
+      if (!signal.aborted) {
+        updateItem(item.id, updates);
+      }
     };
 
     try {
       // Step 0: Check for duplicates (optional, graceful degradation)
-      const duplicateCheck = await checkForDuplicate(item, updateStatus);
+      const duplicateCheck = await checkForDuplicate(item, updateStatus, signal);
+      signal.throwIfAborted();
       if (duplicateCheck.shouldSkip) {
         updateStatus({
           status: "skipped",
@@ -222,69 +484,75 @@ export function UploadManager() {
         return;
       }
 
-      // Step 1: Get presigned URL
+      // Step 1-2: Upload directly to R2; large files go in resumable parts
       updateStatus({ status: "presigning", progress: 5 });
 
-      const presignResponse = await fetch("/api/admin/photos/upload/presign", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          filename: item.file.name,
-          contentType: item.file.type,
-          fileSize: item.file.size,
-        }),
-      });
-
-      if (!presignResponse.ok) {
-        const error = await presignResponse.json();
-        throw new Error(error.error ?? "Failed to get upload URL");
-      }
-
-      const presignData: PresignResponse = await presignResponse.json();
-
-      // Step 2: Upload directly to R2
-      updateStatus({ status: "uploading", progress: 10 });
-
-      await uploadToR2(item.file, presignData.uploadUrl, (progress) => {
+      const contentType =
+        findPhotoFormat(item.file.type, item.file.name)?.mimeType ?? item.file.type;
+      const onUploadProgress = (progress: number) => {
         // Map 0-100 to 10-70 range for the R2 upload phase
-        const mappedProgress = 10 + Math.round(progress * 0.6);
-        updateStatus({ progress: mappedProgress });
-      });
-
-      // Step 3: Notify server and process
+        updateStatus({ status: "uploading", progress: 10 + Math.round(progress * 0.6) });
+      };
+
+      const onStarted = (upload: StartedUpload) => {
+        startedRef.current.set(item.id, upload);
+      };
+
+      const uploaded: UploadedOriginal =
+        item.file.size >= MULTIPART_THRESHOLD
+          ? await uploadFileInParts(item.file, {
+              contentType,
+              onProgress: onUploadProgress,
+              signal,
+              onStarted,
+            })
+          : await uploadWithPresignedUrl(item.file, contentType, onUploadProgress, {
+              signal,
+              onStarted,
+            });
+
+      // Past this point the original belongs to a photo and is not cancelled
+      signal.throwIfAborted();
+      startedRef.current.delete(item.id);
+
+      // Step 3: Notify server to queue processing
       updateStatus({ status: "processing", progress: 75 });
 
       const completeResponse = await fetch("/api/admin/photos/upload/complete", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          storageId: presignData.storageId,
-          key: presignData.key,
+          storageId: uploaded.storageId,
+          key: uploaded.key,
           filename: item.file.name,
-          contentType: item.file.type,
+          contentType: uploaded.contentType,
         }),
       });
 
       if (!completeResponse.ok) {
         const error = await completeResponse.json();
-        throw new Error(error.error ?? "Failed to process upload");
+        throw new Error(error.error ?? "Failed to queue processing");
       }
 
       const completeData: CompleteResponse = await completeResponse.json();
 
-      // Success
+      // Processing continues in the background; the tile polls the job from here
       updateStatus({
-        status: "success",
-        progress: 100,
+        status: "processing",
+        progress: 75,
         photoId: completeData.photoId,
-        detailUrl: completeData.detailUrl,
-      });
-
-      toast({
-        title: "Upload complete",
-        description: `${item.name} processed successfully`,
+        jobId: completeData.jobId,
       });
     } catch (error) {
+      if (signal.aborted) {
+        if ((signal.reason as StopReason) === "pause") {
+          updateItem(item.id, { status: "paused" });
+        } else {
+          await discardCancelledUpload(item);
+        }
+        return;
+      }
+
       const message =
         error instanceof Error ? error.message : "Unexpected upload error";
       updateStatus({
@@ -306,7 +574,8 @@ export function UploadManager() {
    */
   const checkForDuplicate = async (
     item: UploadItem,
-    updateStatus: (updates: Partial<Pick<UploadItem, "status" | "progress">>) => void
+    updateStatus: (updates: Partial<Pick<UploadItem, "status" | "progress">>) => void,
+    signal: AbortSignal
   ): Promise<{ shouldSkip: boolean }> => {
     try {
       // Check if Web Crypto API is available (requires HTTPS or localhost)
@@ -340,16 +609,36 @@ export function UploadManager() {
         return { shouldSkip: false };
       }
 
-      // Duplicate found - show confirmation dialog
-      const shouldContinue = await new Promise<boolean>((resolve) => {
-        setDuplicateConfirm({
-          isOpen: true,
-          uploadItemId: item.id,
-          fileName: item.name,
-          existingPhoto: data.existingPhoto,
-          resolve,
-        });
-      });
+      // Duplicate found - show confirmation dialog once earlier prompts are answered
+      const confirmation = duplicatePromptRef.current.then(
+        () =>
+          new Promise<boolean>((resolve) => {
+            if (signal.aborted) {
+              resolve(false);
+              return;
+            }
+
+            // Pausing or cancelling the upload dismisses its prompt
+            const dismiss = () => {
+              closeDuplicateConfirm();
+              resolve(false);
+            };
+            signal.addEventListener("abort", dismiss, { once: true });
+
+            setDuplicateConfirm({
+              isOpen: true,
+              uploadItemId: item.id,
+              fileName: item.name,
+              existingPhoto: data.existingPhoto,
+              resolve: (shouldContinue) => {
+                signal.removeEventListener("abort", dismiss);
+                resolve(shouldContinue);
+              },
+            });
+          })
+      );
+      duplicatePromptRef.current = confirmation;
+      const shouldContinue = await confirmation;
 
       return { shouldSkip: !shouldContinue };
     } catch (error) {
@@ -359,6 +648,58 @@ export function UploadManager() {
     }
   };
 
+  const handleJobSettled = useCallback((id: string, job: PhotoJobStatusResponse) => {
+    const item = uploadsRef.current.find((u) => u.id === id);
+    if (!item || item.status !== "processing") return;
+
+    if (job.status === "succeeded") {
+      const detailUrl = typeof job.result?.detailUrl === "string" ? job.result.detailUrl : undefined;
+      setUploads((prev) =>
+        prev.map((existing) =>
+          existing.id === id
+            ? { ...existing, status: "success", progress: 100, detailUrl }
+            : existing
+        )
+      );
+      toast({
+        title: "Upload complete",
+        description: `${item.name} processed successfully`,
+      });
+      return;
+    }
+
+    const message = job.error?.message ?? "Processing failed";
+    setUploads((prev) =>
+      prev.map((existing) =>
+        existing.id === id
+          ? { ...existing, status: "error", progress: 0, error: message }
+          : existing
+      )
+    );
+    toast({
+      title: "Processing failed",
+      description: message,
+    });
+  }, []);
+
+  // The job may still finish on the server; only tracking it stopped
+  const handleJobPollStopped = useCallback((id: string, message: string) => {
+    const item = uploadsRef.current.find((u) => u.id === id);
+    if (!item || item.status !== "processing") return;
+
+    setUploads((prev) =>
+      prev.map((existing) =>
+        existing.id === id
+          ? { ...existing, status: "error", progress: 0, error: message }
+          : existing
+      )
+    );
+    toast({
+      title: "Unable to track processing",
+      description: `${item.name}: ${message}`,
+    });
+  }, []);
+
   const removeItem = (id: string) => {
     setUploads((prev) => {
       const item = prev.find((u) => u.id === id);
@@ -401,7 +742,7 @@ export function UploadManager() {
           <input
             ref={inputRef}
             type="file"
-            accept={ACCEPTED_TYPES.join(",")}
+            accept={PHOTO_INPUT_ACCEPT}
             multiple
             hidden
             onChange={handleSelectFiles}
@@ -437,13 +778,20 @@ export function UploadManager() {
                   or click to browse from your device
                 </p>
                 <p className="text-xs text-muted-foreground/70 pt-2">
-                  JPEG, PNG, WebP up to 50MB each
+                  {SUPPORTED_FORMATS_LABEL} up to {MAX_PHOTO_FILE_SIZE / 1024 / 1024}MB each
                 </p>
               </div>
             )}
           </div>
         </div>
 
+        {interruptedUploads.length > 0 && (
+          <InterruptedUploads
+            sessions={interruptedUploads}
+            onDiscard={handleDiscardInterrupted}
+          />
+        )}
+
         {/* Upload Grid */}
         {hasUploads && (
           <div className="space-y-4">
@@ -461,9 +809,58 @@ export function UploadManager() {
               </Button>
             </div>
 
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={String(concurrency)} onValueChange={handleConcurrencyChange}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UPLOAD_CONCURRENCY_OPTIONS.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} at a time
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {canPauseAll && (
+                <Button variant="outline" size="sm" onClick={pauseAll}>
+                  <Pause className="h-4 w-4 mr-2" />
+                  Pause all
+                </Button>
+              )}
+              {canResumeAll && (
+                <Button variant="outline" size="sm" onClick={resumeAll}>
+                  <Play className="h-4 w-4 mr-2" />
+                  Resume all
+                </Button>
+              )}
+              {failedCount > 0 && (
+                <Button variant="outline" size="sm" onClick={retryFailed}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Retry failed ({failedCount})
+                </Button>
+              )}
+              {canCancelAll && (
+                <Button variant="ghost" size="sm" onClick={cancelAll}>
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel all
+                </Button>
+              )}
+            </div>
+
             <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
               {uploads.map((item) => (
-                <UploadTile key={item.id} item={item} onRemove={removeItem} />
+                <UploadTile
+                  key={item.id}
+                  item={item}
+                  onRemove={removeItem}
+                  onPause={pauseItem}
+                  onResume={resumeItem}
+                  onCancel={cancelItem}
+                  onRetry={retryItem}
+                  onJobSettled={handleJobSettled}
+                  onJobPollStopped={handleJobPollStopped}
+                />
               ))}
             </div>
           </div>
@@ -485,13 +882,49 @@ export function UploadManager() {
 function UploadTile({
   item,
   onRemove,
+  onPause,
+  onResume,
+  onCancel,
+  onRetry,
+  onJobSettled,
+  onJobPollStopped,
 }: {
   item: UploadItem;
   onRemove: (id: string) => void;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onJobSettled: (id: string, job: PhotoJobStatusResponse) => void;
+  onJobPollStopped: (id: string, message: string) => void;
 }) {
-  const { id, name, status, progress, error, photoId, previewUrl, detailUrl } =
+  const { id, name, status, error, photoId, jobId, previewUrl, detailUrl } =
     item;
+  const {
+    job,
+    error: jobError,
+    stopped,
+  } = usePhotoJobStatus(status === "processing" ? jobId : null);
+
+  useEffect(() => {
+    if (job && isPhotoJobSettled(job)) {
+      onJobSettled(id, job);
+    }
+  }, [id, job, onJobSettled]);
+
+  useEffect(() => {
+    if (stopped && jobError) {
+      onJobPollStopped(id, jobError);
+    }
+  }, [id, stopped, jobError, onJobPollStopped]);
+
+  // Map job progress (0-100) onto the 75-100 range reserved for processing
+  const progress =
+    status === "processing" && job
+      ? 75 + Math.round(job.percent * 0.25)
+      : item.progress;
   const isPending = status === "idle";
+  const isPaused = status === "paused";
   const isLoading =
     status === "checking" ||
     status === "presigning" ||
@@ -512,6 +945,12 @@ function UploadTile({
       case "uploading":
         return "Uploading...";
       case "processing":
+        if (job?.phase && job.status === "running") {
+          return `${PHOTO_JOB_PHASE_LABELS[job.phase]}...`;
+        }
+        if (job?.status === "queued") {
+          return job.error?.willRetry ? "Retrying..." : "Queued...";
+        }
         return "Processing...";
       default:
         return `${progress}%`;
@@ -528,7 +967,7 @@ function UploadTile({
           fill
           className={cn(
             "object-cover transition-all duration-300",
-            (isPending || isLoading) && "opacity-50 blur-[1px]"
+            (isPending || isPaused || isLoading) && "opacity-50 blur-[1px]"
           )}
           sizes="(max-width: 640px) 50vw, (max-width: 768px) 33vw, (max-width: 1024px) 25vw, 20vw"
           unoptimized={!detailUrl}
@@ -540,7 +979,17 @@ function UploadTile({
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-background/60 backdrop-blur-[2px]">
           <UploadCloud className="h-8 w-8 text-muted-foreground" />
           <span className="mt-2 text-sm font-medium text-muted-foreground">
-            Pending Upload
+            Queued
+          </span>
+        </div>
+      )}
+
+      {/* Paused Overlay */}
+      {isPaused && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-background/60 backdrop-blur-[2px]">
+          <Pause className="h-8 w-8 text-muted-foreground" />
+          <span className="mt-2 text-sm font-medium text-muted-foreground">
+            Paused{progress > 0 ? ` at ${progress}%` : ""}
           </span>
         </div>
       )}
@@ -565,6 +1014,40 @@ function UploadTile({
         </div>
       )}
 
+      {/* Queue Controls */}
+      {(isStoppable(status) || isPaused) && (
+        <div className="absolute top-2 right-2 flex gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+          <Button
+            variant="secondary"
+            size="icon"
+            className="h-7 w-7"
+            aria-label={isPaused ? "Resume upload" : "Pause upload"}
+            onClick={(e) => {
+              e.stopPropagation();
+              if (isPaused) {
+                onResume(id);
+              } else {
+                onPause(id);
+              }
+            }}
+          >
+            {isPaused ? <Play className="h-3.5 w-3.5" /> : <Pause className="h-3.5 w-3.5" />}
+          </Button>
+          <Button
+            variant="secondary"
+            size="icon"
+            className="h-7 w-7"
+            aria-label="Cancel upload"
+            onClick={(e) => {
+              e.stopPropagation();
+              onCancel(id);
+            }}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      )}
+
       {/* Success Indicator */}
       {isSuccess && (
         <div className="absolute top-2 right-2">
@@ -606,6 +1089,18 @@ function UploadTile({
               View details
             </Link>
           )}
+          {isRetryable(item) && (
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onRetry(id);
+              }}
+              className="text-sm font-medium text-primary hover:underline"
+            >
+              Retry
+            </button>
+          )}
           <button
             type="button"
             onClick={(e) => {
@@ -627,30 +1122,95 @@ function UploadTile({
   );
 }
 
+/** Still uploading to R2 (queued or in flight), so it can be paused or cancelled */
+function isStoppable(status: UploadStatus) {
+  return (
+    status === "idle" ||
+    status === "checking" ||
+    status === "presigning" ||
+    status === "uploading"
+  );
+}
+
+/**
+ * Failed before the processing job was queued. Processing failures are
+ * retried by the job queue and from the photo page instead.
+ */
+function isRetryable(item: UploadItem) {
+  return item.status === "error" && !item.jobId && validateFile(item.file) === null;
+}
+
 function validateFile(file: File) {
-  if (!ACCEPTED_TYPES.includes(file.type)) {
-    return "Unsupported file type. Only JPEG, PNG, and WebP are allowed.";
+  if (!findPhotoFormat(file.type, file.name)) {
+    return `Unsupported file type. Allowed: ${SUPPORTED_FORMATS_LABEL}.`;
   }
-  if (file.size > MAX_SIZE_BYTES) {
-    return "File exceeds 50 MB limit.";
+  if (file.size > MAX_PHOTO_FILE_SIZE) {
+    return `File exceeds ${MAX_PHOTO_FILE_SIZE / 1024 / 1024} MB limit.`;
   }
   return null;
 }
 
+/**
+ * Single-request upload for files below MULTIPART_THRESHOLD
+ */
+async function uploadWithPresignedUrl(
+  file: File,
+  contentType: string,
+  onProgress: (progress: number) => void,
+  { signal, onStarted }: { signal: AbortSignal; onStarted: (upload: StartedUpload) => void }
+): Promise<UploadedOriginal> {
+  const presignResponse = await fetch("/api/admin/photos/upload/presign", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      filename: file.name,
+      contentType,
+      fileSize: file.size,
+    }),
+    signal,
+  });
+
+  if (!presignResponse.ok) {
+    const error = await presignResponse.json();
+    throw new Error(error.error ?? "Failed to get upload URL");
+  }
+
+  const presignData: PresignResponse = await presignResponse.json();
+  onStarted({ key: presignData.key });
+
+  await uploadToR2(file, presignData.uploadUrl, presignData.contentType, onProgress, signal);
+
+  return {
+    storageId: presignData.storageId,
+    key: presignData.key,
+    contentType: presignData.contentType,
+  };
+}
+
 /**
  * Upload file directly to R2 using presigned URL
  */
 function uploadToR2(
   file: File,
   uploadUrl: string,
-  onProgress: (progress: number) => void
+  contentType: string,
+  onProgress: (progress: number) => void,
+  signal: AbortSignal
 ): Promise<void> {
   return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
     const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    signal.addEventListener("abort", abort, { once: true });
+    xhr.onloadend = () => signal.removeEventListener("abort", abort);
     xhr.open("PUT", uploadUrl);
 
-    // Set content type header
-    xhr.setRequestHeader("Content-Type", file.type);
+    // Must match the content type the URL was signed with
+    xhr.setRequestHeader("Content-Type", contentType);
 
     xhr.upload.onprogress = (event) => {
       if (event.lengthComputable) {
@@ -671,6 +1231,10 @@ function uploadToR2(
       reject(new Error("Network error during R2 upload"));
     };
 
+    xhr.onabort = () => {
+      reject(new Error("Upload aborted"));
+    };
+
     xhr.send(file);
   });
 }
@@ -686,6 +1250,48 @@ async function calculateChecksum(file: File): Promise<string> {
   return hashArray.map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
+/**
+ * Multipart uploads from an earlier visit that can be resumed by adding the
+ * same file again
+ */
+function InterruptedUploads({
+  sessions,
+  onDiscard,
+}: {
+  sessions: UploadSession[];
+  onDiscard: (session: UploadSession) => void;
+}) {
+  return (
+    <div className="space-y-3 rounded-lg border bg-muted/30 p-4">
+      <div className="flex items-center gap-2">
+        <RotateCcw className="h-4 w-4 text-muted-foreground" />
+        <p className="text-sm font-medium">Interrupted uploads</p>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Add the same files again to continue where they stopped.
+      </p>
+      <ul className="divide-y">
+        {sessions.map((session) => (
+          <li
+            key={session.fingerprint}
+            className="flex items-center justify-between gap-4 py-2 text-sm"
+          >
+            <span className="truncate">{session.filename}</span>
+            <div className="flex shrink-0 items-center gap-3">
+              <span className="text-xs text-muted-foreground">
+                {Math.round((session.parts.length / session.partCount) * 100)}% uploaded
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => onDiscard(session)}>
+                Discard
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 /**
  * Duplicate Confirmation Dialog
  */
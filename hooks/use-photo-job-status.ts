@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import type { PhotoJobStatusResponse } from "@/types/jobs";
+
+const DEFAULT_INTERVAL_MS = 1500;
+const MAX_INTERVAL_MS = 10_000;
+
+export const PHOTO_JOB_PHASE_LABELS: Record<NonNullable<PhotoJobStatusResponse["phase"]>, string> = {
+  read: "Reading original",
+  metadata: "Extracting metadata",
+  db: "Saving details",
+  renditions: "Generating renditions",
+  upload: "Uploading renditions",
+  derived: "Analyzing colors",
+  finalize: "Finalizing",
+};
+
+/** Poll results, tagged with the job they belong to */
+interface PolledJobStatus {
+  jobId: string;
+  job: PhotoJobStatusResponse | null;
+  error: string | null;
+  /** Polling gave up on a 4xx; `error` says why */
+  stopped: boolean;
+}
+
+export function isPhotoJobSettled(job: PhotoJobStatusResponse | null) {
+  return job?.status === "succeeded" || job?.status === "failed";
+}
+
+/**
+ * Polls GET /api/admin/jobs/[job-id] until the job succeeds or fails.
+ * Pass a null job ID to stop polling. Network and server errors back off
+ * instead of ending the poll, since the job keeps running on the server
+ * regardless. A 4xx (job deleted, session expired) ends it with the error.
+ * Results are kept per job ID, so switching jobs never shows the previous
+ * job's status while the first poll of the new one is in flight.
+ */
+export function usePhotoJobStatus(
+  jobId: string | null | undefined,
+  { intervalMs = DEFAULT_INTERVAL_MS }: { intervalMs?: number } = {},
+) {
+  const [polled, setPolled] = useState<PolledJobStatus | null>(null);
+
+  useEffect(() => {
+    if (!jobId) {
+      return;
+    }
+
+    let cancelled = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    let delay = intervalMs;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/admin/jobs/${jobId}`, { cache: "no-store" });
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({}));
+          const message = body.error ?? `Job status request failed with ${response.status}`;
+
+          // Retrying cannot fix a missing job or an expired session
+          if (response.status >= 400 && response.status < 500) {
+            if (cancelled) return;
+            setPolled((current) => ({
+              jobId,
+              job: current?.jobId === jobId ? current.job : null,
+              error: message,
+              stopped: true,
+            }));
+            return;
+          }
+
+          throw new Error(message);
+        }
+
+        const data: PhotoJobStatusResponse = await response.json();
+        if (cancelled) return;
+
+        setPolled({ jobId, job: data, error: null, stopped: false });
+        delay = intervalMs;
+
+        if (isPhotoJobSettled(data)) {
+          return;
+        }
+      } catch (pollError) {
+        if (cancelled) return;
+        const message = pollError instanceof Error ? pollError.message : "Unable to fetch job status";
+        setPolled((current) => ({
+          jobId,
+          job: current?.jobId === jobId ? current.job : null,
+          error: message,
+          stopped: false,
+        }));
+        delay = Math.min(delay * 2, MAX_INTERVAL_MS);
+      }
+
+      timeoutId = setTimeout(poll, delay);
+    };
+
+    void poll();
+
+    return () => {
+      cancelled = true;
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+    };
+  }, [jobId, intervalMs]);
+
+  const current = jobId && polled?.jobId === jobId ? polled : null;
+
+  return {
+    job: current?.job ?? null,
+    error: current?.error ?? null,
+    stopped: current?.stopped ?? false,
+  };
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useSearchParams } from "next/navigation";
+import { useCallback, useRef, useState } from "react";
+
+import type { PhotoListItem, PhotoListResponse } from "@/lib/data/photos";
+import { mergeSearchParams } from "@/lib/navigation";
+
+/**
+ * Holds the gallery list, starting from the server-rendered first page, and
+ * appends pages from GET /api/admin/photos. Filters come from the current
+ * URL, so remount (key) the caller when they change. `reload` starts over
+ * from a fresh first page, e.g. after a bulk action changed the list.
+ */
+export function usePhotoList(initial: PhotoListResponse) {
+  const searchParams = useSearchParams();
+  const [items, setItems] = useState<PhotoListItem[]>(initial.items);
+  const [nextCursor, setNextCursor] = useState(initial.nextCursor);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Guards against a second request before the state update lands
+  const loadingRef = useRef(false);
+
+  const fetchPage = useCallback(
+    async (cursor: string | null, replace: boolean) => {
+      if (loadingRef.current) {
+        return;
+      }
+
+      loadingRef.current = true;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const query = mergeSearchParams(searchParams, { cursor });
+        const response = await fetch(`/api/admin/photos${query}`, { cache: "no-store" });
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({}));
+          throw new Error(body.error ?? `Photo list request failed with ${response.status}`);
+        }
+
+        const page: PhotoListResponse = await response.json();
+        setItems((previous) => {
+          if (replace) {
+            return page.items;
+          }
+          // A photo edited between requests can move across the cursor
+          const seen = new Set(previous.map((photo) => photo.id));
+          return [...previous, ...page.items.filter((photo) => !seen.has(photo.id))];
+        });
+        setNextCursor(page.nextCursor);
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : "Failed to load photos");
+      } finally {
+        loadingRef.current = false;
+        setIsLoading(false);
+      }
+    },
+    [searchParams],
+  );
+
+  const loadMore = useCallback(async () => {
+    if (nextCursor) {
+      await fetchPage(nextCursor, false);
+    }
+  }, [nextCursor, fetchPage]);
+
+  const reload = useCallback(() => fetchPage(null, true), [fetchPage]);
+
+  return { items, hasMore: nextCursor !== null, isLoading, error, loadMore, reload };
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+
+/**
+ * Row selection for the photo list. Shift-click extends from the last
+ * clicked row to the clicked one, taking the clicked row's new state. The
+ * selection may hold photos that are not loaded, after "select all matching".
+ */
+export function usePhotoSelection(photoIds: string[]) {
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  const toggle = useCallback(
+    (photoId: string, { range = false }: { range?: boolean } = {}) => {
+      const anchorIndex = anchorRef.current ? photoIds.indexOf(anchorRef.current) : -1;
+      const targetIndex = photoIds.indexOf(photoId);
+      const ids =
+        range && anchorIndex !== -1 && targetIndex !== -1
+          ? photoIds.slice(Math.min(anchorIndex, targetIndex), Math.max(anchorIndex, targetIndex) + 1)
+          : [photoId];
+
+      setSelectedIds((previous) => {
+        const next = new Set(previous);
+        const selected = !previous.has(photoId);
+
+        for (const id of ids) {
+          if (selected) {
+            next.add(id);
+          } else {
+            next.delete(id);
+          }
+        }
+        return next;
+      });
+      anchorRef.current = photoId;
+    },
+    [photoIds],
+  );
+
+  const selectAll = useCallback(
+    (selected: boolean) => {
+      setSelectedIds(selected ? new Set(photoIds) : new Set());
+      anchorRef.current = null;
+    },
+    [photoIds],
+  );
+
+  const replace = useCallback((ids: string[]) => {
+    setSelectedIds(new Set(ids));
+    anchorRef.current = null;
+  }, []);
+
+  return { selectedIds, toggle, selectAll, replace };
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, type DragEvent } from "react";
+
+/**
+ * Drag-and-drop reordering with native HTML drag events. Items move as the
+ * dragged one passes over them; `onReorder` saves the new order on drop. The
+ * local order resets whenever `ids` changes, e.g. after a refresh, or when
+ * `onReorder` rejects.
+ */
+export function useSortableIds(ids: string[], onReorder: (ids: string[]) => Promise<void>) {
+  const [order, setOrder] = useState(ids);
+  const [sourceKey, setSourceKey] = useState(() => ids.join());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const key = ids.join();
+  if (key !== sourceKey) {
+    setSourceKey(key);
+    setOrder(ids);
+  }
+
+  const moveOnto = (targetId: string) => {
+    if (!draggingId || draggingId === targetId) return;
+
+    setOrder((previous) => {
+      const from = previous.indexOf(draggingId);
+      const to = previous.indexOf(targetId);
+      if (from === -1 || to === -1) return previous;
+
+      const next = [...previous];
+      next.splice(from, 1);
+      next.splice(to, 0, draggingId);
+      return next;
+    });
+  };
+
+  const getItemProps = (id: string) => ({
+    draggable: true,
+    onDragStart: (event: DragEvent) => {
+      event.dataTransfer.effectAllowed = "move";
+      // Firefox only starts a drag with data set
+      event.dataTransfer.setData("text/plain", id);
+      setDraggingId(id);
+    },
+    onDragOver: (event: DragEvent) => {
+      if (!draggingId) return;
+      event.preventDefault();
+      moveOnto(id);
+    },
+    onDrop: (event: DragEvent) => {
+      event.preventDefault();
+    },
+    onDragEnd: () => {
+      setDraggingId(null);
+      if (order.join() === key) return;
+
+      setIsSaving(true);
+      onReorder(order)
+        .catch(() => setOrder(ids))
+        .finally(() => setIsSaving(false));
+    },
+  });
+
+  return { order, draggingId, isSaving, getItemProps };
+}
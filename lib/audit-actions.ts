@@ -0,0 +1,62 @@
+import type { AuditAction, AuditTargetType } from "@/types/audit";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "photo.upload": "Photo uploaded",
+  "photo.update": "Photo edited",
+  "photo.visibility": "Visibility changed",
+  "photo.geocode": "Location looked up",
+  "photo.reprocess": "Reprocess queued",
+  "photo.tags": "Tags changed",
+  "photo.location": "Location changed",
+  "photo.captured_at": "Capture date shifted",
+  "photo.revert": "Reverted to revision",
+  "photo.publish": "Scheduled photo published",
+  "photo.archive": "Photo archived",
+  "photo.unarchive": "Photo unarchived",
+  "photo.trash": "Moved to trash",
+  "photo.restore": "Restored from trash",
+  "photo.purge": "Photo deleted permanently",
+  "photo.share_link_create": "Share link created",
+  "photo.share_link_revoke": "Share link revoked",
+  "album.create": "Album created",
+  "album.update": "Album edited",
+  "album.rules": "Smart album rules changed",
+  "album.reorder": "Albums reordered",
+  "album.add_photos": "Photos added to album",
+  "album.remove_photos": "Photos removed from album",
+  "album.reorder_photos": "Album photos reordered",
+  "album.cover": "Album cover changed",
+  "album.delete": "Album deleted",
+  "tag.create": "Tag created",
+  "tag.update": "Tag edited",
+  "tag.delete": "Tag deleted",
+  "tag.merge": "Tag merged",
+  "rendition_profile.create": "Rendition profile created",
+  "rendition_profile.update": "Rendition profile edited",
+  "rendition_profile.backfill": "Rendition backfill queued",
+  "rendition_profile.delete": "Rendition profile deleted",
+  "upload.presign": "Upload URL issued",
+  "upload.multipart_create": "Multipart upload started",
+  "upload.multipart_complete": "Multipart upload assembled",
+  "upload.multipart_abort": "Multipart upload aborted",
+  "upload.multipart_cleanup": "Stale multipart uploads aborted",
+  "upload.cancel": "Upload cancelled",
+  "storage.sweep": "Storage swept",
+};
+
+export const AUDIT_TARGET_TYPE_LABELS: Record<AuditTargetType, string> = {
+  photo: "Photo",
+  album: "Album",
+  tag: "Tag",
+  rendition_profile: "Rendition profile",
+  upload: "Upload",
+  storage: "Storage",
+};
+
+export function isAuditAction(value: string | undefined): value is AuditAction {
+  return value !== undefined && Object.hasOwn(AUDIT_ACTION_LABELS, value);
+}
+
+export function isAuditTargetType(value: string | undefined): value is AuditTargetType {
+  return value !== undefined && Object.hasOwn(AUDIT_TARGET_TYPE_LABELS, value);
+}
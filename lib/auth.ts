@@ -1,6 +1,9 @@
+import { timingSafeEqual } from "node:crypto";
+
 import { redirect } from "next/navigation";
 import { AuthSessionMissingError, AuthApiError } from "@supabase/supabase-js";
 
+import { getEnv } from "@/lib/env";
 import { createSupabaseServerClient } from "@/lib/supabase/server";
 
 export async function getSession() {
@@ -36,3 +39,19 @@ export async function requireUser() {
 
   return session.user;
 }
+
+/**
+ * Returns true when the request carries the configured cron secret
+ * (`Authorization: Bearer <CRON_SECRET>`, as sent by Vercel Cron).
+ */
+export function isCronRequest(request: Request) {
+  const secret = getEnv().CRON_SECRET;
+  if (!secret) {
+    return false;
+  }
+
+  // Compared in constant time so response timing does not leak the secret
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get("authorization") ?? "");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,172 @@
+import {
+  countMatchingPhotos,
+  fetchPhotoList,
+  groupRenditionVariants,
+  type PhotoListItem,
+  type PhotoListSortBy,
+  type PhotoWithRenditionsRow,
+} from "@/lib/data/photos";
+import { parseSmartAlbumRules, type SmartAlbumRules } from "@/lib/smart-album-rules";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type { Album } from "@/types/photos";
+
+const PHOTO_COLUMNS =
+  "*, photo_rendition(variant_name, format, url, width, height, file_size, checksum)";
+
+/** Smart albums list their photos newest capture first */
+export const SMART_ALBUM_SORT: PhotoListSortBy = "taken";
+
+export interface AlbumListItem extends Album {
+  /** Includes photos in the trash, except for smart albums */
+  photo_count: number;
+  /** A smart album without a cover shows its first photo */
+  cover: PhotoListItem | null;
+}
+
+export interface AlbumDetail extends Album {
+  /**
+   * In album order, leaving out photos in the trash. For a smart album, the
+   * first page of matching photos.
+   */
+  photos: PhotoListItem[];
+  /** Set for smart albums */
+  smart: { rules: SmartAlbumRules; photoCount: number } | null;
+}
+
+export type AlbumOption = Pick<Album, "id" | "title">;
+
+/** Every album in page order, with its cover and size */
+export async function fetchAlbums(): Promise<AlbumListItem[]> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("albums")
+    // Albums and photos are also linked through album_photo, so the cover needs the FK hint
+    .select(`*, album_photo(count), cover:photos!cover_photo_id(${PHOTO_COLUMNS})`)
+    .order("position", { ascending: true })
+    .order("created_at", { ascending: true })
+    .overrideTypes<
+      Array<
+        Album & {
+          album_photo: Array<{ count: number }> | null;
+          cover: PhotoWithRenditionsRow | null;
+        }
+      >,
+      { merge: false }
+    >();
+
+  if (error) {
+    throw error;
+  }
+
+  return Promise.all(
+    (data ?? []).map(async ({ album_photo: photos, cover, ...album }) => {
+      const item: AlbumListItem = {
+        ...album,
+        photo_count: photos?.[0]?.count ?? 0,
+        cover: cover ? toPhotoListItem(cover) : null,
+      };
+
+      if (item.rules) {
+        const rules = parseSmartAlbumRules(item.rules);
+        const [photoCount, firstPage] = await Promise.all([
+          countMatchingPhotos(rules),
+          item.cover ? null : fetchPhotoList({ ...rules, sortBy: SMART_ALBUM_SORT }),
+        ]);
+        item.photo_count = photoCount;
+        item.cover ??= firstPage?.items[0] ?? null;
+      }
+
+      return item;
+    }),
+  );
+}
+
+export async function fetchAlbum(albumId: string): Promise<AlbumDetail | null> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data: album, error } = await supabase
+    .from("albums")
+    .select("*")
+    .eq("id", albumId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!album) {
+    return null;
+  }
+
+  if (album.rules) {
+    const rules = parseSmartAlbumRules(album.rules);
+    const [photoCount, firstPage] = await Promise.all([
+      countMatchingPhotos(rules),
+      fetchPhotoList({ ...rules, sortBy: SMART_ALBUM_SORT }),
+    ]);
+
+    return { ...(album as Album), photos: firstPage.items, smart: { rules, photoCount } };
+  }
+
+  const { data: entries, error: photosError } = await supabase
+    .from("album_photo")
+    .select(`position, photos(${PHOTO_COLUMNS})`)
+    .eq("album_id", albumId)
+    .order("position", { ascending: true })
+    .overrideTypes<Array<{ photos: PhotoWithRenditionsRow | null }>, { merge: false }>();
+
+  if (photosError) {
+    throw photosError;
+  }
+
+  const photos = (entries ?? [])
+    .map((entry) => entry.photos)
+    .filter((photo): photo is PhotoWithRenditionsRow => Boolean(photo) && !photo?.deleted_at)
+    .map(toPhotoListItem);
+
+  return { ...(album as Album), photos, smart: null };
+}
+
+/** Titles of the albums photos can be added to, in page order; smart albums are left out */
+export async function fetchAlbumOptions(): Promise<AlbumOption[]> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("albums")
+    .select("id, title")
+    .is("rules", null)
+    .order("position", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as AlbumOption[] | null) ?? [];
+}
+
+/** Manual albums a photo was added to, by title */
+export async function fetchPhotoAlbums(photoId: string): Promise<AlbumOption[]> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("album_photo")
+    .select("albums(id, title)")
+    .eq("photo_id", photoId)
+    .overrideTypes<Array<{ albums: AlbumOption | null }>, { merge: false }>();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? [])
+    .map((entry) => entry.albums)
+    .filter((album): album is AlbumOption => Boolean(album))
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+function toPhotoListItem(row: PhotoWithRenditionsRow): PhotoListItem {
+  const { photo_rendition: renditions, ...photo } = row;
+  return {
+    ...photo,
+    renditions: renditions ?? [],
+    variants: groupRenditionVariants(renditions ?? []),
+  };
+}
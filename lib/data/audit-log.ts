@@ -0,0 +1,279 @@
+import type { User } from "@supabase/supabase-js";
+
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type {
+  AuditAction,
+  AuditFieldChange,
+  AuditLogEntry,
+  AuditTargetType,
+} from "@/types/audit";
+import type { Photo } from "@/types/photos";
+
+type SupabaseClient = ReturnType<typeof createSupabaseServiceRoleClient>;
+
+/** Who made a change; null for system runs such as cron jobs */
+export type AuditActor = Pick<User, "id" | "email"> | null;
+
+/** Photo columns, plus the photo's sorted tag IDs */
+type PhotoAuditField = (keyof Photo & string) | "tag_ids";
+
+export const AUDIT_LOG_PAGE_SIZE = 50;
+
+/** `actor` filter value matching entries written by cron jobs */
+export const SYSTEM_ACTOR = "system";
+
+const PHOTO_LOCATION_FIELDS = ["place_name", "city", "region", "country"] as const;
+
+/** Fields auditPhotoChange records for each photo action */
+const PHOTO_AUDIT_FIELDS: Partial<Record<AuditAction, readonly PhotoAuditField[]>> = {
+  "photo.update": [
+    "title",
+    "description",
+    "captured_at",
+    ...PHOTO_LOCATION_FIELDS,
+    "is_visible",
+    "visibility",
+    "status",
+    "publish_at",
+    "tag_ids",
+  ],
+  "photo.visibility": ["is_visible"],
+  "photo.geocode": PHOTO_LOCATION_FIELDS,
+  "photo.tags": ["tag_ids"],
+  "photo.location": PHOTO_LOCATION_FIELDS,
+  "photo.captured_at": ["captured_at"],
+  "photo.revert": ["title", "description", "captured_at", ...PHOTO_LOCATION_FIELDS],
+  "photo.archive": ["status", "is_visible", "publish_at"],
+  "photo.unarchive": ["status", "is_visible", "publish_at"],
+  "photo.trash": ["deleted_at", "is_visible"],
+  "photo.restore": ["deleted_at", "is_visible"],
+  "photo.purge": ["title", "status", "deleted_at"],
+};
+
+export interface RecordAuditInput {
+  actor: AuditActor;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string | null;
+  /** Field values before the change; null when the target was created */
+  before?: Record<string, unknown> | null;
+  /** Field values after the change; null when the target was deleted */
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditLogFilters {
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  /** Actor email (case-insensitive), or SYSTEM_ACTOR */
+  actor?: string;
+  /** Only entries older than this ID, for paging */
+  before?: number;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  /** Pass as `before` for the next page; null on the last page */
+  nextCursor: number | null;
+}
+
+/**
+ * Appends entries to the audit log. Entries whose before and after values
+ * are identical are dropped, so saves that change nothing leave no trace.
+ *
+ * Never throws: it runs after the change has been made, and failing the
+ * request then would report a change that did happen as failed. Failures
+ * are logged instead.
+ */
+export async function recordAudit(input: RecordAuditInput | RecordAuditInput[]): Promise<void> {
+  const rows = (Array.isArray(input) ? input : [input]).flatMap((entry) => {
+    const hasSnapshots = entry.before !== undefined || entry.after !== undefined;
+    const changes = hasSnapshots ? diffAuditFields(entry.before ?? null, entry.after ?? null) : {};
+
+    if (hasSnapshots && Object.keys(changes).length === 0) {
+      return [];
+    }
+
+    return [
+      {
+        actor_id: entry.actor?.id ?? null,
+        actor_email: entry.actor?.email ?? null,
+        action: entry.action,
+        target_type: entry.targetType,
+        target_id: entry.targetId,
+        changes,
+        metadata: entry.metadata ?? {},
+      },
+    ];
+  });
+
+  if (rows.length === 0) {
+    return;
+  }
+
+  try {
+    const { error } = await createSupabaseServiceRoleClient().from("audit_log").insert(rows);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error("[audit-log] Failed to record entries:", { rows, error });
+  }
+}
+
+/**
+ * Runs a photo mutation and records the fields the action touches (see
+ * PHOTO_AUDIT_FIELDS) before and after it. A photo missing afterwards is
+ * recorded as deleted. Actions without fields, such as queueing a
+ * reprocess, are recorded with their metadata only.
+ */
+export async function auditPhotoChange<T>(
+  {
+    actor,
+    action,
+    photoId,
+    metadata,
+  }: {
+    actor: AuditActor;
+    action: AuditAction;
+    photoId: string;
+    metadata?: Record<string, unknown>;
+  },
+  mutate: () => Promise<T>,
+): Promise<T> {
+  const fields = PHOTO_AUDIT_FIELDS[action];
+
+  if (!fields) {
+    const result = await mutate();
+    await recordAudit({ actor, action, targetType: "photo", targetId: photoId, metadata });
+    return result;
+  }
+
+  const supabase = createSupabaseServiceRoleClient();
+  const before = await fetchPhotoSnapshot(supabase, photoId, fields);
+  const result = await mutate();
+
+  let after: Record<string, unknown> | null;
+  try {
+    after = await fetchPhotoSnapshot(supabase, photoId, fields);
+  } catch (error) {
+    console.error("[audit-log] Failed to read photo after change:", { photoId, action, error });
+    return result;
+  }
+
+  await recordAudit({ actor, action, targetType: "photo", targetId: photoId, before, after, metadata });
+
+  return result;
+}
+
+/** Newest first, AUDIT_LOG_PAGE_SIZE at a time */
+export async function fetchAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogPage> {
+  const supabase = createSupabaseServiceRoleClient();
+
+  let query = supabase
+    .from("audit_log")
+    .select("*")
+    .order("id", { ascending: false })
+    .limit(AUDIT_LOG_PAGE_SIZE + 1);
+
+  if (filters.action) {
+    query = query.eq("action", filters.action);
+  }
+  if (filters.targetType) {
+    query = query.eq("target_type", filters.targetType);
+  }
+  if (filters.targetId) {
+    query = query.eq("target_id", filters.targetId);
+  }
+  if (filters.actor === SYSTEM_ACTOR) {
+    query = query.is("actor_id", null);
+  } else if (filters.actor) {
+    query = query.ilike("actor_email", filters.actor.replace(/[\\%_]/g, "\\$&"));
+  }
+  if (filters.before) {
+    query = query.lt("id", filters.before);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = (data ?? []) as AuditLogEntry[];
+  const entries = rows.slice(0, AUDIT_LOG_PAGE_SIZE);
+
+  return {
+    entries,
+    nextCursor: rows.length > AUDIT_LOG_PAGE_SIZE ? entries[entries.length - 1].id : null,
+  };
+}
+
+/** Fields whose values differ; JSON comparison, so arrays and objects compare by content */
+function diffAuditFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+): Record<string, AuditFieldChange> {
+  const changes: Record<string, AuditFieldChange> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    const hasBefore = before !== null && key in before;
+    const hasAfter = after !== null && key in after;
+
+    if (hasBefore && hasAfter && JSON.stringify(before[key]) === JSON.stringify(after[key])) {
+      continue;
+    }
+
+    changes[key] = {
+      ...(hasBefore ? { before: before[key] } : {}),
+      ...(hasAfter ? { after: after[key] } : {}),
+    };
+  }
+
+  return changes;
+}
+
+async function fetchPhotoSnapshot(
+  supabase: SupabaseClient,
+  photoId: string,
+  fields: readonly PhotoAuditField[],
+): Promise<Record<string, unknown> | null> {
+  const columns = fields.filter((field) => field !== "tag_ids");
+
+  const { data, error } = await supabase
+    .from("photos")
+    .select(columns.length > 0 ? columns.join(", ") : "id")
+    .eq("id", photoId)
+    .maybeSingle<Record<string, unknown>>();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const snapshot: Record<string, unknown> = {};
+  for (const column of columns) {
+    snapshot[column] = data[column];
+  }
+
+  if (fields.includes("tag_ids")) {
+    const { data: tags, error: tagsError } = await supabase
+      .from("photo_tag")
+      .select("tag_id")
+      .eq("photo_id", photoId);
+
+    if (tagsError) {
+      throw tagsError;
+    }
+
+    snapshot.tag_ids = (tags ?? []).map(({ tag_id }) => tag_id as string).sort();
+  }
+
+  return snapshot;
+}
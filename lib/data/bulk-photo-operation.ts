@@ -0,0 +1,41 @@
+import type { BulkPhotoActionResult, BulkPhotoResult } from "@/types/photos";
+
+/** Photos worked on at once; keeps a large selection from flooding Supabase and R2 */
+const BULK_CONCURRENCY = 4;
+
+/**
+ * Runs `operation` for each photo, a few at a time. One photo failing does
+ * not stop the rest; its error is reported in its result instead.
+ */
+export async function runBulkPhotoOperation(
+  photoIds: string[],
+  operation: (photoId: string) => Promise<void>,
+): Promise<BulkPhotoActionResult> {
+  const uniqueIds = Array.from(new Set(photoIds));
+  const results: BulkPhotoResult[] = new Array(uniqueIds.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < uniqueIds.length) {
+      const index = next++;
+      const photoId = uniqueIds[index];
+
+      try {
+        await operation(photoId);
+        results[index] = { photoId, success: true };
+      } catch (error) {
+        console.error("[bulk-actions] Photo failed:", { photoId, error });
+        results[index] = {
+          photoId,
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, uniqueIds.length) }, worker));
+
+  const succeeded = results.filter((result) => result.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
@@ -0,0 +1,106 @@
+import { getR2KeyFromUrl, getR2StorageClass, setR2StorageClass } from "@/lib/r2";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type { Photo, PhotoStatus } from "@/types/photos";
+
+type SupabaseClient = ReturnType<typeof createSupabaseServiceRoleClient>;
+
+/**
+ * Moves a photo to the archive: it leaves the default gallery view and the
+ * public API, is hidden, and loses any pending schedule. With `coldStorage`
+ * the original is rewritten to R2 Infrequent Access under the same key;
+ * renditions stay on standard storage, so previews cost no retrieval fees.
+ */
+export async function archivePhoto(
+  photoId: string,
+  userId: string,
+  { coldStorage = false }: { coldStorage?: boolean } = {},
+): Promise<void> {
+  const supabase = createSupabaseServiceRoleClient();
+  const photo = await fetchArchiveFields(supabase, photoId);
+
+  if (photo.status === "archived") {
+    throw new Error("Photo is already archived");
+  }
+
+  if (photo.status !== "published" && photo.status !== "scheduled") {
+    throw new Error("Only processed photos can be archived");
+  }
+
+  // Storage goes first, so a failed move leaves the photo as it was
+  if (coldStorage && photo.originalKey) {
+    await setR2StorageClass(photo.originalKey, "STANDARD_IA");
+  }
+
+  await updateArchiveStatus(supabase, photoId, photo.status, {
+    status: "archived",
+    is_visible: false,
+    ...(photo.status === "scheduled" ? { publish_at: null } : {}),
+    updated_by: userId,
+  });
+}
+
+/**
+ * Takes a photo out of the archive. It is published again but stays hidden
+ * until made visible, and its original returns to standard storage.
+ */
+export async function unarchivePhoto(photoId: string, userId: string): Promise<void> {
+  const supabase = createSupabaseServiceRoleClient();
+  const photo = await fetchArchiveFields(supabase, photoId);
+
+  if (photo.status !== "archived") {
+    throw new Error("Photo is not archived");
+  }
+
+  if (photo.originalKey && (await getR2StorageClass(photo.originalKey)) !== "STANDARD") {
+    await setR2StorageClass(photo.originalKey, "STANDARD");
+  }
+
+  await updateArchiveStatus(supabase, photoId, photo.status, {
+    status: "published",
+    updated_by: userId,
+  });
+}
+
+async function fetchArchiveFields(supabase: SupabaseClient, photoId: string) {
+  const { data, error } = await supabase
+    .from("photos")
+    .select("status, deleted_at, assets:asset_original_id(url)")
+    .eq("id", photoId)
+    .maybeSingle<Pick<Photo, "status" | "deleted_at"> & { assets: { url: string } | null }>();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.deleted_at) {
+    throw new Error("Photo not found");
+  }
+
+  return {
+    status: data.status,
+    originalKey: data.assets ? getR2KeyFromUrl(data.assets.url) : null,
+  };
+}
+
+/** Updates only while the status is unchanged, so concurrent changes are not overwritten */
+async function updateArchiveStatus(
+  supabase: SupabaseClient,
+  photoId: string,
+  expectedStatus: PhotoStatus,
+  values: Pick<Photo, "status" | "updated_by"> & Partial<Pick<Photo, "is_visible" | "publish_at">>,
+): Promise<void> {
+  const { data, error } = await supabase
+    .from("photos")
+    .update(values)
+    .eq("id", photoId)
+    .eq("status", expectedStatus)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error("Photo changed in the meantime; try again");
+  }
+}
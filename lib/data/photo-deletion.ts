@@ -0,0 +1,213 @@
+import { auditPhotoChange } from "@/lib/data/audit-log";
+import { deleteR2Objects, listR2Objects } from "@/lib/r2";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+
+type SupabaseClient = ReturnType<typeof createSupabaseServiceRoleClient>;
+
+const STORAGE_ID_PATTERN = /photos\/([^/]+)\//;
+
+/** Days a photo stays in the trash before `purgeExpiredTrash` deletes it */
+export const TRASH_RETENTION_DAYS = 30;
+
+/** Photos purged per run; the rest wait for the next one */
+const PURGE_BATCH_SIZE = 100;
+
+/**
+ * Moves a photo to the trash. It disappears from the gallery and is hidden,
+ * but keeps its rows and files until restored or purged. `userId` is null
+ * when the storage sweeper trashes a stale draft from cron.
+ */
+export async function trashPhoto(photoId: string, userId: string | null): Promise<void> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("photos")
+    .update({
+      deleted_at: new Date().toISOString(),
+      deleted_by: userId,
+      is_visible: false,
+      updated_by: userId,
+    })
+    .eq("id", photoId)
+    .is("deleted_at", null)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error("Photo not found or already in the trash");
+  }
+}
+
+/**
+ * Takes a photo out of the trash. It stays hidden until made visible again.
+ */
+export async function restorePhoto(photoId: string, userId: string): Promise<void> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("photos")
+    .update({ deleted_at: null, deleted_by: null, updated_by: userId })
+    .eq("id", photoId)
+    .not("deleted_at", "is", null)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    throw new Error("Photo is not in the trash");
+  }
+}
+
+/**
+ * Permanently deletes a photo from the trash. Photos outside the trash are
+ * refused, so nothing is purged without passing through it first.
+ */
+export async function purgePhoto(photoId: string): Promise<void> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("photos")
+    .select("deleted_at")
+    .eq("id", photoId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data?.deleted_at) {
+    throw new Error("Photo is not in the trash");
+  }
+
+  await deletePhoto(photoId);
+}
+
+/**
+ * Purges photos that have been in the trash longer than TRASH_RETENTION_DAYS.
+ */
+export async function purgeExpiredTrash(): Promise<{ purged: number; errors: string[] }> {
+  const supabase = createSupabaseServiceRoleClient();
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from("photos")
+    .select("id")
+    .lt("deleted_at", cutoff.toISOString())
+    .order("deleted_at")
+    .limit(PURGE_BATCH_SIZE);
+
+  if (error) {
+    throw error;
+  }
+
+  let purged = 0;
+  const errors: string[] = [];
+
+  for (const { id } of data ?? []) {
+    try {
+      await auditPhotoChange({ actor: null, action: "photo.purge", photoId: id as string }, () =>
+        deletePhoto(id as string),
+      );
+      purged += 1;
+    } catch (purgeError) {
+      const message = purgeError instanceof Error ? purgeError.message : String(purgeError);
+      errors.push(`Photo ${id}: ${message}`);
+    }
+  }
+
+  return { purged, errors };
+}
+
+/**
+ * Permanently deletes a photo, trashed or not: every R2 object under its storage prefix
+ * (original and renditions), then its database rows. Storage goes first so a
+ * failure leaves the photo in place to retry, never orphaned objects.
+ */
+export async function deletePhoto(photoId: string): Promise<void> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data: photo, error } = await supabase
+    .from("photos")
+    .select("id, assets:asset_original_id(url)")
+    .eq("id", photoId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!photo) {
+    throw new Error("Photo not found");
+  }
+
+  const asset = photo.assets as { url: string } | { url: string }[] | null;
+  const url = Array.isArray(asset) ? asset[0]?.url : asset?.url;
+  const storageId = url?.match(STORAGE_ID_PATTERN)?.[1];
+
+  if (storageId) {
+    const objects = await listR2Objects(`photos/${storageId}/`);
+    const failed = await deleteR2Objects(objects.map((object) => object.key));
+    if (failed.length > 0) {
+      throw new Error(`${failed.length} objects could not be deleted`);
+    }
+  }
+
+  await deletePhotoRecords(supabase, photoId);
+}
+
+/**
+ * Removes a photo and everything hanging off it. The original asset goes
+ * last because the photo row references it.
+ */
+export async function deletePhotoRecords(supabase: SupabaseClient, photoId: string): Promise<void> {
+  const { data: photo, error: photoError } = await supabase
+    .from("photos")
+    .select("asset_original_id")
+    .eq("id", photoId)
+    .single();
+
+  if (photoError) {
+    throw photoError;
+  }
+
+  const { error: coverError } = await supabase
+    .from("albums")
+    .update({ cover_photo_id: null })
+    .eq("cover_photo_id", photoId);
+
+  if (coverError) {
+    throw coverError;
+  }
+
+  for (const table of [
+    "photo_histogram",
+    "photo_rendition",
+    "photo_exif",
+    "photo_tag",
+    "album_photo",
+    "photo_share_link",
+    "photo_revision",
+  ] as const) {
+    const { error } = await supabase.from(table).delete().eq("photo_id", photoId);
+    if (error) {
+      throw error;
+    }
+  }
+
+  const { error: deleteError } = await supabase.from("photos").delete().eq("id", photoId);
+  if (deleteError) {
+    throw deleteError;
+  }
+
+  if (photo.asset_original_id) {
+    const { error: assetError } = await supabase
+      .from("assets")
+      .delete()
+      .eq("id", photo.asset_original_id as string);
+
+    if (assetError) {
+      throw assetError;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import type { NumericRange, PhotoListSortBy, PhotoSearchFilters } from "@/lib/data/photos";
+
+/** Gallery URL params; shared by the gallery page and the photo list API */
+export type PhotoListSearchParams = {
+  visibility?: string;
+  year?: string;
+  sort?: string;
+  q?: string;
+  camera?: string;
+  lens?: string;
+  country?: string;
+  tag?: string;
+  orientation?: string;
+  status?: string;
+  make?: string;
+  focalMin?: string;
+  focalMax?: string;
+  apertureMin?: string;
+  apertureMax?: string;
+  isoMin?: string;
+  isoMax?: string;
+  shutterMin?: string;
+  shutterMax?: string;
+};
+
+/**
+ * Reads the gallery filters and sort from URL params. Unknown or malformed
+ * values are dropped rather than rejected, so stale links still load.
+ */
+export function parsePhotoListSearchParams(params: PhotoListSearchParams): {
+  filters: PhotoSearchFilters;
+  sortBy: PhotoListSortBy;
+} {
+  return {
+    filters: {
+      visibility: parseVisibility(params.visibility),
+      year: parseYear(params.year),
+      query: parseText(params.q),
+      camera: parseText(params.camera),
+      lens: parseText(params.lens),
+      country: parseText(params.country),
+      tagId: parseUuid(params.tag),
+      orientation: parseOrientation(params.orientation),
+      status: parseStatus(params.status),
+      make: parseText(params.make),
+      focalLength: parseRange(params.focalMin, params.focalMax),
+      aperture: parseRange(params.apertureMin, params.apertureMax),
+      iso: parseRange(params.isoMin, params.isoMax),
+      shutter: parseRange(params.shutterMin, params.shutterMax),
+    },
+    sortBy: parseSort(params.sort),
+  };
+}
+
+/** The reverse of parsePhotoListSearchParams, for linking to the gallery */
+export function toPhotoListSearchParams(
+  filters: PhotoSearchFilters,
+  sortBy?: PhotoListSortBy,
+): PhotoListSearchParams {
+  const params: PhotoListSearchParams = {
+    visibility: filters.visibility === "all" ? undefined : filters.visibility,
+    year: filters.year?.toString(),
+    sort: sortBy === "taken" ? sortBy : undefined,
+    q: filters.query,
+    camera: filters.camera,
+    lens: filters.lens,
+    country: filters.country,
+    tag: filters.tagId,
+    orientation: filters.orientation,
+    status: filters.status,
+    make: filters.make,
+    focalMin: filters.focalLength?.min?.toString(),
+    focalMax: filters.focalLength?.max?.toString(),
+    apertureMin: filters.aperture?.min?.toString(),
+    apertureMax: filters.aperture?.max?.toString(),
+    isoMin: filters.iso?.min?.toString(),
+    isoMax: filters.iso?.max?.toString(),
+    shutterMin: filters.shutter?.min?.toString(),
+    shutterMax: filters.shutter?.max?.toString(),
+  };
+
+  return Object.fromEntries(
+    Object.entries(params).filter(([, value]) => value !== undefined),
+  ) as PhotoListSearchParams;
+}
+
+function parseVisibility(value: string | undefined) {
+  if (value === "visible" || value === "hidden") {
+    return value;
+  }
+  return "all" as const;
+}
+
+function parseYear(value: string | undefined) {
+  if (!value) return undefined;
+  const year = Number.parseInt(value, 10);
+  return Number.isFinite(year) ? year : undefined;
+}
+
+function parseSort(value: string | undefined): PhotoListSortBy {
+  if (value === "taken") {
+    return "taken";
+  }
+  return "added";
+}
+
+function parseText(value: string | undefined) {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function parseUuid(value: string | undefined) {
+  return value && /^[0-9a-f-]{36}$/i.test(value) ? value : undefined;
+}
+
+function parseOrientation(value: string | undefined) {
+  if (value === "landscape" || value === "portrait" || value === "square") {
+    return value;
+  }
+  return undefined;
+}
+
+function parseStatus(value: string | undefined) {
+  if (value === "draft" || value === "scheduled" || value === "published" || value === "archived") {
+    return value;
+  }
+  return undefined;
+}
+
+function parseRange(min: string | undefined, max: string | undefined): NumericRange | undefined {
+  const range: NumericRange = { min: parseNumber(min), max: parseNumber(max) };
+  return range.min != null || range.max != null ? range : undefined;
+}
+
+function parseNumber(value: string | undefined) {
+  if (!value) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
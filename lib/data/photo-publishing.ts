@@ -0,0 +1,39 @@
+import { recordAudit } from "@/lib/data/audit-log";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+
+/**
+ * Publishes scheduled photos whose `publish_at` has passed: they become
+ * "published" and visible. Their audience (`visibility`) is left as set,
+ * and photos in the trash wait until they are restored.
+ */
+export async function publishDuePhotos(): Promise<{ published: number; photoIds: string[] }> {
+  const supabase = createSupabaseServiceRoleClient();
+
+  const { data, error } = await supabase
+    .from("photos")
+    .update({ status: "published", is_visible: true })
+    .eq("status", "scheduled")
+    .lte("publish_at", new Date().toISOString())
+    .is("deleted_at", null)
+    .select("id");
+
+  if (error) {
+    throw error;
+  }
+
+  const photoIds = (data ?? []).map(({ id }) => id as string);
+
+  // Scheduled photos are always hidden, so the change is known without reading them first
+  await recordAudit(
+    photoIds.map((photoId) => ({
+      actor: null,
+      action: "photo.publish" as const,
+      targetType: "photo" as const,
+      targetId: photoId,
+      before: { status: "scheduled", is_visible: false },
+      after: { status: "published", is_visible: true },
+    })),
+  );
+
+  return { published: photoIds.length, photoIds };
+}
@@ -0,0 +1,165 @@
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type {
+  PhotoRevision,
+  PhotoRevisionField,
+  PhotoRevisionSource,
+} from "@/types/photos";
+
+type SupabaseClient = ReturnType<typeof createSupabaseServiceRoleClient>;
+
+type RevisionFields = PhotoRevision["fields"];
+
+export const PHOTO_REVISION_FIELDS: readonly PhotoRevisionField[] = [
+  "title",
+  "description",
+  "captured_at",
+  "place_name",
+  "city",
+  "region",
+  "country",
+];
+
+/** Revisions shown on the detail page; older ones are kept but not listed */
+const MAX_LISTED_REVISIONS = 100;
+
+/**
+ * Runs a change to a photo and keeps a revision when any of its descriptive
+ * fields changed. The first revision of a photo is preceded by an "initial"
+ * one holding the values it replaced, so the first change can be undone too.
+ *
+ * Like the audit log, a failure to keep the revision is logged rather than
+ * thrown, since the change itself has already been made.
+ */
+export async function withPhotoRevision<T>(
+  {
+    photoId,
+    userId,
+    source,
+    revertedFrom = null,
+  }: {
+    photoId: string;
+    userId: string;
+    source: Exclude<PhotoRevisionSource, "initial">;
+    revertedFrom?: number | null;
+  },
+  mutate: () => Promise<T>,
+): Promise<T> {
+  const supabase = createSupabaseServiceRoleClient();
+  const before = await fetchRevisionFields(supabase, photoId);
+  const result = await mutate();
+
+  try {
+    const after = await fetchRevisionFields(supabase, photoId);
+    const changes = diffRevisionFields(before, after);
+
+    if (Object.keys(changes).length === 0) {
+      return result;
+    }
+
+    const { count, error: countError } = await supabase
+      .from("photo_revision")
+      .select("id", { count: "exact", head: true })
+      .eq("photo_id", photoId);
+
+    if (countError) {
+      throw countError;
+    }
+
+    const revision = {
+      photo_id: photoId,
+      source,
+      fields: after,
+      changes,
+      reverted_from: revertedFrom,
+      created_by: userId,
+    };
+
+    // One insert keeps the initial revision ahead of the change in ID order
+    const rows =
+      count === 0
+        ? [
+            { ...revision, source: "initial", fields: before, changes: {}, reverted_from: null },
+            revision,
+          ]
+        : [revision];
+
+    const { error } = await supabase.from("photo_revision").insert(rows);
+
+    if (error) {
+      throw error;
+    }
+  } catch (error) {
+    console.error("[photo-revisions] Failed to keep revision:", { photoId, source, error });
+  }
+
+  return result;
+}
+
+/** Newest first */
+export async function fetchPhotoRevisions(photoId: string): Promise<PhotoRevision[]> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("photo_revision")
+    .select("*")
+    .eq("photo_id", photoId)
+    .order("id", { ascending: false })
+    .limit(MAX_LISTED_REVISIONS);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []) as PhotoRevision[];
+}
+
+export async function fetchPhotoRevision(
+  photoId: string,
+  revisionId: number,
+): Promise<PhotoRevision | null> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("photo_revision")
+    .select("*")
+    .eq("id", revisionId)
+    .eq("photo_id", photoId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as PhotoRevision | null) ?? null;
+}
+
+async function fetchRevisionFields(
+  supabase: SupabaseClient,
+  photoId: string,
+): Promise<RevisionFields> {
+  const { data, error } = await supabase
+    .from("photos")
+    .select(PHOTO_REVISION_FIELDS.join(", "))
+    .eq("id", photoId)
+    .maybeSingle<RevisionFields>();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    throw new Error("Photo not found");
+  }
+
+  return data;
+}
+
+function diffRevisionFields(before: RevisionFields, after: RevisionFields): PhotoRevision["changes"] {
+  const changes: PhotoRevision["changes"] = {};
+
+  for (const field of PHOTO_REVISION_FIELDS) {
+    if (before[field] !== after[field]) {
+      changes[field] = { before: before[field], after: after[field] };
+    }
+  }
+
+  return changes;
+}
@@ -1,5 +1,6 @@
 import { addYears } from "date-fns";
 
+import { fetchTagSubtreeIds } from "@/lib/data/tags";
 import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
 import type {
   Photo,
@@ -7,62 +8,284 @@ import type {
   PhotoExif,
   PhotoHistogram,
   PhotoRendition,
+  PhotoRenditionVariant,
+  PhotoStatus,
+  PhotoVisibility,
   Tag,
 } from "@/types/photos";
 
 export type PhotoListVisibilityFilter = "all" | "visible" | "hidden";
 export type PhotoListSortBy = "added" | "taken";
 
-export interface PhotoListFilters {
-  page?: number;
+export interface PhotoListFilters extends PhotoSearchFilters {
+  /** From `nextCursor` of the previous page; omit for the first page */
+  cursor?: PhotoListCursor;
+  sortBy?: PhotoListSortBy;
+}
+
+/** Filters shared by the photo list and its facet counts */
+export interface PhotoSearchFilters {
   visibility?: PhotoListVisibilityFilter;
   year?: number;
-  sortBy?: PhotoListSortBy;
+  /** Free text matched against title, description, place, tags and EXIF */
+  query?: string;
+  /** Combined make and model, as in `photo_exif.camera` */
+  camera?: string;
+  lens?: string;
+  country?: string;
+  /** Also matches photos tagged with any of the tag's descendants */
+  tagId?: string;
+  orientation?: NonNullable<Photo["orientation"]>;
+  /** Without a status, archived photos are left out */
+  status?: PhotoStatus;
+  /**
+   * `photos.visibility`, who a photo is shared with; `visibility` above is the
+   * `is_visible` switch. Not applied to facet counts.
+   */
+  audience?: PhotoVisibility;
+  /** `photo_exif.camera_make` */
+  make?: string;
+  /** Millimetres */
+  focalLength?: NumericRange;
+  /** f-number */
+  aperture?: NumericRange;
+  iso?: NumericRange;
+  /** Seconds */
+  shutter?: NumericRange;
+}
+
+/** Inclusive bounds; either end may be open */
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+/** Distinct values present in `photo_exif`, ascending */
+export interface PhotoExifFilterOptions {
+  makes: string[];
+  focalLengths: number[];
+  apertures: number[];
+  isos: number[];
+  shutterSpeeds: number[];
+}
+
+export type PhotoFacetKey = "camera" | "lens" | "country" | "tag" | "orientation" | "status";
+
+export interface PhotoFacetValue {
+  value: string;
+  label: string;
+  count: number;
 }
 
+/**
+ * Matching photos per facet value. Each facet is counted with every other
+ * filter applied but not its own, so the alternatives stay visible.
+ */
+export type PhotoFacets = Record<PhotoFacetKey, PhotoFacetValue[]>;
+
 export interface PhotoListItem extends Photo {
   renditions: PhotoRendition[];
+  variants: PhotoRenditionVariant[];
 }
 
+/** A photo row with its renditions embedded, as list queries select it */
+export type PhotoWithRenditionsRow = Photo & { photo_rendition: PhotoRendition[] | null };
+
 export interface PhotoListResponse {
   items: PhotoListItem[];
-  total: number;
-  pages: number;
-  page: number;
+  /** Opaque cursor for the following page; null on the last page */
+  nextCursor: string | null;
   pageSize: number;
-  availableYears: number[];
 }
 
+/** Sort key values of the last photo on a page, in PHOTO_LIST_SORT_KEYS order */
+export interface PhotoListCursor {
+  sortBy: PhotoListSortBy;
+  values: (string | null)[];
+}
+
+interface PhotoListSortKey {
+  column: "uploaded_at" | "captured_at" | "id";
+  nullable?: boolean;
+}
+
+/**
+ * Keyset order per sort, all descending with nulls last. Every list ends in
+ * `id` so rows sharing a timestamp still have a stable position.
+ */
+const PHOTO_LIST_SORT_KEYS: Record<PhotoListSortBy, PhotoListSortKey[]> = {
+  added: [{ column: "uploaded_at" }, { column: "id" }],
+  // Photos without a capture date come last, in upload order
+  taken: [{ column: "captured_at", nullable: true }, { column: "uploaded_at" }, { column: "id" }],
+};
+
 const PHOTO_LIST_PAGE_SIZE = 20;
 
+/** Timestamps as Postgres returns them, e.g. 2024-05-01T10:00:00.123456+00:00 */
+const CURSOR_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+const CURSOR_UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 export async function fetchPhotoList({
-  page = 1,
-  visibility = "all",
-  year,
+  cursor,
   sortBy = "added",
+  ...filters
 }: PhotoListFilters): Promise<PhotoListResponse> {
-  const supabase = createSupabaseServiceRoleClient();
-  const offset = (page - 1) * PHOTO_LIST_PAGE_SIZE;
+  const sortKeys = PHOTO_LIST_SORT_KEYS[sortBy];
 
-  let query = supabase
-    .from("photos")
-    .select(
-      `*, photo_rendition(variant_name, url, width, height, file_size, checksum)`,
-      { count: "exact" },
-    );
+  let query = queryPhotos(
+    "*, photo_rendition(variant_name, format, url, width, height, file_size, checksum)",
+    filters,
+    await resolveTagFilter(filters.tagId),
+  );
 
-  // Apply sorting based on sortBy parameter
-  if (sortBy === "taken") {
-    // Sort by capture date (date taken), with fallback to upload date for photos without capture date
-    query = query
-    .order("captured_at", { ascending: false, nullsFirst: false })
-      .order("uploaded_at", { ascending: false });
-  } else {
-    // Sort by upload date (date added) - default
-    query = query.order("uploaded_at", { ascending: false });
+  for (const { column } of sortKeys) {
+    query = query.order(column, { ascending: false, nullsFirst: false });
   }
 
-  query = query.range(offset, offset + PHOTO_LIST_PAGE_SIZE - 1);
+  if (cursor) {
+    if (cursor.sortBy !== sortBy || cursor.values.length !== sortKeys.length) {
+      throw new Error("Cursor does not match the requested sort order");
+    }
+    query = query.or(buildKeysetFilter(sortKeys, cursor.values));
+  }
+
+  // One extra row tells whether another page follows
+  query = query.limit(PHOTO_LIST_PAGE_SIZE + 1);
+
+  // The select is assembled at runtime, so its row type cannot be inferred
+  const { data, error } = await query.overrideTypes<PhotoWithRenditionsRow[], { merge: false }>();
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = data ?? [];
+  const hasMore = rows.length > PHOTO_LIST_PAGE_SIZE;
+  const items = rows.slice(0, PHOTO_LIST_PAGE_SIZE).map((row) => ({
+    ...row,
+    renditions: row.photo_rendition ?? [],
+    variants: groupRenditionVariants(row.photo_rendition ?? []),
+  }));
+
+  const last = items.at(-1);
+  const nextCursor =
+    hasMore && last
+      ? encodePhotoListCursor({ sortBy, values: sortKeys.map(({ column }) => last[column]) })
+      : null;
+
+  return {
+    items,
+    nextCursor,
+    pageSize: PHOTO_LIST_PAGE_SIZE,
+  };
+}
+
+/** Upper bound for "select all matching"; also the bulk action limit */
+export const MAX_PHOTO_SELECTION = 1000;
+
+/**
+ * IDs of the photos matching `filters`, in list order, for selecting a whole
+ * result set. `truncated` is set when more than MAX_PHOTO_SELECTION match.
+ */
+export async function fetchMatchingPhotoIds({
+  sortBy = "added",
+  ...filters
+}: Omit<PhotoListFilters, "cursor">): Promise<{ ids: string[]; truncated: boolean }> {
+  let query = queryPhotos("id", filters, await resolveTagFilter(filters.tagId));
+
+  for (const { column } of PHOTO_LIST_SORT_KEYS[sortBy]) {
+    query = query.order(column, { ascending: false, nullsFirst: false });
+  }
+
+  const { data, error } = await query
+    .limit(MAX_PHOTO_SELECTION + 1)
+    .overrideTypes<Pick<Photo, "id">[], { merge: false }>();
+
+  if (error) {
+    throw error;
+  }
+
+  const ids = (data ?? []).map((row) => row.id);
+
+  return {
+    ids: ids.slice(0, MAX_PHOTO_SELECTION),
+    truncated: ids.length > MAX_PHOTO_SELECTION,
+  };
+}
+
+/** Number of photos matching `filters` */
+export async function countMatchingPhotos(filters: PhotoSearchFilters): Promise<number> {
+  const { count, error } = await queryPhotos("id", filters, await resolveTagFilter(filters.tagId), {
+    count: "exact",
+    head: true,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/** Whether the photo is outside the trash and matches `filters` */
+export async function isPhotoMatchingFilters(
+  photoId: string,
+  filters: PhotoSearchFilters,
+): Promise<boolean> {
+  const { data, error } = await queryPhotos("id", filters, await resolveTagFilter(filters.tagId))
+    .eq("id", photoId)
+    .limit(1);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Selects `columns` from photos matching `filters`, leaving out the trash.
+ * EXIF and tag filters add inner embeds, which drop photos without a
+ * matching row. `tagIds` is the `tagId` filter with its descendants, see
+ * `resolveTagFilter`.
+ */
+function queryPhotos(
+  columns: string,
+  {
+    visibility = "all",
+    year,
+    query: searchText,
+    camera,
+    lens,
+    country,
+    orientation,
+    status,
+    audience,
+    make,
+    focalLength,
+    aperture,
+    iso,
+    shutter,
+  }: PhotoSearchFilters,
+  tagIds?: string[],
+  options?: { count: "exact"; head?: boolean },
+) {
+  const supabase = createSupabaseServiceRoleClient();
+  const hasExifFilter =
+    Boolean(camera || lens || make) ||
+    [focalLength, aperture, iso, shutter].some((range) => range?.min != null || range?.max != null);
+
+  const embeds = [columns];
+  if (hasExifFilter) {
+    embeds.push(
+      "photo_exif!inner(camera_make, camera, lens_model, focal_length_mm, aperture, iso, shutter_s)",
+    );
+  }
+  if (tagIds) {
+    embeds.push("photo_tag!inner(tag_id)");
+  }
+
+  let query = supabase.from("photos").select(embeds.join(", "), options).is("deleted_at", null);
 
   if (visibility === "visible") {
     query = query.eq("is_visible", true);
@@ -79,41 +302,317 @@ export async function fetchPhotoList({
     );
   }
 
-  const { data, error, count } = await query;
+  const tsQuery = searchText ? toPrefixTsQuery(searchText) : null;
+  if (tsQuery) {
+    query = query.textSearch("search_vector", tsQuery, { config: "simple" });
+  }
+
+  if (camera) {
+    query = query.eq("photo_exif.camera", camera);
+  }
+  if (lens) {
+    query = query.eq("photo_exif.lens_model", lens);
+  }
+  if (make) {
+    query = query.eq("photo_exif.camera_make", make);
+  }
+
+  const exifRanges = [
+    ["photo_exif.focal_length_mm", focalLength],
+    ["photo_exif.aperture", aperture],
+    ["photo_exif.iso", iso],
+    ["photo_exif.shutter_s", shutter],
+  ] as const;
+
+  for (const [column, range] of exifRanges) {
+    if (range?.min != null) {
+      query = query.gte(column, range.min);
+    }
+    if (range?.max != null) {
+      query = query.lte(column, range.max);
+    }
+  }
+  if (tagIds) {
+    query = query.in("photo_tag.tag_id", tagIds);
+  }
+  if (country) {
+    query = query.eq("country", country);
+  }
+  if (orientation) {
+    query = query.eq("orientation", orientation);
+  }
+  if (status) {
+    query = query.eq("status", status);
+  } else {
+    query = query.neq("status", "archived");
+  }
+  if (audience) {
+    query = query.eq("visibility", audience);
+  }
+
+  return query;
+}
+
+async function resolveTagFilter(tagId: string | undefined): Promise<string[] | undefined> {
+  return tagId ? fetchTagSubtreeIds(tagId) : undefined;
+}
+
+export function encodePhotoListCursor(cursor: PhotoListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sortBy, ...cursor.values])).toString("base64url");
+}
+
+/**
+ * Parses a cursor from `nextCursor`. Returns null when it is malformed, so
+ * routes can reject it instead of silently restarting at the first page.
+ * Cursors come from the client, so every value must have its key's type:
+ * anything else could change the meaning of the keyset filter.
+ */
+export function decodePhotoListCursor(value: string): PhotoListCursor | null {
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (!Array.isArray(parsed)) {
+      return null;
+    }
+
+    const [sortBy, ...values] = parsed;
+    if (typeof sortBy !== "string" || !Object.hasOwn(PHOTO_LIST_SORT_KEYS, sortBy)) {
+      return null;
+    }
+
+    const keys = PHOTO_LIST_SORT_KEYS[sortBy as PhotoListSortBy];
+    if (
+      values.length !== keys.length ||
+      !values.every((entry, index) => isCursorValue(keys[index], entry))
+    ) {
+      return null;
+    }
+
+    return { sortBy: sortBy as PhotoListSortBy, values };
+  } catch {
+    return null;
+  }
+}
+
+function isCursorValue(key: PhotoListSortKey, value: unknown): value is string | null {
+  if (value === null) {
+    return key.nullable === true;
+  }
+  if (typeof value !== "string") {
+    return false;
+  }
+  if (key.column === "id") {
+    return CURSOR_UUID_PATTERN.test(value);
+  }
+  return CURSOR_TIMESTAMP_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * PostgREST `or` filter for rows after `values` in a descending, nulls-last
+ * keyset: (a, b, id) < (va, vb, vid) expanded to
+ * `a < va OR (a = va AND b < vb) OR (a = va AND b = vb AND id < vid)`.
+ * Nothing sorts after a null in its own column, only after its equals.
+ */
+function buildKeysetFilter(keys: PhotoListSortKey[], values: (string | null)[]): string {
+  const branches: string[] = [];
+
+  keys.forEach((key, index) => {
+    const value = values[index];
+    if (value === null) {
+      return;
+    }
+
+    const quoted = quoteFilterValue(value);
+    const after = key.nullable
+      ? `or(${key.column}.lt.${quoted},${key.column}.is.null)`
+      : `${key.column}.lt.${quoted}`;
+    const equal = keys.slice(0, index).map(({ column }, i) => {
+      const equalValue = values[i];
+      return equalValue === null ? `${column}.is.null` : `${column}.eq.${quoteFilterValue(equalValue)}`;
+    });
+
+    branches.push(equal.length > 0 ? `and(${[...equal, after].join(",")})` : after);
+  });
+
+  return branches.join(",");
+}
+
+/** Double-quotes a PostgREST filter value; decodePhotoListCursor already rejects anything unusual */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+interface PhotoFacetRow {
+  facet: PhotoFacetKey;
+  value: string;
+  label: string;
+  count: number | string;
+}
+
+/**
+ * Facet counts for the photos matching `filters` (see PhotoFacets).
+ */
+export async function fetchPhotoFacets({
+  visibility = "all",
+  year,
+  query,
+  camera,
+  lens,
+  country,
+  tagId,
+  orientation,
+  status,
+  make,
+  focalLength,
+  aperture,
+  iso,
+  shutter,
+}: PhotoSearchFilters): Promise<PhotoFacets> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase.rpc("photo_search_facets", {
+    p_query: query ? toPrefixTsQuery(query) : null,
+    p_is_visible: visibility === "all" ? null : visibility === "visible",
+    p_year: year ?? null,
+    p_camera: camera ?? null,
+    p_lens: lens ?? null,
+    p_country: country ?? null,
+    p_tag: tagId ?? null,
+    p_orientation: orientation ?? null,
+    p_status: status ?? null,
+    p_make: make ?? null,
+    p_focal_min: focalLength?.min ?? null,
+    p_focal_max: focalLength?.max ?? null,
+    p_aperture_min: aperture?.min ?? null,
+    p_aperture_max: aperture?.max ?? null,
+    p_iso_min: iso?.min ?? null,
+    p_iso_max: iso?.max ?? null,
+    p_shutter_min: shutter?.min ?? null,
+    p_shutter_max: shutter?.max ?? null,
+  });
 
   if (error) {
     throw error;
   }
 
-  const total = count ?? 0;
-  const pages = Math.max(1, Math.ceil(total / PHOTO_LIST_PAGE_SIZE));
+  const facets: PhotoFacets = {
+    camera: [],
+    lens: [],
+    country: [],
+    tag: [],
+    orientation: [],
+    status: [],
+  };
 
-  const availableYears = await fetchDistinctYears();
+  for (const row of (data ?? []) as PhotoFacetRow[]) {
+    // count is a bigint, which PostgREST may return as a string
+    facets[row.facet]?.push({ value: row.value, label: row.label, count: Number(row.count) });
+  }
 
-  const items = (data as (Photo & { photo_rendition: PhotoRendition[] | null })[] | null)?.map(
-    (row) => ({
-      ...row,
-      renditions: row.photo_rendition ?? [],
-    }),
-  );
+  // Most common first; ties alphabetically
+  for (const values of Object.values(facets)) {
+    values.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  }
+
+  return facets;
+}
+
+/**
+ * Values offered by the EXIF filter dropdowns.
+ */
+export async function fetchExifFilterOptions(): Promise<PhotoExifFilterOptions> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase.rpc("photo_exif_filter_options");
+
+  if (error) {
+    throw error;
+  }
+
+  const options = (data ?? {}) as Partial<Record<keyof PhotoExifFilterOptions, unknown[]>>;
+  const toNumbers = (values: unknown[] | undefined) =>
+    (values ?? []).map(Number).filter(Number.isFinite);
 
   return {
-    items: items ?? [],
-    total,
-    pages,
-    page,
-    pageSize: PHOTO_LIST_PAGE_SIZE,
-    availableYears,
+    makes: (options.makes ?? []).map(String),
+    // numeric columns arrive as JSON numbers, but be lenient about strings
+    focalLengths: toNumbers(options.focalLengths),
+    apertures: toNumbers(options.apertures),
+    isos: toNumbers(options.isos),
+    shutterSpeeds: toNumbers(options.shutterSpeeds),
   };
 }
 
+/**
+ * Turns free text into a prefix tsquery ("kyo 35mm" -> "kyo:* & 35mm:*") so
+ * partial words match as the user types. Returns null when nothing is left
+ * to search for. Punctuation is dropped, which also keeps tsquery operators
+ * out of user input.
+ */
+function toPrefixTsQuery(text: string): string | null {
+  const terms = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return terms.length > 0 ? terms.map((term) => `${term}:*`).join(" & ") : null;
+}
+
+/**
+ * Groups rendition rows by variant so callers can emit one `<picture>` per
+ * variant. Dimensions come from the JPEG, which every variant has.
+ */
+export function groupRenditionVariants(renditions: PhotoRendition[]): PhotoRenditionVariant[] {
+  const variants = new Map<string, PhotoRenditionVariant>();
+
+  for (const rendition of renditions) {
+    const format = rendition.format ?? "jpeg";
+    const variant = variants.get(rendition.variant_name) ?? {
+      variant_name: rendition.variant_name,
+      width: rendition.width,
+      height: rendition.height,
+      formats: {},
+    };
+
+    variant.formats[format] = rendition;
+    if (format === "jpeg") {
+      variant.width = rendition.width;
+      variant.height = rendition.height;
+    }
+
+    variants.set(rendition.variant_name, variant);
+  }
+
+  return Array.from(variants.values());
+}
+
+/** Enough for any realistic trash; older entries are purged after 30 days */
+const TRASH_LIST_LIMIT = 500;
+
+/**
+ * Photos in the trash, most recently deleted first.
+ */
+export async function fetchTrashedPhotos(): Promise<PhotoListItem[]> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("photos")
+    .select("*, photo_rendition(variant_name, format, url, width, height, file_size, checksum)")
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false })
+    .limit(TRASH_LIST_LIMIT);
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data ?? []) as (Photo & { photo_rendition: PhotoRendition[] | null })[]).map((row) => ({
+    ...row,
+    renditions: row.photo_rendition ?? [],
+    variants: groupRenditionVariants(row.photo_rendition ?? []),
+  }));
+}
+
 let cachedYears: Promise<number[]> | null = null;
 
 export async function invalidatePhotoYearCache() {
   cachedYears = null;
 }
 
-async function fetchDistinctYears(): Promise<number[]> {
+/** Years with photos, newest first, by capture date falling back to upload date */
+export async function fetchPhotoYears(): Promise<number[]> {
   if (!cachedYears) {
     cachedYears = loadYears().catch((error) => {
       cachedYears = null;
@@ -128,6 +627,7 @@ async function loadYears(): Promise<number[]> {
   const { data, error } = await supabase
     .from("photos")
     .select("captured_at, uploaded_at")
+    .is("deleted_at", null)
     .order("captured_at", { ascending: false, nullsFirst: false })
     .limit(5000);
 
@@ -156,10 +656,10 @@ export async function fetchPhotoDetail(photoId: string): Promise<PhotoDetail | n
     .from("photos")
     .select(
       `*,
-      photo_rendition(variant_name, url, width, height, file_size, checksum),
+      photo_rendition(variant_name, format, url, width, height, file_size, checksum),
       photo_exif(*),
       photo_histogram(*),
-      photo_tag(tag_id, tags(id, name, slug, description, color))
+      photo_tag(tag_id, tags(id, parent_id, name, slug, description, color))
     `,
     )
     .eq("id", photoId)
@@ -192,6 +692,7 @@ export async function fetchPhotoDetail(photoId: string): Promise<PhotoDetail | n
   return {
     ...(row as Photo),
     renditions: row.photo_rendition ?? [],
+    variants: groupRenditionVariants(row.photo_rendition ?? []),
     exif: row.photo_exif,
     histogram: row.photo_histogram,
     tags,
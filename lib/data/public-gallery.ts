@@ -0,0 +1,488 @@
+import { SMART_ALBUM_SORT } from "@/lib/data/albums";
+import {
+  countMatchingPhotos,
+  decodePhotoListCursor,
+  fetchAllTags,
+  fetchPhotoDetail,
+  fetchPhotoList,
+  groupRenditionVariants,
+  type PhotoListCursor,
+  type PhotoListItem,
+  type PhotoListSortBy,
+  type PhotoSearchFilters,
+  type PhotoWithRenditionsRow,
+} from "@/lib/data/photos";
+import { parseSmartAlbumRules, type SmartAlbumRules } from "@/lib/smart-album-rules";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type { Album, Photo, PhotoExif, PhotoRenditionVariant } from "@/types/photos";
+import type {
+  PublicAlbum,
+  PublicAlbumDetail,
+  PublicExif,
+  PublicPage,
+  PublicPhoto,
+  PublicPhotoDetail,
+  PublicTag,
+} from "@/types/public-gallery";
+
+type SupabaseClient = ReturnType<typeof createSupabaseServiceRoleClient>;
+
+/** A photo is public when it is published, shared publicly and switched visible */
+const PUBLIC_PHOTO_FILTERS = {
+  visibility: "visible",
+  status: "published",
+  audience: "public",
+} as const satisfies PhotoSearchFilters;
+
+/**
+ * EXIF fields the public API returns. Everything else stays private, above
+ * all the raw `exif_tags`, which can hold GPS coordinates, serial numbers
+ * and owner names.
+ */
+export const PUBLIC_EXIF_FIELDS = [
+  "camera_make",
+  "camera_model",
+  "camera",
+  "lens_model",
+  "focal_length_mm",
+  "aperture",
+  "shutter_s",
+  "iso",
+  "exposure_compensation_ev",
+] as const satisfies ReadonlyArray<keyof PhotoExif & keyof PublicExif>;
+
+/** PUBLIC_PHOTO_FILTERS for queries embedding `photos!inner`; add a `deleted_at` check */
+const PUBLIC_PHOTO_MATCH = {
+  "photos.status": PUBLIC_PHOTO_FILTERS.status,
+  "photos.visibility": PUBLIC_PHOTO_FILTERS.audience,
+  "photos.is_visible": true,
+};
+
+const PHOTO_COLUMNS =
+  "*, photo_rendition(variant_name, format, url, width, height, file_size, checksum)";
+
+const ALBUM_PAGE_SIZE = 20;
+
+/** Manual albums page by position; smart albums like the photo list */
+export type PublicAlbumCursor = { position: number } | PhotoListCursor;
+
+interface PublicPhotoQuery {
+  /** Path-style tag slug; includes photos tagged with its descendants */
+  tagSlug?: string;
+  sortBy?: PhotoListSortBy;
+  cursor?: PhotoListCursor;
+}
+
+/** A page of public photos; null when `tagSlug` names no tag */
+export async function fetchPublicPhotos({
+  tagSlug,
+  sortBy,
+  cursor,
+}: PublicPhotoQuery): Promise<PublicPage<PublicPhoto> | null> {
+  let tagId: string | undefined;
+
+  if (tagSlug) {
+    const supabase = createSupabaseServiceRoleClient();
+    const { data, error } = await supabase
+      .from("tags")
+      .select("id")
+      .eq("slug", tagSlug)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return null;
+    }
+
+    tagId = data.id as string;
+  }
+
+  const page = await fetchPhotoList({ ...PUBLIC_PHOTO_FILTERS, tagId, sortBy, cursor });
+
+  return { items: await toPublicPhotos(page.items), nextCursor: page.nextCursor };
+}
+
+/** The photo when it is public, with its tags */
+export async function fetchPublicPhoto(photoId: string): Promise<PublicPhotoDetail | null> {
+  const photo = await fetchPhotoDetail(photoId);
+
+  if (!photo || !isPublicPhoto(photo)) {
+    return null;
+  }
+
+  return {
+    ...toPublicPhoto(photo, photo.variants, photo.exif),
+    tags: photo.tags
+      .filter((tag): tag is typeof tag & { slug: string } => Boolean(tag.slug))
+      .map((tag) => ({ slug: tag.slug, name: tag.name }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * Tags with public photos in their subtree, alphabetical. Tags used only on
+ * private photos are left out, so their names are not published.
+ */
+export async function fetchPublicTags(): Promise<PublicTag[]> {
+  const supabase = createSupabaseServiceRoleClient();
+  const [tags, counts] = await Promise.all([fetchAllTags(), fetchPublicTagCounts(supabase)]);
+
+  const byId = new Map(tags.map((tag) => [tag.id, tag]));
+  const listed = new Set<string>();
+
+  for (const tagId of counts.keys()) {
+    // Ancestors are listed too, so the tree stays connected
+    let tag = byId.get(tagId);
+    while (tag && !listed.has(tag.id)) {
+      listed.add(tag.id);
+      tag = tag.parent_id ? byId.get(tag.parent_id) : undefined;
+    }
+  }
+
+  return tags
+    .filter((tag): tag is typeof tag & { slug: string } => listed.has(tag.id) && Boolean(tag.slug))
+    .map((tag) => ({
+      slug: tag.slug,
+      name: tag.name,
+      parent_slug: (tag.parent_id && byId.get(tag.parent_id)?.slug) || null,
+      description: tag.description,
+      color: tag.color,
+      photo_count: counts.get(tag.id) ?? 0,
+    }));
+}
+
+/** Visible albums in page order, including ones without public photos yet */
+export async function fetchPublicAlbums(): Promise<PublicAlbum[]> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("albums")
+    .select("*")
+    .eq("is_visible", true)
+    .order("position", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return Promise.all(((data as Album[] | null) ?? []).map((album) => toPublicAlbum(supabase, album)));
+}
+
+/** fetchPublicAlbum outcome; the error carries the status the route should answer with */
+export type PublicAlbumResult =
+  | { ok: true; album: PublicAlbumDetail }
+  | { ok: false; status: 400 | 404; error: string };
+
+/** A visible album with a page of its public photos, in album order */
+export async function fetchPublicAlbum(
+  slug: string,
+  cursor?: PublicAlbumCursor,
+): Promise<PublicAlbumResult> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("albums")
+    .select("*")
+    .eq("slug", slug)
+    .eq("is_visible", true)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return { ok: false, status: 404, error: "Album not found" };
+  }
+
+  const album = data as Album;
+  if (cursor && !matchesAlbumCursor(album, cursor)) {
+    return { ok: false, status: 400, error: "Invalid cursor" };
+  }
+
+  const [summary, page] = await Promise.all([
+    toPublicAlbum(supabase, album),
+    fetchAlbumPhotoPage(supabase, album, cursor),
+  ]);
+
+  return {
+    ok: true,
+    album: {
+      ...summary,
+      photos: { items: await toPublicPhotos(page.items), nextCursor: page.nextCursor },
+    },
+  };
+}
+
+/** Parses an album page cursor; null when it is malformed */
+export function decodePublicAlbumCursor(value: string): PublicAlbumCursor | null {
+  const photoListCursor = decodePhotoListCursor(value);
+  if (photoListCursor) {
+    return photoListCursor;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (Array.isArray(parsed) && parsed[0] === "position" && Number.isInteger(parsed[1])) {
+      return { position: parsed[1] as number };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A well-formed cursor can still be of the wrong kind: manual albums take
+ * position cursors, smart albums photo list cursors in SMART_ALBUM_SORT
+ */
+function matchesAlbumCursor(album: Album, cursor: PublicAlbumCursor): boolean {
+  if ("position" in cursor) {
+    return !album.rules;
+  }
+
+  return Boolean(album.rules) && cursor.sortBy === SMART_ALBUM_SORT;
+}
+
+function encodePositionCursor(position: number): string {
+  return Buffer.from(JSON.stringify(["position", position])).toString("base64url");
+}
+
+function isPublicPhoto(photo: Photo): boolean {
+  return (
+    photo.status === PUBLIC_PHOTO_FILTERS.status &&
+    photo.visibility === PUBLIC_PHOTO_FILTERS.audience &&
+    photo.is_visible &&
+    !photo.deleted_at
+  );
+}
+
+/**
+ * Public photos are always published and visible, so smart album rules
+ * asking for anything else match none of them.
+ */
+function toPublicFilters(rules: SmartAlbumRules): PhotoSearchFilters | null {
+  if (
+    (rules.status && rules.status !== PUBLIC_PHOTO_FILTERS.status) ||
+    (rules.visibility && rules.visibility !== PUBLIC_PHOTO_FILTERS.visibility)
+  ) {
+    return null;
+  }
+  return { ...rules, ...PUBLIC_PHOTO_FILTERS };
+}
+
+async function toPublicAlbum(supabase: SupabaseClient, album: Album): Promise<PublicAlbum> {
+  const [photoCount, firstPage, cover] = await Promise.all([
+    countAlbumPhotos(supabase, album),
+    fetchAlbumPhotoPage(supabase, album, undefined, 1),
+    album.cover_photo_id ? fetchPublicPhoto(album.cover_photo_id) : null,
+  ]);
+  const [fallback] = cover ? [] : await toPublicPhotos(firstPage.items);
+
+  return {
+    slug: album.slug,
+    title: album.title,
+    description: album.description,
+    cover: cover ?? fallback ?? null,
+    photo_count: photoCount,
+    updated_at: album.updated_at,
+  };
+}
+
+async function countAlbumPhotos(supabase: SupabaseClient, album: Album): Promise<number> {
+  if (album.rules) {
+    const filters = toPublicFilters(parseSmartAlbumRules(album.rules));
+    return filters ? countMatchingPhotos(filters) : 0;
+  }
+
+  const { count, error } = await supabase
+    .from("album_photo")
+    .select("photo_id, photos!inner(id)", { count: "exact", head: true })
+    .eq("album_id", album.id)
+    .match(PUBLIC_PHOTO_MATCH)
+    .is("photos.deleted_at", null);
+
+  if (error) {
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+async function fetchAlbumPhotoPage(
+  supabase: SupabaseClient,
+  album: Album,
+  cursor: PublicAlbumCursor | undefined,
+  limit = ALBUM_PAGE_SIZE,
+): Promise<{ items: PhotoListItem[]; nextCursor: string | null }> {
+  if (album.rules) {
+    if (cursor && "position" in cursor) {
+      throw new Error("Cursor does not match the album");
+    }
+
+    const filters = toPublicFilters(parseSmartAlbumRules(album.rules));
+    if (!filters) {
+      return { items: [], nextCursor: null };
+    }
+
+    const page = await fetchPhotoList({ ...filters, sortBy: SMART_ALBUM_SORT, cursor });
+    return { items: page.items.slice(0, limit), nextCursor: page.nextCursor };
+  }
+
+  if (cursor && !("position" in cursor)) {
+    throw new Error("Cursor does not match the album");
+  }
+
+  let query = supabase
+    .from("album_photo")
+    .select(`position, photos!inner(${PHOTO_COLUMNS})`)
+    .eq("album_id", album.id)
+    .match(PUBLIC_PHOTO_MATCH)
+    .is("photos.deleted_at", null);
+
+  if (cursor) {
+    query = query.gt("position", cursor.position);
+  }
+
+  // One extra row tells whether another page follows
+  const { data, error } = await query
+    .order("position", { ascending: true })
+    .limit(limit + 1)
+    .overrideTypes<Array<{ position: number; photos: PhotoWithRenditionsRow }>, { merge: false }>();
+
+  if (error) {
+    throw error;
+  }
+
+  const rows = data ?? [];
+  const page = rows.slice(0, limit);
+  const last = page.at(-1);
+
+  return {
+    items: page.map(({ photos: { photo_rendition: renditions, ...photo } }) => ({
+      ...photo,
+      renditions: renditions ?? [],
+      variants: groupRenditionVariants(renditions ?? []),
+    })),
+    nextCursor: rows.length > limit && last ? encodePositionCursor(last.position) : null,
+  };
+}
+
+/** Public photos per tag; read in batches to get past the API row limit */
+async function fetchPublicTagCounts(supabase: SupabaseClient): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  const batchSize = 1000;
+
+  for (let from = 0; ; from += batchSize) {
+    const { data, error } = await supabase
+      .from("photo_tag")
+      .select("tag_id, photos!inner(id)")
+      .match(PUBLIC_PHOTO_MATCH)
+      .is("photos.deleted_at", null)
+      .order("tag_id", { ascending: true })
+      .order("photo_id", { ascending: true })
+      .range(from, from + batchSize - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const row of data ?? []) {
+      counts.set(row.tag_id as string, (counts.get(row.tag_id as string) ?? 0) + 1);
+    }
+
+    if ((data ?? []).length < batchSize) {
+      return counts;
+    }
+  }
+}
+
+/** Adds the public EXIF fields, read in one query for the whole page */
+async function toPublicPhotos(photos: PhotoListItem[]): Promise<PublicPhoto[]> {
+  if (photos.length === 0) {
+    return [];
+  }
+
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("photo_exif")
+    .select(["photo_id", ...PUBLIC_EXIF_FIELDS].join(", "))
+    .in(
+      "photo_id",
+      photos.map((photo) => photo.id),
+    )
+    .overrideTypes<PhotoExif[], { merge: false }>();
+
+  if (error) {
+    throw error;
+  }
+
+  const exifByPhoto = new Map((data ?? []).map((exif) => [exif.photo_id, exif]));
+
+  return photos.map((photo) => toPublicPhoto(photo, photo.variants, exifByPhoto.get(photo.id) ?? null));
+}
+
+function toPublicPhoto(
+  photo: Photo,
+  variants: PhotoRenditionVariant[],
+  exif: PhotoExif | null,
+): PublicPhoto {
+  return {
+    id: photo.id,
+    title: photo.title,
+    description: photo.description,
+    captured_at: photo.captured_at,
+    width: photo.width,
+    height: photo.height,
+    aspect_ratio: photo.aspect_ratio,
+    orientation: photo.orientation,
+    location: {
+      place_name: photo.place_name,
+      city: photo.city,
+      region: photo.region,
+      country: photo.country,
+    },
+    dominant_color: photo.dominant_color,
+    blurhash: photo.blurhash,
+    variants: variants.map((variant) => ({
+      name: variant.variant_name,
+      width: variant.width,
+      height: variant.height,
+      formats: Object.fromEntries(
+        Object.entries(variant.formats).map(([format, rendition]) => [
+          format,
+          {
+            url: rendition.url,
+            width: rendition.width,
+            height: rendition.height,
+            file_size: rendition.file_size,
+          },
+        ]),
+      ),
+    })),
+    exif: exif ? toPublicExif(exif) : null,
+  };
+}
+
+/** numeric columns can arrive as strings */
+function toPublicExif(exif: PhotoExif): PublicExif {
+  const toNumber = (value: string | number | null) => {
+    if (value === null) return null;
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  };
+
+  return {
+    camera_make: exif.camera_make,
+    camera_model: exif.camera_model,
+    camera: exif.camera,
+    lens_model: exif.lens_model,
+    focal_length_mm: toNumber(exif.focal_length_mm),
+    aperture: toNumber(exif.aperture),
+    shutter_s: toNumber(exif.shutter_s),
+    iso: exif.iso,
+    exposure_compensation_ev: toNumber(exif.exposure_compensation_ev),
+  };
+}
@@ -0,0 +1,47 @@
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type { RenditionProfile } from "@/types/photos";
+
+/**
+ * Profiles the app itself depends on: admin views show the JPEG thumb, list
+ * and detail renditions, and the detail JPEG is each photo's canonical URL.
+ * They can be tuned but not renamed or removed.
+ */
+export const CORE_RENDITION_PROFILE_NAMES = ["thumb", "list", "detail"] as const;
+
+export function isCoreRenditionProfile(name: string): boolean {
+  return (CORE_RENDITION_PROFILE_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * All rendition profiles, smallest first. Read on every processing run so
+ * settings changes apply to the next upload without a deploy.
+ */
+export async function fetchRenditionProfiles(): Promise<RenditionProfile[]> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("rendition_profile")
+    .select("*")
+    .order("max_edge", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as RenditionProfile[] | null) ?? [];
+}
+
+export async function fetchRenditionProfile(profileId: string): Promise<RenditionProfile | null> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("rendition_profile")
+    .select("*")
+    .eq("id", profileId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as RenditionProfile | null) ?? null;
+}
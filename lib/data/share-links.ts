@@ -0,0 +1,134 @@
+import { getR2KeyFromUrl } from "@/lib/r2";
+import { signShareToken, verifyShareToken } from "@/lib/share-tokens";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type { PhotoRendition, PhotoShareLink, PhotoStatus, PhotoVisibility } from "@/types/photos";
+
+/** Public route resolving share tokens, see `app/share/[token]/route.ts` */
+export const SHARE_LINK_BASE_PATH = "/share";
+
+export interface ShareLinkListItem extends PhotoShareLink {
+  /** Path of the public link, `/share/<token>`; prefix with the site origin to share it */
+  path: string;
+  photo: {
+    id: string;
+    title: string | null;
+    status: PhotoStatus;
+    visibility: PhotoVisibility;
+    thumbnailUrl: string | null;
+  };
+}
+
+type SharedPhotoRow = {
+  id: string;
+  title: string | null;
+  status: PhotoStatus;
+  visibility: PhotoVisibility;
+  deleted_at: string | null;
+  photo_rendition: Pick<PhotoRendition, "variant_name" | "format" | "url">[] | null;
+};
+
+const SHARED_PHOTO_FIELDS =
+  "photos!inner(id, title, status, visibility, deleted_at, photo_rendition(variant_name, format, url))";
+
+/**
+ * Share links that are neither revoked nor expired, newest first, optionally
+ * for one photo. Links of photos in the trash are left out.
+ */
+export async function fetchActiveShareLinks(photoId?: string): Promise<ShareLinkListItem[]> {
+  const supabase = createSupabaseServiceRoleClient();
+
+  let query = supabase
+    .from("photo_share_link")
+    .select(`*, ${SHARED_PHOTO_FIELDS}`)
+    .is("revoked_at", null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .is("photos.deleted_at", null)
+    .order("created_at", { ascending: false });
+
+  if (photoId) {
+    query = query.eq("photo_id", photoId);
+  }
+
+  const { data, error } = await query.overrideTypes<
+    Array<PhotoShareLink & { photos: SharedPhotoRow }>,
+    { merge: false }
+  >();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map(({ photos: photo, ...link }) => ({
+    ...link,
+    path: toShareLinkPath(link),
+    photo: {
+      id: photo.id,
+      title: photo.title,
+      status: photo.status,
+      visibility: photo.visibility,
+      thumbnailUrl: pickRendition(photo, ["thumb", "list"])?.url ?? null,
+    },
+  }));
+}
+
+export function toShareLinkPath(link: Pick<PhotoShareLink, "id" | "expires_at">) {
+  return `${SHARE_LINK_BASE_PATH}/${signShareToken(link)}`;
+}
+
+/**
+ * R2 key of the detail rendition a share token points to, or null when the
+ * token is invalid, revoked or expired, or the photo is no longer shared:
+ * private, unpublished or in the trash.
+ */
+export async function resolveShareLink(
+  token: string,
+): Promise<{ key: string; expiresAt: Date | null } | null> {
+  const claims = verifyShareToken(token);
+  if (!claims || isPast(claims.expiresAt)) {
+    return null;
+  }
+
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("photo_share_link")
+    .select(`id, expires_at, revoked_at, ${SHARED_PHOTO_FIELDS}`)
+    .eq("id", claims.linkId)
+    .maybeSingle<Pick<PhotoShareLink, "id" | "expires_at" | "revoked_at"> & { photos: SharedPhotoRow }>();
+
+  if (error) {
+    throw error;
+  }
+
+  const link = data;
+  const expiresAt = link?.expires_at ? new Date(link.expires_at) : null;
+  if (!link || link.revoked_at || isPast(expiresAt)) {
+    return null;
+  }
+
+  const photo = link.photos;
+  if (photo.deleted_at || photo.status !== "published" || photo.visibility === "private") {
+    return null;
+  }
+
+  const rendition = pickRendition(photo, ["detail", "list"]);
+  const key = rendition ? getR2KeyFromUrl(rendition.url) : null;
+
+  return key ? { key, expiresAt } : null;
+}
+
+/** First variant by preference, JPEG first since it displays everywhere */
+function pickRendition(photo: SharedPhotoRow, variants: string[]) {
+  const renditions = photo.photo_rendition ?? [];
+  for (const variant of variants) {
+    const matches = renditions.filter((rendition) => rendition.variant_name === variant);
+    const match = matches.find((rendition) => rendition.format === "jpeg") ?? matches[0];
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
+
+function isPast(date: Date | null) {
+  return date !== null && date.getTime() <= Date.now();
+}
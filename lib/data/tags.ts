@@ -0,0 +1,53 @@
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import { collectTagSubtreeIds } from "@/lib/tags";
+import type { Tag } from "@/types/photos";
+
+export interface TagWithUsage extends Tag {
+  /** Photos carrying the tag, including photos in the trash */
+  photo_count: number;
+}
+
+/** Every tag with its usage count, alphabetical */
+export async function fetchTagsWithUsage(): Promise<TagWithUsage[]> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("tags")
+    .select("*, photo_tag(count)")
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return (data ?? []).map(({ photo_tag: usage, ...tag }) => ({
+    ...(tag as Tag),
+    photo_count: (usage as Array<{ count: number }> | null)?.[0]?.count ?? 0,
+  }));
+}
+
+export async function fetchTag(tagId: string): Promise<Tag | null> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("tags")
+    .select("*")
+    .eq("id", tagId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as Tag | null) ?? null;
+}
+
+/** The tag and its descendants, so filtering by Travel includes Travel > Japan */
+export async function fetchTagSubtreeIds(tagId: string): Promise<string[]> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase.from("tags").select("id, parent_id");
+
+  if (error) {
+    throw error;
+  }
+
+  return collectTagSubtreeIds((data as Array<Pick<Tag, "id" | "parent_id">> | null) ?? [], tagId);
+}
@@ -14,6 +14,10 @@ const envSchema = z.object({
     .transform((value) => value.replace(/\/+$/, "")),
   // Optional: enables reverse geocoding for photo locations
   MAPBOX_ACCESS_TOKEN: z.string().optional(),
+  // Optional: bearer token accepted by cron-triggered endpoints (e.g. the job worker)
+  CRON_SECRET: z.string().min(16).optional(),
+  // Optional: signs photo share links; links cannot be created without it
+  SHARE_LINK_SECRET: z.string().min(32).optional(),
 });
 
 const globalForEnv = globalThis as typeof globalThis & {
@@ -34,6 +38,8 @@ export function getEnv(): Env {
       R2_BUCKET: process.env.R2_BUCKET,
       R2_PUBLIC_BASE_URL: process.env.R2_PUBLIC_BASE_URL,
       MAPBOX_ACCESS_TOKEN: process.env.MAPBOX_ACCESS_TOKEN,
+      CRON_SECRET: process.env.CRON_SECRET,
+      SHARE_LINK_SECRET: process.env.SHARE_LINK_SECRET,
     });
 
     if (!envResult.success) {
@@ -0,0 +1,276 @@
+/**
+ * Durable photo job queue backed by the `photo_job` table.
+ *
+ * Jobs are enqueued by upload/reprocess/geocode entry points and claimed by
+ * the worker (see lib/jobs/worker.ts). Claiming goes through the
+ * `claim_photo_job` Postgres function so concurrent workers never pick up the
+ * same row (FOR UPDATE SKIP LOCKED). A job whose lease expires while
+ * "running" (e.g. the function was killed by the platform timeout) becomes
+ * claimable again and counts as a new attempt.
+ */
+
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type {
+  PhotoJob,
+  PhotoJobPayloads,
+  PhotoJobPhase,
+  PhotoJobStatus,
+  PhotoJobStatusResponse,
+  PhotoJobType,
+} from "@/types/jobs";
+
+/** Default attempts before a job is marked as failed */
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/** How long a claimed job stays locked before another worker may reclaim it */
+export const JOB_LEASE_SECONDS = 300;
+
+/** Backoff between attempts of a failed job */
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 15 * 60_000;
+
+const ACTIVE_STATUSES: PhotoJobStatus[] = ["queued", "running"];
+
+/** Rows per insert when enqueueing in bulk */
+const ENQUEUE_BATCH_SIZE = 500;
+
+/** Progress (percent) reached when a phase starts */
+const PHASE_PROGRESS: Record<PhotoJobPhase, number> = {
+  read: 5,
+  metadata: 15,
+  db: 25,
+  renditions: 35,
+  upload: 60,
+  derived: 75,
+  finalize: 90,
+};
+
+export interface EnqueuePhotoJobOptions {
+  /** User ID for audit fields; also used as the actor when the job runs */
+  userId: string;
+  /** Photo the job belongs to (may not exist yet for uploads) */
+  photoId?: string | null;
+  maxAttempts?: number;
+  /** Return an existing queued/running job of the same type for the photo instead of adding another */
+  dedupe?: boolean;
+}
+
+export async function enqueuePhotoJob<T extends PhotoJobType>(
+  type: T,
+  payload: PhotoJobPayloads[T],
+  { userId, photoId = null, maxAttempts = DEFAULT_MAX_ATTEMPTS, dedupe = false }: EnqueuePhotoJobOptions,
+): Promise<PhotoJob<T>> {
+  const supabase = createSupabaseServiceRoleClient();
+
+  if (dedupe && photoId) {
+    const { data: existing, error: existingError } = await supabase
+      .from("photo_job")
+      .select("*")
+      .eq("type", type)
+      .eq("photo_id", photoId)
+      .in("status", ACTIVE_STATUSES)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (existingError) {
+      throw existingError;
+    }
+
+    if (existing) {
+      return existing as PhotoJob<T>;
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("photo_job")
+    .insert({
+      type,
+      status: "queued",
+      photo_id: photoId,
+      payload,
+      max_attempts: maxAttempts,
+      created_by: userId,
+      updated_by: userId,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to enqueue ${type} job: ${error.message}`);
+  }
+
+  return data as PhotoJob<T>;
+}
+
+/**
+ * Enqueues one job per payload without deduplication, e.g. for backfills that
+ * touch every photo. Returns the number of jobs added.
+ */
+export async function enqueuePhotoJobs<T extends PhotoJobType>(
+  type: T,
+  items: Array<{ payload: PhotoJobPayloads[T]; photoId?: string | null }>,
+  { userId, maxAttempts = DEFAULT_MAX_ATTEMPTS }: Omit<EnqueuePhotoJobOptions, "photoId" | "dedupe">,
+): Promise<number> {
+  const supabase = createSupabaseServiceRoleClient();
+
+  for (let start = 0; start < items.length; start += ENQUEUE_BATCH_SIZE) {
+    const rows = items.slice(start, start + ENQUEUE_BATCH_SIZE).map((item) => ({
+      type,
+      status: "queued",
+      photo_id: item.photoId ?? null,
+      payload: item.payload,
+      max_attempts: maxAttempts,
+      created_by: userId,
+      updated_by: userId,
+    }));
+
+    const { error } = await supabase.from("photo_job").insert(rows);
+
+    if (error) {
+      throw new Error(`Failed to enqueue ${type} jobs: ${error.message}`);
+    }
+  }
+
+  return items.length;
+}
+
+/**
+ * Atomically claims the next runnable job, or returns null when the queue is empty.
+ */
+export async function claimNextPhotoJob(workerId: string): Promise<PhotoJob | null> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase.rpc("claim_photo_job", {
+    p_worker_id: workerId,
+    p_lease_seconds: JOB_LEASE_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim job: ${error.message}`);
+  }
+
+  const rows = (Array.isArray(data) ? data : data ? [data] : []) as PhotoJob[];
+  return rows[0] ?? null;
+}
+
+export async function markPhotoJobSucceeded(
+  job: PhotoJob,
+  result: Record<string, unknown> | null,
+): Promise<void> {
+  const supabase = createSupabaseServiceRoleClient();
+  const now = new Date().toISOString();
+
+  const { error } = await supabase
+    .from("photo_job")
+    .update({
+      status: "succeeded",
+      progress: 100,
+      result,
+      last_error: null,
+      locked_by: null,
+      locked_until: null,
+      finished_at: now,
+      updated_at: now,
+    })
+    .eq("id", job.id);
+
+  if (error) {
+    throw new Error(`Failed to mark job ${job.id} as succeeded: ${error.message}`);
+  }
+}
+
+/**
+ * Records a failed attempt. The job is re-queued with backoff until it runs
+ * out of attempts, after which it is marked as failed for good.
+ */
+export async function markPhotoJobFailed(job: PhotoJob, failure: unknown): Promise<PhotoJobStatus> {
+  const supabase = createSupabaseServiceRoleClient();
+  const now = new Date();
+  const message = failure instanceof Error ? failure.message : String(failure);
+  const exhausted = job.attempts >= job.max_attempts;
+  const status: PhotoJobStatus = exhausted ? "failed" : "queued";
+
+  const { error } = await supabase
+    .from("photo_job")
+    .update({
+      status,
+      last_error: message,
+      locked_by: null,
+      locked_until: null,
+      run_after: exhausted
+        ? job.run_after
+        : new Date(now.getTime() + computeRetryDelay(job.attempts)).toISOString(),
+      finished_at: exhausted ? now.toISOString() : null,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", job.id);
+
+  if (error) {
+    throw new Error(`Failed to mark job ${job.id} as failed: ${error.message}`);
+  }
+
+  return status;
+}
+
+/**
+ * Records the pipeline phase a running job has reached.
+ * Progress is best-effort: failures are logged and never fail the job.
+ */
+export async function reportPhotoJobProgress(jobId: string, phase: PhotoJobPhase): Promise<void> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { error } = await supabase
+    .from("photo_job")
+    .update({
+      phase,
+      progress: PHASE_PROGRESS[phase],
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
+
+  if (error) {
+    console.warn("[photo-job-queue] Failed to report progress", {
+      jobId,
+      phase,
+      error: error.message,
+    });
+  }
+}
+
+export async function fetchPhotoJob(jobId: string): Promise<PhotoJob | null> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("photo_job")
+    .select("*")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as PhotoJob | null) ?? null;
+}
+
+export function toPhotoJobStatusResponse(job: PhotoJob): PhotoJobStatusResponse {
+  const willRetry = job.status === "queued" && job.attempts > 0 && job.attempts < job.max_attempts;
+
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    phase: job.phase,
+    percent: job.status === "succeeded" ? 100 : job.progress ?? 0,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    photoId: job.photo_id,
+    result: job.result,
+    error: job.last_error ? { message: job.last_error, willRetry } : null,
+    startedAt: job.started_at,
+    finishedAt: job.finished_at,
+    updatedAt: job.updated_at,
+  };
+}
+
+function computeRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+}
@@ -0,0 +1,265 @@
+/**
+ * Photo Job Worker
+ *
+ * Claims jobs from the `photo_job` queue and runs the matching handler:
+ * - process_upload  -> processPhotoFromR2 (Phase 1-7 pipeline)
+ * - reprocess_photo -> reprocessPhoto
+ * - geocode_photo   -> runGeocodeTask
+ * - generate_renditions -> generateMissingRenditions (rendition profile backfill)
+ *
+ * The worker is kicked right after enqueueing (via `after()`, so the HTTP
+ * response is not held open) and by the cron-capable /api/admin/jobs/run
+ * endpoint, which picks up anything left behind by timed-out or crashed runs.
+ *
+ * ⚠️ EXECUTION TIME:
+ * A run stops claiming new jobs once its time budget is spent so the function
+ * can return before the platform limit. A job that is still running when the
+ * function gets killed keeps its lease until JOB_LEASE_SECONDS elapse and is
+ * then retried by the next run.
+ *
+ * ⚠️ MEMORY:
+ * Peak resident memory is sampled while each job runs and stored on the job
+ * result as `peakMemoryMb` (and logged for failed jobs). Jobs run one at a
+ * time per worker, so the figure is attributable to that job.
+ */
+
+import { randomUUID } from "node:crypto";
+
+import { after } from "next/server";
+
+import {
+  claimNextPhotoJob,
+  markPhotoJobFailed,
+  markPhotoJobSucceeded,
+  reportPhotoJobProgress,
+} from "@/lib/jobs/queue";
+import { deleteR2Objects } from "@/lib/r2";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import { runGeocodeTask } from "@/lib/tasks/geocode-photo";
+import {
+  generateMissingRenditions,
+  processPhotoFromR2,
+  reprocessPhoto,
+} from "@/lib/uploads/photo-processor";
+import type { PhotoJob, PhotoJobPhase, PhotoJobStatus } from "@/types/jobs";
+
+/** Maximum jobs a single run will claim */
+const DEFAULT_MAX_JOBS = 10;
+
+/** Stop claiming new jobs after this long (Hobby functions are capped at 60s) */
+const DEFAULT_TIME_BUDGET_MS = 40_000;
+
+/** How often resident memory is sampled while a job runs */
+const MEMORY_SAMPLE_INTERVAL_MS = 100;
+
+export interface WorkerRunOptions {
+  maxJobs?: number;
+  timeBudgetMs?: number;
+}
+
+export interface WorkerRunSummary {
+  workerId: string;
+  processed: Array<{ jobId: string; type: PhotoJob["type"]; status: PhotoJobStatus }>;
+}
+
+/**
+ * Drains the queue until it is empty, `maxJobs` have run, or the time budget is spent.
+ */
+export async function runPhotoJobWorker({
+  maxJobs = DEFAULT_MAX_JOBS,
+  timeBudgetMs = DEFAULT_TIME_BUDGET_MS,
+}: WorkerRunOptions = {}): Promise<WorkerRunSummary> {
+  const workerId = `worker-${randomUUID().slice(0, 8)}`;
+  const startedAt = Date.now();
+  const summary: WorkerRunSummary = { workerId, processed: [] };
+
+  while (summary.processed.length < maxJobs && Date.now() - startedAt < timeBudgetMs) {
+    const job = await claimNextPhotoJob(workerId);
+    if (!job) {
+      break;
+    }
+
+    // Reclaimed after its lease expired on the final attempt - give up instead of running again
+    if (job.attempts > job.max_attempts) {
+      const status = await markPhotoJobFailed(
+        job,
+        job.last_error ?? "Job timed out on its final attempt",
+      );
+      await discardFailedUpload(job);
+      summary.processed.push({ jobId: job.id, type: job.type, status });
+      continue;
+    }
+
+    console.log("[photo-job-worker] Running job", {
+      workerId,
+      jobId: job.id,
+      type: job.type,
+      attempt: job.attempts,
+      maxAttempts: job.max_attempts,
+    });
+
+    const memory = trackPeakMemory();
+
+    try {
+      const result = await runJob(job);
+      const peakMemoryMb = memory.stop();
+      console.log("[photo-job-worker] Job succeeded", {
+        workerId,
+        jobId: job.id,
+        type: job.type,
+        peakMemoryMb,
+      });
+      await markPhotoJobSucceeded(job, { ...result, peakMemoryMb });
+      summary.processed.push({ jobId: job.id, type: job.type, status: "succeeded" });
+    } catch (error) {
+      console.error("[photo-job-worker] Job failed", {
+        workerId,
+        jobId: job.id,
+        type: job.type,
+        attempt: job.attempts,
+        peakMemoryMb: memory.stop(),
+        errorType: error instanceof Error ? error.name : "Unknown",
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      const status = await markPhotoJobFailed(job, error);
+      if (status === "failed") {
+        await discardFailedUpload(job);
+      }
+      summary.processed.push({ jobId: job.id, type: job.type, status });
+    }
+  }
+
+  console.log("[photo-job-worker] Run finished", {
+    workerId,
+    jobs: summary.processed.length,
+    elapsedMs: Date.now() - startedAt,
+  });
+
+  return summary;
+}
+
+/**
+ * Schedules a worker run after the current response has been sent.
+ * Safe to call from route handlers and server actions.
+ */
+export function kickPhotoJobWorker(options?: WorkerRunOptions): void {
+  after(async () => {
+    try {
+      await runPhotoJobWorker(options);
+    } catch (error) {
+      console.error("[photo-job-worker] Run crashed", {
+        errorType: error instanceof Error ? error.name : "Unknown",
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}
+
+async function runJob(job: PhotoJob): Promise<Record<string, unknown> | null> {
+  const userId = job.created_by;
+  if (!userId) {
+    throw new Error("Job has no actor to attribute changes to");
+  }
+
+  const onPhase = (phase: PhotoJobPhase) => reportPhotoJobProgress(job.id, phase);
+
+  switch (job.type) {
+    case "process_upload": {
+      const payload = (job as PhotoJob<"process_upload">).payload;
+
+      // A previous attempt may have created the photo before dying; creating it
+      // again would collide on the reserved ID, so finish it via reprocess instead.
+      if (job.attempts > 1 && (await photoExists(payload.photoId))) {
+        const result = await reprocessPhoto({ photoId: payload.photoId, userId, onPhase });
+        return { ...result };
+      }
+
+      const result = await processPhotoFromR2({ ...payload, userId, onPhase });
+      return { ...result };
+    }
+    case "reprocess_photo": {
+      const payload = (job as PhotoJob<"reprocess_photo">).payload;
+      const result = await reprocessPhoto({ photoId: payload.photoId, userId, onPhase });
+      return { ...result };
+    }
+    case "geocode_photo": {
+      const payload = (job as PhotoJob<"geocode_photo">).payload;
+      await runGeocodeTask({ ...payload, userId });
+      return null;
+    }
+    case "generate_renditions": {
+      const payload = (job as PhotoJob<"generate_renditions">).payload;
+      const result = await generateMissingRenditions({ ...payload, userId, onPhase });
+      return { ...result };
+    }
+    default:
+      throw new Error(`Unknown job type: ${String((job as PhotoJob).type)}`);
+  }
+}
+
+/**
+ * Samples resident set size until stopped. sharp/libvips allocate outside the
+ * JS heap, so RSS rather than heapUsed is what hits the platform memory limit.
+ */
+function trackPeakMemory() {
+  let peak = process.memoryUsage.rss();
+  const timer = setInterval(() => {
+    peak = Math.max(peak, process.memoryUsage.rss());
+  }, MEMORY_SAMPLE_INTERVAL_MS);
+  timer.unref();
+
+  return {
+    /** Stops sampling and returns the peak in MB */
+    stop(): number {
+      clearInterval(timer);
+      peak = Math.max(peak, process.memoryUsage.rss());
+      return Math.round(peak / 1024 / 1024);
+    },
+  };
+}
+
+/**
+ * Deletes the original of an upload job that ran out of attempts. Failed
+ * attempts keep it so the next one can read it again. A photo created by an
+ * earlier attempt still refers to it, so it is kept then. Failures are left
+ * to the storage sweeper, which removes prefixes no job or asset refers to.
+ */
+async function discardFailedUpload(job: PhotoJob): Promise<void> {
+  if (job.type !== "process_upload") {
+    return;
+  }
+
+  const { photoId, originalKey } = (job as PhotoJob<"process_upload">).payload;
+
+  try {
+    if (await photoExists(photoId)) {
+      return;
+    }
+
+    const failed = await deleteR2Objects([originalKey]);
+    if (failed.length > 0) {
+      throw new Error(`R2 refused to delete ${originalKey}`);
+    }
+  } catch (error) {
+    console.warn("[photo-job-worker] Failed to discard upload original", {
+      jobId: job.id,
+      originalKey,
+      error,
+    });
+  }
+}
+
+async function photoExists(photoId: string): Promise<boolean> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { data, error } = await supabase
+    .from("photos")
+    .select("id")
+    .eq("id", photoId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return Boolean(data);
+}
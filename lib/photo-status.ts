@@ -0,0 +1,10 @@
+import type { PhotoStatus } from "@/types/photos";
+
+/**
+ * Whether the pipeline has finished with a photo. A "scheduled" photo is
+ * fully processed and only waits for its publish time; only processed photos
+ * can be archived.
+ */
+export function isProcessedStatus(status: string): status is Exclude<PhotoStatus, "draft"> {
+  return status === "published" || status === "scheduled" || status === "archived";
+}
@@ -0,0 +1,54 @@
+import { createHash } from "node:crypto";
+import { NextResponse } from "next/server";
+
+/**
+ * Shared caching for the public gallery API: a short browser cache, a longer
+ * CDN cache refreshed in the background, and an ETag so unchanged responses
+ * come back as 304 without a body.
+ *
+ * Hiding, trashing or archiving a photo is not purged from the CDN, so the
+ * photo can stay listed for up to 6 minutes: 5 fresh, then at most 1 stale
+ * while the CDN revalidates. Keep the stale window short for that reason.
+ */
+const PUBLIC_CACHE_CONTROL = "public, max-age=60, s-maxage=300, stale-while-revalidate=60";
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "If-None-Match",
+  "Access-Control-Expose-Headers": "ETag",
+};
+
+/** JSON response with caching headers; 304 when the client's ETag matches */
+export function publicJson(request: Request, body: unknown) {
+  const json = JSON.stringify(body);
+  const etag = `W/"${createHash("sha1").update(json).digest("base64url")}"`;
+  const headers = {
+    ...CORS_HEADERS,
+    "Cache-Control": PUBLIC_CACHE_CONTROL,
+    ETag: etag,
+  };
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  if (ifNoneMatch?.split(",").some((value) => value.trim() === etag || value.trim() === "*")) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(json, {
+    status: 200,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
+
+/** Errors are not cached, so a fixed problem shows up at once */
+export function publicError(message: string, status: number) {
+  return NextResponse.json(
+    { error: message },
+    { status, headers: { ...CORS_HEADERS, "Cache-Control": "no-store" } },
+  );
+}
+
+/** Answers CORS preflight requests */
+export function publicOptions() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
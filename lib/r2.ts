@@ -1,4 +1,13 @@
-import { S3Client } from "@aws-sdk/client-s3";
+import {
+  AbortMultipartUploadCommand,
+  CopyObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListMultipartUploadsCommand,
+  ListObjectsV2Command,
+  S3Client,
+} from "@aws-sdk/client-s3";
 
 import { getEnv } from "@/lib/env";
 
@@ -27,3 +36,174 @@ export function getR2Bucket() {
 export function getR2PublicBaseUrl() {
   return env.R2_PUBLIC_BASE_URL.replace(/\/+$/, "");
 }
+
+/** R2 DeleteObjects accepts at most 1000 keys per request */
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Maps a public object URL back to its R2 key, or null for URLs outside the bucket.
+ */
+export function getR2KeyFromUrl(url: string) {
+  const prefix = `${getR2PublicBaseUrl()}/`;
+  return url.startsWith(prefix) ? decodeURIComponent(url.slice(prefix.length)) : null;
+}
+
+/**
+ * Deletes objects in batches. Missing keys are not an error.
+ * Returns the keys R2 reported as failed.
+ */
+export async function deleteR2Objects(keys: string[]) {
+  const client = getR2Client();
+  const failed: string[] = [];
+
+  for (let start = 0; start < keys.length; start += DELETE_BATCH_SIZE) {
+    const batch = keys.slice(start, start + DELETE_BATCH_SIZE);
+    const response = await client.send(
+      new DeleteObjectsCommand({
+        Bucket: getR2Bucket(),
+        Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+      }),
+    );
+
+    for (const error of response.Errors ?? []) {
+      if (error.Key) failed.push(error.Key);
+    }
+  }
+
+  return failed;
+}
+
+/**
+ * Opens an object for streaming to a response, or returns null when the key
+ * does not exist.
+ */
+export async function getR2Object(key: string) {
+  try {
+    const response = await getR2Client().send(
+      new GetObjectCommand({ Bucket: getR2Bucket(), Key: key }),
+    );
+
+    if (!response.Body) {
+      return null;
+    }
+
+    return {
+      body: response.Body.transformToWebStream(),
+      contentType: response.ContentType ?? null,
+      contentLength: response.ContentLength ?? null,
+    };
+  } catch (error) {
+    if (error instanceof Error && error.name === "NoSuchKey") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** Storage classes R2 offers; Infrequent Access is cheaper to keep but billed per read */
+export type R2StorageClass = "STANDARD" | "STANDARD_IA";
+
+export async function getR2StorageClass(key: string): Promise<R2StorageClass> {
+  const response = await getR2Client().send(
+    new HeadObjectCommand({ Bucket: getR2Bucket(), Key: key }),
+  );
+  return response.StorageClass === "STANDARD_IA" ? "STANDARD_IA" : "STANDARD";
+}
+
+/**
+ * Rewrites an object onto another storage class by copying it onto itself.
+ * Key, content and metadata stay the same, so URLs keep working.
+ */
+export async function setR2StorageClass(key: string, storageClass: R2StorageClass) {
+  const bucket = getR2Bucket();
+  await getR2Client().send(
+    new CopyObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      CopySource: `${bucket}/${key.split("/").map(encodeURIComponent).join("/")}`,
+      StorageClass: storageClass,
+      MetadataDirective: "COPY",
+    }),
+  );
+}
+
+export interface R2ObjectSummary {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+/**
+ * Lists every object under `prefix`, following continuation tokens.
+ */
+export async function listR2Objects(prefix: string) {
+  const client = getR2Client();
+  const objects: R2ObjectSummary[] = [];
+  let continuationToken: string | undefined;
+
+  do {
+    const response = await client.send(
+      new ListObjectsV2Command({
+        Bucket: getR2Bucket(),
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }),
+    );
+
+    for (const object of response.Contents ?? []) {
+      if (!object.Key) continue;
+      objects.push({
+        key: object.Key,
+        size: object.Size ?? 0,
+        lastModified: object.LastModified ?? new Date(0),
+      });
+    }
+
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  return objects;
+}
+
+/**
+ * Aborts incomplete multipart uploads under `prefix` that were started before
+ * `initiatedBefore`. Their parts are billed as storage until aborted.
+ * Returns the number of uploads aborted.
+ */
+export async function abortStaleMultipartUploads(prefix: string, initiatedBefore: Date) {
+  const client = getR2Client();
+  const bucket = getR2Bucket();
+  let aborted = 0;
+  let keyMarker: string | undefined;
+  let uploadIdMarker: string | undefined;
+
+  do {
+    const response = await client.send(
+      new ListMultipartUploadsCommand({
+        Bucket: bucket,
+        Prefix: prefix,
+        KeyMarker: keyMarker,
+        UploadIdMarker: uploadIdMarker,
+      }),
+    );
+
+    for (const upload of response.Uploads ?? []) {
+      if (!upload.Key || !upload.UploadId || !upload.Initiated) continue;
+      if (upload.Initiated >= initiatedBefore) continue;
+
+      await client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: bucket,
+          Key: upload.Key,
+          UploadId: upload.UploadId,
+        }),
+      );
+      aborted += 1;
+    }
+
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    uploadIdMarker = response.IsTruncated ? response.NextUploadIdMarker : undefined;
+  } while (keyMarker);
+
+  return aborted;
+}
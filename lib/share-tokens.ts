@@ -0,0 +1,63 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+import { getEnv } from "@/lib/env";
+import type { PhotoShareLink } from "@/types/photos";
+
+const UUID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+export interface ShareTokenClaims {
+  linkId: string;
+  /** Null for a link that never expires */
+  expiresAt: Date | null;
+}
+
+/**
+ * Token of a share link: `<payload>.<signature>`, both base64url. The payload
+ * is `<link id>.<expiry in unix seconds, 0 for never>` and the signature its
+ * HMAC-SHA256 under SHARE_LINK_SECRET. Signing the same link always gives the
+ * same token, so tokens are not stored. Changing the secret breaks every link.
+ */
+export function signShareToken(link: Pick<PhotoShareLink, "id" | "expires_at">): string {
+  const expiresAt = link.expires_at ? Math.floor(Date.parse(link.expires_at) / 1000) : 0;
+  const payload = Buffer.from(`${link.id}.${expiresAt}`).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Returns the claims of a token with a valid signature, or null. Expiry is
+ * not checked here.
+ */
+export function verifyShareToken(token: string): ShareTokenClaims | null {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const [linkId, expiresAt] = Buffer.from(payload, "base64url").toString().split(".");
+  const seconds = Number(expiresAt);
+  if (!linkId || !UUID_PATTERN.test(linkId) || !Number.isInteger(seconds) || seconds < 0) {
+    return null;
+  }
+
+  return { linkId, expiresAt: seconds > 0 ? new Date(seconds * 1000) : null };
+}
+
+/** Whether share links can be created and resolved */
+export function isShareLinkSigningConfigured() {
+  return Boolean(getEnv().SHARE_LINK_SECRET);
+}
+
+function sign(payload: string) {
+  const secret = getEnv().SHARE_LINK_SECRET;
+  if (!secret) {
+    throw new Error("Share links are not configured. Set SHARE_LINK_SECRET.");
+  }
+
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
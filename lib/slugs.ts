@@ -0,0 +1,18 @@
+/** A URL slug, or one segment of a path-style tag slug */
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * URL slug for a title or name: "Café & Bars" becomes "cafe-bars". Returns
+ * an empty string when nothing usable is left, e.g. for names in non-Latin
+ * scripts, so callers can ask for a slug instead.
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 64)
+    .replace(/-+$/, "");
+}
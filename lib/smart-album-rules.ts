@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+const text = z.string().trim().min(1).max(200);
+
+const rangeSchema = z
+  .object({
+    min: z.number().finite().optional(),
+    max: z.number().finite().optional(),
+  })
+  .strict()
+  .refine((range) => range.min != null || range.max != null, {
+    message: "Set a minimum or a maximum",
+  })
+  .refine((range) => range.min == null || range.max == null || range.min <= range.max, {
+    message: "The minimum must not be above the maximum",
+  });
+
+/**
+ * Saved rules of a smart album: the gallery filters (`PhotoSearchFilters`)
+ * as JSON. A photo belongs to the album when it matches every rule, so no
+ * rules match every photo outside the trash and the archive.
+ */
+export const smartAlbumRulesSchema = z
+  .object({
+    tagId: z.string().uuid().optional(),
+    camera: text.optional(),
+    lens: text.optional(),
+    make: text.optional(),
+    country: text.optional(),
+    year: z.number().int().min(1800).max(2200).optional(),
+    orientation: z.enum(["landscape", "portrait", "square"]).optional(),
+    status: z.enum(["draft", "scheduled", "published", "archived"]).optional(),
+    visibility: z.enum(["visible", "hidden"]).optional(),
+    query: text.optional(),
+    focalLength: rangeSchema.optional(),
+    aperture: rangeSchema.optional(),
+    iso: rangeSchema.optional(),
+    shutter: rangeSchema.optional(),
+  })
+  .strict();
+
+export type SmartAlbumRules = z.infer<typeof smartAlbumRulesSchema>;
+
+export type SmartAlbumRuleKey = keyof SmartAlbumRules;
+
+/** Reads rules saved on an album; throws when they no longer validate */
+export function parseSmartAlbumRules(value: unknown): SmartAlbumRules {
+  return smartAlbumRulesSchema.parse(value);
+}
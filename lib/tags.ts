@@ -0,0 +1,56 @@
+import type { Tag } from "@/types/photos";
+
+export const TAG_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+type TagTreeNode = Pick<Tag, "id" | "name" | "parent_id">;
+
+/** A tag's own part of its path-style slug: "kyoto" for "travel/japan/kyoto" */
+export function tagSlugSegment(slug: string | null): string {
+  return slug?.split("/").at(-1) ?? "";
+}
+
+/**
+ * Tags in tree order: each tag followed by its children, siblings by name.
+ * Tags whose parent is missing are treated as roots.
+ */
+export function sortTagTree<T extends TagTreeNode>(tags: T[]): Array<{ tag: T; depth: number }> {
+  const ids = new Set(tags.map((tag) => tag.id));
+  const children = new Map<string | null, T[]>();
+
+  for (const tag of tags) {
+    const parentId = tag.parent_id && ids.has(tag.parent_id) ? tag.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), tag]);
+  }
+
+  const sorted: Array<{ tag: T; depth: number }> = [];
+  const visit = (parentId: string | null, depth: number) => {
+    const siblings = (children.get(parentId) ?? []).sort((a, b) => a.name.localeCompare(b.name));
+    for (const tag of siblings) {
+      sorted.push({ tag, depth });
+      visit(tag.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+
+  return sorted;
+}
+
+/** IDs of a tag and every tag nested under it */
+export function collectTagSubtreeIds(
+  tags: Array<Pick<Tag, "id" | "parent_id">>,
+  rootId: string,
+): string[] {
+  const subtree = [rootId];
+  const seen = new Set(subtree);
+
+  for (let i = 0; i < subtree.length; i++) {
+    for (const tag of tags) {
+      if (tag.parent_id === subtree[i] && !seen.has(tag.id)) {
+        seen.add(tag.id);
+        subtree.push(tag.id);
+      }
+    }
+  }
+
+  return subtree;
+}
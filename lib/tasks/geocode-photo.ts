@@ -1,9 +1,10 @@
 /**
  * Background task for reverse geocoding photo locations.
- * Runs asynchronously without blocking the upload flow.
+ * Runs as a `geocode_photo` job on the photo job queue without blocking the upload flow.
  */
 
 import { withRetry } from '@/lib/async-retry';
+import { enqueuePhotoJob } from '@/lib/jobs/queue';
 import { reverseGeocode, type GeocodedLocation } from '@/lib/mapbox/geocoder';
 import { createSupabaseServiceRoleClient } from '@/lib/supabase/server';
 
@@ -69,9 +70,9 @@ function buildUpdatePayload(
 
 /**
  * Executes the geocoding workflow for a single photo.
- * This is the internal implementation that may throw errors.
+ * Called by the job worker; throws so the queue can record the failure and retry.
  */
-async function executeGeocodeTask(params: GeocodeTaskParams): Promise<void> {
+export async function runGeocodeTask(params: GeocodeTaskParams): Promise<void> {
   const { photoId, latitude, longitude, userId } = params;
 
   // Get Mapbox token - skip if not configured
@@ -161,8 +162,8 @@ async function executeGeocodeTask(params: GeocodeTaskParams): Promise<void> {
 }
 
 /**
- * Enqueues a background geocoding task for a photo.
- * This is fire-and-forget - errors are logged but never thrown.
+ * Enqueues a background geocoding job for a photo.
+ * Enqueue failures are logged but never thrown, so callers can keep going.
  *
  * @param photoId - The photo ID to geocode
  * @param latitude - Latitude coordinate from EXIF
@@ -171,28 +172,29 @@ async function executeGeocodeTask(params: GeocodeTaskParams): Promise<void> {
  *
  * @example
  * ```ts
- * // Fire and forget - don't await
- * enqueueGeocodeTask(photoId, 37.7749, -122.4194, userId);
+ * await enqueueGeocodeTask(photoId, 37.7749, -122.4194, userId);
  * ```
  */
-export function enqueueGeocodeTask(
+export async function enqueueGeocodeTask(
   photoId: string,
   latitude: number,
   longitude: number,
   userId: string,
-): void {
-  // Fire-and-forget: start the task but don't await it
-  void executeGeocodeTask({ photoId, latitude, longitude, userId }).catch(
-    (error) => {
-      console.error('[geocode-photo] Task failed', {
-        photoId,
-        latitude,
-        longitude,
-        timestamp: new Date().toISOString(),
-        errorType: error instanceof Error ? error.name : 'Unknown',
-        errorMessage: error instanceof Error ? error.message : String(error),
-      });
-    },
-  );
+): Promise<void> {
+  try {
+    await enqueuePhotoJob(
+      'geocode_photo',
+      { photoId, latitude, longitude },
+      { userId, photoId, maxAttempts: 3 },
+    );
+  } catch (error) {
+    console.error('[geocode-photo] Failed to enqueue task', {
+      photoId,
+      latitude,
+      longitude,
+      timestamp: new Date().toISOString(),
+      errorType: error instanceof Error ? error.name : 'Unknown',
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+  }
 }
-
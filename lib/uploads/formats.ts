@@ -0,0 +1,165 @@
+/**
+ * Supported original formats for photo uploads.
+ *
+ * Single source of truth for the presign route, the processing pipeline and
+ * the upload manager. Safe to import from client components.
+ */
+
+export interface PhotoFormat {
+  /** Canonical MIME type used for the presigned upload and the R2 object */
+  mimeType: string;
+  /** Other MIME types browsers report for the same format */
+  aliases: string[];
+  /** Lowercase file extensions, including the dot; the first one is used for new keys */
+  extensions: string[];
+  /** Human-readable name for messages */
+  label: string;
+  /** Format names reported by `sharp().metadata()` */
+  sharpFormats: string[];
+  /** Whether browsers can render the original for local previews */
+  previewable: boolean;
+  /** Camera RAW; renditions are driven by the embedded JPEG preview */
+  raw: boolean;
+}
+
+export const SUPPORTED_PHOTO_FORMATS: PhotoFormat[] = [
+  {
+    mimeType: "image/jpeg",
+    aliases: ["image/jpg", "image/pjpeg"],
+    extensions: [".jpg", ".jpeg"],
+    label: "JPEG",
+    sharpFormats: ["jpeg"],
+    previewable: true,
+    raw: false,
+  },
+  {
+    mimeType: "image/png",
+    aliases: [],
+    extensions: [".png"],
+    label: "PNG",
+    sharpFormats: ["png"],
+    previewable: true,
+    raw: false,
+  },
+  {
+    mimeType: "image/webp",
+    aliases: [],
+    extensions: [".webp"],
+    label: "WebP",
+    sharpFormats: ["webp"],
+    previewable: true,
+    raw: false,
+  },
+  {
+    mimeType: "image/heic",
+    aliases: ["image/heic-sequence"],
+    extensions: [".heic"],
+    label: "HEIC",
+    sharpFormats: ["heif"],
+    previewable: false,
+    raw: false,
+  },
+  {
+    mimeType: "image/heif",
+    aliases: ["image/heif-sequence"],
+    extensions: [".heif", ".hif"],
+    label: "HEIF",
+    sharpFormats: ["heif"],
+    previewable: false,
+    raw: false,
+  },
+  {
+    mimeType: "image/x-adobe-dng",
+    aliases: ["image/dng"],
+    extensions: [".dng"],
+    label: "DNG",
+    sharpFormats: [],
+    previewable: false,
+    raw: true,
+  },
+  {
+    mimeType: "image/x-canon-cr3",
+    aliases: [],
+    extensions: [".cr3"],
+    label: "CR3",
+    sharpFormats: [],
+    previewable: false,
+    raw: true,
+  },
+  {
+    mimeType: "image/x-nikon-nef",
+    aliases: [],
+    extensions: [".nef"],
+    label: "NEF",
+    sharpFormats: [],
+    previewable: false,
+    raw: true,
+  },
+  {
+    mimeType: "image/x-sony-arw",
+    aliases: [],
+    extensions: [".arw"],
+    label: "ARW",
+    sharpFormats: [],
+    previewable: false,
+    raw: true,
+  },
+];
+
+/**
+ * Maximum original file size in bytes (200MB). Originals are streamed and
+ * decoded once into a downscaled working image, so memory no longer scales
+ * with file size (see lib/uploads/source-image.ts).
+ */
+export const MAX_PHOTO_FILE_SIZE = 200 * 1024 * 1024;
+
+/** e.g. "JPEG, PNG, WebP, HEIC, HEIF, DNG, CR3, NEF, ARW" */
+export const SUPPORTED_FORMATS_LABEL = SUPPORTED_PHOTO_FORMATS.map((format) => format.label).join(", ");
+
+/**
+ * Value for `<input type="file" accept>`. Extensions are included because
+ * browsers report an empty MIME type for RAW files, and most non-Safari
+ * browsers do the same for HEIC.
+ */
+export const PHOTO_INPUT_ACCEPT = [
+  ...SUPPORTED_PHOTO_FORMATS.map((format) => format.mimeType),
+  ...SUPPORTED_PHOTO_FORMATS.flatMap((format) => format.extensions),
+].join(",");
+
+/**
+ * Resolves a supported format from a MIME type, falling back to the file
+ * extension when the MIME type is missing or generic.
+ */
+export function findPhotoFormat(
+  contentType: string | null | undefined,
+  filename?: string | null,
+): PhotoFormat | null {
+  const normalizedType = contentType?.trim().toLowerCase();
+  if (normalizedType) {
+    const byType = SUPPORTED_PHOTO_FORMATS.find(
+      (format) => format.mimeType === normalizedType || format.aliases.includes(normalizedType),
+    );
+    if (byType) {
+      return byType;
+    }
+  }
+
+  const extension = getExtension(filename);
+  if (extension && (!normalizedType || normalizedType === "application/octet-stream")) {
+    return SUPPORTED_PHOTO_FORMATS.find((format) => format.extensions.includes(extension)) ?? null;
+  }
+
+  return null;
+}
+
+export function findPhotoFormatBySharpFormat(sharpFormat: string | null | undefined): PhotoFormat | null {
+  if (!sharpFormat) return null;
+  return SUPPORTED_PHOTO_FORMATS.find((format) => format.sharpFormats.includes(sharpFormat)) ?? null;
+}
+
+function getExtension(filename: string | null | undefined): string | null {
+  if (!filename) return null;
+  const dotIndex = filename.lastIndexOf(".");
+  if (dotIndex <= 0 || dotIndex === filename.length - 1) return null;
+  return filename.slice(dotIndex).toLowerCase();
+}
@@ -0,0 +1,396 @@
+/**
+ * Resumable multipart upload of one original to R2 (browser only).
+ *
+ * Flow:
+ * 1. Resume the file's stored session if R2 still knows it, otherwise
+ *    create one (POST /api/admin/photos/upload/multipart/create)
+ * 2. Presign URLs for the missing parts (POST .../multipart/parts) and PUT
+ *    them MULTIPART_CONCURRENCY at a time; each accepted part is recorded in
+ *    IndexedDB, and failed parts are retried with a freshly signed URL
+ * 3. Assemble the object (POST .../multipart/complete) and forget the session
+ *
+ * A failed or aborted upload keeps its session, so adding the same file
+ * again (even after a page reload) only sends the parts R2 does not have yet.
+ * Aborting through `signal` is how the upload queue pauses; cancelling
+ * additionally calls cancelUpload to discard what R2 already holds.
+ */
+import { MULTIPART_CONCURRENCY, MULTIPART_STALE_AFTER_MS } from "@/lib/uploads/multipart";
+import {
+  deleteUploadSession,
+  getFileFingerprint,
+  getUploadSession,
+  saveUploadSession,
+  type UploadSession,
+} from "@/lib/uploads/upload-session-store";
+import type { MultipartCreateResponse, MultipartPartsResponse } from "@/types/uploads";
+
+const MULTIPART_API = "/api/admin/photos/upload/multipart";
+
+/** Attempts per part before the whole upload fails */
+const PART_MAX_ATTEMPTS = 3;
+const PART_RETRY_BASE_DELAY_MS = 1000;
+
+export interface MultipartUploadOptions {
+  /** Canonical content type resolved for the file */
+  contentType: string;
+  /** Overall progress, 0-100 */
+  onProgress: (progress: number) => void;
+  /** Stops the upload and every in-flight part request */
+  signal?: AbortSignal;
+  /** Called once the R2 upload is known, before any part is sent */
+  onStarted?: (upload: StartedUpload) => void;
+}
+
+/** Identifies an upload in R2 for cleanup after a cancel */
+export interface StartedUpload {
+  key: string;
+  /** Only set for multipart uploads */
+  uploadId?: string;
+}
+
+export interface MultipartUploadResult {
+  storageId: string;
+  key: string;
+  contentType: string;
+  /** Whether an earlier session was picked up */
+  resumed: boolean;
+}
+
+export async function uploadFileInParts(
+  file: File,
+  { contentType, onProgress, signal, onStarted }: MultipartUploadOptions
+): Promise<MultipartUploadResult> {
+  const fingerprint = getFileFingerprint(file);
+  const resumedSession = await resumeUploadSession(fingerprint);
+  const session = resumedSession ?? (await startUploadSession(file, fingerprint, contentType));
+  onStarted?.({ key: session.key, uploadId: session.uploadId });
+  signal?.throwIfAborted();
+
+  await uploadMissingParts(file, session, onProgress, signal);
+  signal?.throwIfAborted();
+
+  await postJson(`${MULTIPART_API}/complete`, {
+    key: session.key,
+    uploadId: session.uploadId,
+    parts: session.parts,
+  });
+
+  await deleteUploadSession(fingerprint);
+
+  return {
+    storageId: session.storageId,
+    key: session.key,
+    contentType: session.contentType,
+    resumed: resumedSession !== null,
+  };
+}
+
+/**
+ * Aborts a stored session's upload in R2 and forgets it.
+ */
+export async function discardUploadSession(session: UploadSession): Promise<void> {
+  await postJson(`${MULTIPART_API}/abort`, {
+    key: session.key,
+    uploadId: session.uploadId,
+  });
+  await deleteUploadSession(session.fingerprint);
+}
+
+/**
+ * Discards whatever R2 holds for a cancelled upload: the multipart upload and
+ * its parts, or an object a single PUT stored just before it was aborted.
+ * Also forgets the file's session.
+ */
+export async function cancelUpload(file: File, upload: StartedUpload): Promise<void> {
+  await postJson("/api/admin/photos/upload/cancel", upload);
+  await deleteUploadSession(getFileFingerprint(file));
+}
+
+/**
+ * Whether a stored session may still exist in R2; older ones are aborted by
+ * the cleanup endpoint at any time.
+ */
+export function isUploadSessionResumable(session: UploadSession): boolean {
+  return Date.now() - session.createdAt < MULTIPART_STALE_AFTER_MS;
+}
+
+async function startUploadSession(
+  file: File,
+  fingerprint: string,
+  contentType: string
+): Promise<UploadSession> {
+  const created = await postJson<MultipartCreateResponse>(`${MULTIPART_API}/create`, {
+    filename: file.name,
+    contentType,
+    fileSize: file.size,
+  });
+
+  const now = Date.now();
+  const session: UploadSession = {
+    fingerprint,
+    filename: file.name,
+    fileSize: file.size,
+    uploadId: created.uploadId,
+    storageId: created.storageId,
+    key: created.key,
+    contentType: created.contentType,
+    partSize: created.partSize,
+    partCount: created.partCount,
+    parts: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveUploadSession(session);
+  return session;
+}
+
+/**
+ * Loads the stored session for a file and reconciles it with the parts R2
+ * actually holds. Returns null when there is nothing to resume.
+ */
+async function resumeUploadSession(fingerprint: string): Promise<UploadSession | null> {
+  const stored = await getUploadSession(fingerprint);
+  if (!stored) {
+    return null;
+  }
+
+  if (!isUploadSessionResumable(stored)) {
+    await deleteUploadSession(fingerprint);
+    return null;
+  }
+
+  const response = await fetch(`${MULTIPART_API}/parts`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      key: stored.key,
+      uploadId: stored.uploadId,
+      partNumbers: [],
+      includeUploaded: true,
+    }),
+  });
+
+  // Aborted (discarded elsewhere or cleaned up as stale): start over
+  if (response.status === 404) {
+    await deleteUploadSession(fingerprint);
+    return null;
+  }
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error ?? "Failed to resume upload");
+  }
+
+  const data: MultipartPartsResponse = await response.json();
+  const session: UploadSession = {
+    ...stored,
+    // R2 is authoritative; a part whose size does not match is sent again
+    parts: (data.uploaded ?? [])
+      .filter((part) => part.size === getPartSize(stored, part.partNumber))
+      .map(({ partNumber, etag }) => ({ partNumber, etag })),
+    updatedAt: Date.now(),
+  };
+
+  await saveUploadSession(session);
+  return session;
+}
+
+async function uploadMissingParts(
+  file: File,
+  session: UploadSession,
+  onProgress: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const done = new Set(session.parts.map((part) => part.partNumber));
+  const pending: number[] = [];
+  for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+    if (!done.has(partNumber)) pending.push(partNumber);
+  }
+
+  let uploadedBytes = session.parts.reduce(
+    (total, part) => total + getPartSize(session, part.partNumber),
+    0
+  );
+  const inFlightBytes = new Map<number, number>();
+  const reportProgress = () => {
+    let loaded = uploadedBytes;
+    inFlightBytes.forEach((bytes) => {
+      loaded += bytes;
+    });
+    onProgress(Math.min(100, Math.round((loaded / file.size) * 100)));
+  };
+
+  reportProgress();
+
+  if (pending.length === 0) {
+    return;
+  }
+
+  const urls = await signPartUrls(session, pending);
+  const requests = new Set<XMLHttpRequest>();
+  let failed = false;
+  const stop = () => {
+    failed = true;
+    requests.forEach((request) => request.abort());
+  };
+  signal?.addEventListener("abort", stop);
+
+  const runWorker = async () => {
+    while (!failed && pending.length > 0) {
+      const partNumber = pending.shift()!;
+      const start = (partNumber - 1) * session.partSize;
+      const blob = file.slice(start, start + getPartSize(session, partNumber));
+
+      const etag = await uploadPartWithRetry(
+        session,
+        partNumber,
+        blob,
+        urls.get(partNumber)!,
+        requests,
+        signal,
+        (loaded) => {
+          inFlightBytes.set(partNumber, loaded);
+          reportProgress();
+        }
+      );
+
+      inFlightBytes.delete(partNumber);
+      uploadedBytes += blob.size;
+      session.parts = [...session.parts, { partNumber, etag }];
+      session.updatedAt = Date.now();
+      await saveUploadSession(session);
+      reportProgress();
+    }
+  };
+
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(MULTIPART_CONCURRENCY, pending.length) }, runWorker)
+    );
+  } catch (error) {
+    // Stop the other workers; parts already accepted stay recorded for a resume
+    stop();
+    throw error;
+  } finally {
+    signal?.removeEventListener("abort", stop);
+  }
+}
+
+async function uploadPartWithRetry(
+  session: UploadSession,
+  partNumber: number,
+  blob: Blob,
+  initialUrl: string,
+  requests: Set<XMLHttpRequest>,
+  signal: AbortSignal | undefined,
+  onProgress: (loaded: number) => void
+): Promise<string> {
+  let url = initialUrl;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      signal?.throwIfAborted();
+      return await putPart(blob, url, requests, onProgress);
+    } catch (error) {
+      if (signal?.aborted || attempt >= PART_MAX_ATTEMPTS) {
+        throw error;
+      }
+
+      onProgress(0);
+      await new Promise((resolve) =>
+        setTimeout(resolve, PART_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1))
+      );
+
+      // The URL may have expired while the connection was down
+      const refreshed = await signPartUrls(session, [partNumber]);
+      url = refreshed.get(partNumber) ?? url;
+    }
+  }
+}
+
+/**
+ * PUTs one part and resolves with the ETag R2 returned for it.
+ */
+function putPart(
+  blob: Blob,
+  url: string,
+  requests: Set<XMLHttpRequest>,
+  onProgress: (loaded: number) => void
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    requests.add(xhr);
+    xhr.open("PUT", url);
+
+    xhr.upload.onprogress = (event) => {
+      onProgress(event.loaded);
+    };
+
+    xhr.onload = () => {
+      requests.delete(xhr);
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(`R2 part upload failed with status ${xhr.status}`));
+        return;
+      }
+
+      const etag = xhr.getResponseHeader("ETag");
+      if (!etag) {
+        reject(new Error("R2 did not expose the part ETag; check the bucket CORS ExposeHeaders"));
+        return;
+      }
+
+      resolve(etag);
+    };
+
+    xhr.onerror = () => {
+      requests.delete(xhr);
+      reject(new Error("Network error during R2 upload"));
+    };
+
+    xhr.onabort = () => {
+      requests.delete(xhr);
+      reject(new Error("Upload aborted"));
+    };
+
+    xhr.send(blob);
+  });
+}
+
+async function signPartUrls(
+  session: UploadSession,
+  partNumbers: number[]
+): Promise<Map<number, string>> {
+  const data = await postJson<MultipartPartsResponse>(`${MULTIPART_API}/parts`, {
+    key: session.key,
+    uploadId: session.uploadId,
+    partNumbers,
+  });
+
+  return new Map(data.urls.map((entry) => [entry.partNumber, entry.url]));
+}
+
+/** Every part is `partSize` bytes except the last, which holds the remainder */
+function getPartSize(
+  session: Pick<UploadSession, "fileSize" | "partSize" | "partCount">,
+  partNumber: number
+): number {
+  return partNumber < session.partCount
+    ? session.partSize
+    : session.fileSize - session.partSize * (session.partCount - 1);
+}
+
+async function postJson<T = unknown>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error ?? `Request to ${url} failed with ${response.status}`);
+  }
+
+  return response.json() as Promise<T>;
+}
@@ -0,0 +1,23 @@
+/**
+ * Multipart upload settings shared by the upload endpoints and the browser.
+ * Client-safe: no server-only imports.
+ */
+
+/** Files at least this large upload in parts; smaller ones use a single PUT */
+export const MULTIPART_THRESHOLD = 16 * 1024 * 1024;
+
+/**
+ * Size of every part but the last. R2 requires parts of at least 5MB and,
+ * unlike S3, the same size for all parts except the last.
+ */
+export const MULTIPART_PART_SIZE = 8 * 1024 * 1024;
+
+/** Parts uploaded in parallel per file */
+export const MULTIPART_CONCURRENCY = 4;
+
+/** Incomplete uploads older than this are aborted by the cleanup endpoint */
+export const MULTIPART_STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+export function getMultipartPartCount(fileSize: number, partSize: number = MULTIPART_PART_SIZE) {
+  return Math.max(1, Math.ceil(fileSize / partSize));
+}
@@ -3,52 +3,73 @@
  *
  * ⚠️ KNOWN LIMITATIONS & BOTTLENECKS:
  *
- * 1. MEMORY USAGE (Risk: Medium)
+ * 1. MEMORY USAGE (Risk: Low)
  *    - Vercel Serverless: 1024MB (Hobby) / 3008MB (Pro)
- *    - Worst case for 50MB image: ~300-500MB memory
- *    - If OOM occurs: reduce MAX_FILE_SIZE or upgrade plan
+ *    - The original is streamed into sharp and decoded once into a downscaled
+ *      working image (see lib/uploads/source-image.ts); peak memory is the
+ *      compressed original plus the working image, ~250-350MB for a 200MB scan
+ *    - HEIC and RAW are read into one buffer first, then decoded; ~300MB for
+ *      a 200MB RAW
+ *    - Peak RSS is recorded on every job result (`peakMemoryMb`)
+ *    - If OOM occurs: reduce MAX_PHOTO_FILE_SIZE or the largest rendition profile
  *
  * 2. EXECUTION TIME (Risk: Low-Medium)
  *    - Vercel Serverless: 60s (Hobby) / 300s (Pro)
  *    - Typical processing: 15-30s for large images
- *    - If timeout: consider async processing with queue
+ *    - Runs inside the photo job worker (lib/jobs/worker.ts); a run killed by
+ *      the platform timeout is retried once its lease expires
  *
- * 3. R2 READ LATENCY (Risk: Low)
- *    - Reading 50MB file: 2-5s typically
+ * 3. R2 READ LATENCY (Risk: Low-Medium)
+ *    - Reading 50MB file: 2-5s typically, 200MB: 10-20s
  *    - Retry mechanism handles transient failures
  *
  * 4. SHARP PROCESSING (Risk: Low)
- *    - CPU-bound, 5-15s for renditions generation
+ *    - CPU-bound, 5-20s for renditions generation (JPEG + WebP + AVIF)
  *    - Serial processing to minimize peak memory
  *
  * Processing Flow:
- * Phase 1: Read original file from R2 (with retry)
+ * Phase 1: Stream original from R2 and decode the working image (with retry)
  * Phase 2: Extract metadata (EXIF, dimensions) - single pass
  * Phase 3: Write basic data to database (assets, photos, photo_exif)
- * Phase 4: Generate renditions serially (thumb -> list -> detail)
+ * Phase 4: Generate renditions serially from the working image, one per
+ *          rendition profile and format
  * Phase 5: Upload renditions to R2 (with retry)
- * Phase 6: Compute derived data (histogram, blurhash, dominant color)
+ * Phase 6: Compute derived data from the working image (histogram, blurhash,
+ *          dominant color)
  * Phase 7: Write derived data and update photo record
  */
 
 import { createHash, randomUUID } from "node:crypto";
 import path from "node:path";
+import type { Readable } from "node:stream";
 
 import {
-  DeleteObjectCommand,
   GetObjectCommand,
   PutObjectCommand,
 } from "@aws-sdk/client-s3";
 import { encode as encodeBlurhash } from "blurhash";
-import exifr from "exifr";
 import sharp from "sharp";
 
 import { withRetry } from "@/lib/async-retry";
 import { invalidatePhotoYearCache } from "@/lib/data/photos";
-import { getR2Bucket, getR2Client, getR2PublicBaseUrl } from "@/lib/r2";
+import { fetchRenditionProfiles } from "@/lib/data/rendition-profiles";
+import { deleteR2Objects, getR2Bucket, getR2Client, getR2PublicBaseUrl } from "@/lib/r2";
 import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import { isProcessedStatus } from "@/lib/photo-status";
 import { enqueueGeocodeTask } from "@/lib/tasks/geocode-photo";
-import type { Photo } from "@/types/photos";
+import {
+  findPhotoFormat,
+  findPhotoFormatBySharpFormat,
+  type PhotoFormat,
+  SUPPORTED_FORMATS_LABEL,
+} from "@/lib/uploads/formats";
+import {
+  type LoadedOriginal,
+  loadOriginal,
+  type WorkingImage,
+} from "@/lib/uploads/source-image";
+import type { PhotoJobPhase } from "@/types/jobs";
+import type { Photo, PhotoStatus, RenditionFormat, RenditionProfile } from "@/types/photos";
 
 // ============================================================================
 // Configuration
@@ -64,27 +85,56 @@ const R2_RETRY_OPTIONS = {
   maxDelayMs: 5000,
 };
 
-type RenditionConfig = {
-  name: "thumb" | "list" | "detail";
-  maxSize: number;
-  quality: number;
+type RenditionFormatConfig = {
+  format: RenditionFormat;
+  extension: string;
+  contentType: string;
+  encode: (image: sharp.Sharp, quality: number) => sharp.Sharp;
 };
 
-/** Rendition configurations - processed serially to minimize memory usage */
-const RENDITIONS: RenditionConfig[] = [
-  { name: "thumb", maxSize: 320, quality: 80 },
-  { name: "list", maxSize: 1024, quality: 88 },
-  { name: "detail", maxSize: 2048, quality: 92 },
-];
+/**
+ * Encoders for the formats a rendition profile can request. JPEG is the
+ * universal fallback and the input for histogram, dominant color and blurhash.
+ * AVIF reaches comparable visual quality at much lower settings, hence the
+ * offset; effort 2 keeps encoding within the worker's time budget (effort 4 is
+ * ~10x slower for a 2048px image with only marginally smaller output).
+ */
+const RENDITION_FORMATS: Record<RenditionFormat, RenditionFormatConfig> = {
+  jpeg: {
+    format: "jpeg",
+    extension: "jpg",
+    contentType: "image/jpeg",
+    encode: (image, quality) => image.jpeg({ quality, mozjpeg: true }),
+  },
+  webp: {
+    format: "webp",
+    extension: "webp",
+    contentType: "image/webp",
+    encode: (image, quality) => image.webp({ quality, effort: 4 }),
+  },
+  avif: {
+    format: "avif",
+    extension: "avif",
+    contentType: "image/avif",
+    encode: (image, quality) => image.avif({ quality: Math.max(30, quality - 35), effort: 2 }),
+  },
+};
+
+/** Background for "contain" letterboxing */
+const LETTERBOX_BACKGROUND = { r: 255, g: 255, b: 255, alpha: 1 };
 
 const CACHE_CONTROL = "public, max-age=31536000, immutable";
-const ACCEPTED_TYPES = new Set(["image/jpeg", "image/png", "image/webp"]);
+
+/** Longer EXIF arrays are lookup tables (tone curves etc.), not worth storing */
+const MAX_EXIF_ARRAY_LENGTH = 16;
 
 // ============================================================================
 // Types
 // ============================================================================
 
 export interface ProcessFromR2Context {
+  /** Photo ID to create; reserved by the job queue at enqueue time (generated when omitted) */
+  photoId?: string;
   /** Storage ID (UUID) used as the folder name in R2 */
   storageId: string;
   /** R2 object key for the original file */
@@ -95,6 +145,8 @@ export interface ProcessFromR2Context {
   contentType: string;
   /** User ID for audit fields */
   userId: string;
+  /** Called when each phase starts; used by the job worker to report progress */
+  onPhase?: (phase: PhotoJobPhase) => Promise<void>;
 }
 
 export interface ProcessedPhotoResult {
@@ -103,7 +155,9 @@ export interface ProcessedPhotoResult {
 }
 
 interface GeneratedRendition {
-  name: RenditionConfig["name"];
+  name: string;
+  format: RenditionFormat;
+  contentType: string;
   buffer: Buffer;
   width: number;
   height: number;
@@ -131,6 +185,8 @@ interface ExifData {
   colorSpace: string | null;
   bitDepth: number | null;
   description: string | null;
+  /** Every parsed tag, JSON-safe, for the `exif_tags` column */
+  tags: Record<string, unknown>;
 }
 
 interface HistogramResult {
@@ -150,16 +206,16 @@ interface HistogramResult {
  * Process a photo that has been uploaded directly to R2.
  * This is the main entry point called after client completes direct upload.
  *
- * ⚠️ MEMORY WARNING: This function loads the entire original file into memory.
- * For 50MB files, expect ~300-500MB peak memory usage during processing.
+ * The original is never deleted on failure: the job may be retried, and it
+ * is the only copy. The worker discards it once the job runs out of attempts.
  */
 export async function processPhotoFromR2(
   context: ProcessFromR2Context
 ): Promise<ProcessedPhotoResult> {
-  const { storageId, originalKey, originalFilename, contentType, userId } =
+  const { storageId, originalKey, originalFilename, contentType, userId, onPhase } =
     context;
   const publicBase = getR2PublicBaseUrl();
-  const photoId = randomUUID();
+  const photoId = context.photoId ?? randomUUID();
   const assetId = randomUUID();
   const now = new Date().toISOString();
 
@@ -170,67 +226,62 @@ export async function processPhotoFromR2(
   });
 
   // --------------------------------------------------------------------------
-  // Phase 1: Read original file from R2 (with retry)
-  // ⚠️ MEMORY: Loads entire file into memory
+  // Phase 1: Stream original from R2 and decode the working image (with retry)
   // --------------------------------------------------------------------------
-  console.log("[photo-processor] Phase 1: Reading original from R2");
+  console.log("[photo-processor] Phase 1: Streaming original from R2");
+  await onPhase?.("read");
 
-  const readResult = await withRetry(
-    () => readFileFromR2(originalKey),
-    {
-      ...R2_RETRY_OPTIONS,
-      operationName: "r2-read-original",
-      context: { storageId, originalKey },
-    }
-  );
+  // HEIC/HEIF may be decoded outside libvips and RAW files render from their
+  // embedded preview (see lib/uploads/source-image.ts)
+  const declaredFormat = findPhotoFormat(contentType, originalFilename);
+  const profiles = await fetchRenditionProfiles();
 
-  if (!readResult.success) {
+  const original = await readOriginal(originalKey, declaredFormat, profiles, {
+    operationName: "r2-read-original",
+    context: { storageId, originalKey },
+  });
+
+  if (!original) {
     throw new Error(
-      `Failed to read original file from R2 after ${MAX_RETRY_ATTEMPTS} attempts: ${readResult.error.message}`
+      declaredFormat?.raw
+        ? `No usable embedded preview found in ${declaredFormat.label} file.`
+        : "Unable to read image dimensions."
     );
   }
 
-  const originalBuffer = readResult.data;
-  const originalSize = originalBuffer.length;
+  const { working } = original;
 
   console.log("[photo-processor] Phase 1 complete", {
-    size: originalSize,
-    attempts: readResult.attempts,
+    size: original.size,
+    working: `${working.width}x${working.height}`,
   });
 
   // --------------------------------------------------------------------------
-  // Phase 2: Extract metadata (single pass through buffer)
+  // Phase 2: Extract metadata (read while streaming, no extra pass)
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Phase 2: Extracting metadata");
+  await onPhase?.("metadata");
 
-  const basePipeline = sharp(originalBuffer, { failOnError: false }).rotate();
-  const metadata = await basePipeline.metadata();
+  const format = declaredFormat ?? findPhotoFormatBySharpFormat(original.format);
 
-  if (!metadata.width || !metadata.height) {
-    await cleanupR2Object(originalKey);
-    throw new Error("Unable to read image dimensions.");
+  if (!format) {
+    throw new Error(`Unsupported file type. Allowed: ${SUPPORTED_FORMATS_LABEL}.`);
   }
 
-  const derivedType = metadata.format ? `image/${metadata.format}` : "";
-  const matchesType = contentType && ACCEPTED_TYPES.has(contentType);
-  const matchesDerived = derivedType && ACCEPTED_TYPES.has(derivedType);
-
-  if (!matchesType && !matchesDerived) {
-    await cleanupR2Object(originalKey);
-    throw new Error("Unsupported file type. Allowed: JPEG, PNG, WebP.");
-  }
-
-  const originalWidth = metadata.width;
-  const originalHeight = metadata.height;
-  const originalChecksum = createHash("sha256").update(originalBuffer).digest("hex");
+  const originalWidth = original.width;
+  const originalHeight = original.height;
+  const originalSize = original.size;
+  const originalChecksum = original.checksum;
   const originalUrl = combineUrl(publicBase, originalKey);
 
-  // Extract EXIF - this is a single-pass operation
-  const exif = await extractExif(originalBuffer);
+  // RAW EXIF comes from the RAW itself, not its preview
+  const exif = extractExif(original.exifTags);
 
   console.log("[photo-processor] Phase 2 complete", {
     width: originalWidth,
     height: originalHeight,
+    format: format.label,
+    embeddedPreview: original.embeddedPreview,
     hasExif: !!exif,
   });
 
@@ -239,6 +290,7 @@ export async function processPhotoFromR2(
   // This happens early so we have a record even if later processing fails
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Phase 3: Writing basic data to database");
+  await onPhase?.("db");
 
   const supabase = createSupabaseServiceRoleClient();
   const aspectRatio = (originalWidth / originalHeight).toFixed(4);
@@ -260,7 +312,6 @@ export async function processPhotoFromR2(
   });
 
   if (assetError) {
-    await cleanupR2Object(originalKey);
     throw new Error(`Failed to insert asset: ${assetError.message}`);
   }
 
@@ -299,7 +350,6 @@ export async function processPhotoFromR2(
 
   if (photoError) {
     await supabase.from("assets").delete().eq("id", assetId);
-    await cleanupR2Object(originalKey);
     throw new Error(`Failed to insert photo: ${photoError.message}`);
   }
 
@@ -321,6 +371,7 @@ export async function processPhotoFromR2(
       exif_datetime_original: exif.capturedAt,
       color_space: exif.colorSpace,
       bit_depth: exif.bitDepth,
+      exif_tags: exif.tags,
       created_by: userId,
       updated_by: userId,
     });
@@ -336,22 +387,22 @@ export async function processPhotoFromR2(
   console.log("[photo-processor] Phase 3 complete", { photoId, assetId });
 
   // --------------------------------------------------------------------------
-  // Phase 4: Generate renditions serially
-  // ⚠️ MEMORY: Each rendition is generated one at a time to reduce peak memory
+  // Phase 4: Generate renditions serially from the working image
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Phase 4: Generating renditions");
+  await onPhase?.("renditions");
 
   const renditions: GeneratedRendition[] = [];
 
-  for (const config of RENDITIONS) {
-    console.log(`[photo-processor] Generating ${config.name} rendition`);
-    const rendition = await generateSingleRendition(
-      originalBuffer,
+  for (const profile of profiles) {
+    console.log(`[photo-processor] Generating ${profile.name} rendition`);
+    const variantRenditions = await generateSingleRendition(
+      working,
       storageId,
-      config,
+      profile,
       publicBase
     );
-    renditions.push(rendition);
+    renditions.push(...variantRenditions);
   }
 
   console.log("[photo-processor] Phase 4 complete", {
@@ -362,23 +413,25 @@ export async function processPhotoFromR2(
   // Phase 5: Upload renditions to R2 (with retry for each)
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Phase 5: Uploading renditions to R2");
+  await onPhase?.("upload");
 
   for (const rendition of renditions) {
     const uploadResult = await withRetry(
       () => uploadRenditionToR2(rendition),
       {
         ...R2_RETRY_OPTIONS,
-        operationName: `r2-upload-${rendition.name}`,
+        operationName: `r2-upload-${rendition.name}-${rendition.format}`,
         context: { storageId, key: rendition.key },
       }
     );
 
     if (!uploadResult.success) {
-      // Cleanup and fail
+      // Cleanup and fail; the original stays for the next attempt
       await cleanupPhotoRecords(supabase, photoId, assetId);
-      await deleteR2Objects([originalKey, ...renditions.map((r) => r.key)]);
+      // Best effort, so the upload error is what surfaces; the sweeper removes leftovers
+      await deleteR2Objects(renditions.map((r) => r.key)).catch(() => []);
       throw new Error(
-        `Failed to upload ${rendition.name} rendition after ${MAX_RETRY_ATTEMPTS} attempts: ${uploadResult.error.message}`
+        `Failed to upload ${rendition.name} ${rendition.format} rendition after ${MAX_RETRY_ATTEMPTS} attempts: ${uploadResult.error.message}`
       );
     }
   }
@@ -388,6 +441,7 @@ export async function processPhotoFromR2(
     renditions.map((rendition) => ({
       photo_id: photoId,
       variant_name: rendition.name,
+      format: rendition.format,
       url: rendition.url,
       width: rendition.width,
       height: rendition.height,
@@ -408,25 +462,16 @@ export async function processPhotoFromR2(
   console.log("[photo-processor] Phase 5 complete");
 
   // --------------------------------------------------------------------------
-  // Phase 6: Compute derived data (serial to minimize memory)
+  // Phase 6: Compute derived data from the working image
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Phase 6: Computing derived data");
+  await onPhase?.("derived");
 
-  const detailRendition = renditions.find((r) => r.name === "detail");
-  const listRendition = renditions.find((r) => r.name === "list");
-
-  if (!detailRendition || !listRendition) {
-    throw new Error("Missing required renditions for derived data computation");
-  }
-
-  // Compute histogram from detail rendition
-  const histogram = await computeHistogram(detailRendition.buffer);
+  const detailRendition = findDetailRendition(renditions);
 
-  // Compute dominant color from detail rendition
-  const dominantColor = await computeDominantColor(detailRendition.buffer);
-
-  // Compute blurhash from list rendition (smaller = faster)
-  const blurhash = await computeBlurhash(listRendition.buffer);
+  const histogram = computeHistogram(working);
+  const dominantColor = await computeDominantColor(working);
+  const blurhash = await computeBlurhash(working);
 
   const dynamicRangeUsage = Math.max(
     0,
@@ -442,6 +487,7 @@ export async function processPhotoFromR2(
   // Phase 7: Write derived data and finalize
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Phase 7: Writing derived data");
+  await onPhase?.("finalize");
 
   // Insert histogram
   const { error: histogramError } = await supabase.from("photo_histogram").insert({
@@ -489,9 +535,9 @@ export async function processPhotoFromR2(
   // Invalidate cache
   await invalidatePhotoYearCache();
 
-  // Fire-and-forget: trigger background geocoding if coordinates exist
+  // Queue background geocoding if coordinates exist
   if (exif?.latitude != null && exif?.longitude != null) {
-    enqueueGeocodeTask(photoId, exif.latitude, exif.longitude, userId);
+    await enqueueGeocodeTask(photoId, exif.latitude, exif.longitude, userId);
   }
 
   console.log("[photo-processor] Processing complete", {
@@ -506,7 +552,7 @@ export async function processPhotoFromR2(
 // R2 Operations
 // ============================================================================
 
-async function readFileFromR2(key: string): Promise<Buffer> {
+async function openR2Stream(key: string): Promise<{ stream: Readable; byteLength?: number }> {
   const client = getR2Client();
   const bucket = getR2Bucket();
 
@@ -521,13 +567,38 @@ async function readFileFromR2(key: string): Promise<Buffer> {
     throw new Error("Empty response body from R2");
   }
 
-  // Convert stream to buffer
-  const chunks: Uint8Array[] = [];
-  for await (const chunk of response.Body as AsyncIterable<Uint8Array>) {
-    chunks.push(chunk);
+  return { stream: response.Body as Readable, byteLength: response.ContentLength };
+}
+
+/**
+ * Streams the original into a working image large enough for every profile.
+ * A stream cannot be resumed, so a failed read starts over from the first byte.
+ * Returns null when the image cannot be decoded.
+ */
+async function readOriginal(
+  originalKey: string,
+  format: PhotoFormat | null,
+  profiles: RenditionProfile[],
+  retry: { operationName: string; context: Record<string, unknown> }
+): Promise<LoadedOriginal | null> {
+  const readResult = await withRetry(
+    async () => {
+      const { stream, byteLength } = await openR2Stream(originalKey);
+      return loadOriginal(stream, format, {
+        resolveWorkingEdge: (width, height) => resolveWorkingEdge(profiles, width, height),
+        byteLength,
+      });
+    },
+    { ...R2_RETRY_OPTIONS, ...retry }
+  );
+
+  if (!readResult.success) {
+    throw new Error(
+      `Failed to read original file from R2 after ${MAX_RETRY_ATTEMPTS} attempts: ${readResult.error.message}`
+    );
   }
 
-  return Buffer.concat(chunks);
+  return readResult.data;
 }
 
 async function uploadRenditionToR2(rendition: GeneratedRendition): Promise<void> {
@@ -539,46 +610,12 @@ async function uploadRenditionToR2(rendition: GeneratedRendition): Promise<void>
       Bucket: bucket,
       Key: rendition.key,
       Body: rendition.buffer,
-      ContentType: "image/jpeg",
+      ContentType: rendition.contentType,
       CacheControl: CACHE_CONTROL,
     })
   );
 }
 
-async function cleanupR2Object(key: string): Promise<void> {
-  try {
-    const client = getR2Client();
-    const bucket = getR2Bucket();
-
-    await client.send(
-      new DeleteObjectCommand({
-        Bucket: bucket,
-        Key: key,
-      })
-    );
-  } catch (error) {
-    console.warn("[photo-processor] Failed to cleanup R2 object", { key, error });
-  }
-}
-
-async function deleteR2Objects(keys: string[]): Promise<void> {
-  const client = getR2Client();
-  const bucket = getR2Bucket();
-
-  await Promise.all(
-    keys.map((key) =>
-      client
-        .send(
-          new DeleteObjectCommand({
-            Bucket: bucket,
-            Key: key,
-          })
-        )
-        .catch(() => undefined)
-    )
-  );
-}
-
 // ============================================================================
 // Database Cleanup
 // ============================================================================
@@ -607,50 +644,124 @@ async function cleanupPhotoRecords(
 // Image Processing
 // ============================================================================
 
+/**
+ * Generates one rendition profile in each of its formats (or the given subset).
+ * The working image is resized once; each format is then encoded from the
+ * resized pixels.
+ */
 async function generateSingleRendition(
-  originalBuffer: Buffer,
+  working: WorkingImage,
   storageId: string,
-  config: RenditionConfig,
-  publicBase: string
-): Promise<GeneratedRendition> {
-  const cloned = sharp(originalBuffer, { failOnError: false })
-    .rotate()
-    .toColorspace("srgb")
-    .resize({
-      width: config.maxSize,
-      height: config.maxSize,
-      fit: "inside",
-      withoutEnlargement: true,
-    })
-    .jpeg({
-      quality: config.quality,
-      mozjpeg: true,
+  profile: RenditionProfile,
+  publicBase: string,
+  formats: RenditionFormat[] = profile.formats
+): Promise<GeneratedRendition[]> {
+  const { data: pixels, info: resized } = await openWorkingImage(working)
+    .resize(resolveResizeOptions(profile))
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const renditions: GeneratedRendition[] = [];
+
+  for (const format of formats) {
+    const formatConfig = RENDITION_FORMATS[format];
+    const encoded = formatConfig.encode(
+      sharp(pixels, {
+        raw: { width: resized.width, height: resized.height, channels: resized.channels },
+      }),
+      profile.quality
+    );
+
+    const { data, info } = await encoded.toBuffer({ resolveWithObject: true });
+    const key = `photos/${storageId}/${profile.name}.${formatConfig.extension}`;
+
+    renditions.push({
+      name: profile.name,
+      format: formatConfig.format,
+      contentType: formatConfig.contentType,
+      buffer: data,
+      width: info.width ?? resized.width,
+      height: info.height ?? resized.height,
+      fileSize: info.size ?? data.length,
+      checksum: createHash("sha256").update(data).digest("hex"),
+      url: combineUrl(publicBase, key),
+      key,
     });
+  }
 
-  const { data, info } = await cloned.toBuffer({ resolveWithObject: true });
-  const width = info.width ?? config.maxSize;
-  const height = info.height ?? config.maxSize;
-  const fileSize = info.size ?? data.length;
+  return renditions;
+}
 
-  const key = `photos/${storageId}/${config.name}.jpg`;
-  const url = combineUrl(publicBase, key);
-  const checksum = createHash("sha256").update(data).digest("hex");
+/**
+ * Without a crop aspect the longest edge is capped at `max_edge`. With one,
+ * the output box has that aspect and `max_edge` on its longer side; "cover"
+ * crops to it (keeping the most salient region), "contain" letterboxes.
+ */
+function resolveResizeOptions(profile: RenditionProfile): sharp.ResizeOptions {
+  const aspect = parseCropAspect(profile.crop_aspect);
+
+  if (!aspect || profile.fit === "inside") {
+    return {
+      width: profile.max_edge,
+      height: profile.max_edge,
+      fit: "inside",
+      withoutEnlargement: true,
+    };
+  }
+
+  const landscape = aspect.width >= aspect.height;
 
   return {
-    name: config.name,
-    buffer: data,
-    width,
-    height,
-    fileSize,
-    checksum,
-    url,
-    key,
+    width: landscape ? profile.max_edge : Math.round((profile.max_edge * aspect.width) / aspect.height),
+    height: landscape ? Math.round((profile.max_edge * aspect.height) / aspect.width) : profile.max_edge,
+    fit: profile.fit,
+    position: profile.fit === "cover" ? sharp.strategy.attention : "centre",
+    background: LETTERBOX_BACKGROUND,
+    withoutEnlargement: true,
   };
 }
 
-async function computeHistogram(buffer: Buffer): Promise<HistogramResult> {
-  const image = sharp(buffer).removeAlpha();
-  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+function parseCropAspect(value: string | null): { width: number; height: number } | null {
+  const match = value?.match(/^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Longest edge the working image needs so that no profile has to upscale it:
+ * the original is scaled until the profile's box is covered ("cover") or
+ * fits ("inside", "contain"). Capped at the original's own size.
+ */
+function resolveWorkingEdge(
+  profiles: RenditionProfile[],
+  width: number,
+  height: number
+): number {
+  const longEdge = Math.max(width, height);
+  let edge = 0;
+
+  for (const profile of profiles) {
+    const box = resolveResizeOptions(profile);
+    const scaleX = (box.width ?? longEdge) / width;
+    const scaleY = (box.height ?? longEdge) / height;
+    const scale = box.fit === "cover" ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    edge = Math.max(edge, Math.ceil(longEdge * scale));
+  }
+
+  return Math.min(longEdge, edge || longEdge);
+}
+
+function openWorkingImage(working: WorkingImage): sharp.Sharp {
+  return sharp(working.data, {
+    raw: { width: working.width, height: working.height, channels: working.channels },
+  });
+}
+
+function computeHistogram(working: WorkingImage): HistogramResult {
+  const { data, width, height, channels } = working;
 
   const buckets = 256;
   const countsLuma = new Array(buckets).fill(0);
@@ -658,7 +769,7 @@ async function computeHistogram(buffer: Buffer): Promise<HistogramResult> {
   const countsGreen = new Array(buckets).fill(0);
   const countsBlue = new Array(buckets).fill(0);
 
-  for (let i = 0; i < data.length; i += info.channels) {
+  for (let i = 0; i < data.length; i += channels) {
     const r = data[i];
     const g = data[i + 1];
     const b = data[i + 2];
@@ -673,7 +784,7 @@ async function computeHistogram(buffer: Buffer): Promise<HistogramResult> {
     countsLuma[luma] += 1;
   }
 
-  const totalPixels = info.width * info.height;
+  const totalPixels = width * height;
   const highlightBins = countsLuma.slice(230);
   const shadowBins = countsLuma.slice(0, 25);
 
@@ -693,13 +804,13 @@ async function computeHistogram(buffer: Buffer): Promise<HistogramResult> {
   };
 }
 
-async function computeDominantColor(buffer: Buffer): Promise<string> {
-  const { dominant } = await sharp(buffer).stats();
+async function computeDominantColor(working: WorkingImage): Promise<string> {
+  const { dominant } = await openWorkingImage(working).stats();
   return rgbToHex(dominant.r, dominant.g, dominant.b);
 }
 
-async function computeBlurhash(buffer: Buffer): Promise<string> {
-  const { data, info } = await sharp(buffer)
+async function computeBlurhash(working: WorkingImage): Promise<string> {
+  const { data, info } = await openWorkingImage(working)
     .resize(32, 32, { fit: "inside" })
     .ensureAlpha()
     .raw()
@@ -721,16 +832,10 @@ async function computeBlurhash(buffer: Buffer): Promise<string> {
 // EXIF Extraction
 // ============================================================================
 
-async function extractExif(buffer: Buffer): Promise<ExifData | null> {
-  try {
-    const parsed = await exifr.parse(buffer, {
-      tiff: true,
-      exif: true,
-      gps: true,
-    });
-
-    if (!parsed) return null;
+function extractExif(parsed: Record<string, unknown> | null): ExifData | null {
+  if (!parsed) return null;
 
+  try {
     const bitDepthRaw = parsed.BitsPerSample;
     const bitDepth = Array.isArray(bitDepthRaw)
       ? bitDepthRaw[0]
@@ -739,27 +844,28 @@ async function extractExif(buffer: Buffer): Promise<ExifData | null> {
         : null;
 
     return {
-      cameraMake: parsed.Make ?? null,
-      cameraModel: parsed.Model ?? null,
-      lensModel: parsed.LensModel ?? null,
+      cameraMake: readString(parsed.Make),
+      cameraModel: readString(parsed.Model),
+      lensModel: readString(parsed.LensModel),
       focalLength: parsed.FocalLength ? Number(parsed.FocalLength) : null,
-      aperture: parsed.FNumber ?? null,
-      shutterSpeed: parsed.ExposureTime ?? null,
-      iso: parsed.ISO ?? null,
-      exposureCompensation: parsed.ExposureCompensation ?? null,
+      aperture: readNumber(parsed.FNumber),
+      shutterSpeed: readNumber(parsed.ExposureTime),
+      iso: readNumber(parsed.ISO),
+      exposureCompensation: readNumber(parsed.ExposureCompensation),
       meteringMode: parsed.MeteringMode ? String(parsed.MeteringMode) : null,
       whiteBalance: parsed.WhiteBalance ? String(parsed.WhiteBalance) : null,
       shootingMode: parsed.SceneCaptureType
         ? String(parsed.SceneCaptureType)
         : null,
       capturedAt: parsed.DateTimeOriginal
-        ? new Date(parsed.DateTimeOriginal).toISOString()
+        ? new Date(parsed.DateTimeOriginal as string | number | Date).toISOString()
         : null,
-      latitude: parsed.latitude ?? null,
-      longitude: parsed.longitude ?? null,
+      latitude: readNumber(parsed.latitude),
+      longitude: readNumber(parsed.longitude),
       colorSpace: parsed.ColorSpace ? String(parsed.ColorSpace) : null,
       bitDepth,
-      description: parsed.ImageDescription ?? parsed.XPComment ?? null,
+      description: readString(parsed.ImageDescription) ?? readString(parsed.XPComment),
+      tags: toJsonSafeTags(parsed),
     };
   } catch (error) {
     console.warn("[photo-processor] Failed to parse EXIF metadata", error);
@@ -767,6 +873,40 @@ async function extractExif(buffer: Buffer): Promise<ExifData | null> {
   }
 }
 
+function readString(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function readNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Drops binary values (maker notes, thumbnails) and long arrays so the full
+ * tag set can be stored as JSON.
+ */
+function toJsonSafeTags(parsed: Record<string, unknown>): Record<string, unknown> {
+  const tags: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(parsed)) {
+    if (value instanceof Date) {
+      if (!Number.isNaN(value.getTime())) tags[key] = value.toISOString();
+    } else if (typeof value === "string") {
+      tags[key] = value.replace(/\0+$/, "").trim();
+    } else if (typeof value === "number") {
+      if (Number.isFinite(value)) tags[key] = value;
+    } else if (typeof value === "boolean") {
+      tags[key] = value;
+    } else if (Array.isArray(value) && value.length <= MAX_EXIF_ARRAY_LENGTH) {
+      if (value.every((item) => typeof item === "number" || typeof item === "string")) {
+        tags[key] = value;
+      }
+    }
+  }
+
+  return tags;
+}
+
 // ============================================================================
 // Utilities
 // ============================================================================
@@ -800,6 +940,8 @@ export interface ReprocessPhotoContext {
   photoId: string;
   /** User ID for audit fields */
   userId: string;
+  /** Called when each step starts; used by the job worker to report progress */
+  onPhase?: (phase: PhotoJobPhase) => Promise<void>;
 }
 
 export interface ReprocessPhotoResult {
@@ -809,10 +951,7 @@ export interface ReprocessPhotoResult {
 
 /**
  * Reprocess an existing photo that failed during initial processing.
- * This function reads the original file from R2 and re-executes Phase 4-7.
- *
- * ⚠️ MEMORY WARNING: This function loads the entire original file into memory.
- * For 50MB files, expect ~300-500MB peak memory usage during processing.
+ * This function streams the original file from R2 and re-executes Phase 4-7.
  *
  * Use this when:
  * - Photo status is not "published"
@@ -822,7 +961,7 @@ export interface ReprocessPhotoResult {
 export async function reprocessPhoto(
   context: ReprocessPhotoContext
 ): Promise<ReprocessPhotoResult> {
-  const { photoId, userId } = context;
+  const { photoId, userId, onPhase } = context;
   const publicBase = getR2PublicBaseUrl();
 
   console.log("[photo-processor] Starting reprocess", { photoId });
@@ -834,31 +973,11 @@ export async function reprocessPhoto(
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Reprocess Step 1: Fetching photo info");
 
-  const { data: photo, error: photoError } = await supabase
-    .from("photos")
-    .select("*, assets:asset_original_id(*)")
-    .eq("id", photoId)
-    .single();
-
-  if (photoError || !photo) {
-    throw new Error(`Photo not found: ${photoError?.message ?? "Unknown error"}`);
-  }
-
-  if (!photo.assets) {
-    throw new Error("Original asset not found for this photo");
-  }
-
-  // Extract storage ID from the asset URL
-  // URL format: {publicBase}/photos/{storageId}/original.{ext}
-  const assetUrl = photo.assets.url as string;
-  const urlMatch = assetUrl.match(/photos\/([^/]+)\/original/);
-  if (!urlMatch) {
-    throw new Error("Cannot determine storage ID from asset URL");
-  }
-  const storageId = urlMatch[1];
-
-  // Determine the original key from the URL
-  const originalKey = assetUrl.replace(publicBase + "/", "").replace(publicBase, "");
+  const { storageId, originalKey, status } = await fetchPhotoOriginal(
+    supabase,
+    photoId,
+    publicBase
+  );
 
   console.log("[photo-processor] Reprocess Step 1 complete", {
     photoId,
@@ -867,37 +986,34 @@ export async function reprocessPhoto(
   });
 
   // --------------------------------------------------------------------------
-  // Step 2: Read original file from R2 (with retry)
-  // ⚠️ MEMORY: Loads entire file into memory
+  // Step 2: Stream original from R2 and decode the working image (with retry)
   // --------------------------------------------------------------------------
-  console.log("[photo-processor] Reprocess Step 2: Reading original from R2");
+  console.log("[photo-processor] Reprocess Step 2: Streaming original from R2");
+  await onPhase?.("read");
 
-  const readResult = await withRetry(
-    () => readFileFromR2(originalKey),
-    {
-      ...R2_RETRY_OPTIONS,
-      operationName: "r2-read-original-reprocess",
-      context: { photoId, originalKey },
-    }
-  );
+  const profiles = await fetchRenditionProfiles();
+  const original = await readOriginal(originalKey, findPhotoFormat(null, originalKey), profiles, {
+    operationName: "r2-read-original-reprocess",
+    context: { photoId, originalKey },
+  });
 
-  if (!readResult.success) {
-    throw new Error(
-      `Failed to read original file from R2 after ${MAX_RETRY_ATTEMPTS} attempts: ${readResult.error.message}`
-    );
+  if (!original) {
+    throw new Error("Unable to decode original image.");
   }
 
-  const originalBuffer = readResult.data;
+  const { working } = original;
 
   console.log("[photo-processor] Reprocess Step 2 complete", {
-    size: originalBuffer.length,
-    attempts: readResult.attempts,
+    size: original.size,
+    format: original.format,
+    working: `${working.width}x${working.height}`,
   });
 
   // --------------------------------------------------------------------------
   // Step 3: Delete existing renditions and derived data
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Reprocess Step 3: Cleaning up old data");
+  await onPhase?.("db");
 
   // Get existing rendition keys for R2 cleanup
   const { data: existingRenditions } = await supabase
@@ -923,22 +1039,22 @@ export async function reprocessPhoto(
   });
 
   // --------------------------------------------------------------------------
-  // Step 4: Generate renditions serially
-  // ⚠️ MEMORY: Each rendition is generated one at a time to reduce peak memory
+  // Step 4: Generate renditions serially from the working image
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Reprocess Step 4: Generating renditions");
+  await onPhase?.("renditions");
 
   const renditions: GeneratedRendition[] = [];
 
-  for (const config of RENDITIONS) {
-    console.log(`[photo-processor] Generating ${config.name} rendition`);
-    const rendition = await generateSingleRendition(
-      originalBuffer,
+  for (const profile of profiles) {
+    console.log(`[photo-processor] Generating ${profile.name} rendition`);
+    const variantRenditions = await generateSingleRendition(
+      working,
       storageId,
-      config,
+      profile,
       publicBase
     );
-    renditions.push(rendition);
+    renditions.push(...variantRenditions);
   }
 
   console.log("[photo-processor] Reprocess Step 4 complete", {
@@ -949,20 +1065,21 @@ export async function reprocessPhoto(
   // Step 5: Upload renditions to R2 (with retry for each)
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Reprocess Step 5: Uploading renditions to R2");
+  await onPhase?.("upload");
 
   for (const rendition of renditions) {
     const uploadResult = await withRetry(
       () => uploadRenditionToR2(rendition),
       {
         ...R2_RETRY_OPTIONS,
-        operationName: `r2-upload-${rendition.name}-reprocess`,
+        operationName: `r2-upload-${rendition.name}-${rendition.format}-reprocess`,
         context: { photoId, key: rendition.key },
       }
     );
 
     if (!uploadResult.success) {
       throw new Error(
-        `Failed to upload ${rendition.name} rendition after ${MAX_RETRY_ATTEMPTS} attempts: ${uploadResult.error.message}`
+        `Failed to upload ${rendition.name} ${rendition.format} rendition after ${MAX_RETRY_ATTEMPTS} attempts: ${uploadResult.error.message}`
       );
     }
   }
@@ -972,6 +1089,7 @@ export async function reprocessPhoto(
     renditions.map((rendition) => ({
       photo_id: photoId,
       variant_name: rendition.name,
+      format: rendition.format,
       url: rendition.url,
       width: rendition.width,
       height: rendition.height,
@@ -992,25 +1110,16 @@ export async function reprocessPhoto(
   console.log("[photo-processor] Reprocess Step 5 complete");
 
   // --------------------------------------------------------------------------
-  // Step 6: Compute derived data (serial to minimize memory)
+  // Step 6: Compute derived data from the working image
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Reprocess Step 6: Computing derived data");
+  await onPhase?.("derived");
 
-  const detailRendition = renditions.find((r) => r.name === "detail");
-  const listRendition = renditions.find((r) => r.name === "list");
-
-  if (!detailRendition || !listRendition) {
-    throw new Error("Missing required renditions for derived data computation");
-  }
-
-  // Compute histogram from detail rendition
-  const histogram = await computeHistogram(detailRendition.buffer);
-
-  // Compute dominant color from detail rendition
-  const dominantColor = await computeDominantColor(detailRendition.buffer);
+  const detailRendition = findDetailRendition(renditions);
 
-  // Compute blurhash from list rendition (smaller = faster)
-  const blurhash = await computeBlurhash(listRendition.buffer);
+  const histogram = computeHistogram(working);
+  const dominantColor = await computeDominantColor(working);
+  const blurhash = await computeBlurhash(working);
 
   const dynamicRangeUsage = Math.max(
     0,
@@ -1026,6 +1135,7 @@ export async function reprocessPhoto(
   // Step 7: Write derived data and finalize
   // --------------------------------------------------------------------------
   console.log("[photo-processor] Reprocess Step 7: Writing derived data");
+  await onPhase?.("finalize");
 
   // Insert histogram
   const { error: histogramError } = await supabase.from("photo_histogram").insert({
@@ -1048,16 +1158,21 @@ export async function reprocessPhoto(
     });
   }
 
-  // Update photo with derived fields and mark as published
+  // Update photo with derived fields and mark as published.
+  // Photos processed before keep their status and audience: a scheduled
+  // photo stays hidden until publishDuePhotos picks it up, an archived one
+  // stays archived, and an unlisted or private one is not made public.
+  const publishFields = isProcessedStatus(status)
+    ? {}
+    : { status: "published", visibility: "public", is_visible: true };
+
   const { error: updateError } = await supabase
     .from("photos")
     .update({
       dominant_color: dominantColor,
       blurhash,
       dynamic_range_usage: dynamicRangeUsage,
-      status: "published",
-      visibility: "public",
-      is_visible: true,
+      ...publishFields,
       updated_by: userId,
       updated_at: new Date().toISOString(),
     })
@@ -1081,10 +1196,195 @@ export async function reprocessPhoto(
   return { photoId, detailUrl: detailRendition.url };
 }
 
+// ============================================================================
+// Generate Missing Renditions (profile backfill)
+// ============================================================================
+
+export interface GenerateRenditionsContext {
+  photoId: string;
+  /** Profiles to backfill; formats the photo already has are left untouched */
+  profileIds: string[];
+  /** User ID for audit fields */
+  userId: string;
+  /** Called when each step starts; used by the job worker to report progress */
+  onPhase?: (phase: PhotoJobPhase) => Promise<void>;
+}
+
+export interface GenerateRenditionsResult {
+  photoId: string;
+  generated: number;
+}
+
+/**
+ * Generates renditions for newly added profiles on an existing photo.
+ * Unlike reprocessPhoto, existing renditions and derived data are never
+ * deleted or rewritten, and the original is only read when something is missing.
+ */
+export async function generateMissingRenditions(
+  context: GenerateRenditionsContext
+): Promise<GenerateRenditionsResult> {
+  const { photoId, profileIds, userId, onPhase } = context;
+  const publicBase = getR2PublicBaseUrl();
+  const supabase = createSupabaseServiceRoleClient();
+
+  const profiles = (await fetchRenditionProfiles()).filter((profile) =>
+    profileIds.includes(profile.id)
+  );
+
+  const { data: existingRenditions, error: existingError } = await supabase
+    .from("photo_rendition")
+    .select("variant_name, format")
+    .eq("photo_id", photoId);
+
+  if (existingError) {
+    throw new Error(`Failed to load renditions: ${existingError.message}`);
+  }
+
+  const existing = new Set(
+    (existingRenditions ?? []).map((r) => `${r.variant_name}.${r.format}`)
+  );
+  const missing = profiles
+    .map((profile) => ({
+      profile,
+      formats: profile.formats.filter((format) => !existing.has(`${profile.name}.${format}`)),
+    }))
+    .filter((entry) => entry.formats.length > 0);
+
+  if (missing.length === 0) {
+    return { photoId, generated: 0 };
+  }
+
+  const { storageId, originalKey } = await fetchPhotoOriginal(supabase, photoId, publicBase);
+
+  await onPhase?.("read");
+
+  // The working image only needs to be large enough for the missing profiles
+  const original = await readOriginal(
+    originalKey,
+    findPhotoFormat(null, originalKey),
+    missing.map((entry) => entry.profile),
+    {
+      operationName: "r2-read-original-backfill",
+      context: { photoId, originalKey },
+    }
+  );
+
+  if (!original) {
+    throw new Error("Unable to decode original image.");
+  }
+
+  await onPhase?.("renditions");
+
+  const renditions: GeneratedRendition[] = [];
+
+  for (const { profile, formats } of missing) {
+    renditions.push(
+      ...(await generateSingleRendition(original.working, storageId, profile, publicBase, formats))
+    );
+  }
+
+  await onPhase?.("upload");
+
+  for (const rendition of renditions) {
+    const uploadResult = await withRetry(
+      () => uploadRenditionToR2(rendition),
+      {
+        ...R2_RETRY_OPTIONS,
+        operationName: `r2-upload-${rendition.name}-${rendition.format}-backfill`,
+        context: { photoId, key: rendition.key },
+      }
+    );
+
+    if (!uploadResult.success) {
+      await deleteR2Objects(renditions.map((r) => r.key)).catch(() => []);
+      throw new Error(
+        `Failed to upload ${rendition.name} ${rendition.format} rendition after ${MAX_RETRY_ATTEMPTS} attempts: ${uploadResult.error.message}`
+      );
+    }
+  }
+
+  await onPhase?.("finalize");
+
+  const { error: insertError } = await supabase.from("photo_rendition").insert(
+    renditions.map((rendition) => ({
+      photo_id: photoId,
+      variant_name: rendition.name,
+      format: rendition.format,
+      url: rendition.url,
+      width: rendition.width,
+      height: rendition.height,
+      file_size: rendition.fileSize,
+      checksum: rendition.checksum,
+      created_by: userId,
+      updated_by: userId,
+    }))
+  );
+
+  if (insertError) {
+    throw new Error(`Failed to insert renditions: ${insertError.message}`);
+  }
+
+  console.log("[photo-processor] Backfilled renditions", {
+    photoId,
+    generated: renditions.length,
+  });
+
+  return { photoId, generated: renditions.length };
+}
+
+/**
+ * The detail JPEG is the photo's canonical preview URL returned to callers.
+ */
+function findDetailRendition(renditions: GeneratedRendition[]): GeneratedRendition {
+  const detail = renditions.find((r) => r.name === "detail" && r.format === "jpeg");
+
+  if (!detail) {
+    throw new Error("Missing detail rendition");
+  }
+
+  return detail;
+}
+
+/**
+ * Resolves the R2 location of a photo's original from its asset URL.
+ * URL format: {publicBase}/photos/{storageId}/original.{ext}
+ */
+async function fetchPhotoOriginal(
+  supabase: ReturnType<typeof createSupabaseServiceRoleClient>,
+  photoId: string,
+  publicBase: string
+): Promise<{ storageId: string; originalKey: string; status: PhotoStatus }> {
+  const { data: photo, error: photoError } = await supabase
+    .from("photos")
+    .select("*, assets:asset_original_id(*)")
+    .eq("id", photoId)
+    .single();
+
+  if (photoError || !photo) {
+    throw new Error(`Photo not found: ${photoError?.message ?? "Unknown error"}`);
+  }
+
+  if (!photo.assets) {
+    throw new Error("Original asset not found for this photo");
+  }
+
+  const assetUrl = photo.assets.url as string;
+  const urlMatch = assetUrl.match(/photos\/([^/]+)\/original/);
+  if (!urlMatch) {
+    throw new Error("Cannot determine storage ID from asset URL");
+  }
+
+  return {
+    storageId: urlMatch[1],
+    originalKey: assetUrl.replace(publicBase + "/", "").replace(publicBase, ""),
+    status: photo.status as PhotoStatus,
+  };
+}
+
 /**
  * Check if a photo needs reprocessing.
  * A photo needs reprocessing if:
- * - Status is not "published"
+ * - Status is "draft", i.e. processing never finished
  * - OR blurhash/dominant_color/histogram are missing
  */
 export function needsReprocessing(photo: {
@@ -1092,7 +1392,7 @@ export function needsReprocessing(photo: {
   blurhash: string | null;
   dominant_color: string | null;
 }): boolean {
-  if (photo.status !== "published") {
+  if (!isProcessedStatus(photo.status)) {
     return true;
   }
   if (!photo.blurhash || !photo.dominant_color) {
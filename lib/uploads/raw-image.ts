@@ -0,0 +1,256 @@
+/**
+ * Camera RAW helpers (DNG, CR3, NEF, ARW).
+ *
+ * libvips cannot demosaic RAW sensor data, so renditions are driven by the
+ * largest JPEG preview the camera embedded in the file. Every supported format
+ * carries a full-size (or near full-size) baseline JPEG for in-camera review.
+ * The RAW itself is never modified and stays in R2 as the asset of record.
+ *
+ * TIFF-based RAWs (DNG, NEF, ARW) are read by exifr directly. CR3 is an
+ * ISO-BMFF container that exifr does not understand; its TIFF blocks live in
+ * the CMT1 (IFD0), CMT2 (Exif) and CMT4 (GPS) boxes and are parsed one by one.
+ */
+
+import exifr from "exifr";
+
+export interface EmbeddedPreview {
+  /** Byte offset of the JPEG SOI marker inside the RAW buffer */
+  offset: number;
+  width: number;
+  height: number;
+}
+
+/** Previews smaller than this are thumbnails, not usable for renditions */
+const MIN_PREVIEW_EDGE = 640;
+
+const JPEG_SOI = Buffer.from([0xff, 0xd8, 0xff]);
+
+/** Baseline, extended and progressive Huffman frames; lossless (raw data) is skipped */
+const LOSSY_SOF_MARKERS = new Set([0xc0, 0xc1, 0xc2]);
+
+/** Markers that carry no length field */
+const STANDALONE_MARKERS = new Set([0x01, 0xd0, 0xd1, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7]);
+
+const MAX_SEGMENTS_PER_JPEG = 64;
+
+/** CR3 metadata boxes sit in the moov box at the start of the file */
+const CR3_METADATA_SCAN_BYTES = 1024 * 1024;
+
+/**
+ * Finds the largest embedded colour JPEG preview. Candidates are located by
+ * their SOI marker and sized from the frame header without decoding, so the
+ * scan stays cheap even for 50MB files.
+ */
+export function findLargestEmbeddedPreview(buffer: Buffer): EmbeddedPreview | null {
+  let best: EmbeddedPreview | null = null;
+  let position = buffer.indexOf(JPEG_SOI);
+
+  while (position !== -1) {
+    const frame = readJpegFrame(buffer, position);
+
+    if (frame && (!best || frame.width * frame.height > best.width * best.height)) {
+      best = { offset: position, width: frame.width, height: frame.height };
+    }
+
+    position = buffer.indexOf(JPEG_SOI, position + JPEG_SOI.length);
+  }
+
+  if (!best || Math.max(best.width, best.height) < MIN_PREVIEW_EDGE) {
+    return null;
+  }
+
+  return best;
+}
+
+export function isCr3Container(buffer: Buffer): boolean {
+  return buffer.length >= 12 && buffer.toString("latin1", 4, 12) === "ftypcrx ";
+}
+
+/**
+ * Parses EXIF from a RAW file into the same merged shape `exifr.parse`
+ * returns for JPEGs (tag names as keys, translated values, latitude/longitude).
+ */
+export async function parseRawExif(buffer: Buffer): Promise<Record<string, unknown> | null> {
+  if (!isCr3Container(buffer)) {
+    return exifr.parse(buffer, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      interop: true,
+      ifd1: false,
+    });
+  }
+
+  const blocks: Array<[box: string, block: "ifd0" | "exif" | "gps"]> = [
+    ["CMT1", "ifd0"],
+    ["CMT2", "exif"],
+    ["CMT4", "gps"],
+  ];
+
+  const merged: Record<string, unknown> = {};
+
+  for (const [box, block] of blocks) {
+    const tiff = findCr3Box(buffer, box);
+    if (!tiff) continue;
+
+    try {
+      // Each box is a standalone TIFF whose first IFD holds the block's tags,
+      // so keys and values are translated with the block's dictionaries here
+      const raw = await exifr.parse(tiff, {
+        tiff: true,
+        exif: false,
+        gps: false,
+        interop: false,
+        ifd1: false,
+        translateKeys: false,
+        translateValues: false,
+        reviveValues: false,
+      });
+      Object.assign(merged, translateTiffBlock(raw ?? {}, block));
+    } catch (error) {
+      console.warn(`[raw-image] Failed to parse CR3 ${box}`, error);
+    }
+  }
+
+  const latitude = toDecimalDegrees(merged.GPSLatitude, merged.GPSLatitudeRef, "S");
+  const longitude = toDecimalDegrees(merged.GPSLongitude, merged.GPSLongitudeRef, "W");
+  if (latitude != null && longitude != null) {
+    merged.latitude = latitude;
+    merged.longitude = longitude;
+  }
+
+  return Object.keys(merged).length > 0 ? merged : null;
+}
+
+/** EXIF orientation (1-8) of the RAW; embedded previews are stored unrotated. */
+export async function readRawOrientation(buffer: Buffer): Promise<number> {
+  try {
+    if (isCr3Container(buffer)) {
+      const parsed = await parseRawExif(buffer);
+      const value = parsed?.Orientation;
+      return typeof value === "number" ? value : 1;
+    }
+    return (await exifr.orientation(buffer)) ?? 1;
+  } catch (error) {
+    console.warn("[raw-image] Failed to read orientation", error);
+    return 1;
+  }
+}
+
+// ============================================================================
+// Internals
+// ============================================================================
+
+function readJpegFrame(buffer: Buffer, soiOffset: number): { width: number; height: number } | null {
+  let position = soiOffset + 2;
+
+  for (let segment = 0; segment < MAX_SEGMENTS_PER_JPEG; segment++) {
+    if (position + 4 > buffer.length || buffer[position] !== 0xff) {
+      return null;
+    }
+
+    const marker = buffer[position + 1];
+
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      position += 1;
+      continue;
+    }
+
+    if (STANDALONE_MARKERS.has(marker)) {
+      position += 2;
+      continue;
+    }
+
+    // Start of scan or end of image before any frame header
+    if (marker === 0xda || marker === 0xd9) {
+      return null;
+    }
+
+    const length = buffer.readUInt16BE(position + 2);
+    if (length < 2) {
+      return null;
+    }
+
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (!LOSSY_SOF_MARKERS.has(marker) || position + 10 > buffer.length) {
+        return null;
+      }
+
+      const height = buffer.readUInt16BE(position + 5);
+      const width = buffer.readUInt16BE(position + 7);
+      const components = buffer[position + 9];
+
+      return components === 3 && width > 0 && height > 0 ? { width, height } : null;
+    }
+
+    position += 2 + length;
+  }
+
+  return null;
+}
+
+function findCr3Box(buffer: Buffer, type: string): Buffer | null {
+  const limit = Math.min(buffer.length, CR3_METADATA_SCAN_BYTES);
+  const index = buffer.subarray(0, limit).indexOf(type, 0, "latin1");
+
+  if (index < 4) {
+    return null;
+  }
+
+  const size = buffer.readUInt32BE(index - 4);
+  const end = index - 4 + size;
+  if (size <= 8 || end > buffer.length) {
+    return null;
+  }
+
+  const data = buffer.subarray(index + 4, end);
+  const byteOrder = data.toString("latin1", 0, 2);
+  return byteOrder === "II" || byteOrder === "MM" ? data : null;
+}
+
+function translateTiffBlock(
+  raw: Record<string | number, unknown>,
+  block: "ifd0" | "exif" | "gps",
+): Record<string, unknown> {
+  const keys = exifr.tagKeys.get(block);
+  const values = exifr.tagValues.get(block);
+  const revivers = exifr.tagRevivers.get(block);
+  const translated: Record<string, unknown> = {};
+
+  for (const [key, rawValue] of Object.entries(raw)) {
+    const tag = Number(key);
+    let value = rawValue;
+
+    if (!Number.isNaN(tag)) {
+      const dictionary = values?.get(tag);
+      if (dictionary && typeof value !== "object" && dictionary[value as string | number] !== undefined) {
+        value = dictionary[value as string | number];
+      }
+
+      const reviver = revivers?.get(tag);
+      if (reviver) {
+        value = reviver(value);
+      }
+    }
+
+    translated[(!Number.isNaN(tag) && keys?.get(tag)) || key] = value;
+  }
+
+  return translated;
+}
+
+function toDecimalDegrees(value: unknown, ref: unknown, negativeRef: string): number | null {
+  if (!Array.isArray(value) || value.length < 3) {
+    return null;
+  }
+
+  const [degrees, minutes, seconds] = value.map(Number);
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+
+  if (!Number.isFinite(decimal)) {
+    return null;
+  }
+
+  return ref === negativeRef ? -decimal : decimal;
+}
@@ -0,0 +1,489 @@
+/**
+ * Source image loading for the processing pipeline.
+ *
+ * The original is streamed from R2 and decoded exactly once into a shared,
+ * downscaled *working image* (oriented 8-bit sRGB pixels, longest edge capped
+ * at the largest rendition profile). Renditions, histogram, dominant color and
+ * blurhash are all computed from it, so the full-resolution original never
+ * has to be decoded more than once or held decoded in memory.
+ *
+ * Formats libvips can read are piped straight into sharp with sequential
+ * access, which lets JPEG shrink-on-load and strip-wise TIFF/PNG decoding keep
+ * memory bounded by the output size rather than the input resolution. Only
+ * the compressed bytes are buffered (by sharp), and they are released as soon
+ * as the working image exists.
+ *
+ * Two cases still need the whole original as a Buffer:
+ * - HEIC/HEIF: the prebuilt sharp binaries ship libheif with the AV1 (AVIF)
+ *   decoder only, so HEVC-coded HEIC from iPhones is decoded with libheif
+ *   compiled to WebAssembly (`heic-decode`) and handed to sharp as raw RGBA.
+ * - Camera RAW: never decoded; the largest embedded JPEG preview stands in
+ *   for it (see lib/uploads/raw-image.ts).
+ *
+ * ⚠️ MEMORY: the working image holds edge × edge × 3 bytes at most (~12MB at
+ * 2048px). Buffered originals are read into a single buffer sized from the
+ * object's length, so the file is held once, never as chunks plus a copy.
+ * Their peak is the file size plus the decoded pixels plus the working
+ * image: the HEIF fallback decodes width × height × 4 bytes (~48MB for a
+ * 12MP iPhone photo); a RAW decodes its embedded preview (~75MB for 24MP).
+ * At the 200MB upload cap a RAW job peaks at roughly 300MB.
+ */
+
+import { createHash } from "node:crypto";
+import { type Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+
+import exifr from "exifr";
+import decodeHeic from "heic-decode";
+import sharp, { type Sharp, type SharpOptions } from "sharp";
+
+import type { PhotoFormat } from "@/lib/uploads/formats";
+import {
+  findLargestEmbeddedPreview,
+  parseRawExif,
+  readRawOrientation,
+} from "@/lib/uploads/raw-image";
+
+/**
+ * Upper bound on decoded pixels. Streaming keeps memory proportional to the
+ * working image, so this is well above sharp's 268MP default to admit large
+ * medium-format scans.
+ */
+const MAX_INPUT_PIXELS = 1_000_000_000;
+
+// libvips' operation cache keeps recent pipelines (and their pixels) alive
+// across jobs; every image here is processed once, so it only costs memory.
+sharp.cache(false);
+
+export interface WorkingImage {
+  /** Oriented 8-bit sRGB pixels (3 channels, 4 with alpha) */
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: 1 | 2 | 3 | 4;
+}
+
+export interface LoadedOriginal {
+  /** Container format as reported by sharp ("jpeg", "png", "webp", "heif", ...) */
+  format: string | null;
+  /** Display dimensions of the original, after orientation is applied */
+  width: number;
+  height: number;
+  /** Set when pixels come from a RAW's embedded preview rather than the sensor data */
+  embeddedPreview: boolean;
+  /** Bytes read from the stream */
+  size: number;
+  /** SHA-256 of the original bytes */
+  checksum: string;
+  /** Parsed EXIF tags; read from the RAW itself for camera RAW originals */
+  exifTags: Record<string, unknown> | null;
+  working: WorkingImage;
+}
+
+export interface LoadOriginalOptions {
+  /**
+   * Longest edge of the working image, given the original's display
+   * dimensions. The working image is never enlarged beyond the original.
+   */
+  resolveWorkingEdge: (width: number, height: number) => number;
+  /** Length of the stream in bytes when known, e.g. R2's Content-Length */
+  byteLength?: number;
+}
+
+/**
+ * Streams an original into a working image, hashing it on the way through.
+ * Pass the format resolved from the upload when known; RAW files cannot be
+ * told apart from plain TIFFs by content alone.
+ *
+ * Returns null when the image cannot be decoded. Stream (network) errors are
+ * thrown so callers can retry the read.
+ */
+export async function loadOriginal(
+  stream: Readable,
+  format: PhotoFormat | null,
+  options: LoadOriginalOptions,
+): Promise<LoadedOriginal | null> {
+  const digest = createDigest();
+
+  if (needsBufferedDecode(format)) {
+    let buffer: Buffer = Buffer.alloc(0);
+    await pipeline(stream, digest.tap, async (source: AsyncIterable<Buffer>) => {
+      buffer = await readToBuffer(source, options.byteLength);
+    });
+
+    const loaded = await loadFromBuffer(buffer, format, options);
+    return loaded ? { ...loaded, ...digest.result() } : null;
+  }
+
+  const input = sharp({
+    failOnError: false,
+    sequentialRead: true,
+    limitInputPixels: MAX_INPUT_PIXELS,
+  });
+
+  // The header is enough for metadata; the pixels are decoded once, below
+  const header = input
+    .clone()
+    .metadata()
+    .catch((error) => {
+      console.warn("[source-image] sharp could not read metadata", error);
+      return null;
+    });
+
+  const [, metadata] = await Promise.all([pipeline(stream, digest.tap, input), header]);
+
+  if (!metadata?.width || !metadata?.height) {
+    return null;
+  }
+
+  const swapsAxes = (metadata.orientation ?? 1) >= 5;
+  const width = swapsAxes ? metadata.height : metadata.width;
+  const height = swapsAxes ? metadata.width : metadata.height;
+
+  let working: WorkingImage;
+
+  try {
+    working = await toWorkingImage(
+      input.autoOrient(),
+      options.resolveWorkingEdge(width, height),
+    );
+  } catch (error) {
+    console.warn("[source-image] sharp could not decode the original", error);
+    return null;
+  }
+
+  return {
+    format: metadata.format ?? null,
+    width,
+    height,
+    embeddedPreview: false,
+    exifTags: metadata.exif ? await parseExifBlock(metadata.exif) : null,
+    working,
+    ...digest.result(),
+  };
+}
+
+/**
+ * Decodes an original that is already in memory (HEIF fallback, RAW previews,
+ * formats only identifiable by content).
+ */
+async function loadFromBuffer(
+  buffer: Buffer,
+  format: PhotoFormat | null,
+  options: LoadOriginalOptions,
+): Promise<Omit<LoadedOriginal, "size" | "checksum"> | null> {
+  const source = await decodeSourceImage(buffer, format);
+
+  if (!source) {
+    return null;
+  }
+
+  const working = await toWorkingImage(
+    openSourceImage(source),
+    options.resolveWorkingEdge(source.width, source.height),
+  );
+
+  return {
+    format: source.format,
+    width: source.width,
+    height: source.height,
+    embeddedPreview: source.embeddedPreview,
+    exifTags: await parseExif(buffer, format),
+    working,
+  };
+}
+
+/**
+ * Collects a stream into one buffer. With the length known, chunks are copied
+ * into a buffer allocated once; otherwise they are concatenated at the end,
+ * which briefly holds the bytes twice.
+ */
+async function readToBuffer(source: AsyncIterable<Buffer>, byteLength?: number): Promise<Buffer> {
+  if (byteLength === undefined) {
+    const chunks: Buffer[] = [];
+    for await (const chunk of source) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  const buffer = Buffer.allocUnsafe(byteLength);
+  let offset = 0;
+
+  for await (const chunk of source) {
+    if (offset + chunk.length > byteLength) {
+      throw new Error(`Original is longer than its ${byteLength} bytes`);
+    }
+    chunk.copy(buffer, offset);
+    offset += chunk.length;
+  }
+
+  // A short read is a broken stream, so it is thrown and retried like one
+  if (offset !== byteLength) {
+    throw new Error(`Original ended after ${offset} of ${byteLength} bytes`);
+  }
+
+  return buffer;
+}
+
+async function toWorkingImage(image: Sharp, workingEdge: number): Promise<WorkingImage> {
+  const { data, info } = await image
+    .resize({
+      width: workingEdge,
+      height: workingEdge,
+      fit: "inside",
+      withoutEnlargement: true,
+    })
+    .toColorspace("srgb")
+    .raw({ depth: "uchar" })
+    .toBuffer({ resolveWithObject: true });
+
+  return { data, width: info.width, height: info.height, channels: info.channels };
+}
+
+/**
+ * HEIF that libvips cannot decode, RAW, and anything whose format is unknown
+ * up front have to be inspected as a whole.
+ */
+function needsBufferedDecode(format: PhotoFormat | null): boolean {
+  if (!format || format.raw) {
+    return true;
+  }
+
+  return format.sharpFormats.includes("heif") && !canSharpDecodeHevc();
+}
+
+function createDigest() {
+  const hash = createHash("sha256");
+  let size = 0;
+
+  const tap = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  return {
+    tap,
+    result: () => ({ size, checksum: hash.digest("hex") }),
+  };
+}
+
+async function parseExif(
+  buffer: Buffer,
+  format: PhotoFormat | null,
+): Promise<Record<string, unknown> | null> {
+  try {
+    return format?.raw
+      ? await parseRawExif(buffer)
+      : await exifr.parse(buffer, { tiff: true, exif: true, gps: true });
+  } catch (error) {
+    console.warn("[source-image] Failed to parse EXIF metadata", error);
+    return null;
+  }
+}
+
+/** sharp returns the EXIF block with its APP1 "Exif\0\0" prefix; exifr wants the TIFF structure */
+async function parseExifBlock(block: Buffer): Promise<Record<string, unknown> | null> {
+  const tiff = block.toString("latin1", 0, 6) === "Exif\0\0" ? block.subarray(6) : block;
+  return parseExif(tiff, null);
+}
+
+interface SourceImage {
+  /** Input handed to sharp for renditions */
+  input: Buffer;
+  /** Extra sharp constructor options (e.g. `raw` for pre-decoded pixels) */
+  options: SharpOptions;
+  /** Container format as reported by sharp ("jpeg", "png", "webp", "heif", ...) */
+  format: string | null;
+  /** EXIF orientation (1-8) applied by `openSourceImage` */
+  orientation: number;
+  /** Display dimensions, after orientation is applied */
+  width: number;
+  height: number;
+  /** Set when pixels come from a RAW's embedded preview rather than the sensor data */
+  embeddedPreview: boolean;
+}
+
+/**
+ * Reads dimensions and format of an in-memory original and prepares a
+ * sharp-ready input. Returns null when the image cannot be read at all.
+ */
+async function decodeSourceImage(
+  buffer: Buffer,
+  format?: PhotoFormat | null,
+): Promise<SourceImage | null> {
+  if (format?.raw) {
+    return decodeRawPreview(buffer);
+  }
+
+  let metadata: sharp.Metadata | null = null;
+
+  try {
+    metadata = await sharp(buffer, { failOnError: false }).metadata();
+  } catch (error) {
+    console.warn("[source-image] sharp could not read metadata", error);
+  }
+
+  // sharp reports AVIF as "heif" too; it decodes AV1 itself, so only HEVC needs the fallback
+  const isHeif =
+    (metadata?.format === "heif" && metadata.compression !== "av1") || isHeifContainer(buffer);
+
+  if (isHeif && !canSharpDecodeHevc()) {
+    return decodeHeifWithWasm(buffer);
+  }
+
+  if (!metadata?.width || !metadata?.height) {
+    return null;
+  }
+
+  return withOrientation(
+    {
+      input: buffer,
+      options: {},
+      format: metadata.format ?? null,
+      width: metadata.width,
+      height: metadata.height,
+      embeddedPreview: false,
+    },
+    metadata.orientation ?? 1,
+  );
+}
+
+/**
+ * Opens a correctly oriented sharp pipeline for the source.
+ */
+function openSourceImage(source: SourceImage): Sharp {
+  const image = sharp(source.input, {
+    failOnError: false,
+    limitInputPixels: MAX_INPUT_PIXELS,
+    ...source.options,
+  });
+
+  // sharp always mirrors before rotating, whatever the call order
+  switch (source.orientation) {
+    case 2:
+      return image.flop();
+    case 3:
+      return image.rotate(180);
+    case 4:
+      return image.flip();
+    case 5:
+      return image.rotate(270).flop();
+    case 6:
+      return image.rotate(90);
+    case 7:
+      return image.rotate(90).flop();
+    case 8:
+      return image.rotate(270);
+    default:
+      return image;
+  }
+}
+
+async function decodeRawPreview(buffer: Buffer): Promise<SourceImage | null> {
+  const preview = findLargestEmbeddedPreview(buffer);
+
+  if (!preview) {
+    console.warn("[source-image] No usable embedded preview in RAW file");
+    return null;
+  }
+
+  const input = buffer.subarray(preview.offset);
+
+  try {
+    // Confirms libjpeg can actually decode the candidate the scan picked
+    const metadata = await sharp(input, { failOnError: false }).metadata();
+    if (metadata.format !== "jpeg" || !metadata.width || !metadata.height) {
+      return null;
+    }
+
+    return withOrientation(
+      {
+        input,
+        options: {},
+        format: "jpeg",
+        width: metadata.width,
+        height: metadata.height,
+        embeddedPreview: true,
+      },
+      await readRawOrientation(buffer),
+    );
+  } catch (error) {
+    console.warn("[source-image] Failed to read RAW preview", error);
+    return null;
+  }
+}
+
+function withOrientation(
+  source: Omit<SourceImage, "orientation">,
+  orientation: number,
+): SourceImage {
+  const swapsAxes = orientation >= 5 && orientation <= 8;
+
+  return {
+    ...source,
+    orientation,
+    width: swapsAxes ? source.height : source.width,
+    height: swapsAxes ? source.width : source.height,
+  };
+}
+
+async function decodeHeifWithWasm(buffer: Buffer): Promise<SourceImage | null> {
+  try {
+    const { width, height, data } = await decodeHeic({ buffer });
+
+    // libheif applies the container's rotation/mirror transforms while decoding
+    return {
+      input: Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+      options: { raw: { width, height, channels: 4 } },
+      format: "heif",
+      orientation: 1,
+      width,
+      height,
+      embeddedPreview: false,
+    };
+  } catch (error) {
+    console.warn("[source-image] Failed to decode HEIF", error);
+    return null;
+  }
+}
+
+/**
+ * Whether the installed libvips can decode HEVC-coded HEIF. Custom builds with
+ * libde265 list ".heic" among the heif input suffixes; the prebuilt binaries
+ * only list ".avif".
+ */
+function canSharpDecodeHevc(): boolean {
+  const suffixes = (sharp.format.heif?.input as { fileSuffix?: string[] } | undefined)?.fileSuffix;
+  return Boolean(suffixes?.includes(".heic"));
+}
+
+/**
+ * Checks the ISO-BMFF `ftyp` brands for HEIF/HEIC images. AVIF shares the
+ * generic `mif1`/`msf1` brands, so files listing `avif` or `avis` among
+ * their compatible brands are left to sharp.
+ */
+function isHeifContainer(buffer: Buffer): boolean {
+  if (buffer.length < 12 || buffer.toString("latin1", 4, 8) !== "ftyp") {
+    return false;
+  }
+
+  const brand = buffer.toString("latin1", 8, 12);
+  if (!["heic", "heix", "hevc", "hevx", "mif1", "msf1"].includes(brand)) {
+    return false;
+  }
+
+  // Compatible brands follow the major brand and minor version, up to the box end
+  const boxEnd = Math.min(buffer.readUInt32BE(0), buffer.length);
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    const compatible = buffer.toString("latin1", offset, offset + 4);
+    if (compatible === "avif" || compatible === "avis") {
+      return false;
+    }
+  }
+
+  return true;
+}
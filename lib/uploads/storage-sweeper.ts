@@ -0,0 +1,295 @@
+/**
+ * Garbage collection for upload storage (server only).
+ *
+ * Finds two kinds of leftovers:
+ * - Orphaned prefixes: `photos/{storageId}/` objects no asset, rendition or
+ *   queued upload job refers to. They appear when the browser closes between
+ *   presign and /complete, or when a failed job could not clean up.
+ * - Stale drafts: photos still in `draft` without derived data (processing
+ *   never reached Phase 7), with no job left to retry them.
+ *
+ * Orphans are deleted outright. Stale drafts still have their original and
+ * can be reprocessed, so they only move to the trash and are purged with it.
+ *
+ * Everything is derived from a fresh scan, so sweeping re-checks each
+ * candidate instead of trusting an earlier report.
+ */
+import { type AuditActor, auditPhotoChange } from "@/lib/data/audit-log";
+import { trashPhoto } from "@/lib/data/photo-deletion";
+import { deleteR2Objects, listR2Objects } from "@/lib/r2";
+import { createSupabaseServiceRoleClient } from "@/lib/supabase/server";
+import type {
+  OrphanedStoragePrefix,
+  StaleDraftPhoto,
+  StorageSweepReport,
+  StorageSweepResult,
+} from "@/types/uploads";
+
+const PHOTOS_PREFIX = "photos/";
+
+/**
+ * Prefixes younger than this may belong to an upload the browser has not
+ * completed yet (multipart uploads stay resumable for 24 hours)
+ */
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+
+/** Leaves time to reprocess a failed photo from its page before it is swept */
+const STALE_DRAFT_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** PostgREST caps responses at 1000 rows */
+const PAGE_SIZE = 1000;
+
+const STORAGE_ID_PATTERN = /photos\/([^/]+)\//;
+
+type SupabaseClient = ReturnType<typeof createSupabaseServiceRoleClient>;
+
+interface StoragePrefix {
+  keys: string[];
+  bytes: number;
+  lastModified: Date;
+}
+
+interface StorageScan {
+  report: StorageSweepReport;
+  prefixes: Map<string, StoragePrefix>;
+}
+
+/** Items to sweep; omitted lists mean everything the scan finds */
+export interface StorageSweepSelection {
+  storageIds?: string[];
+  photoIds?: string[];
+}
+
+export async function scanStorage(): Promise<StorageSweepReport> {
+  const { report } = await runScan(createSupabaseServiceRoleClient());
+  return report;
+}
+
+/**
+ * Rescans, deletes the orphans and trashes the stale drafts that are still
+ * candidates. Selected IDs that no longer qualify are skipped.
+ */
+export async function sweepStorage(
+  actor: AuditActor,
+  selection: StorageSweepSelection = {},
+): Promise<{ report: StorageSweepReport; result: StorageSweepResult }> {
+  const supabase = createSupabaseServiceRoleClient();
+  const { report, prefixes } = await runScan(supabase);
+  const selectedStorageIds = selection.storageIds ? new Set(selection.storageIds) : null;
+  const selectedPhotoIds = selection.photoIds ? new Set(selection.photoIds) : null;
+
+  const result: StorageSweepResult = {
+    deletedOrphans: 0,
+    trashedDrafts: 0,
+    deletedObjects: 0,
+    errors: [],
+  };
+
+  for (const orphan of report.orphans) {
+    if (selectedStorageIds && !selectedStorageIds.has(orphan.storageId)) continue;
+
+    const keys = prefixes.get(orphan.storageId)?.keys ?? [];
+    const failed = await deleteR2Objects(keys);
+    result.deletedObjects += keys.length - failed.length;
+
+    if (failed.length > 0) {
+      result.errors.push(`photos/${orphan.storageId}/: ${failed.length} objects could not be deleted`);
+    } else {
+      result.deletedOrphans += 1;
+    }
+  }
+
+  for (const draft of report.staleDrafts) {
+    if (selectedPhotoIds && !selectedPhotoIds.has(draft.photoId)) continue;
+
+    try {
+      await auditPhotoChange(
+        { actor, action: "photo.trash", photoId: draft.photoId, metadata: { staleDraft: true } },
+        () => trashPhoto(draft.photoId, actor?.id ?? null),
+      );
+      result.trashedDrafts += 1;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.errors.push(`Draft ${draft.photoId}: ${message}`);
+    }
+  }
+
+  console.log("[storage-sweeper] Sweep complete", {
+    deletedOrphans: result.deletedOrphans,
+    trashedDrafts: result.trashedDrafts,
+    deletedObjects: result.deletedObjects,
+    errors: result.errors.length,
+  });
+
+  return { report, result };
+}
+
+async function runScan(supabase: SupabaseClient): Promise<StorageScan> {
+  const now = Date.now();
+  const objects = await listR2Objects(PHOTOS_PREFIX);
+
+  const prefixes = new Map<string, StoragePrefix>();
+  for (const object of objects) {
+    const storageId = extractStorageId(object.key);
+    if (!storageId) continue;
+
+    const prefix = prefixes.get(storageId) ?? { keys: [], bytes: 0, lastModified: new Date(0) };
+    prefix.keys.push(object.key);
+    prefix.bytes += object.size;
+    if (object.lastModified > prefix.lastModified) {
+      prefix.lastModified = object.lastModified;
+    }
+    prefixes.set(storageId, prefix);
+  }
+
+  const activeJobs = await fetchActiveJobs(supabase);
+  const referenced = await fetchReferencedStorageIds(supabase);
+  activeJobs.storageIds.forEach((storageId) => referenced.add(storageId));
+
+  const orphans: OrphanedStoragePrefix[] = [];
+  prefixes.forEach((prefix, storageId) => {
+    if (referenced.has(storageId)) return;
+    if (now - prefix.lastModified.getTime() < ORPHAN_GRACE_MS) return;
+
+    orphans.push({
+      storageId,
+      objectCount: prefix.keys.length,
+      bytes: prefix.bytes,
+      lastModified: prefix.lastModified.toISOString(),
+    });
+  });
+  orphans.sort((a, b) => a.lastModified.localeCompare(b.lastModified));
+
+  const staleDrafts = (
+    await fetchStaleDrafts(supabase, new Date(now - STALE_DRAFT_AFTER_MS))
+  )
+    .filter((draft) => !activeJobs.photoIds.has(draft.photoId))
+    .map((draft) => {
+      const prefix = draft.storageId ? prefixes.get(draft.storageId) : undefined;
+      return {
+        ...draft,
+        objectCount: prefix?.keys.length ?? 0,
+        bytes: prefix?.bytes ?? 0,
+      };
+    });
+
+  return {
+    report: {
+      scannedAt: new Date(now).toISOString(),
+      scannedObjects: objects.length,
+      orphans,
+      staleDrafts,
+    },
+    prefixes,
+  };
+}
+
+function extractStorageId(keyOrUrl: string): string | null {
+  return keyOrUrl.match(STORAGE_ID_PATTERN)?.[1] ?? null;
+}
+
+/**
+ * Storage IDs referenced by any asset or rendition URL
+ */
+async function fetchReferencedStorageIds(supabase: SupabaseClient): Promise<Set<string>> {
+  const storageIds = new Set<string>();
+
+  for (const table of ["assets", "photo_rendition"] as const) {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select("url")
+        .like("url", `%/${PHOTOS_PREFIX}%`)
+        .order("url")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw error;
+      }
+
+      for (const row of data ?? []) {
+        const storageId = extractStorageId(row.url as string);
+        if (storageId) storageIds.add(storageId);
+      }
+
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return storageIds;
+}
+
+/**
+ * Photos and uploads a queued or running job is still working on
+ */
+async function fetchActiveJobs(
+  supabase: SupabaseClient,
+): Promise<{ photoIds: Set<string>; storageIds: Set<string> }> {
+  const photoIds = new Set<string>();
+  const storageIds = new Set<string>();
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("photo_job")
+      .select("id, type, photo_id, payload")
+      .in("status", ["queued", "running"])
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const job of data ?? []) {
+      if (job.photo_id) photoIds.add(job.photo_id as string);
+
+      const storageId = (job.payload as { storageId?: unknown } | null)?.storageId;
+      if (job.type === "process_upload" && typeof storageId === "string") {
+        storageIds.add(storageId);
+      }
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return { photoIds, storageIds };
+}
+
+async function fetchStaleDrafts(
+  supabase: SupabaseClient,
+  createdBefore: Date,
+): Promise<Array<Omit<StaleDraftPhoto, "objectCount" | "bytes">>> {
+  const drafts: Array<Omit<StaleDraftPhoto, "objectCount" | "bytes">> = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("photos")
+      .select("id, title, created_at, assets:asset_original_id(url)")
+      .eq("status", "draft")
+      .is("blurhash", null)
+      .is("deleted_at", null)
+      .lt("created_at", createdBefore.toISOString())
+      .order("created_at")
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    for (const photo of data ?? []) {
+      const asset = photo.assets as { url: string } | { url: string }[] | null;
+      const url = Array.isArray(asset) ? asset[0]?.url : asset?.url;
+
+      drafts.push({
+        photoId: photo.id as string,
+        title: (photo.title as string | null) ?? null,
+        createdAt: photo.created_at as string,
+        storageId: url ? extractStorageId(url) : null,
+      });
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return drafts;
+}
@@ -0,0 +1,100 @@
+/**
+ * IndexedDB persistence for multipart upload sessions (browser only).
+ *
+ * A session records which R2 multipart upload belongs to which local file and
+ * the parts already accepted, so an upload interrupted by a reload or a
+ * dropped connection resumes where it stopped once the same file is added
+ * again. Files are matched by name, size and last-modified time; the file
+ * contents are never stored.
+ *
+ * Every function degrades to a no-op when IndexedDB is unavailable (private
+ * browsing in some browsers, server rendering); uploads then simply cannot
+ * be resumed.
+ */
+import type { MultipartUploadedPart } from "@/types/uploads";
+
+const DB_NAME = "photo-uploads";
+const DB_VERSION = 1;
+const STORE_NAME = "multipart-sessions";
+
+export interface UploadSession {
+  /** See getFileFingerprint */
+  fingerprint: string;
+  filename: string;
+  fileSize: number;
+  uploadId: string;
+  storageId: string;
+  key: string;
+  contentType: string;
+  partSize: number;
+  partCount: number;
+  /** Parts R2 has accepted so far */
+  parts: MultipartUploadedPart[];
+  /** Epoch milliseconds */
+  createdAt: number;
+  updatedAt: number;
+}
+
+export function getFileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+export async function getUploadSession(fingerprint: string): Promise<UploadSession | null> {
+  const result = await withStore("readonly", (store) => store.get(fingerprint));
+  return (result as UploadSession | undefined) ?? null;
+}
+
+export async function listUploadSessions(): Promise<UploadSession[]> {
+  const result = await withStore("readonly", (store) => store.getAll());
+  return (result as UploadSession[] | undefined) ?? [];
+}
+
+export async function saveUploadSession(session: UploadSession): Promise<void> {
+  await withStore("readwrite", (store) => store.put(session));
+}
+
+export async function deleteUploadSession(fingerprint: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(fingerprint));
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.resolve(null);
+  }
+
+  dbPromise ??= new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "fingerprint" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("[upload-sessions] IndexedDB unavailable:", request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  if (!db) {
+    return undefined;
+  }
+
+  return new Promise((resolve) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("[upload-sessions] IndexedDB request failed:", request.error);
+      resolve(undefined);
+    };
+  });
+}
@@ -0,0 +1,86 @@
+/**
+ * Validation and R2 key allocation shared by the upload endpoints (single PUT
+ * presign and multipart create). Each upload gets a fresh storage ID so
+ * repeated uploads of the same filename never collide.
+ */
+import { randomUUID } from "node:crypto";
+import path from "node:path";
+
+import {
+  findPhotoFormat,
+  MAX_PHOTO_FILE_SIZE,
+  type PhotoFormat,
+  SUPPORTED_FORMATS_LABEL,
+} from "@/lib/uploads/formats";
+
+export interface UploadTargetRequest {
+  filename: unknown;
+  contentType: unknown;
+  fileSize: unknown;
+}
+
+export interface UploadTarget {
+  storageId: string;
+  key: string;
+  format: PhotoFormat;
+  fileSize: number;
+}
+
+/** Originals live at photos/{storageId}/original.{ext} */
+const UPLOAD_KEY_PATTERN = /^photos\/([0-9a-f-]{36})\/original\.[a-z0-9]+$/;
+
+/**
+ * Validates an upload request and allocates its R2 key.
+ * Returns an error message suitable for a 400 response when invalid.
+ */
+export function resolveUploadTarget(
+  request: UploadTargetRequest,
+): { ok: true; target: UploadTarget } | { ok: false; error: string } {
+  const { filename, contentType, fileSize } = request;
+
+  if (!filename || typeof filename !== "string") {
+    return { ok: false, error: "Missing or invalid filename" };
+  }
+
+  // Browsers often report an empty type for HEIC, so fall back to the extension
+  const format = findPhotoFormat(typeof contentType === "string" ? contentType : null, filename);
+
+  if (!format) {
+    return { ok: false, error: `Unsupported content type. Allowed: ${SUPPORTED_FORMATS_LABEL}` };
+  }
+
+  if (typeof fileSize !== "number" || fileSize <= 0) {
+    return { ok: false, error: "Missing or invalid file size" };
+  }
+
+  if (fileSize > MAX_PHOTO_FILE_SIZE) {
+    return { ok: false, error: `File size exceeds ${MAX_PHOTO_FILE_SIZE / 1024 / 1024}MB limit` };
+  }
+
+  const storageId = randomUUID();
+  const key = `photos/${storageId}/original${inferExtension(filename, format)}`;
+
+  return { ok: true, target: { storageId, key, format, fileSize } };
+}
+
+/**
+ * Whether a client-supplied key points at an upload original, so endpoints
+ * acting on keys cannot be used to touch renditions or other objects.
+ */
+export function isUploadKey(key: unknown): key is string {
+  return typeof key === "string" && UPLOAD_KEY_PATTERN.test(key);
+}
+
+/** Storage ID of an upload key that passed isUploadKey; audit entries are filed under it */
+export function getUploadStorageId(key: string): string | null {
+  return UPLOAD_KEY_PATTERN.exec(key)?.[1] ?? null;
+}
+
+function inferExtension(filename: string, format: PhotoFormat): string {
+  const extFromName = path.extname(filename)?.toLowerCase();
+  if (extFromName && format.extensions.includes(extFromName)) {
+    return extFromName;
+  }
+
+  return format.extensions[0];
+}
@@ -27,7 +27,7 @@ const nextConfig: NextConfig = {
       bodySizeLimit: "100mb",
     },
   },
-  serverExternalPackages: ["sharp", "exifr"],
+  serverExternalPackages: ["sharp", "exifr", "heic-decode"],
 };
 
 export default nextConfig;
@@ -0,0 +1,72 @@
+export type AuditAction =
+  | "photo.upload"
+  | "photo.update"
+  | "photo.visibility"
+  | "photo.geocode"
+  | "photo.reprocess"
+  | "photo.tags"
+  | "photo.location"
+  | "photo.captured_at"
+  | "photo.revert"
+  | "photo.publish"
+  | "photo.archive"
+  | "photo.unarchive"
+  | "photo.trash"
+  | "photo.restore"
+  | "photo.purge"
+  | "photo.share_link_create"
+  | "photo.share_link_revoke"
+  | "album.create"
+  | "album.update"
+  | "album.rules"
+  | "album.reorder"
+  | "album.add_photos"
+  | "album.remove_photos"
+  | "album.reorder_photos"
+  | "album.cover"
+  | "album.delete"
+  | "tag.create"
+  | "tag.update"
+  | "tag.delete"
+  | "tag.merge"
+  | "rendition_profile.create"
+  | "rendition_profile.update"
+  | "rendition_profile.backfill"
+  | "rendition_profile.delete"
+  | "upload.presign"
+  | "upload.multipart_create"
+  | "upload.multipart_complete"
+  | "upload.multipart_abort"
+  | "upload.multipart_cleanup"
+  | "upload.cancel"
+  | "storage.sweep";
+
+export type AuditTargetType =
+  | "photo"
+  | "album"
+  | "tag"
+  | "rendition_profile"
+  | "upload"
+  | "storage";
+
+/** One changed field; a missing side means the field did not exist then (created or deleted) */
+export interface AuditFieldChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditLogEntry {
+  /** Increases with every entry, so it doubles as the paging cursor */
+  id: number;
+  /** Null for system runs such as cron jobs */
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  target_type: AuditTargetType;
+  /** Null for actions that span many items, e.g. a storage sweep; storage ID for uploads */
+  target_id: string | null;
+  /** Changed fields only */
+  changes: Record<string, AuditFieldChange>;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
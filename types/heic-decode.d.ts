@@ -0,0 +1,23 @@
+declare module "heic-decode" {
+  interface DecodedHeicImage {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray;
+  }
+
+  interface HeicImageHandle {
+    width: number;
+    height: number;
+    decode(): Promise<DecodedHeicImage>;
+  }
+
+  function decode(input: { buffer: ArrayBufferLike | Uint8Array }): Promise<DecodedHeicImage>;
+
+  namespace decode {
+    function all(
+      input: { buffer: ArrayBufferLike | Uint8Array },
+    ): Promise<HeicImageHandle[] & { dispose(): void }>;
+  }
+
+  export default decode;
+}
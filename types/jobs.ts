@@ -0,0 +1,88 @@
+export type PhotoJobType =
+  | "process_upload"
+  | "reprocess_photo"
+  | "geocode_photo"
+  | "generate_renditions";
+export type PhotoJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface ProcessUploadJobPayload {
+  /** Photo ID reserved at enqueue time so the job can be linked before the row exists */
+  photoId: string;
+  storageId: string;
+  originalKey: string;
+  originalFilename: string;
+  contentType: string;
+}
+
+export interface ReprocessPhotoJobPayload {
+  photoId: string;
+}
+
+export interface GeocodePhotoJobPayload {
+  photoId: string;
+  latitude: number;
+  longitude: number;
+}
+
+/** Backfill: generates only the listed profiles' missing renditions */
+export interface GenerateRenditionsJobPayload {
+  photoId: string;
+  profileIds: string[];
+}
+
+export interface PhotoJobPayloads {
+  process_upload: ProcessUploadJobPayload;
+  reprocess_photo: ReprocessPhotoJobPayload;
+  geocode_photo: GeocodePhotoJobPayload;
+  generate_renditions: GenerateRenditionsJobPayload;
+}
+
+export interface PhotoJob<T extends PhotoJobType = PhotoJobType> {
+  id: string;
+  type: T;
+  status: PhotoJobStatus;
+  phase: PhotoJobPhase | null;
+  progress: number;
+  photo_id: string | null;
+  payload: PhotoJobPayloads[T];
+  result: Record<string, unknown> | null;
+  attempts: number;
+  max_attempts: number;
+  last_error: string | null;
+  run_after: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  created_by: string | null;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+/** Pipeline phases reported while a processing job runs (see lib/uploads/photo-processor.ts) */
+export type PhotoJobPhase =
+  | "read"
+  | "metadata"
+  | "db"
+  | "renditions"
+  | "upload"
+  | "derived"
+  | "finalize";
+
+/** Response of GET /api/admin/jobs/[job-id] */
+export interface PhotoJobStatusResponse {
+  id: string;
+  type: PhotoJobType;
+  status: PhotoJobStatus;
+  phase: PhotoJobPhase | null;
+  percent: number;
+  attempts: number;
+  maxAttempts: number;
+  photoId: string | null;
+  result: Record<string, unknown> | null;
+  error: { message: string; willRetry: boolean } | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  updatedAt: string;
+}
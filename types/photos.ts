@@ -39,15 +39,40 @@ export interface Photo {
   is_visible: boolean;
   status: PhotoStatus;
   visibility: PhotoVisibility;
+  /** When a "scheduled" photo goes live, see `publishDuePhotos`; kept after publishing */
+  publish_at: string | null;
+  /** Set while the photo is in the trash; purged TRASH_RETENTION_DAYS later */
+  deleted_at: string | null;
+  deleted_by: string | null;
   created_by: string | null;
   created_at: string;
   updated_by: string | null;
   updated_at: string;
 }
 
+export type RenditionFormat = "jpeg" | "webp" | "avif";
+export type RenditionFit = "inside" | "cover" | "contain";
+
+export interface RenditionProfile {
+  id: string;
+  /** Used as `photo_rendition.variant_name` and the R2 file name; fixed once created */
+  name: string;
+  max_edge: number;
+  fit: RenditionFit;
+  quality: number;
+  formats: RenditionFormat[];
+  /** "W:H", e.g. "1:1"; null keeps the photo's aspect ratio */
+  crop_aspect: string | null;
+  created_at: string;
+  created_by: string | null;
+  updated_at: string;
+  updated_by: string | null;
+}
+
 export interface PhotoRendition {
   photo_id: string;
   variant_name: "thumb" | "list" | "detail" | string;
+  format: RenditionFormat;
   url: string;
   width: number | null;
   height: number | null;
@@ -59,10 +84,20 @@ export interface PhotoRendition {
   updated_by: string | null;
 }
 
+/** All encoded files of one rendition variant, e.g. for `<picture>` sources */
+export interface PhotoRenditionVariant {
+  variant_name: PhotoRendition["variant_name"];
+  width: number | null;
+  height: number | null;
+  formats: Partial<Record<RenditionFormat, PhotoRendition>>;
+}
+
 export interface PhotoExif {
   photo_id: string;
   camera_make: string | null;
   camera_model: string | null;
+  /** Make and model for display and faceting (generated) */
+  camera: string | null;
   lens_model: string | null;
   focal_length_mm: string | null;
   aperture: string | null;
@@ -75,6 +110,7 @@ export interface PhotoExif {
   exif_datetime_original: string | null;
   color_space: string | null;
   bit_depth: number | null;
+  exif_tags: Record<string, unknown> | null;
   created_at: string;
   created_by: string | null;
   updated_at: string;
@@ -98,7 +134,10 @@ export interface PhotoHistogram {
 
 export interface Tag {
   id: string;
+  /** Tags nest, e.g. Travel > Japan > Kyoto */
+  parent_id: string | null;
   name: string;
+  /** Path-style, the parent's slug plus this tag's segment: "travel/japan/kyoto" */
   slug: string | null;
   description: string | null;
   color: string | null;
@@ -117,9 +156,94 @@ export interface PhotoTag {
   updated_by: string | null;
 }
 
+export interface Album {
+  id: string;
+  title: string;
+  slug: string;
+  description: string | null;
+  cover_photo_id: string | null;
+  is_visible: boolean;
+  /** Order on the albums page, ascending */
+  position: number;
+  /** Filter rules of a smart album as saved, see `lib/smart-album-rules.ts`; null for a manual album */
+  rules: Record<string, unknown> | null;
+  created_at: string;
+  created_by: string | null;
+  updated_at: string;
+  updated_by: string | null;
+}
+
+/** Link to an unlisted photo; the token is derived from the row, see `lib/share-tokens.ts` */
+export interface PhotoShareLink {
+  id: string;
+  photo_id: string;
+  /** Null for a link that never expires */
+  expires_at: string | null;
+  revoked_at: string | null;
+  revoked_by: string | null;
+  created_at: string;
+  created_by: string | null;
+}
+
+/** Descriptive fields kept in photo revisions; publishing state is not versioned */
+export type PhotoRevisionField =
+  | "title"
+  | "description"
+  | "captured_at"
+  | "place_name"
+  | "city"
+  | "region"
+  | "country";
+
+/**
+ * - initial: the fields before the first versioned change
+ * - edit: saved from the detail form
+ * - geocode: filled by a location lookup
+ * - revert: restored from an earlier revision
+ */
+export type PhotoRevisionSource = "initial" | "edit" | "geocode" | "bulk" | "revert";
+
+export interface PhotoRevision {
+  /** Increases with every revision, so it orders a photo's history */
+  id: number;
+  photo_id: string;
+  source: PhotoRevisionSource;
+  /** Field values after the change */
+  fields: Pick<Photo, PhotoRevisionField>;
+  /** Fields changed since the previous revision; empty for an initial revision */
+  changes: Partial<Record<PhotoRevisionField, { before: unknown; after: unknown }>>;
+  /** The revision restored, for reverts */
+  reverted_from: number | null;
+  created_at: string;
+  created_by: string | null;
+}
+
+export interface AlbumPhoto {
+  album_id: string;
+  photo_id: string;
+  /** Order within the album, ascending */
+  position: number;
+  created_at: string;
+  created_by: string | null;
+}
+
 export interface PhotoDetail extends Photo {
   renditions: PhotoRendition[];
+  variants: PhotoRenditionVariant[];
   exif: PhotoExif | null;
   histogram: PhotoHistogram | null;
   tags: Tag[];
 }
+
+/** Outcome of a bulk action for one photo */
+export interface BulkPhotoResult {
+  photoId: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface BulkPhotoActionResult {
+  results: BulkPhotoResult[];
+  succeeded: number;
+  failed: number;
+}
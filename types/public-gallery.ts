@@ -0,0 +1,97 @@
+import type { RenditionFormat } from "@/types/photos";
+
+/**
+ * Response shapes of the public gallery API (`/api/public/v1`). They only
+ * carry what the public site needs: no user IDs, storage keys, coordinates
+ * or raw EXIF.
+ */
+
+export interface PublicRendition {
+  url: string;
+  width: number | null;
+  height: number | null;
+  file_size: number | null;
+}
+
+/** One rendition size, e.g. "list", in every encoded format */
+export interface PublicPhotoVariant {
+  name: string;
+  width: number | null;
+  height: number | null;
+  formats: Partial<Record<RenditionFormat, PublicRendition>>;
+}
+
+/** The EXIF fields allowed out, see PUBLIC_EXIF_FIELDS */
+export interface PublicExif {
+  camera_make: string | null;
+  camera_model: string | null;
+  camera: string | null;
+  lens_model: string | null;
+  focal_length_mm: number | null;
+  aperture: number | null;
+  shutter_s: number | null;
+  iso: number | null;
+  exposure_compensation_ev: number | null;
+}
+
+/** Place names only; coordinates are never published */
+export interface PublicLocation {
+  place_name: string | null;
+  city: string | null;
+  region: string | null;
+  country: string | null;
+}
+
+export interface PublicPhoto {
+  id: string;
+  title: string | null;
+  description: string | null;
+  captured_at: string | null;
+  width: number;
+  height: number;
+  aspect_ratio: string | null;
+  orientation: "landscape" | "portrait" | "square" | null;
+  location: PublicLocation;
+  dominant_color: string | null;
+  blurhash: string | null;
+  variants: PublicPhotoVariant[];
+  exif: PublicExif | null;
+}
+
+export interface PublicTagRef {
+  slug: string;
+  name: string;
+}
+
+export interface PublicPhotoDetail extends PublicPhoto {
+  tags: PublicTagRef[];
+}
+
+export interface PublicTag extends PublicTagRef {
+  /** Slug of the parent tag; null at the top level */
+  parent_slug: string | null;
+  description: string | null;
+  color: string | null;
+  /** Public photos carrying the tag itself, not counting descendants */
+  photo_count: number;
+}
+
+export interface PublicAlbum {
+  slug: string;
+  title: string;
+  description: string | null;
+  /** The chosen cover when it is public, otherwise the first public photo */
+  cover: PublicPhoto | null;
+  photo_count: number;
+  updated_at: string;
+}
+
+export interface PublicPage<T> {
+  items: T[];
+  /** Pass as `cursor` for the following page; null on the last page */
+  nextCursor: string | null;
+}
+
+export interface PublicAlbumDetail extends PublicAlbum {
+  photos: PublicPage<PublicPhoto>;
+}
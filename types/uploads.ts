@@ -0,0 +1,73 @@
+/** A part R2 has accepted, identified by the ETag it returned */
+export interface MultipartUploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+/** Response of POST /api/admin/photos/upload/multipart/create */
+export interface MultipartCreateResponse {
+  uploadId: string;
+  storageId: string;
+  key: string;
+  /** Canonical content type the object was created with */
+  contentType: string;
+  partSize: number;
+  partCount: number;
+}
+
+/** Response of POST /api/admin/photos/upload/multipart/parts */
+export interface MultipartPartsResponse {
+  urls: Array<{ partNumber: number; url: string }>;
+  /** Parts R2 already holds; only listed when requested */
+  uploaded?: Array<MultipartUploadedPart & { size: number }>;
+  expiresAt: string;
+}
+
+/** Response of POST /api/admin/photos/upload/multipart/cleanup */
+export interface MultipartCleanupResponse {
+  aborted: number;
+}
+
+/** An R2 prefix `photos/{storageId}/` that no photo, rendition or queued job refers to */
+export interface OrphanedStoragePrefix {
+  storageId: string;
+  objectCount: number;
+  bytes: number;
+  /** Newest object in the prefix (ISO timestamp) */
+  lastModified: string;
+}
+
+/** A draft photo whose processing never finished and is no longer being retried */
+export interface StaleDraftPhoto {
+  photoId: string;
+  title: string | null;
+  createdAt: string;
+  /** Null when the original asset URL is outside `photos/` */
+  storageId: string | null;
+  objectCount: number;
+  bytes: number;
+}
+
+export interface StorageSweepReport {
+  scannedAt: string;
+  scannedObjects: number;
+  orphans: OrphanedStoragePrefix[];
+  staleDrafts: StaleDraftPhoto[];
+}
+
+export interface StorageSweepResult {
+  deletedOrphans: number;
+  /** Stale drafts moved to the trash; their files go when the trash is purged */
+  trashedDrafts: number;
+  deletedObjects: number;
+  /** One message per prefix or draft that could not be removed */
+  errors: string[];
+}
+
+/** Response of GET/POST /api/admin/storage/sweep */
+export interface StorageSweepResponse {
+  dryRun: boolean;
+  report: StorageSweepReport;
+  /** Only set when the sweep was confirmed */
+  result?: StorageSweepResult;
+}